@@ -1,4 +1,5 @@
 import dotenv from "dotenv";
+import os from "os";
 
 if (process.env.NODE_ENV !== "production") {
   dotenv.config({ path: ".env.development.local" });
@@ -28,10 +29,30 @@ function parseNearRpcUrls(): string[] {
 export const config = {
   nearRpcUrls: parseNearRpcUrls(),
   nearSeedPhrase: process.env.NEAR_SEED_PHRASE || "",
+  /**
+   * "redis" (list, default), "redis-streams" (consumer group, safe for several
+   * replicas) or "memory" for an in-process queue without Redis
+   */
+  queueBackend: process.env.QUEUE_BACKEND || "redis",
+  /** Where intent status and step checkpoints live; follows QUEUE_BACKEND by default */
+  stateBackend:
+    process.env.STATE_BACKEND ||
+    (process.env.QUEUE_BACKEND === "memory" ? "memory" : "redis"),
   redisUrl: process.env.REDIS_URL || "redis://127.0.0.1:6379",
   redisQueueKey: process.env.REDIS_QUEUE_KEY || "near:intents",
   redisVisibilityMs:
     parseInt(process.env.REDIS_VISIBILITY_MS || "", 10) || 30_000,
+  /** How often to return expired `:processing` messages to the queue */
+  redisReaperIntervalMs:
+    parseInt(process.env.REDIS_REAPER_INTERVAL_MS || "", 10) || 10_000,
+  /** How often to move due scheduled intents (`executeAfter`) onto the queue */
+  schedulerIntervalMs:
+    parseInt(process.env.SCHEDULER_INTERVAL_MS || "", 10) || 1_000,
+  redisStreamKey: process.env.REDIS_STREAM_KEY || "near:intents:stream",
+  redisStreamGroup: process.env.REDIS_STREAM_GROUP || "intent-workers",
+  /** Must be unique per replica; pending entries are owned by consumer name */
+  redisStreamConsumer:
+    process.env.REDIS_STREAM_CONSUMER || `${os.hostname()}-${process.pid}`,
   deadLetterKey: process.env.REDIS_DEAD_LETTER_KEY || "near:intents:dead-letter",
   maxIntentAttempts:
     parseInt(process.env.MAX_INTENT_ATTEMPTS || "", 10) || 3,
@@ -39,6 +60,38 @@ export const config = {
     parseInt(process.env.INTENT_RETRY_BACKOFF_MS || "", 10) || 1_000,
   statusTtlSeconds:
     parseInt(process.env.STATUS_TTL_SECONDS || "", 10) || 24 * 60 * 60,
+  /** Oldest timeline events are dropped past this many per intent */
+  statusHistoryMaxEvents:
+    parseInt(process.env.STATUS_HISTORY_MAX_EVENTS || "", 10) || 200,
+  /**
+   * Directory of the JSONL archive of terminal intents, kept past
+   * STATUS_TTL_SECONDS; archiving is off when unset
+   */
+  archiveDir: process.env.ARCHIVE_DIR || "",
+  /** Interval of `heartbeat` events on status SSE streams, so proxies keep them open */
+  sseHeartbeatMs:
+    parseInt(process.env.SSE_HEARTBEAT_MS || "", 10) || 15_000,
+  /** HMAC-SHA256 key for webhook signatures; `callbackUrl` is rejected when unset */
+  webhookSecret: process.env.WEBHOOK_SECRET || "",
+  /** Delivery attempts per webhook before it is marked failed */
+  webhookMaxAttempts:
+    parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "", 10) || 8,
+  /** Delay before the first webhook retry; doubles per attempt, up to an hour */
+  webhookRetryBackoffMs:
+    parseInt(process.env.WEBHOOK_RETRY_BACKOFF_MS || "", 10) || 5_000,
+  webhookTimeoutMs:
+    parseInt(process.env.WEBHOOK_TIMEOUT_MS || "", 10) || 10_000,
+  /**
+   * Hosts a `callbackUrl` may point at even though they resolve to a private,
+   * loopback or link-local address (comma-separated); others are refused
+   */
+  webhookAllowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+  /** How often the dispatcher looks for due webhook deliveries */
+  webhookPollIntervalMs:
+    parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "", 10) || 1_000,
   jupiterMaxAttempts:
     parseInt(process.env.JUPITER_MAX_ATTEMPTS || "", 10) || 3,
   jupiterRetryBackoffMs:
@@ -75,6 +128,32 @@ export const config = {
       : process.env.ENABLE_QUEUE === "false"
         ? false
         : !isTestnet,
+  /** Bearer token for /api/admin routes; admin routes are disabled when unset */
+  adminApiKey: process.env.ADMIN_API_KEY || "",
+  /** TTL of the per-user lock held while an intent runs; renewed every ttl/3 */
+  userLockTtlMs:
+    parseInt(process.env.USER_LOCK_TTL_MS || "", 10) || 30_000,
+  /**
+   * Longest an intent waits on a 1-Click swap before it is marked expired.
+   * Keep it below STATUS_TTL_SECONDS, or the status may expire first
+   */
+  intentsMaxWaitMs:
+    parseInt(process.env.INTENTS_MAX_WAIT_MS || "", 10) || 6 * 60 * 60 * 1000,
+  /**
+   * Lease of the intents poller's leader; only the leader polls, and another
+   * replica takes over within this long after it dies
+   */
+  pollerLeaseMs:
+    parseInt(process.env.POLLER_LEASE_MS || "", 10) || 30_000,
+  /**
+   * Lowest Burrow health factor (100 = liquidation) a collateral decrease may
+   * leave the account at
+   */
+  burrowMinHealthFactor:
+    parseFloat(process.env.BURROW_MIN_HEALTH_FACTOR || "") || 120,
+  /** How long shutdown waits for in-progress intents before leaving them to the reaper */
+  shutdownTimeoutMs:
+    parseInt(process.env.SHUTDOWN_TIMEOUT_MS || "", 10) || 30_000,
   /** Number of intents to process in parallel (default: 5) */
   queueConcurrency:
     parseInt(process.env.QUEUE_CONCURRENCY || "", 10) || 5,
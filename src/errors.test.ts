@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  AuthorizationError,
+  ProtocolRejectedError,
+  TransientError,
+  classifyError,
+  httpError,
+  retryDelayMs,
+  solanaTransactionError,
+} from "./errors";
+import { config } from "./config";
+
+describe("classifyError", () => {
+  it("uses the class and code of typed errors", () => {
+    expect(classifyError(new AuthorizationError("Authorization failed", "invalid_signature"))).toEqual({
+      errorClass: "authorization",
+      code: "invalid_signature",
+      retryable: false,
+      message: "Authorization failed",
+    });
+    expect(classifyError(new TransientError("NEAR RPC error", "rpc_error")).retryable).toBe(true);
+  });
+
+  it("treats network failures as transient", () => {
+    const err = new TypeError("fetch failed", { cause: { code: "ECONNRESET" } });
+    expect(classifyError(err)).toMatchObject({ errorClass: "transient", code: "network_error", retryable: true });
+  });
+
+  it("keeps unrecognised errors retryable", () => {
+    expect(classifyError(new Error("boom"))).toMatchObject({ errorClass: "unknown", retryable: true });
+  });
+});
+
+describe("error helpers", () => {
+  it("maps HTTP status to transient or rejected", () => {
+    expect(httpError("quote failed", 429)).toMatchObject({ errorClass: "transient", code: "rate_limited" });
+    expect(httpError("quote failed", 503)).toMatchObject({ errorClass: "transient", code: "upstream_unavailable" });
+    expect(httpError("quote failed", 400)).toBeInstanceOf(ProtocolRejectedError);
+  });
+
+  it("recognises insufficient funds in Solana transaction errors", () => {
+    expect(solanaTransactionError({ InstructionError: [0, "InsufficientFundsForRent"] }).errorClass).toBe(
+      "insufficient_funds",
+    );
+    expect(solanaTransactionError({ InstructionError: [0, { Custom: 6001 }] }).errorClass).toBe("onchain_failed");
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("backs off exponentially per class with jitter and a cap", () => {
+    const unit = config.intentRetryBackoffMs;
+    expect(retryDelayMs("transient", 1, () => 0)).toBe(unit / 2);
+    expect(retryDelayMs("transient", 1, () => 1)).toBe(unit);
+    expect(retryDelayMs("transient", 3, () => 1)).toBe(4 * unit);
+    expect(retryDelayMs("onchain_failed", 1, () => 1)).toBe(5 * unit);
+    expect(retryDelayMs("transient", 20, () => 1)).toBe(30 * unit);
+  });
+});
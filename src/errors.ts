@@ -0,0 +1,158 @@
+import { config } from "./config";
+
+/**
+ * Error classes thrown by flows and utils. The consumer retries only the
+ * retryable ones; everything else fails the intent on the first attempt.
+ */
+export type ErrorClass =
+  | "validation"
+  | "authorization"
+  | "configuration"
+  | "protocol_rejected"
+  | "insufficient_funds"
+  | "transient"
+  | "onchain_failed"
+  | "unknown";
+
+export class IntentError extends Error {
+  readonly errorClass: ErrorClass;
+  /** Stable, machine-readable reason, e.g. "invalid_signature" */
+  readonly code: string;
+
+  constructor(errorClass: ErrorClass, code: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.errorClass = errorClass;
+    this.code = code;
+  }
+}
+
+/** The intent itself is malformed or missing required fields */
+export class ValidationError extends IntentError {
+  constructor(message: string, code = "invalid_intent") {
+    super("validation", code, message);
+  }
+}
+
+/** The user's signature is missing, of the wrong kind or does not verify */
+export class AuthorizationError extends IntentError {
+  constructor(message: string, code = "unauthorized") {
+    super("authorization", code, message);
+  }
+}
+
+/** This deployment is missing a setting the flow needs */
+export class ConfigurationError extends IntentError {
+  constructor(message: string, code = "missing_config") {
+    super("configuration", code, message);
+  }
+}
+
+/** The protocol or API refused the request as such (unsupported token, no route, ...) */
+export class ProtocolRejectedError extends IntentError {
+  constructor(message: string, code = "rejected", options?: { cause?: unknown }) {
+    super("protocol_rejected", code, message, options);
+  }
+}
+
+/** The user or agent account does not hold enough to cover the action */
+export class InsufficientFundsError extends IntentError {
+  constructor(message: string, code = "insufficient_funds") {
+    super("insufficient_funds", code, message);
+  }
+}
+
+/** RPC or API hiccup (timeouts, 5xx, rate limits) that may succeed when retried */
+export class TransientError extends IntentError {
+  constructor(message: string, code = "transient", options?: { cause?: unknown }) {
+    super("transient", code, message, options);
+  }
+}
+
+/**
+ * A transaction landed but failed on-chain. Often stale state (prices,
+ * blockhash), so it is retried, but less eagerly than a transient error.
+ */
+export class OnChainError extends IntentError {
+  constructor(message: string, code = "transaction_failed") {
+    super("onchain_failed", code, message);
+  }
+}
+
+const RETRYABLE_CLASSES: readonly ErrorClass[] = ["transient", "onchain_failed", "unknown"];
+
+/** Network failures surfaced by fetch/undici or Node sockets */
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"];
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  code: string;
+  retryable: boolean;
+  message: string;
+}
+
+/**
+ * Maps any thrown value to an error class. Unrecognised errors count as
+ * "unknown" and stay retryable, as every error was before classes existed.
+ */
+export function classifyError(err: unknown): ClassifiedError {
+  const message = (err as Error)?.message || "unknown error";
+  let errorClass: ErrorClass = "unknown";
+  let code = "unclassified";
+
+  if (err instanceof IntentError) {
+    errorClass = err.errorClass;
+    code = err.code;
+  } else if (isNetworkError(err)) {
+    errorClass = "transient";
+    code = "network_error";
+  }
+
+  return { errorClass, code, retryable: RETRYABLE_CLASSES.includes(errorClass), message };
+}
+
+function isNetworkError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  // fetchWithTimeout aborts the request when it runs out of time
+  if (err.name === "AbortError" || err.name === "TimeoutError") return true;
+  const code = (err as { code?: string }).code ?? (err.cause as { code?: string } | undefined)?.code;
+  if (code && NETWORK_ERROR_CODES.includes(code)) return true;
+  return err instanceof TypeError && err.message === "fetch failed";
+}
+
+/**
+ * Maps a failed HTTP response to an error: rate limits and 5xx are transient,
+ * anything else means the API rejected the request.
+ */
+export function httpError(message: string, status: number): IntentError {
+  if (status === 429) return new TransientError(message, "rate_limited");
+  if (status >= 500) return new TransientError(message, "upstream_unavailable");
+  return new ProtocolRejectedError(message, "request_rejected");
+}
+
+/** Maps a Solana transaction error (`err` from getSignatureStatuses) to an error */
+export function solanaTransactionError(txError: unknown): IntentError {
+  const detail = JSON.stringify(txError);
+  if (/InsufficientFunds/.test(detail)) {
+    return new InsufficientFundsError(`Transaction failed: ${detail}`);
+  }
+  return new OnChainError(`Transaction failed: ${detail}`);
+}
+
+/** Base delay and cap per retryable class, as multiples of INTENT_RETRY_BACKOFF_MS */
+const BACKOFF: Partial<Record<ErrorClass, { base: number; cap: number }>> = {
+  transient: { base: 1, cap: 30 },
+  onchain_failed: { base: 5, cap: 60 },
+  unknown: { base: 2, cap: 30 },
+};
+
+/**
+ * Exponential backoff for the attempt that just failed (1-based), with half of
+ * it randomised so intents that failed together do not retry in lockstep.
+ */
+export function retryDelayMs(errorClass: ErrorClass, attempt: number, random = Math.random): number {
+  const { base, cap } = BACKOFF[errorClass] ?? BACKOFF.unknown!;
+  const unit = config.intentRetryBackoffMs;
+  const delay = Math.min(cap * unit, base * unit * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
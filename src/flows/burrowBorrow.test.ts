@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config";
+import { AuthorizationError, ProtocolRejectedError } from "../errors";
+import { BurrowBorrowMetadata, ValidatedIntent } from "../queue/types";
+import { BURROW_CONTRACT } from "../utils/burrow";
+import { executeBurrowBorrowFlow } from "./burrowBorrow";
+
+config.stateBackend = "memory";
+
+const {
+  verifyMock,
+  getAssetsPagedDetailedMock,
+  ensureDerivedAccountExistsMock,
+  executeMetaTransactionMock,
+  bridgeBackFromNearMock,
+} = vi.hoisted(() => ({
+  verifyMock: vi.fn(),
+  getAssetsPagedDetailedMock: vi.fn(),
+  ensureDerivedAccountExistsMock: vi.fn(),
+  executeMetaTransactionMock: vi.fn(),
+  bridgeBackFromNearMock: vi.fn(),
+}));
+
+vi.mock("../utils/nearSignature", () => ({
+  verifyNearIntentAuthorization: verifyMock,
+}));
+
+vi.mock("../utils/burrow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/burrow")>()),
+  getAssetsPagedDetailed: getAssetsPagedDetailedMock,
+}));
+
+vi.mock("../utils/nearMetaTx", () => ({
+  executeMetaTransaction: executeMetaTransactionMock,
+  ensureDerivedAccountExists: ensureDerivedAccountExistsMock,
+  createFunctionCallAction: (methodName: string, args: object) => ({ methodName, args }),
+  GAS_FOR_FT_TRANSFER_CALL: 1n,
+  ONE_YOCTO: 1n,
+}));
+
+vi.mock("./nearBridgeBack", () => ({
+  bridgeBackFromNear: bridgeBackFromNearMock,
+}));
+
+let intentCounter = 0;
+
+function borrowIntent(metadata: Partial<BurrowBorrowMetadata> = {}): ValidatedIntent {
+  return {
+    intentId: `burrow-borrow-${++intentCounter}`,
+    sourceChain: "near",
+    sourceAsset: "usdc.near",
+    sourceAmount: "1000000",
+    destinationChain: "near",
+    finalAsset: "usdc.near",
+    userDestination: "user.near",
+    agentDestination: "agent.near",
+    slippageBps: 300,
+    nearPublicKey: "ed25519:key",
+    metadata: {
+      action: "burrow-borrow",
+      tokenId: "usdc.near",
+      bridgeBack: {
+        destinationChain: "zcash",
+        destinationAddress: "t1user",
+        destinationAsset: "nep141:zec.omft.near",
+      },
+      ...metadata,
+    },
+  } as ValidatedIntent;
+}
+
+describe("executeBurrowBorrowFlow", () => {
+  beforeEach(() => {
+    verifyMock.mockReset().mockResolvedValue(undefined);
+    getAssetsPagedDetailedMock.mockReset().mockResolvedValue([
+      { token_id: "usdc.near", config: { extra_decimals: 12, can_borrow: true } },
+    ]);
+    ensureDerivedAccountExistsMock.mockReset().mockResolvedValue({ accountId: "derived.near" });
+    executeMetaTransactionMock.mockReset().mockResolvedValue("borrow-tx");
+    bridgeBackFromNearMock.mockReset();
+    bridgeBackFromNearMock.mockResolvedValue({ txId: "bridge-tx", depositAddress: "deposit-address" });
+  });
+
+  it("borrows to the derived account and bridges the tokens on", async () => {
+    const intent = borrowIntent();
+
+    const result = await executeBurrowBorrowFlow(intent);
+
+    expect(verifyMock).toHaveBeenCalledWith(intent, "Burrow borrow");
+    expect(ensureDerivedAccountExistsMock).toHaveBeenCalledWith("user.near");
+    expect(executeMetaTransactionMock).toHaveBeenCalledWith(
+      "user.near",
+      BURROW_CONTRACT,
+      [{
+        methodName: "execute_with_pyth",
+        args: {
+          actions: [
+            { Borrow: { token_id: "usdc.near", amount: "1000000000000000000" } },
+            { Withdraw: { token_id: "usdc.near", max_amount: "1000000000000000000" } },
+          ],
+        },
+      }],
+      { skipAccountCheck: true },
+    );
+    expect(bridgeBackFromNearMock).toHaveBeenCalledWith(
+      intent,
+      (intent.metadata as BurrowBorrowMetadata).bridgeBack,
+      "usdc.near",
+      "1000000",
+      "burrowBorrow",
+    );
+    expect(result).toEqual({
+      txId: "borrow-tx",
+      bridgeTxId: "bridge-tx",
+      intentsDepositAddress: "deposit-address",
+    });
+  });
+
+  it("leaves the borrowed tokens on the derived account without bridgeBack", async () => {
+    const result = await executeBurrowBorrowFlow(borrowIntent({ bridgeBack: undefined }));
+
+    expect(bridgeBackFromNearMock).not.toHaveBeenCalled();
+    expect(result).toEqual({ txId: "borrow-tx" });
+  });
+
+  it("resumes at the bridge without borrowing again after the bridge failed", async () => {
+    bridgeBackFromNearMock
+      .mockReset()
+      .mockRejectedValueOnce(new Error("quote unavailable"))
+      .mockResolvedValueOnce({ txId: "bridge-tx", depositAddress: "deposit-address" });
+    const intent = borrowIntent();
+
+    await expect(executeBurrowBorrowFlow(intent)).rejects.toThrow("quote unavailable");
+    const result = await executeBurrowBorrowFlow(intent);
+
+    expect(ensureDerivedAccountExistsMock).toHaveBeenCalledTimes(1);
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(1);
+    expect(bridgeBackFromNearMock).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ txId: "borrow-tx", bridgeTxId: "bridge-tx" });
+  });
+
+  it("borrows nothing when the signature is rejected", async () => {
+    verifyMock.mockRejectedValue(
+      new AuthorizationError("Authorization failed: invalid signature", "invalid_signature"),
+    );
+
+    await expect(executeBurrowBorrowFlow(borrowIntent())).rejects.toThrow(AuthorizationError);
+    expect(ensureDerivedAccountExistsMock).not.toHaveBeenCalled();
+    expect(executeMetaTransactionMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a token Burrow doesn't lend", async () => {
+    getAssetsPagedDetailedMock.mockResolvedValue([
+      { token_id: "usdc.near", config: { extra_decimals: 12, can_borrow: false } },
+    ]);
+
+    await expect(executeBurrowBorrowFlow(borrowIntent())).rejects.toThrow(ProtocolRejectedError);
+    expect(executeMetaTransactionMock).not.toHaveBeenCalled();
+  });
+});
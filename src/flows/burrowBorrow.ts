@@ -0,0 +1,115 @@
+import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
+import { BurrowBorrowMetadata, ValidatedIntent } from "../queue/types";
+import {
+  getAssetsPagedDetailed,
+  buildBorrowArgs,
+  BURROW_CONTRACT,
+  GAS_FOR_EXECUTE_WITH_PYTH,
+} from "../utils/burrow";
+import { verifyNearIntentAuthorization } from "../utils/nearSignature";
+import {
+  executeMetaTransaction,
+  ensureDerivedAccountExists,
+  createFunctionCallAction,
+  ONE_YOCTO,
+} from "../utils/nearMetaTx";
+import { runStep } from "../state/checkpoints";
+import { bridgeBackFromNear } from "./nearBridgeBack";
+
+interface BurrowBorrowResult {
+  txId: string;
+  bridgeTxId?: string;
+  intentsDepositAddress?: string;
+}
+
+export function isBurrowBorrowIntent(
+  intent: ValidatedIntent,
+): intent is ValidatedIntent & { metadata: BurrowBorrowMetadata } {
+  const meta = intent.metadata as BurrowBorrowMetadata | undefined;
+  return meta?.action === "burrow-borrow" && !!meta.tokenId;
+}
+
+/**
+ * Borrows `sourceAmount` of the token against the collateral the user's
+ * derived account holds in Burrow. The borrowed tokens are withdrawn to the
+ * derived account, or bridged on when bridgeBack is set.
+ */
+export async function executeBurrowBorrowFlow(
+  intent: ValidatedIntent,
+): Promise<BurrowBorrowResult> {
+  await verifyNearIntentAuthorization(intent, "Burrow borrow");
+
+  const meta = intent.metadata as BurrowBorrowMetadata;
+
+  if (config.dryRunSwaps) {
+    const result: BurrowBorrowResult = { txId: `dry-run-burrow-borrow-${intent.intentId}` };
+    if (meta.bridgeBack) {
+      result.bridgeTxId = `dry-run-bridge-${intent.intentId}`;
+      result.intentsDepositAddress = "dry-run-deposit-address";
+    }
+    return result;
+  }
+
+  if (!intent.userDestination) {
+    throw new ValidationError("Burrow borrow requires userDestination for custody isolation");
+  }
+
+  // Verify the token can be borrowed
+  const assets = await getAssetsPagedDetailed();
+  const asset = assets.find((a) => a.token_id === meta.tokenId);
+
+  if (!asset) {
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} is not supported by Burrow`, "token_not_supported");
+  }
+
+  if (!asset.config.can_borrow) {
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} cannot be borrowed from Burrow`, "borrow_disabled");
+  }
+
+  const borrowAmount = intent.sourceAmount;
+  const userDestination = intent.userDestination;
+
+  // Fund the derived implicit account once, even across retries
+  await runStep(intent.intentId, "fund-implicit-account", () =>
+    ensureDerivedAccountExists(userDestination),
+  );
+
+  const { txId: txHash } = await runStep(intent.intentId, "borrow", async () => {
+    const action = createFunctionCallAction(
+      "execute_with_pyth",
+      buildBorrowArgs(meta.tokenId, borrowAmount, asset.config.extra_decimals),
+      GAS_FOR_EXECUTE_WITH_PYTH,
+      ONE_YOCTO,
+    );
+
+    // Execute via meta transaction - agent pays for gas
+    const borrowTxHash = await executeMetaTransaction(
+      userDestination,
+      BURROW_CONTRACT,
+      [action],
+      { skipAccountCheck: true },
+    );
+    return { txId: borrowTxHash };
+  });
+
+  console.log(`[burrowBorrow] Borrow tx confirmed: ${txHash}`);
+
+  // If bridgeBack is configured, send borrowed tokens to intents for cross-chain swap
+  if (meta.bridgeBack) {
+    const bridgeResult = await bridgeBackFromNear(
+      intent,
+      meta.bridgeBack,
+      meta.tokenId,
+      borrowAmount,
+      "burrowBorrow",
+    );
+    return {
+      txId: txHash,
+      bridgeTxId: bridgeResult.txId,
+      intentsDepositAddress: bridgeResult.depositAddress,
+    };
+  }
+
+  return { txId: txHash };
+}
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config";
+import { AuthorizationError, ProtocolRejectedError, TransientError } from "../errors";
+import { ValidatedIntent } from "../queue/types";
+import { BURROW_CONTRACT } from "../utils/burrow";
+import { executeBurrowCollateralFlow } from "./burrowCollateral";
+
+config.stateBackend = "memory";
+
+const {
+  verifyMock,
+  projectHealthFactorMock,
+  ensureDerivedAccountExistsMock,
+  executeMetaTransactionMock,
+} = vi.hoisted(() => ({
+  verifyMock: vi.fn(),
+  projectHealthFactorMock: vi.fn(),
+  ensureDerivedAccountExistsMock: vi.fn(),
+  executeMetaTransactionMock: vi.fn(),
+}));
+
+vi.mock("../utils/nearSignature", () => ({
+  verifyNearIntentAuthorization: verifyMock,
+}));
+
+vi.mock("../utils/burrow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/burrow")>()),
+  getAssetsPagedDetailed: vi.fn().mockResolvedValue([
+    { token_id: "usdc.near", config: { extra_decimals: 12, can_use_as_collateral: true } },
+  ]),
+  projectHealthFactorAfterDecrease: projectHealthFactorMock,
+}));
+
+vi.mock("../utils/nearMetaTx", () => ({
+  executeMetaTransaction: executeMetaTransactionMock,
+  ensureDerivedAccountExists: ensureDerivedAccountExistsMock,
+  createFunctionCallAction: (methodName: string, args: object) => ({ methodName, args }),
+  GAS_FOR_FT_TRANSFER_CALL: 1n,
+  ONE_YOCTO: 1n,
+}));
+
+let intentCounter = 0;
+
+function collateralIntent(direction: "increase" | "decrease"): ValidatedIntent {
+  return {
+    intentId: `burrow-collateral-${++intentCounter}`,
+    sourceChain: "near",
+    sourceAsset: "usdc.near",
+    sourceAmount: "5",
+    destinationChain: "near",
+    finalAsset: "usdc.near",
+    userDestination: "user.near",
+    agentDestination: "agent.near",
+    slippageBps: 300,
+    nearPublicKey: "ed25519:key",
+    metadata: { action: `burrow-${direction}-collateral`, tokenId: "usdc.near" },
+  } as ValidatedIntent;
+}
+
+describe("executeBurrowCollateralFlow", () => {
+  beforeEach(() => {
+    verifyMock.mockReset();
+    verifyMock.mockResolvedValue(undefined);
+    projectHealthFactorMock.mockReset();
+    ensureDerivedAccountExistsMock.mockReset();
+    ensureDerivedAccountExistsMock.mockResolvedValue({ accountId: "derived.near" });
+    executeMetaTransactionMock.mockReset();
+    executeMetaTransactionMock.mockResolvedValue("collateral-tx");
+  });
+
+  it("rejects a key that doesn't belong to userDestination before touching the account", async () => {
+    verifyMock.mockRejectedValue(
+      new AuthorizationError("Authorization failed: nearPublicKey is not a full-access key of user.near", "key_not_authorized"),
+    );
+    const intent = collateralIntent("decrease");
+
+    await expect(executeBurrowCollateralFlow(intent)).rejects.toThrow(AuthorizationError);
+    expect(verifyMock).toHaveBeenCalledWith(intent, "Burrow collateral change");
+    expect(ensureDerivedAccountExistsMock).not.toHaveBeenCalled();
+    expect(executeMetaTransactionMock).not.toHaveBeenCalled();
+  });
+
+  it("moves supplied tokens into collateral without projecting health", async () => {
+    const result = await executeBurrowCollateralFlow(collateralIntent("increase"));
+
+    expect(projectHealthFactorMock).not.toHaveBeenCalled();
+    expect(executeMetaTransactionMock).toHaveBeenCalledWith(
+      "user.near",
+      BURROW_CONTRACT,
+      [{
+        methodName: "execute",
+        args: { actions: [{ IncreaseCollateral: { token_id: "usdc.near", amount: "5000000000000" } }] },
+      }],
+      { skipAccountCheck: true },
+    );
+    expect(result).toEqual({ txId: "collateral-tx" });
+  });
+
+  it("decreases collateral that leaves the account healthy and reports the projection", async () => {
+    projectHealthFactorMock.mockResolvedValue(150);
+
+    const result = await executeBurrowCollateralFlow(collateralIntent("decrease"));
+
+    expect(projectHealthFactorMock).toHaveBeenCalledWith("derived.near", "usdc.near", 5_000_000_000_000n);
+    expect(executeMetaTransactionMock).toHaveBeenCalledWith(
+      "user.near",
+      BURROW_CONTRACT,
+      [{
+        methodName: "execute_with_pyth",
+        args: { actions: [{ DecreaseCollateral: { token_id: "usdc.near", amount: "5000000000000" } }] },
+      }],
+      { skipAccountCheck: true },
+    );
+    expect(result).toEqual({ txId: "collateral-tx", healthFactor: 150 });
+  });
+
+  it("decreases collateral freely when nothing is borrowed", async () => {
+    projectHealthFactorMock.mockResolvedValue(null);
+
+    const result = await executeBurrowCollateralFlow(collateralIntent("decrease"));
+
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ txId: "collateral-tx" });
+  });
+
+  it("rejects a decrease that would leave the health factor below the minimum", async () => {
+    projectHealthFactorMock.mockResolvedValue(config.burrowMinHealthFactor - 1);
+
+    await expect(executeBurrowCollateralFlow(collateralIntent("decrease"))).rejects.toThrow(
+      ProtocolRejectedError,
+    );
+    expect(executeMetaTransactionMock).not.toHaveBeenCalled();
+  });
+
+  it("decreases nothing when the health factor can't be projected", async () => {
+    projectHealthFactorMock.mockRejectedValue(new TransientError("Failed to price Burrow position for wbtc.near"));
+
+    await expect(executeBurrowCollateralFlow(collateralIntent("decrease"))).rejects.toThrow(TransientError);
+    expect(executeMetaTransactionMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
+import {
+  BurrowDecreaseCollateralMetadata,
+  BurrowIncreaseCollateralMetadata,
+  ValidatedIntent,
+} from "../queue/types";
+import {
+  getAssetsPagedDetailed,
+  buildCollateralArgs,
+  projectHealthFactorAfterDecrease,
+  toBurrowInnerAmount,
+  BURROW_CONTRACT,
+  GAS_FOR_EXECUTE_WITH_PYTH,
+} from "../utils/burrow";
+import { verifyNearIntentAuthorization } from "../utils/nearSignature";
+import {
+  executeMetaTransaction,
+  ensureDerivedAccountExists,
+  createFunctionCallAction,
+  GAS_FOR_FT_TRANSFER_CALL,
+  ONE_YOCTO,
+} from "../utils/nearMetaTx";
+import { runStep } from "../state/checkpoints";
+
+type BurrowCollateralMetadata = BurrowIncreaseCollateralMetadata | BurrowDecreaseCollateralMetadata;
+
+interface BurrowCollateralResult {
+  txId: string;
+  /** Projected health factor after a decrease; unset when nothing is borrowed */
+  healthFactor?: number;
+}
+
+export function isBurrowCollateralIntent(
+  intent: ValidatedIntent,
+): intent is ValidatedIntent & { metadata: BurrowCollateralMetadata } {
+  const meta = intent.metadata as BurrowCollateralMetadata | undefined;
+  return (
+    (meta?.action === "burrow-increase-collateral" || meta?.action === "burrow-decrease-collateral") &&
+    !!meta.tokenId
+  );
+}
+
+/**
+ * Moves `sourceAmount` of the token between the supplied and collateral
+ * balances of the user's derived Burrow account. A decrease is checked first
+ * against config.burrowMinHealthFactor, so it can't bring the account close
+ * to liquidation; Burrow itself only refuses one below 100. The intent must
+ * be signed with a key of userDestination, whose derived account it changes.
+ */
+export async function executeBurrowCollateralFlow(
+  intent: ValidatedIntent,
+): Promise<BurrowCollateralResult> {
+  await verifyNearIntentAuthorization(intent, "Burrow collateral change");
+
+  const meta = intent.metadata as BurrowCollateralMetadata;
+  const direction = meta.action === "burrow-increase-collateral" ? "increase" : "decrease";
+
+  if (config.dryRunSwaps) {
+    return { txId: `dry-run-burrow-${direction}-collateral-${intent.intentId}` };
+  }
+
+  if (!intent.userDestination) {
+    throw new ValidationError("Burrow collateral change requires userDestination for custody isolation");
+  }
+
+  const assets = await getAssetsPagedDetailed();
+  const asset = assets.find((a) => a.token_id === meta.tokenId);
+
+  if (!asset) {
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} is not supported by Burrow`, "token_not_supported");
+  }
+
+  if (direction === "increase" && !asset.config.can_use_as_collateral) {
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} cannot be used as collateral`, "collateral_disabled");
+  }
+
+  const amount = intent.sourceAmount;
+  const extraDecimals = asset.config.extra_decimals;
+  const userDestination = intent.userDestination;
+
+  // Fund the derived implicit account once, even across retries
+  const { accountId } = await runStep(intent.intentId, "fund-implicit-account", () =>
+    ensureDerivedAccountExists(userDestination),
+  );
+
+  const { txId: txHash, healthFactor } = await runStep(intent.intentId, `${direction}-collateral`, async () => {
+    let projectedHealth: number | null = null;
+    if (direction === "decrease") {
+      projectedHealth = await projectHealthFactorAfterDecrease(
+        accountId,
+        meta.tokenId,
+        BigInt(toBurrowInnerAmount(amount, extraDecimals)),
+      );
+      if (projectedHealth !== null && projectedHealth < config.burrowMinHealthFactor) {
+        throw new ProtocolRejectedError(
+          `Decreasing collateral would leave a health factor of ${projectedHealth.toFixed(2)}, below the minimum of ${config.burrowMinHealthFactor}`,
+          "health_factor_too_low",
+        );
+      }
+    }
+
+    // Only a decrease lowers health, so only it needs prices
+    const action = direction === "increase"
+      ? createFunctionCallAction(
+          "execute",
+          buildCollateralArgs("increase", meta.tokenId, amount, extraDecimals),
+          GAS_FOR_FT_TRANSFER_CALL,
+          ONE_YOCTO,
+        )
+      : createFunctionCallAction(
+          "execute_with_pyth",
+          buildCollateralArgs("decrease", meta.tokenId, amount, extraDecimals),
+          GAS_FOR_EXECUTE_WITH_PYTH,
+          ONE_YOCTO,
+        );
+
+    // Execute via meta transaction - agent pays for gas
+    const collateralTxHash = await executeMetaTransaction(
+      userDestination,
+      BURROW_CONTRACT,
+      [action],
+      { skipAccountCheck: true },
+    );
+    return { txId: collateralTxHash, ...(projectedHealth !== null && { healthFactor: projectedHealth }) };
+  });
+
+  console.log(`[burrowCollateral] Collateral ${direction} tx confirmed: ${txHash}`);
+
+  return { txId: txHash, ...(healthFactor !== undefined && { healthFactor }) };
+}
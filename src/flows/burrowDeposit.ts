@@ -1,4 +1,5 @@
 import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
 import { BurrowDepositMetadata, ValidatedIntent } from "../queue/types";
 import {
   getAssetsPagedDetailed,
@@ -6,10 +7,12 @@ import {
 } from "../utils/burrow";
 import {
   executeMetaTransaction,
+  ensureDerivedAccountExists,
   createFunctionCallAction,
   GAS_FOR_FT_TRANSFER_CALL,
   ONE_YOCTO,
 } from "../utils/nearMetaTx";
+import { runStep } from "../state/checkpoints";
 
 interface BurrowDepositResult {
   txId: string;
@@ -27,7 +30,7 @@ export function isBurrowDepositIntent(
 function verifyUserAuthorization(intent: ValidatedIntent): void {
   // Require userDestination for Burrow deposits
   if (!intent.userDestination) {
-    throw new Error("Burrow deposit requires userDestination to identify the user");
+    throw new ValidationError("Burrow deposit requires userDestination to identify the user");
   }
 
   // For deposits via intents, authorization is implicit via the deposit transaction
@@ -51,7 +54,9 @@ export async function executeBurrowDepositFlow(
     return result;
   }
 
-  let depositAmount = intent.sourceAmount;
+  // After an intents swap this is the amount that arrived (see the poller);
+  // sourceAmount is in the origin asset then
+  let depositAmount = intent.intermediateAmount || intent.sourceAmount;
   let intentsDepositAddress: string | undefined;
 
   // Verify the token can be deposited
@@ -59,40 +64,51 @@ export async function executeBurrowDepositFlow(
   const asset = assets.find((a) => a.token_id === meta.tokenId);
 
   if (!asset) {
-    throw new Error(`Token ${meta.tokenId} is not supported by Burrow`);
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} is not supported by Burrow`, "token_not_supported");
   }
 
   if (!asset.config.can_deposit) {
-    throw new Error(`Token ${meta.tokenId} cannot be deposited to Burrow`);
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} cannot be deposited to Burrow`, "deposit_disabled");
   }
 
   if (meta.isCollateral && !asset.config.can_use_as_collateral) {
-    throw new Error(`Token ${meta.tokenId} cannot be used as collateral`);
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} cannot be used as collateral`, "collateral_disabled");
   }
 
-  // Build the supply transaction using Rhea SDK
-  const supplyTx = await buildSupplyTransaction({
-    token_id: meta.tokenId,
-    amount: depositAmount,
-    is_collateral: meta.isCollateral ?? false,
-  });
-
-  console.log(`[burrowDeposit] Built supply tx via Rhea SDK: ${supplyTx.method_name} on ${supplyTx.contract_id}`);
+  const userDestination = intent.userDestination;
 
-  // Create action for meta transaction
-  const action = createFunctionCallAction(
-    supplyTx.method_name,
-    supplyTx.args,
-    GAS_FOR_FT_TRANSFER_CALL,
-    ONE_YOCTO,
+  // Fund the derived implicit account once, even across retries
+  await runStep(intent.intentId, "fund-implicit-account", () =>
+    ensureDerivedAccountExists(userDestination),
   );
 
-  // Execute via meta transaction - agent pays for gas
-  const txHash = await executeMetaTransaction(
-    intent.userDestination,
-    supplyTx.contract_id,
-    [action],
-  );
+  const { txId: txHash } = await runStep(intent.intentId, "supply", async () => {
+    // Build the supply transaction using Rhea SDK
+    const supplyTx = await buildSupplyTransaction({
+      token_id: meta.tokenId,
+      amount: depositAmount,
+      is_collateral: meta.isCollateral ?? false,
+    });
+
+    console.log(`[burrowDeposit] Built supply tx via Rhea SDK: ${supplyTx.method_name} on ${supplyTx.contract_id}`);
+
+    // Create action for meta transaction
+    const action = createFunctionCallAction(
+      supplyTx.method_name,
+      supplyTx.args,
+      GAS_FOR_FT_TRANSFER_CALL,
+      ONE_YOCTO,
+    );
+
+    // Execute via meta transaction - agent pays for gas
+    const supplyTxHash = await executeMetaTransaction(
+      userDestination,
+      supplyTx.contract_id,
+      [action],
+      { skipAccountCheck: true },
+    );
+    return { txId: supplyTxHash };
+  });
 
   console.log(`[burrowDeposit] Deposit tx confirmed: ${txHash}`);
 
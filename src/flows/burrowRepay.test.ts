@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config";
+import { ValidatedIntent } from "../queue/types";
+import { executeBurrowRepayFlow } from "./burrowRepay";
+
+config.stateBackend = "memory";
+
+const { burrowMocks, executeMetaTransactionMock, bridgeBackFromNearMock } = vi.hoisted(() => ({
+  burrowMocks: {
+    getAssetsPagedDetailed: vi.fn(),
+    getBurrowDebt: vi.fn(),
+    getBurrowSupplied: vi.fn(),
+  },
+  executeMetaTransactionMock: vi.fn(),
+  bridgeBackFromNearMock: vi.fn(),
+}));
+
+vi.mock("../utils/burrow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/burrow")>()),
+  ...burrowMocks,
+}));
+
+vi.mock("../utils/nearMetaTx", () => ({
+  executeMetaTransaction: executeMetaTransactionMock,
+  ensureDerivedAccountExists: vi.fn().mockResolvedValue({ accountId: "derived.near" }),
+  createFunctionCallAction: (methodName: string, args: object) => ({ methodName, args }),
+  GAS_FOR_FT_TRANSFER_CALL: 1n,
+  ONE_YOCTO: 1n,
+}));
+
+vi.mock("./nearBridgeBack", () => ({
+  bridgeBackFromNear: bridgeBackFromNearMock,
+}));
+
+const USDC = 10n ** 18n; // 1 USDC in Burrow's inner units (6 + 12 extra decimals)
+
+let intentCounter = 0;
+
+function repayIntent(repayAll: boolean): ValidatedIntent {
+  return {
+    intentId: `burrow-repay-${++intentCounter}`,
+    sourceChain: "solana",
+    sourceAsset: "So11111111111111111111111111111111111111112",
+    sourceAmount: "2000000",
+    intermediateAmount: "2000000",
+    destinationChain: "near",
+    finalAsset: "usdc.near",
+    userDestination: "user.near",
+    agentDestination: "agent.near",
+    refundAddress: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+    slippageBps: 300,
+    metadata: { action: "burrow-repay", tokenId: "usdc.near", repayAll },
+  } as ValidatedIntent;
+}
+
+describe("executeBurrowRepayFlow", () => {
+  beforeEach(() => {
+    burrowMocks.getAssetsPagedDetailed.mockResolvedValue([
+      { token_id: "usdc.near", config: { extra_decimals: 12 } },
+    ]);
+    // 1 USDC owed
+    burrowMocks.getBurrowDebt.mockResolvedValue(1_000_000n);
+    burrowMocks.getBurrowSupplied.mockReset();
+    executeMetaTransactionMock.mockReset();
+    executeMetaTransactionMock.mockResolvedValueOnce("repay-tx").mockResolvedValueOnce("withdraw-tx");
+    bridgeBackFromNearMock.mockReset();
+    bridgeBackFromNearMock.mockResolvedValue({ txId: "bridge-tx", depositAddress: "deposit-address" });
+  });
+
+  it("withdraws the unused repay-all buffer and returns it with the excess", async () => {
+    // 5 USDC supplied before; the buffer's unused 0.0005 USDC (plus dust) after
+    burrowMocks.getBurrowSupplied
+      .mockResolvedValueOnce(5n * USDC)
+      .mockResolvedValueOnce(5n * USDC + 500n * 10n ** 12n + 7n);
+    const intent = repayIntent(true);
+
+    const result = await executeBurrowRepayFlow(intent);
+
+    // 1 USDC + 10 bps + 1 unit sent, 500 units of it withdrawn
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(2);
+    expect(executeMetaTransactionMock).toHaveBeenLastCalledWith(
+      "user.near",
+      expect.any(String),
+      [{
+        methodName: "execute",
+        args: { actions: [{ Withdraw: { token_id: "usdc.near", max_amount: "500000000000000" } }] },
+      }],
+      { skipAccountCheck: true },
+    );
+    expect(bridgeBackFromNearMock).toHaveBeenCalledWith(
+      intent,
+      expect.objectContaining({
+        destinationChain: "solana",
+        destinationAddress: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+      }),
+      "usdc.near",
+      "999499",
+      "burrowRepay",
+    );
+    expect(result).toEqual({
+      txId: "repay-tx",
+      repaidAmount: "1000501",
+      excessAmount: "999499",
+      withdrawTxId: "withdraw-tx",
+      bridgeTxId: "bridge-tx",
+      intentsDepositAddress: "deposit-address",
+    });
+  });
+
+  it("skips the withdraw when nothing of the buffer is left", async () => {
+    burrowMocks.getBurrowSupplied.mockResolvedValue(5n * USDC);
+
+    const result = await executeBurrowRepayFlow(repayIntent(true));
+
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ repaidAmount: "1001001", excessAmount: "998999" });
+    expect(result.withdrawTxId).toBeUndefined();
+  });
+
+  it("resumes at the bridge without repaying or withdrawing again after the bridge failed", async () => {
+    burrowMocks.getBurrowSupplied
+      .mockResolvedValueOnce(5n * USDC)
+      .mockResolvedValueOnce(5n * USDC + 500n * 10n ** 12n);
+    bridgeBackFromNearMock.mockReset();
+    bridgeBackFromNearMock
+      .mockRejectedValueOnce(new Error("quote unavailable"))
+      .mockResolvedValueOnce({ txId: "bridge-tx", depositAddress: "deposit-address" });
+    const intent = repayIntent(true);
+
+    await expect(executeBurrowRepayFlow(intent)).rejects.toThrow("quote unavailable");
+    const result = await executeBurrowRepayFlow(intent);
+
+    // One repay and one withdraw across both attempts
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(2);
+    expect(burrowMocks.getBurrowSupplied).toHaveBeenCalledTimes(2);
+    expect(bridgeBackFromNearMock).toHaveBeenCalledTimes(2);
+    expect(bridgeBackFromNearMock).toHaveBeenLastCalledWith(
+      intent,
+      expect.anything(),
+      "usdc.near",
+      "999499",
+      "burrowRepay",
+    );
+    expect(result).toMatchObject({ txId: "repay-tx", withdrawTxId: "withdraw-tx", bridgeTxId: "bridge-tx" });
+  });
+
+  it("doesn't read the supplied balance for a capped repay", async () => {
+    const result = await executeBurrowRepayFlow(repayIntent(false));
+
+    expect(burrowMocks.getBurrowSupplied).not.toHaveBeenCalled();
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ repaidAmount: "1000000", excessAmount: "1000000" });
+  });
+});
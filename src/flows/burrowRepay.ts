@@ -0,0 +1,213 @@
+import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
+import { BridgeBackConfig, BurrowRepayMetadata, ValidatedIntent } from "../queue/types";
+import {
+  getAssetsPagedDetailed,
+  getBurrowDebt,
+  getBurrowSupplied,
+  buildRepayArgs,
+  buildWithdrawArgs,
+  toBurrowInnerAmount,
+  BURROW_CONTRACT,
+} from "../utils/burrow";
+import {
+  executeMetaTransaction,
+  ensureDerivedAccountExists,
+  createFunctionCallAction,
+  GAS_FOR_FT_TRANSFER_CALL,
+  ONE_YOCTO,
+} from "../utils/nearMetaTx";
+import { runStep } from "../state/checkpoints";
+import { bridgeBackFromNear } from "./nearBridgeBack";
+
+// Headroom sent along with a repay-all for interest accruing until it executes
+const REPAY_ALL_BUFFER_BPS = 10n;
+
+interface BurrowRepayResult {
+  txId: string;
+  /** Amount of the token that went to the debt, in base units */
+  repaidAmount: string;
+  /** What was delivered but not needed for the debt, returned to the user */
+  excessAmount?: string;
+  /** If a repay-all left part of its buffer supplied, the withdraw of it */
+  withdrawTxId?: string;
+  /** If there was an excess, the bridge transaction returning it */
+  bridgeTxId?: string;
+  intentsDepositAddress?: string;
+}
+
+export function isBurrowRepayIntent(
+  intent: ValidatedIntent,
+): intent is ValidatedIntent & { metadata: BurrowRepayMetadata } {
+  const meta = intent.metadata as BurrowRepayMetadata | undefined;
+  return meta?.action === "burrow-repay" && !!meta.tokenId;
+}
+
+/**
+ * Repays the Burrow debt of the user's derived account with the tokens
+ * intents delivered to it. Like deposits, the user's deposit into intents
+ * is the authorization.
+ *
+ * With `repayAll` and enough delivered to cover the debt, the whole borrow is
+ * closed; otherwise up to the outstanding debt is repaid. Whatever was
+ * delivered but not used for the debt, including the part of a repay-all's
+ * buffer Burrow left supplied, goes back to the user's refundAddress on the
+ * source chain.
+ */
+export async function executeBurrowRepayFlow(
+  intent: ValidatedIntent,
+): Promise<BurrowRepayResult> {
+  if (!intent.userDestination) {
+    throw new ValidationError("Burrow repay requires userDestination to identify the user");
+  }
+  const { refundAddress } = intent;
+  if (!refundAddress) {
+    throw new ValidationError("Burrow repay requires refundAddress to return any excess to");
+  }
+
+  const meta = intent.metadata as BurrowRepayMetadata;
+  // Set by the poller to what intents actually delivered
+  const available = intent.intermediateAmount || intent.sourceAmount;
+
+  if (config.dryRunSwaps) {
+    return { txId: `dry-run-burrow-repay-${intent.intentId}`, repaidAmount: available };
+  }
+
+  const assets = await getAssetsPagedDetailed();
+  const asset = assets.find((a) => a.token_id === meta.tokenId);
+
+  if (!asset) {
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} is not supported by Burrow`, "token_not_supported");
+  }
+
+  const userDestination = intent.userDestination;
+
+  // Fund the derived implicit account once, even across retries
+  const { accountId } = await runStep(intent.intentId, "fund-implicit-account", () =>
+    ensureDerivedAccountExists(userDestination),
+  );
+
+  const extraDecimals = asset.config.extra_decimals;
+
+  // Step 1: Repay the debt. Checkpointed so a retry never repays twice.
+  const { txId, repaidAmount: sentAmount, suppliedBefore } = await runStep(intent.intentId, "repay", async () => {
+    const debt = await getBurrowDebt(accountId, meta.tokenId, extraDecimals);
+    if (debt === 0n) {
+      throw new ProtocolRejectedError(`No outstanding Burrow debt for token: ${meta.tokenId}`, "no_debt");
+    }
+
+    const delivered = BigInt(available);
+    // Without max_amount Burrow repays the full debt as of execution; the
+    // buffer's unused part stays supplied on the account until step 2
+    const repayAll = meta.repayAll === true && delivered >= debt;
+    const withBuffer = debt + (debt * REPAY_ALL_BUFFER_BPS) / 10_000n + 1n;
+    const amount = repayAll
+      ? (delivered < withBuffer ? delivered : withBuffer)
+      : (delivered < debt ? delivered : debt);
+
+    console.log(`[burrowRepay] Repaying Burrow debt`, {
+      debt: debt.toString(),
+      available,
+      repayAll,
+    });
+
+    // What was supplied before, so step 2 withdraws only this repay's leftover
+    const suppliedBefore = repayAll
+      ? (await getBurrowSupplied(accountId, meta.tokenId)).toString()
+      : undefined;
+
+    const action = createFunctionCallAction(
+      "ft_transfer_call",
+      buildRepayArgs(
+        meta.tokenId,
+        amount.toString(),
+        repayAll ? undefined : toBurrowInnerAmount(amount, extraDecimals),
+      ),
+      GAS_FOR_FT_TRANSFER_CALL,
+      ONE_YOCTO, // NEP-141 requires 1 yoctoNEAR deposit
+    );
+
+    // Execute via meta transaction - agent pays for gas
+    const repayTxHash = await executeMetaTransaction(
+      userDestination,
+      meta.tokenId, // The token contract
+      [action],
+      { skipAccountCheck: true },
+    );
+    return { txId: repayTxHash, repaidAmount: amount.toString(), suppliedBefore };
+  });
+
+  console.log(`[burrowRepay] Repay tx confirmed: ${txId} (sent ${sentAmount} of ${available})`);
+
+  // Step 2: Withdraw the unused part of a repay-all's buffer
+  let withdrawTxId: string | undefined;
+  let unused = 0n;
+  if (suppliedBefore !== undefined) {
+    const withdrawn = await runStep(intent.intentId, "withdraw-unused", async () => {
+      const leftover = (await getBurrowSupplied(accountId, meta.tokenId)) - BigInt(suppliedBefore);
+      // Rounded down: the dust below one token unit can't be withdrawn alone
+      const amount = leftover / 10n ** BigInt(extraDecimals);
+      if (amount <= 0n) {
+        return { withdrawnAmount: "0" };
+      }
+
+      const action = createFunctionCallAction(
+        "execute",
+        buildWithdrawArgs(meta.tokenId, toBurrowInnerAmount(amount, extraDecimals)),
+        GAS_FOR_FT_TRANSFER_CALL,
+        ONE_YOCTO,
+      );
+      const withdrawTxHash = await executeMetaTransaction(
+        userDestination,
+        BURROW_CONTRACT,
+        [action],
+        { skipAccountCheck: true },
+      );
+      return { txId: withdrawTxHash, withdrawnAmount: amount.toString() };
+    });
+
+    withdrawTxId = withdrawn.txId;
+    unused = BigInt(withdrawn.withdrawnAmount);
+    if (withdrawTxId) {
+      console.log(`[burrowRepay] Withdrew unused repay buffer: ${withdrawTxId} (${unused})`);
+    }
+  }
+
+  const repaidAmount = (BigInt(sentAmount) - unused).toString();
+
+  // Step 3: Return what was left over
+  const excess = BigInt(available) - BigInt(repaidAmount);
+  if (excess > 0n) {
+    const bridgeResult = await bridgeBackFromNear(
+      intent,
+      excessReturn(intent, meta, refundAddress),
+      meta.tokenId,
+      excess.toString(),
+      "burrowRepay",
+    );
+    return {
+      txId,
+      repaidAmount,
+      excessAmount: excess.toString(),
+      withdrawTxId,
+      bridgeTxId: bridgeResult.txId,
+      intentsDepositAddress: bridgeResult.depositAddress,
+    };
+  }
+
+  return { txId, repaidAmount };
+}
+
+/** Sends the excess back to the user as the asset they paid with */
+function excessReturn(
+  intent: ValidatedIntent,
+  meta: BurrowRepayMetadata,
+  refundAddress: string,
+): BridgeBackConfig {
+  return {
+    destinationChain: intent.sourceChain,
+    destinationAddress: refundAddress,
+    destinationAsset: intent.sourceAsset,
+    slippageTolerance: meta.slippageTolerance ?? intent.slippageBps,
+  };
+}
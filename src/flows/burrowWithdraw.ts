@@ -1,25 +1,20 @@
 import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
 import { BurrowWithdrawMetadata, ValidatedIntent } from "../queue/types";
 import {
   getAssetsPagedDetailed,
   buildWithdrawTransaction,
 } from "../utils/burrow";
-import {
-  createIntentSigningMessage,
-  validateIntentSignature,
-} from "../utils/nearSignature";
+import { verifyNearIntentAuthorization } from "../utils/nearSignature";
 import {
   executeMetaTransaction,
+  ensureDerivedAccountExists,
   createFunctionCallAction,
   GAS_FOR_FT_TRANSFER_CALL,
   ZERO_DEPOSIT,
-  ONE_YOCTO,
 } from "../utils/nearMetaTx";
-import {
-  OneClickService,
-  OpenAPI,
-} from "@defuse-protocol/one-click-sdk-typescript";
-import { getDefuseAssetId } from "../utils/tokenMappings";
+import { runStep } from "../state/checkpoints";
+import { bridgeBackFromNear } from "./nearBridgeBack";
 
 interface BurrowWithdrawResult {
   txId: string;
@@ -34,32 +29,10 @@ export function isBurrowWithdrawIntent(
   return meta?.action === "burrow-withdraw" && !!meta.tokenId;
 }
 
-function verifyUserAuthorization(intent: ValidatedIntent): void {
-  if (!intent.nearPublicKey) {
-    throw new Error("Burrow withdraw requires nearPublicKey to identify the user");
-  }
-
-  if (!intent.userSignature) {
-    throw new Error("Burrow withdraw requires userSignature for authorization");
-  }
-
-  const expectedMessage = createIntentSigningMessage(intent);
-
-  const result = validateIntentSignature(
-    intent.userSignature,
-    intent.nearPublicKey,
-    expectedMessage,
-  );
-
-  if (!result.isValid) {
-    throw new Error(`Authorization failed: ${result.error}`);
-  }
-}
-
 export async function executeBurrowWithdrawFlow(
   intent: ValidatedIntent,
 ): Promise<BurrowWithdrawResult> {
-  verifyUserAuthorization(intent);
+  await verifyNearIntentAuthorization(intent, "Burrow withdraw");
 
   const meta = intent.metadata as BurrowWithdrawMetadata;
 
@@ -73,7 +46,7 @@ export async function executeBurrowWithdrawFlow(
   }
 
   if (!intent.userDestination) {
-    throw new Error("Burrow withdraw requires userDestination for custody isolation");
+    throw new ValidationError("Burrow withdraw requires userDestination for custody isolation");
   }
 
   // Verify the token can be withdrawn
@@ -81,43 +54,59 @@ export async function executeBurrowWithdrawFlow(
   const asset = assets.find((a) => a.token_id === meta.tokenId);
 
   if (!asset) {
-    throw new Error(`Token ${meta.tokenId} is not supported by Burrow`);
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} is not supported by Burrow`, "token_not_supported");
   }
 
   if (!asset.config.can_withdraw) {
-    throw new Error(`Token ${meta.tokenId} cannot be withdrawn from Burrow`);
+    throw new ProtocolRejectedError(`Token ${meta.tokenId} cannot be withdrawn from Burrow`, "withdraw_disabled");
   }
 
   const withdrawAmount = intent.sourceAmount;
+  const userDestination = intent.userDestination;
 
-  // Build the withdraw transaction using Rhea SDK
-  const withdrawTx = await buildWithdrawTransaction({
-    token_id: meta.tokenId,
-    amount: withdrawAmount,
-  });
-
-  console.log(`[burrowWithdraw] Built withdraw tx via Rhea SDK: ${withdrawTx.method_name} on ${withdrawTx.contract_id}`);
-
-  // Create action for meta transaction
-  const action = createFunctionCallAction(
-    withdrawTx.method_name,
-    withdrawTx.args,
-    GAS_FOR_FT_TRANSFER_CALL,
-    ZERO_DEPOSIT,
+  // Fund the derived implicit account once, even across retries
+  await runStep(intent.intentId, "fund-implicit-account", () =>
+    ensureDerivedAccountExists(userDestination),
   );
 
-  // Execute via meta transaction - agent pays for gas
-  const txHash = await executeMetaTransaction(
-    intent.userDestination,
-    withdrawTx.contract_id,
-    [action],
-  );
+  const { txId: txHash } = await runStep(intent.intentId, "withdraw", async () => {
+    // Build the withdraw transaction using Rhea SDK
+    const withdrawTx = await buildWithdrawTransaction({
+      token_id: meta.tokenId,
+      amount: withdrawAmount,
+    });
+
+    console.log(`[burrowWithdraw] Built withdraw tx via Rhea SDK: ${withdrawTx.method_name} on ${withdrawTx.contract_id}`);
+
+    // Create action for meta transaction
+    const action = createFunctionCallAction(
+      withdrawTx.method_name,
+      withdrawTx.args,
+      GAS_FOR_FT_TRANSFER_CALL,
+      ZERO_DEPOSIT,
+    );
+
+    // Execute via meta transaction - agent pays for gas
+    const withdrawTxHash = await executeMetaTransaction(
+      userDestination,
+      withdrawTx.contract_id,
+      [action],
+      { skipAccountCheck: true },
+    );
+    return { txId: withdrawTxHash };
+  });
 
   console.log(`[burrowWithdraw] Withdraw tx confirmed: ${txHash}`);
 
   // If bridgeBack is configured, send withdrawn tokens to intents for cross-chain swap
   if (meta.bridgeBack) {
-    const bridgeResult = await executeBridgeBack(intent, meta);
+    const bridgeResult = await bridgeBackFromNear(
+      intent,
+      meta.bridgeBack,
+      meta.tokenId,
+      withdrawAmount,
+      "burrowWithdraw",
+    );
     return {
       txId: txHash,
       bridgeTxId: bridgeResult.txId,
@@ -127,100 +116,3 @@ export async function executeBurrowWithdrawFlow(
 
   return { txId: txHash };
 }
-
-interface BridgeBackResult {
-  txId: string;
-  depositAddress: string;
-}
-
-/**
- * After withdrawing from Burrow, bridges the withdrawn tokens back to the user's
- * destination chain via NEAR intents.
- *
- * Flow:
- * 1. Request a quote from intents with dry: false to get the deposit address
- * 2. Build ft_transfer_call to send tokens to intents deposit address
- * 3. Execute via meta transaction
- * 4. Intents handles the cross-chain swap from there
- */
-async function executeBridgeBack(
-  intent: ValidatedIntent,
-  meta: BurrowWithdrawMetadata,
-): Promise<BridgeBackResult> {
-  if (!meta.bridgeBack) {
-    throw new Error("bridgeBack configuration missing");
-  }
-
-  const { destinationChain, destinationAddress, destinationAsset, slippageTolerance } = meta.bridgeBack;
-  const tokenId = meta.tokenId;
-  const withdrawnAmount = intent.sourceAmount;
-
-  console.log(`[burrowWithdraw] Starting bridge back to ${destinationChain}`, {
-    destinationAddress,
-    destinationAsset,
-    amount: withdrawnAmount,
-    tokenId,
-  });
-
-  // Step 1: Get intents quote with dry: false to get deposit address
-  if (config.intentsQuoteUrl) {
-    OpenAPI.BASE = config.intentsQuoteUrl;
-  }
-
-  // Convert NEAR token ID to Defuse asset ID
-  const originAsset = getDefuseAssetId("near", tokenId) || `nep141:${tokenId}`;
-
-  // Create deadline 30 minutes from now
-  const deadline = new Date(Date.now() + 30 * 60 * 1000).toISOString();
-
-  const quoteRequest = {
-    originAsset,
-    destinationAsset, // Caller provides this in Defuse format
-    amount: String(withdrawnAmount),
-    swapType: "EXACT_INPUT" as const,
-    slippageTolerance: slippageTolerance ?? 300, // Default 3%
-    dry: false, // Important: we need the deposit address
-    recipient: destinationAddress,
-    recipientType: "DESTINATION_CHAIN" as const,
-    refundTo: intent.refundAddress || intent.userDestination,
-    refundType: "ORIGIN_CHAIN" as const,
-    depositType: "ORIGIN_CHAIN" as const,
-    deadline,
-  };
-
-  console.log("[burrowWithdraw] Requesting intents quote", quoteRequest);
-
-  const quoteResponse = await OneClickService.getQuote(quoteRequest as any);
-
-  // Extract deposit address from the quote response
-  const depositAddress = (quoteResponse as any).depositAddress;
-  if (!depositAddress) {
-    throw new Error("Intents quote response missing depositAddress");
-  }
-
-  console.log(`[burrowWithdraw] Got intents deposit address: ${depositAddress}`);
-
-  // Step 2: Build ft_transfer_call to send tokens to intents deposit address
-  // For NEP-141 tokens, we use ft_transfer_call with a message
-  const ftTransferAction = createFunctionCallAction(
-    "ft_transfer_call",
-    {
-      receiver_id: depositAddress,
-      amount: withdrawnAmount,
-      msg: "", // Empty message for simple transfer
-    },
-    GAS_FOR_FT_TRANSFER_CALL,
-    ONE_YOCTO, // NEP-141 requires 1 yoctoNEAR deposit
-  );
-
-  // Execute via meta transaction - agent pays for gas
-  const bridgeTxHash = await executeMetaTransaction(
-    intent.userDestination!,
-    tokenId, // The token contract
-    [ftTransferAction],
-  );
-
-  console.log(`[burrowWithdraw] Bridge transfer tx confirmed: ${bridgeTxHash}`);
-
-  return { txId: bridgeTxHash, depositAddress };
-}
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { KaminoAction } from "@kamino-finance/klend-sdk";
+import { config } from "../config";
+import { AuthorizationError } from "../errors";
+import { KaminoBorrowMetadata, ValidatedIntent } from "../queue/types";
+import { executeKaminoBorrowFlow } from "./kaminoBorrow";
+
+config.stateBackend = "memory";
+
+const { verifyMock, signAndBroadcastMock, bridgeBackFromSolanaMock } = vi.hoisted(() => ({
+  verifyMock: vi.fn(),
+  signAndBroadcastMock: vi.fn(),
+  bridgeBackFromSolanaMock: vi.fn(),
+}));
+
+vi.mock("@kamino-finance/klend-sdk", () => ({
+  KaminoAction: { buildBorrowTxns: vi.fn().mockResolvedValue({}) },
+  PROGRAM_ID: "klend",
+  VanillaObligation: vi.fn(),
+}));
+
+vi.mock("../utils/solana", () => ({
+  deriveAgentPublicKey: vi.fn().mockResolvedValue({ toBase58: () => "11111111111111111111111111111111" }),
+  SOLANA_DEFAULT_PATH: "solana-1",
+}));
+
+vi.mock("../utils/chainSignature", () => ({
+  createDummySigner: vi.fn(),
+}));
+
+vi.mock("../utils/solanaSignature", () => ({
+  verifySolanaIntentAuthorization: verifyMock,
+}));
+
+vi.mock("../utils/kamino", () => ({
+  loadKaminoReserve: vi.fn().mockResolvedValue({
+    market: {},
+    reserve: { getLiquidityMint: () => "mint" },
+  }),
+  buildKaminoActionTransaction: vi.fn().mockResolvedValue({
+    transaction: {},
+    serializedMessage: new Uint8Array(),
+  }),
+  signAndBroadcastAsUserAgent: signAndBroadcastMock,
+}));
+
+vi.mock("./solanaBridgeBack", () => ({
+  bridgeBackFromSolana: bridgeBackFromSolanaMock,
+}));
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+let intentCounter = 0;
+
+function borrowIntent(metadata: Partial<KaminoBorrowMetadata> = {}): ValidatedIntent {
+  return {
+    intentId: `kamino-borrow-${++intentCounter}`,
+    sourceChain: "solana",
+    sourceAsset: USDC_MINT,
+    sourceAmount: "1000000",
+    destinationChain: "zcash",
+    finalAsset: "zec",
+    userDestination: "user.near",
+    agentDestination: "agent.near",
+    slippageBps: 300,
+    metadata: {
+      action: "kamino-borrow",
+      marketAddress: "market",
+      mintAddress: USDC_MINT,
+      bridgeBack: {
+        destinationChain: "zcash",
+        destinationAddress: "t1user",
+        destinationAsset: "nep141:zec.omft.near",
+      },
+      ...metadata,
+    },
+  } as ValidatedIntent;
+}
+
+describe("executeKaminoBorrowFlow", () => {
+  beforeEach(() => {
+    verifyMock.mockReset();
+    signAndBroadcastMock.mockReset();
+    signAndBroadcastMock.mockResolvedValue("borrow-tx");
+    bridgeBackFromSolanaMock.mockReset();
+    bridgeBackFromSolanaMock.mockResolvedValue({ txId: "bridge-tx", depositAddress: "deposit-address" });
+    vi.mocked(KaminoAction.buildBorrowTxns).mockClear();
+  });
+
+  it("borrows the requested amount and bridges it on", async () => {
+    const intent = borrowIntent();
+
+    const result = await executeKaminoBorrowFlow(intent);
+
+    expect(verifyMock).toHaveBeenCalledWith(intent, "Kamino borrow");
+    expect(vi.mocked(KaminoAction.buildBorrowTxns).mock.calls[0][1].toString()).toBe("1000000");
+    expect(signAndBroadcastMock).toHaveBeenCalledWith({}, expect.any(Uint8Array), "user.near");
+    expect(bridgeBackFromSolanaMock).toHaveBeenCalledWith(
+      intent,
+      (intent.metadata as KaminoBorrowMetadata).bridgeBack,
+      USDC_MINT,
+      "1000000",
+      "kaminoBorrow",
+    );
+    expect(result).toEqual({
+      txId: "borrow-tx",
+      bridgeTxId: "bridge-tx",
+      intentsDepositAddress: "deposit-address",
+    });
+  });
+
+  it("leaves the borrowed tokens on the derived account without bridgeBack", async () => {
+    const result = await executeKaminoBorrowFlow(borrowIntent({ bridgeBack: undefined }));
+
+    expect(bridgeBackFromSolanaMock).not.toHaveBeenCalled();
+    expect(result).toEqual({ txId: "borrow-tx" });
+  });
+
+  it("resumes at the bridge without borrowing again after the bridge failed", async () => {
+    bridgeBackFromSolanaMock
+      .mockReset()
+      .mockRejectedValueOnce(new Error("quote unavailable"))
+      .mockResolvedValueOnce({ txId: "bridge-tx", depositAddress: "deposit-address" });
+    const intent = borrowIntent();
+
+    await expect(executeKaminoBorrowFlow(intent)).rejects.toThrow("quote unavailable");
+    const result = await executeKaminoBorrowFlow(intent);
+
+    expect(signAndBroadcastMock).toHaveBeenCalledTimes(1);
+    expect(bridgeBackFromSolanaMock).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ txId: "borrow-tx", bridgeTxId: "bridge-tx" });
+  });
+
+  it("borrows nothing when the signature is rejected", async () => {
+    verifyMock.mockImplementation(() => {
+      throw new AuthorizationError("Authorization failed: invalid signature", "invalid_signature");
+    });
+
+    await expect(executeKaminoBorrowFlow(borrowIntent())).rejects.toThrow(AuthorizationError);
+    expect(signAndBroadcastMock).not.toHaveBeenCalled();
+    expect(bridgeBackFromSolanaMock).not.toHaveBeenCalled();
+  });
+});
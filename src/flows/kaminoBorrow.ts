@@ -0,0 +1,128 @@
+import { address } from "@solana/kit";
+import {
+  KaminoAction,
+  PROGRAM_ID,
+  VanillaObligation,
+} from "@kamino-finance/klend-sdk";
+import BN from "bn.js";
+import { config } from "../config";
+import { KaminoBorrowMetadata, ValidatedIntent } from "../queue/types";
+import {
+  deriveAgentPublicKey,
+  SOLANA_DEFAULT_PATH,
+} from "../utils/solana";
+import { createDummySigner } from "../utils/chainSignature";
+import { verifySolanaIntentAuthorization } from "../utils/solanaSignature";
+import {
+  buildKaminoActionTransaction,
+  loadKaminoReserve,
+  signAndBroadcastAsUserAgent,
+} from "../utils/kamino";
+import { runStep } from "../state/checkpoints";
+import { bridgeBackFromSolana } from "./solanaBridgeBack";
+
+interface KaminoBorrowResult {
+  txId: string;
+  /** If bridgeBack was configured, contains the bridge transaction ID */
+  bridgeTxId?: string;
+  /** If bridgeBack was configured, the intents deposit address used */
+  intentsDepositAddress?: string;
+}
+
+export function isKaminoBorrowIntent(
+  intent: ValidatedIntent,
+): intent is ValidatedIntent & { metadata: KaminoBorrowMetadata } {
+  const meta = intent.metadata as KaminoBorrowMetadata | undefined;
+  return meta?.action === "kamino-borrow" && !!meta.marketAddress && !!meta.mintAddress;
+}
+
+/**
+ * Borrows `sourceAmount` of the reserve's asset against the collateral the
+ * user's derived account has deposited in the market. The borrowed tokens
+ * land on the derived account, or are bridged on when bridgeBack is set.
+ */
+export async function executeKaminoBorrowFlow(
+  intent: ValidatedIntent,
+): Promise<KaminoBorrowResult> {
+  // Verify user authorization via signature
+  verifySolanaIntentAuthorization(intent, "Kamino borrow");
+
+  const meta = intent.metadata as KaminoBorrowMetadata;
+
+  if (config.dryRunSwaps) {
+    const result: KaminoBorrowResult = { txId: `dry-run-kamino-borrow-${intent.intentId}` };
+    if (meta.bridgeBack) {
+      result.bridgeTxId = `dry-run-bridge-${intent.intentId}`;
+      result.intentsDepositAddress = "dry-run-deposit-address";
+    }
+    return result;
+  }
+
+  // Step 1: Execute Kamino borrow
+  const { txId } = await runStep(intent.intentId, "borrow", async () => {
+    const { transaction, serializedMessage } = await buildKaminoBorrowTransaction(intent);
+
+    // Transaction requires two signatures:
+    // 1. Base agent (fee payer) - pays for gas, index 0
+    // 2. User-specific derived account (obligation owner) - receives the loan, index 1
+    return { txId: await signAndBroadcastAsUserAgent(transaction, serializedMessage, intent.userDestination) };
+  });
+
+  console.log(`[kaminoBorrow] Borrow tx confirmed: ${txId}`);
+
+  // Step 2: If bridgeBack is configured, send borrowed tokens to intents
+  if (meta.bridgeBack) {
+    const bridgeResult = await bridgeBackFromSolana(
+      intent,
+      meta.bridgeBack,
+      meta.mintAddress,
+      intent.sourceAmount,
+      "kaminoBorrow",
+    );
+    return {
+      txId,
+      bridgeTxId: bridgeResult.txId,
+      intentsDepositAddress: bridgeResult.depositAddress,
+    };
+  }
+
+  return { txId };
+}
+
+async function buildKaminoBorrowTransaction(
+  intent: ValidatedIntent,
+) {
+  const meta = intent.metadata as KaminoBorrowMetadata;
+
+  // Base agent pays for transaction fees (has SOL)
+  const feePayerPublicKey = await deriveAgentPublicKey(SOLANA_DEFAULT_PATH);
+
+  // User-specific derived account owns the obligation holding the collateral
+  const userAgentPublicKey = await deriveAgentPublicKey(
+    SOLANA_DEFAULT_PATH,
+    intent.userDestination,
+  );
+  const ownerAddress = address(userAgentPublicKey.toBase58());
+
+  // Create a dummy signer - we only need its address, not actual signing capability
+  // The actual signing is done via NEAR chain signatures
+  const dummySigner = createDummySigner(ownerAddress);
+
+  const { market, reserve } = await loadKaminoReserve(meta.marketAddress, meta.mintAddress);
+
+  const amount = new BN(intent.sourceAmount);
+
+  const borrowAction = await KaminoAction.buildBorrowTxns(
+    market,
+    amount,
+    reserve.getLiquidityMint(),
+    dummySigner,
+    new VanillaObligation(PROGRAM_ID),
+    false,
+    undefined,
+    300_000,
+    true,
+  );
+
+  return buildKaminoActionTransaction(borrowAction, feePayerPublicKey, "kaminoBorrow");
+}
@@ -19,6 +19,7 @@ import {
 } from "@kamino-finance/klend-sdk";
 import BN from "bn.js";
 import { config } from "../config";
+import { ProtocolRejectedError, TransientError, ValidationError, solanaTransactionError } from "../errors";
 import { KaminoDepositMetadata, ValidatedIntent } from "../queue/types";
 import {
   deriveAgentPublicKey,
@@ -28,6 +29,7 @@ import {
   signWithNearChainSignatures,
   createDummySigner,
 } from "../utils/chainSignature";
+import { runStep } from "../state/checkpoints";
 
 interface KaminoDepositResult {
   txId: string;
@@ -56,7 +58,7 @@ function createKaminoRpc() {
 function verifyUserAuthorization(intent: ValidatedIntent): void {
   // Require userDestination for Kamino deposits
   if (!intent.userDestination) {
-    throw new Error("Kamino deposit requires userDestination to identify the user");
+    throw new ValidationError("Kamino deposit requires userDestination to identify the user");
   }
 
   // For deposits, authorization is implicit via the deposit transaction
@@ -96,17 +98,18 @@ export async function executeKaminoDepositFlow(
 
   console.log(`[kaminoDeposit] Executing Kamino deposit for amount: ${depositAmount}`);
 
-  // Execute the Kamino deposit with the received tokens
-  console.log(`[kaminoDeposit] Building Kamino deposit transaction for amount: ${depositAmount}`);
-
-  const { compiledTx, serializedMessage, feePayerAddress, userAgentAddress } = await buildKaminoDepositTransaction(
-    intent,
-    depositAmount,
-  );
-
-  // In dry run mode, skip signing and sending the transaction
+  // In dry run mode, build the transactions but skip signing and sending them
   if (config.dryRunSwaps) {
+    const sponsorTx = await buildSponsorRentTransaction(intent);
+    const { serializedMessage, feePayerAddress, userAgentAddress } = await buildKaminoDepositTransaction(
+      intent,
+      depositAmount,
+    );
+
     console.log(`[kaminoDeposit] === DRY RUN MODE - SKIPPING TRANSACTION ===`);
+    if (sponsorTx) {
+      console.log(`[kaminoDeposit] Would sponsor ${sponsorTx.lamports} lamports of rent from fee payer`);
+    }
     console.log(`[kaminoDeposit] Would sign with fee payer: ${feePayerAddress}`);
     console.log(`[kaminoDeposit] Would sign with user agent: ${userAgentAddress}`);
     console.log(`[kaminoDeposit] Transaction message bytes: ${serializedMessage.length} bytes`);
@@ -119,35 +122,77 @@ export async function executeKaminoDepositFlow(
     };
   }
 
-  // Transaction requires two signatures:
-  // 1. Base agent (fee payer) - pays for gas
-  // 2. User-specific derived account (token owner) - holds USDC/tokens
+  const rpc = createKaminoRpc();
 
-  // Sign with base agent (fee payer)
-  const feePayerSignature = await signWithNearChainSignatures(
-    serializedMessage,
-    undefined, // base agent path
-  );
+  // Step 1: Top up the user agent's SOL for rent. Checkpointed so a retried
+  // deposit never sponsors rent twice.
+  const sponsor = await runStep(intent.intentId, "sponsor-rent", async () => {
+    const sponsorTx = await buildSponsorRentTransaction(intent);
+    if (!sponsorTx) {
+      return { lamports: "0" };
+    }
+
+    // Only the fee payer signs: it is both the payer and the transfer source
+    const feePayerSignature = await signWithNearChainSignatures(
+      sponsorTx.compiledTx.messageBytes,
+      undefined, // base agent path
+    );
+    const signedTx = {
+      ...sponsorTx.compiledTx,
+      signatures: {
+        ...sponsorTx.compiledTx.signatures,
+        [sponsorTx.feePayerAddress]: feePayerSignature,
+      },
+    };
 
-  // Sign with user-specific derived account (token owner)
-  const userAgentSignature = await signWithNearChainSignatures(
-    serializedMessage,
-    intent.userDestination,
-  );
+    const txId = await sendSignedTransaction(rpc, signedTx);
+    // The deposit preflight needs the rent to be visible
+    await waitForConfirmation(rpc, txId);
+    return { txId, lamports: sponsorTx.lamports.toString() };
+  });
 
-  // Add signatures to the compiled transaction
-  const signedTx = {
-    ...compiledTx,
-    signatures: {
-      ...compiledTx.signatures,
-      [feePayerAddress]: feePayerSignature,
-      [userAgentAddress]: userAgentSignature,
-    },
-  };
+  if (sponsor.txId) {
+    console.log(`[kaminoDeposit] Sponsored ${sponsor.lamports} lamports of rent: ${sponsor.txId}`);
+  }
 
-  // Send the transaction using @solana/kit
-  const rpc = createKaminoRpc();
-  const txId = await sendSignedTransaction(rpc, signedTx);
+  // Step 2: Execute the Kamino deposit with the received tokens
+  const { txId } = await runStep(intent.intentId, "deposit", async () => {
+    console.log(`[kaminoDeposit] Building Kamino deposit transaction for amount: ${depositAmount}`);
+
+    const { compiledTx, serializedMessage, feePayerAddress, userAgentAddress } = await buildKaminoDepositTransaction(
+      intent,
+      depositAmount,
+    );
+
+    // Transaction requires two signatures:
+    // 1. Base agent (fee payer) - pays for gas
+    // 2. User-specific derived account (token owner) - holds USDC/tokens
+
+    // Sign with base agent (fee payer)
+    const feePayerSignature = await signWithNearChainSignatures(
+      serializedMessage,
+      undefined, // base agent path
+    );
+
+    // Sign with user-specific derived account (token owner)
+    const userAgentSignature = await signWithNearChainSignatures(
+      serializedMessage,
+      intent.userDestination,
+    );
+
+    // Add signatures to the compiled transaction
+    const signedTx = {
+      ...compiledTx,
+      signatures: {
+        ...compiledTx.signatures,
+        [feePayerAddress]: feePayerSignature,
+        [userAgentAddress]: userAgentSignature,
+      },
+    };
+
+    // Send the transaction using @solana/kit
+    return { txId: await sendSignedTransaction(rpc, signedTx) };
+  });
 
   console.log(`[kaminoDeposit] Kamino deposit confirmed: ${txId}`);
 
@@ -203,12 +248,121 @@ async function sendSignedTransaction(
   // Wait for confirmation
   const { value: statuses } = await rpc.getSignatureStatuses([signature]).send();
   if (statuses[0]?.err) {
-    throw new Error(`Transaction failed: ${JSON.stringify(statuses[0].err)}`);
+    throw solanaTransactionError(statuses[0].err);
   }
 
   return signature;
 }
 
+const CONFIRMATION_TIMEOUT_MS = 60_000;
+const CONFIRMATION_POLL_MS = 1_000;
+
+/**
+ * Polls until a transaction reaches "confirmed" (or "finalized") commitment.
+ */
+async function waitForConfirmation(
+  rpc: ReturnType<typeof createSolanaRpc>,
+  signature: string,
+): Promise<void> {
+  const startTime = Date.now();
+  while (Date.now() - startTime < CONFIRMATION_TIMEOUT_MS) {
+    const { value: statuses } = await rpc.getSignatureStatuses([signature as any]).send();
+    const status = statuses[0];
+    if (status?.err) {
+      throw solanaTransactionError(status.err);
+    }
+    if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_MS));
+  }
+  throw new TransientError(`Timed out waiting for confirmation of ${signature}`, "confirmation_timeout");
+}
+
+// User agent needs SOL for rent:
+// - User metadata: ~0.008 SOL
+// - Obligation: ~0.024 SOL
+// - Farms user account: ~0.0073 SOL
+// - Buffer for other accounts: ~0.005 SOL
+const MIN_RENT_LAMPORTS = 45_000_000n; // 0.045 SOL minimum needed for rent
+
+interface SponsorRentTx {
+  compiledTx: CompiledTransaction;
+  feePayerAddress: Address;
+  lamports: bigint;
+}
+
+/**
+ * Builds a transfer from the base agent to the user agent covering the
+ * shortfall below MIN_RENT_LAMPORTS. Returns null if no top-up is needed.
+ */
+async function buildSponsorRentTransaction(
+  intent: ValidatedIntent,
+): Promise<SponsorRentTx | null> {
+  const rpc = createKaminoRpc();
+
+  const feePayerPublicKey = await deriveAgentPublicKey(SOLANA_DEFAULT_PATH);
+  const feePayerAddress = address(feePayerPublicKey.toBase58());
+  const userAgentPublicKey = await deriveAgentPublicKey(
+    SOLANA_DEFAULT_PATH,
+    intent.userDestination,
+  );
+  const userAgentAddress = address(userAgentPublicKey.toBase58());
+
+  // Check current balance and only transfer what's needed
+  const { value: userAgentBalance } = await rpc.getBalance(userAgentAddress).send();
+  if (userAgentBalance >= MIN_RENT_LAMPORTS) {
+    console.log(`[kaminoDeposit] User agent has sufficient SOL: ${userAgentBalance} lamports, no sponsored transfer needed`);
+    return null;
+  }
+
+  const amountNeeded = MIN_RENT_LAMPORTS - userAgentBalance;
+  console.log(`[kaminoDeposit] === SPONSORED FUNDS TRANSFER ===`);
+  console.log(`[kaminoDeposit] Transferring sponsored SOL from: ${feePayerAddress}`);
+  console.log(`[kaminoDeposit] Transferring sponsored SOL to: ${userAgentAddress}`);
+  console.log(`[kaminoDeposit] User agent current balance: ${userAgentBalance} lamports`);
+  console.log(`[kaminoDeposit] Minimum required: ${MIN_RENT_LAMPORTS} lamports`);
+  console.log(`[kaminoDeposit] Amount being transferred: ${amountNeeded} lamports`);
+
+  const feePayerSigner = createDummySigner(feePayerAddress);
+  const fundUserAgentIx = getTransferSolInstruction({
+    source: feePayerSigner,
+    destination: userAgentAddress,
+    amount: amountNeeded,
+  });
+
+  const { value: blockhash } = await rpc.getLatestBlockhash().send();
+  const txMessage = pipe(
+    createTransactionMessage({ version: 0 }),
+    (tx) => appendTransactionMessageInstructions([fundUserAgentIx], tx),
+    (tx) => setTransactionMessageFeePayerSigner(feePayerSigner, tx),
+    (tx) => setTransactionMessageLifetimeUsingBlockhash(blockhash, tx),
+  );
+
+  return {
+    compiledTx: toCompiledTransaction(compileTransaction(txMessage)),
+    feePayerAddress,
+    lamports: amountNeeded,
+  };
+}
+
+/**
+ * Convert to our simplified type (avoiding @solana/kit nominal types).
+ * Filters out null signatures and converts to Uint8Array.
+ */
+function toCompiledTransaction(
+  rawCompiledTx: ReturnType<typeof compileTransaction>,
+): CompiledTransaction {
+  return {
+    messageBytes: new Uint8Array(rawCompiledTx.messageBytes),
+    signatures: Object.fromEntries(
+      Object.entries(rawCompiledTx.signatures)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, new Uint8Array(v!)])
+    ) as Record<Address, Uint8Array>,
+  };
+}
+
 async function buildKaminoDepositTransaction(
   intent: ValidatedIntent,
   depositAmount: string,
@@ -247,12 +401,12 @@ async function buildKaminoDepositTransaction(
     PROGRAM_ID,
   );
   if (!market) {
-    throw new Error(`Failed to load Kamino market: ${meta.marketAddress}`);
+    throw new ProtocolRejectedError(`Failed to load Kamino market: ${meta.marketAddress}`, "market_not_found");
   }
 
   const reserve = market.getReserveByMint(address(meta.mintAddress));
   if (!reserve) {
-    throw new Error(`Reserve not found for mint: ${meta.mintAddress}`);
+    throw new ProtocolRejectedError(`Reserve not found for mint: ${meta.mintAddress}`, "reserve_not_found");
   }
 
   const amount = new BN(depositAmount);
@@ -271,46 +425,13 @@ async function buildKaminoDepositTransaction(
     { skipInitialization: false, skipLutCreation: true },  // Skip LUT but allow user metadata init
   );
 
-  // User agent needs SOL for rent:
-  // - User metadata: ~0.008 SOL
-  // - Obligation: ~0.024 SOL
-  // - Farms user account: ~0.0073 SOL
-  // - Buffer for other accounts: ~0.005 SOL
-  // Check current balance and only transfer what's needed
-  const MIN_RENT_LAMPORTS = 45_000_000n; // 0.045 SOL minimum needed for rent
-  const { value: userAgentBalance } = await rpc.getBalance(userAgentAddress).send();
-
-  const kaminoInstructions = [
+  const instructions: IInstruction[] = [
     ...(depositAction.computeBudgetIxs || []),
     ...(depositAction.setupIxs || []),
     ...(depositAction.lendingIxs || []),
     ...(depositAction.cleanupIxs || []),
   ].filter((ix) => ix != null);
 
-  const instructions: IInstruction[] = [];
-
-  // Only add transfer if user agent needs more SOL
-  if (userAgentBalance < MIN_RENT_LAMPORTS) {
-    const amountNeeded = MIN_RENT_LAMPORTS - userAgentBalance;
-    console.log(`[kaminoDeposit] === SPONSORED FUNDS TRANSFER ===`);
-    console.log(`[kaminoDeposit] Transferring sponsored SOL from: ${feePayerAddress}`);
-    console.log(`[kaminoDeposit] Transferring sponsored SOL to: ${userAgentAddress}`);
-    console.log(`[kaminoDeposit] User agent current balance: ${userAgentBalance} lamports`);
-    console.log(`[kaminoDeposit] Minimum required: ${MIN_RENT_LAMPORTS} lamports`);
-    console.log(`[kaminoDeposit] Amount being transferred: ${amountNeeded} lamports`);
-
-    const fundUserAgentIx = getTransferSolInstruction({
-      source: feePayerSigner,
-      destination: userAgentAddress,
-      amount: amountNeeded,
-    });
-    instructions.push(fundUserAgentIx);
-  } else {
-    console.log(`[kaminoDeposit] User agent has sufficient SOL: ${userAgentBalance} lamports, no sponsored transfer needed`);
-  }
-
-  instructions.push(...kaminoInstructions);
-
   console.log(`[kaminoDeposit] Got ${instructions.length} instructions from Kamino SDK`);
 
   // Fetch blockhash for transaction lifetime
@@ -327,16 +448,7 @@ async function buildKaminoDepositTransaction(
   // Compile the transaction (without signing - we'll sign externally)
   const rawCompiledTx = compileTransaction(txMessage);
 
-  // Convert to our simplified type (avoiding @solana/kit nominal types)
-  // Filter out null signatures and convert to Uint8Array
-  const compiledTx: CompiledTransaction = {
-    messageBytes: new Uint8Array(rawCompiledTx.messageBytes),
-    signatures: Object.fromEntries(
-      Object.entries(rawCompiledTx.signatures)
-        .filter(([, v]) => v !== null)
-        .map(([k, v]) => [k, new Uint8Array(v!)])
-    ) as Record<Address, Uint8Array>,
-  };
+  const compiledTx = toCompiledTransaction(rawCompiledTx);
 
   // The message bytes are what we need to sign
   const serializedMessage = compiledTx.messageBytes;
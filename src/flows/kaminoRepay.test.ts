@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { KaminoAction } from "@kamino-finance/klend-sdk";
+import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
+import { ValidatedIntent } from "../queue/types";
+import { executeKaminoRepayFlow } from "./kaminoRepay";
+
+config.stateBackend = "memory";
+
+const { getKaminoDebtMock, getTokenBalanceMock, signAndBroadcastMock, bridgeBackFromSolanaMock } = vi.hoisted(
+  () => ({
+    getKaminoDebtMock: vi.fn(),
+    getTokenBalanceMock: vi.fn(),
+    signAndBroadcastMock: vi.fn(),
+    bridgeBackFromSolanaMock: vi.fn(),
+  }),
+);
+
+vi.mock("@kamino-finance/klend-sdk", () => ({
+  KaminoAction: { buildRepayTxns: vi.fn().mockResolvedValue({}) },
+  U64_MAX: "18446744073709551615",
+}));
+
+vi.mock("../utils/solana", () => ({
+  deriveAgentPublicKey: vi.fn().mockResolvedValue({ toBase58: () => "11111111111111111111111111111111" }),
+  SOLANA_DEFAULT_PATH: "solana-1",
+}));
+
+vi.mock("../utils/chainSignature", () => ({
+  createDummySigner: vi.fn(),
+}));
+
+vi.mock("../utils/solanaBalance", () => ({
+  getTokenBalance: getTokenBalanceMock,
+}));
+
+vi.mock("../utils/kamino", () => ({
+  loadKaminoReserve: vi.fn().mockResolvedValue({
+    market: {},
+    reserve: { getLiquidityMint: () => "mint" },
+  }),
+  getKaminoDebt: getKaminoDebtMock,
+  createKaminoRpc: () => ({ getSlot: () => ({ send: vi.fn().mockResolvedValue(100n) }) }),
+  buildKaminoActionTransaction: vi.fn().mockResolvedValue({
+    transaction: {},
+    serializedMessage: new Uint8Array(),
+  }),
+  signAndBroadcastAsUserAgent: signAndBroadcastMock,
+}));
+
+vi.mock("./solanaBridgeBack", () => ({
+  bridgeBackFromSolana: bridgeBackFromSolanaMock,
+}));
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+let intentCounter = 0;
+
+function repayIntent(repayMax: boolean, overrides: Partial<ValidatedIntent> = {}): ValidatedIntent {
+  return {
+    intentId: `kamino-repay-${++intentCounter}`,
+    sourceChain: "near",
+    sourceAsset: "nep141:wrap.near",
+    sourceAmount: "7000000000000000000000000",
+    // What intents delivered: 1.5 USDC
+    intermediateAmount: "1500000",
+    destinationChain: "solana",
+    finalAsset: USDC_MINT,
+    userDestination: "user.near",
+    agentDestination: "agent",
+    refundAddress: "alice.near",
+    slippageBps: 300,
+    metadata: { action: "kamino-repay", marketAddress: "market", mintAddress: USDC_MINT, repayMax },
+    ...overrides,
+  } as ValidatedIntent;
+}
+
+/** The derived account's token balance before and after the repay */
+function balances(before: bigint, after: bigint) {
+  getTokenBalanceMock.mockReset().mockResolvedValueOnce(before).mockResolvedValueOnce(after);
+}
+
+describe("executeKaminoRepayFlow", () => {
+  beforeEach(() => {
+    // 1 USDC owed
+    getKaminoDebtMock.mockReset().mockResolvedValue({ obligation: {}, debt: 1_000_000n });
+    signAndBroadcastMock.mockReset().mockResolvedValue("repay-tx");
+    bridgeBackFromSolanaMock.mockReset();
+    bridgeBackFromSolanaMock.mockResolvedValue({ txId: "bridge-tx", depositAddress: "deposit-address" });
+    vi.mocked(KaminoAction.buildRepayTxns).mockClear();
+  });
+
+  it("repays the debt and returns the excess to refundAddress", async () => {
+    balances(1_500_000n, 500_000n);
+    const intent = repayIntent(false);
+
+    const result = await executeKaminoRepayFlow(intent);
+
+    expect(vi.mocked(KaminoAction.buildRepayTxns).mock.calls[0][1].toString()).toBe("1000000");
+    expect(bridgeBackFromSolanaMock).toHaveBeenCalledWith(
+      intent,
+      {
+        destinationChain: "near",
+        destinationAddress: "alice.near",
+        destinationAsset: "nep141:wrap.near",
+        slippageTolerance: 300,
+      },
+      USDC_MINT,
+      "500000",
+      "kaminoRepay",
+    );
+    expect(result).toEqual({
+      txId: "repay-tx",
+      repaidAmount: "1000000",
+      excessAmount: "500000",
+      bridgeTxId: "bridge-tx",
+      intentsDepositAddress: "deposit-address",
+    });
+  });
+
+  it("repays the whole borrow with repayMax, counting interest accrued since the quote", async () => {
+    balances(1_500_000n, 499_000n);
+
+    const result = await executeKaminoRepayFlow(repayIntent(true));
+
+    expect(vi.mocked(KaminoAction.buildRepayTxns).mock.calls[0][1].toString()).toBe("18446744073709551615");
+    expect(result).toMatchObject({ repaidAmount: "1001000", excessAmount: "499000" });
+  });
+
+  it("repays what was delivered without bridging when it doesn't cover the debt", async () => {
+    getKaminoDebtMock.mockResolvedValue({ obligation: {}, debt: 2_000_000n });
+    balances(1_500_000n, 0n);
+
+    const result = await executeKaminoRepayFlow(repayIntent(true));
+
+    expect(vi.mocked(KaminoAction.buildRepayTxns).mock.calls[0][1].toString()).toBe("1500000");
+    expect(bridgeBackFromSolanaMock).not.toHaveBeenCalled();
+    expect(result).toEqual({ txId: "repay-tx", repaidAmount: "1500000" });
+  });
+
+  it("resumes at the bridge without repaying again after the bridge failed", async () => {
+    balances(1_500_000n, 500_000n);
+    bridgeBackFromSolanaMock
+      .mockReset()
+      .mockRejectedValueOnce(new Error("quote unavailable"))
+      .mockResolvedValueOnce({ txId: "bridge-tx", depositAddress: "deposit-address" });
+    const intent = repayIntent(false);
+
+    await expect(executeKaminoRepayFlow(intent)).rejects.toThrow("quote unavailable");
+    const result = await executeKaminoRepayFlow(intent);
+
+    expect(signAndBroadcastMock).toHaveBeenCalledTimes(1);
+    expect(bridgeBackFromSolanaMock).toHaveBeenCalledTimes(2);
+    expect(bridgeBackFromSolanaMock).toHaveBeenLastCalledWith(
+      intent,
+      expect.anything(),
+      USDC_MINT,
+      "500000",
+      "kaminoRepay",
+    );
+    expect(result).toMatchObject({ txId: "repay-tx", excessAmount: "500000", bridgeTxId: "bridge-tx" });
+  });
+
+  it("rejects a repay when there is no debt", async () => {
+    getKaminoDebtMock.mockResolvedValue(null);
+
+    await expect(executeKaminoRepayFlow(repayIntent(false))).rejects.toThrow(ProtocolRejectedError);
+    expect(signAndBroadcastMock).not.toHaveBeenCalled();
+  });
+
+  it("repays nothing without a refundAddress for the excess", async () => {
+    await expect(
+      executeKaminoRepayFlow(repayIntent(false, { refundAddress: undefined })),
+    ).rejects.toThrow(ValidationError);
+    expect(getKaminoDebtMock).not.toHaveBeenCalled();
+    expect(signAndBroadcastMock).not.toHaveBeenCalled();
+  });
+});
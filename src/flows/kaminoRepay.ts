@@ -0,0 +1,177 @@
+import { address } from "@solana/kit";
+import { KaminoAction, U64_MAX } from "@kamino-finance/klend-sdk";
+import BN from "bn.js";
+import { config } from "../config";
+import { ProtocolRejectedError, ValidationError } from "../errors";
+import { BridgeBackConfig, KaminoRepayMetadata, ValidatedIntent } from "../queue/types";
+import {
+  deriveAgentPublicKey,
+  SOLANA_DEFAULT_PATH,
+} from "../utils/solana";
+import { createDummySigner } from "../utils/chainSignature";
+import { getTokenBalance } from "../utils/solanaBalance";
+import {
+  buildKaminoActionTransaction,
+  createKaminoRpc,
+  getKaminoDebt,
+  loadKaminoReserve,
+  signAndBroadcastAsUserAgent,
+} from "../utils/kamino";
+import { runStep } from "../state/checkpoints";
+import { bridgeBackFromSolana } from "./solanaBridgeBack";
+
+interface KaminoRepayResult {
+  txId: string;
+  /** Amount of the borrowed asset that went to the debt, in base units */
+  repaidAmount: string;
+  /** What was delivered but not needed for the debt, returned to the user */
+  excessAmount?: string;
+  /** If there was an excess, the bridge transaction returning it */
+  bridgeTxId?: string;
+  intentsDepositAddress?: string;
+}
+
+export function isKaminoRepayIntent(
+  intent: ValidatedIntent,
+): intent is ValidatedIntent & { metadata: KaminoRepayMetadata } {
+  const meta = intent.metadata as KaminoRepayMetadata | undefined;
+  return meta?.action === "kamino-repay" && !!meta.marketAddress && !!meta.mintAddress;
+}
+
+/**
+ * Repays the user's Kamino debt with the borrowed asset intents delivered to
+ * the user's derived account. Like deposits, the user's deposit into intents
+ * is the authorization.
+ *
+ * With `repayMax` and enough delivered to cover the debt, the whole borrow is
+ * closed (including interest accrued since it was quoted); otherwise up to the
+ * outstanding debt is repaid. Whatever was delivered but not repaid goes back
+ * to the user's refundAddress on the source chain; userDestination is only the
+ * Kamino owner and need not be an address there.
+ */
+export async function executeKaminoRepayFlow(
+  intent: ValidatedIntent,
+): Promise<KaminoRepayResult> {
+  if (!intent.userDestination) {
+    throw new ValidationError("Kamino repay requires userDestination to identify the user");
+  }
+  const { refundAddress } = intent;
+  if (!refundAddress) {
+    throw new ValidationError("Kamino repay requires refundAddress to return any excess to");
+  }
+
+  const meta = intent.metadata as KaminoRepayMetadata;
+  // Set by the poller to what intents actually delivered
+  const available = intent.intermediateAmount || intent.sourceAmount;
+
+  if (config.dryRunSwaps) {
+    return { txId: `dry-run-kamino-repay-${intent.intentId}`, repaidAmount: available };
+  }
+
+  // Step 1: Repay the debt. Checkpointed so a retry never repays twice.
+  const { txId, repaidAmount } = await runStep(intent.intentId, "repay", () =>
+    repayDebt(intent, meta, BigInt(available)),
+  );
+
+  console.log(`[kaminoRepay] Repay tx confirmed: ${txId} (repaid ${repaidAmount} of ${available})`);
+
+  // Step 2: Return what was left over
+  const excess = BigInt(available) - BigInt(repaidAmount);
+  if (excess > 0n) {
+    const bridgeResult = await bridgeBackFromSolana(
+      intent,
+      excessReturn(intent, meta, refundAddress),
+      meta.mintAddress,
+      excess.toString(),
+      "kaminoRepay",
+    );
+    return {
+      txId,
+      repaidAmount,
+      excessAmount: excess.toString(),
+      bridgeTxId: bridgeResult.txId,
+      intentsDepositAddress: bridgeResult.depositAddress,
+    };
+  }
+
+  return { txId, repaidAmount };
+}
+
+async function repayDebt(
+  intent: ValidatedIntent,
+  meta: KaminoRepayMetadata,
+  available: bigint,
+): Promise<{ txId: string; repaidAmount: string }> {
+  // Base agent pays for transaction fees (has SOL)
+  const feePayerPublicKey = await deriveAgentPublicKey(SOLANA_DEFAULT_PATH);
+
+  // User-specific derived account owns the obligation and holds the delivered tokens
+  const userAgentPublicKey = await deriveAgentPublicKey(
+    SOLANA_DEFAULT_PATH,
+    intent.userDestination,
+  );
+  const ownerAddress = userAgentPublicKey.toBase58();
+
+  const { market, reserve } = await loadKaminoReserve(meta.marketAddress, meta.mintAddress);
+
+  const position = await getKaminoDebt(market, meta.mintAddress, ownerAddress);
+  if (!position) {
+    throw new ProtocolRejectedError(`No outstanding Kamino debt for mint: ${meta.mintAddress}`, "no_debt");
+  }
+  const { obligation, debt } = position;
+
+  // U64_MAX tells Kamino to repay the full borrow as of execution
+  const repayAll = meta.repayMax === true && available >= debt;
+  const amount = repayAll ? U64_MAX : (available < debt ? available : debt).toString();
+
+  console.log(`[kaminoRepay] Repaying Kamino debt`, {
+    debt: debt.toString(),
+    available: available.toString(),
+    repayAll,
+  });
+
+  const currentSlot = await createKaminoRpc().getSlot().send();
+
+  const repayAction = await KaminoAction.buildRepayTxns(
+    market,
+    new BN(amount),
+    reserve.getLiquidityMint(),
+    createDummySigner(address(ownerAddress)),
+    obligation,
+    false,
+    undefined,
+    currentSlot,
+    createDummySigner(address(feePayerPublicKey.toBase58())), // base agent pays any rent
+    300_000,
+    true,
+  );
+
+  const { transaction, serializedMessage } = await buildKaminoActionTransaction(
+    repayAction,
+    feePayerPublicKey,
+    "kaminoRepay",
+  );
+
+  // The repaid amount is what left the owner's token account, which also
+  // covers interest that accrued after the debt was read
+  const balanceBefore = await getTokenBalance(ownerAddress, meta.mintAddress);
+  const txId = await signAndBroadcastAsUserAgent(transaction, serializedMessage, intent.userDestination);
+  const balanceAfter = await getTokenBalance(ownerAddress, meta.mintAddress);
+
+  const repaid = balanceBefore > balanceAfter ? balanceBefore - balanceAfter : 0n;
+  return { txId, repaidAmount: (repaid < available ? repaid : available).toString() };
+}
+
+/** Sends the excess back to the user as the asset they paid with */
+function excessReturn(
+  intent: ValidatedIntent,
+  meta: KaminoRepayMetadata,
+  refundAddress: string,
+): BridgeBackConfig {
+  return {
+    destinationChain: intent.sourceChain,
+    destinationAddress: refundAddress,
+    destinationAsset: intent.sourceAsset,
+    slippageTolerance: meta.slippageTolerance ?? intent.slippageBps,
+  };
+}
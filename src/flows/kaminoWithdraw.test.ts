@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config";
+import { ValidatedIntent } from "../queue/types";
+import { executeKaminoWithdrawFlow } from "./kaminoWithdraw";
+
+config.stateBackend = "memory";
+
+const { signAndBroadcastMock, bridgeBackFromSolanaMock } = vi.hoisted(() => ({
+  signAndBroadcastMock: vi.fn(),
+  bridgeBackFromSolanaMock: vi.fn(),
+}));
+
+vi.mock("@kamino-finance/klend-sdk", () => ({
+  KaminoAction: { buildWithdrawTxns: vi.fn().mockResolvedValue({}) },
+  PROGRAM_ID: "klend",
+  VanillaObligation: vi.fn(),
+}));
+
+vi.mock("../utils/solana", () => ({
+  deriveAgentPublicKey: vi.fn().mockResolvedValue({ toBase58: () => "11111111111111111111111111111111" }),
+  SOLANA_DEFAULT_PATH: "solana-1",
+}));
+
+vi.mock("../utils/chainSignature", () => ({
+  createDummySigner: vi.fn(),
+}));
+
+vi.mock("../utils/solanaSignature", () => ({
+  verifySolanaIntentAuthorization: vi.fn(),
+}));
+
+vi.mock("../utils/kamino", () => ({
+  loadKaminoReserve: vi.fn().mockResolvedValue({
+    market: {},
+    reserve: { getLiquidityMint: () => "mint" },
+  }),
+  buildKaminoActionTransaction: vi.fn().mockResolvedValue({
+    transaction: {},
+    serializedMessage: new Uint8Array(),
+  }),
+  signAndBroadcastAsUserAgent: signAndBroadcastMock,
+}));
+
+vi.mock("./solanaBridgeBack", () => ({
+  bridgeBackFromSolana: bridgeBackFromSolanaMock,
+}));
+
+const withdrawIntent = {
+  intentId: "kamino-withdraw-1",
+  sourceChain: "solana",
+  sourceAsset: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  sourceAmount: "1000000",
+  destinationChain: "zcash",
+  finalAsset: "zec",
+  userDestination: "user.near",
+  agentDestination: "agent.near",
+  slippageBps: 300,
+  metadata: {
+    action: "kamino-withdraw",
+    marketAddress: "market",
+    mintAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    bridgeBack: {
+      destinationChain: "zcash",
+      destinationAddress: "t1user",
+      destinationAsset: "nep141:zec.omft.near",
+    },
+  },
+} as ValidatedIntent;
+
+describe("executeKaminoWithdrawFlow", () => {
+  beforeEach(() => {
+    signAndBroadcastMock.mockReset();
+    signAndBroadcastMock.mockResolvedValue("withdraw-tx");
+    bridgeBackFromSolanaMock.mockReset();
+  });
+
+  it("resumes at the bridge without withdrawing again after the bridge failed", async () => {
+    bridgeBackFromSolanaMock
+      .mockRejectedValueOnce(new Error("quote unavailable"))
+      .mockResolvedValueOnce({ txId: "bridge-tx", depositAddress: "deposit-address" });
+
+    await expect(executeKaminoWithdrawFlow(withdrawIntent)).rejects.toThrow("quote unavailable");
+    const result = await executeKaminoWithdrawFlow(withdrawIntent);
+
+    expect(signAndBroadcastMock).toHaveBeenCalledTimes(1);
+    expect(bridgeBackFromSolanaMock).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      txId: "withdraw-tx",
+      bridgeTxId: "bridge-tx",
+      intentsDepositAddress: "deposit-address",
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config";
+import { BridgeBackConfig, ValidatedIntent } from "../queue/types";
+import { bridgeBackFromNear } from "./nearBridgeBack";
+
+config.stateBackend = "memory";
+
+const { getQuoteMock, executeMetaTransactionMock } = vi.hoisted(() => ({
+  getQuoteMock: vi.fn(),
+  executeMetaTransactionMock: vi.fn(),
+}));
+
+vi.mock("@defuse-protocol/one-click-sdk-typescript", () => ({
+  OneClickService: { getQuote: getQuoteMock },
+  OpenAPI: {},
+}));
+
+vi.mock("../utils/nearMetaTx", () => ({
+  executeMetaTransaction: executeMetaTransactionMock,
+  createFunctionCallAction: (methodName: string, args: object) => ({ methodName, args }),
+  GAS_FOR_FT_TRANSFER_CALL: 1n,
+  ONE_YOCTO: 1n,
+}));
+
+vi.mock("../utils/tokenMappings", () => ({
+  getDefuseAssetId: (_chain: string, tokenId: string) => `nep141:${tokenId}`,
+}));
+
+const bridgeBack: BridgeBackConfig = {
+  destinationChain: "zcash",
+  destinationAddress: "t1user",
+  destinationAsset: "nep141:zec.omft.near",
+};
+
+let intentCounter = 0;
+
+function bridgeIntent(): ValidatedIntent {
+  return {
+    intentId: `near-bridge-${++intentCounter}`,
+    sourceChain: "near",
+    sourceAsset: "usdc.near",
+    sourceAmount: "1000000",
+    destinationChain: "zcash",
+    finalAsset: "zec",
+    userDestination: "user.near",
+    agentDestination: "agent.near",
+    slippageBps: 300,
+  } as ValidatedIntent;
+}
+
+describe("bridgeBackFromNear", () => {
+  beforeEach(() => {
+    getQuoteMock.mockReset();
+    getQuoteMock
+      .mockResolvedValueOnce({ depositAddress: "deposit-1" })
+      .mockResolvedValueOnce({ depositAddress: "deposit-2" });
+    executeMetaTransactionMock.mockReset();
+  });
+
+  it("returns the checkpointed transfer on a retry instead of sending again", async () => {
+    executeMetaTransactionMock.mockResolvedValue("transfer-tx");
+    const intent = bridgeIntent();
+
+    const first = await bridgeBackFromNear(intent, bridgeBack, "usdc.near", "1000000", "test");
+    const second = await bridgeBackFromNear(intent, bridgeBack, "usdc.near", "1000000", "test");
+
+    expect(executeMetaTransactionMock).toHaveBeenCalledTimes(1);
+    expect(getQuoteMock).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(second).toEqual({ txId: "transfer-tx", depositAddress: "deposit-1" });
+  });
+
+  it("sends a retried transfer to the deposit address already quoted", async () => {
+    executeMetaTransactionMock
+      .mockRejectedValueOnce(new Error("relayer unavailable"))
+      .mockResolvedValueOnce("transfer-tx");
+    const intent = bridgeIntent();
+
+    await expect(
+      bridgeBackFromNear(intent, bridgeBack, "usdc.near", "1000000", "test"),
+    ).rejects.toThrow("relayer unavailable");
+    const result = await bridgeBackFromNear(intent, bridgeBack, "usdc.near", "1000000", "test");
+
+    expect(getQuoteMock).toHaveBeenCalledTimes(1);
+    expect(executeMetaTransactionMock).toHaveBeenLastCalledWith(
+      "user.near",
+      "usdc.near",
+      [{ methodName: "ft_transfer_call", args: { receiver_id: "deposit-1", amount: "1000000", msg: "" } }],
+      { skipAccountCheck: true },
+    );
+    expect(result).toEqual({ txId: "transfer-tx", depositAddress: "deposit-1" });
+  });
+});
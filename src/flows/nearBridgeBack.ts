@@ -0,0 +1,117 @@
+import {
+  OneClickService,
+  OpenAPI,
+} from "@defuse-protocol/one-click-sdk-typescript";
+import { config } from "../config";
+import { BridgeBackConfig, ValidatedIntent } from "../queue/types";
+import {
+  executeMetaTransaction,
+  createFunctionCallAction,
+  GAS_FOR_FT_TRANSFER_CALL,
+  ONE_YOCTO,
+} from "../utils/nearMetaTx";
+import { getDefuseAssetId } from "../utils/tokenMappings";
+import { runStep } from "../state/checkpoints";
+
+export interface BridgeBackResult {
+  txId: string;
+  depositAddress: string;
+}
+
+/**
+ * Bridges tokens held by the user's derived NEAR account to the user's
+ * destination chain via NEAR intents.
+ *
+ * Flow:
+ * 1. Request a quote from intents with dry: false to get the deposit address
+ * 2. Build ft_transfer_call to send tokens to intents deposit address
+ * 3. Execute via meta transaction
+ * 4. Intents handles the cross-chain swap from there
+ */
+export async function bridgeBackFromNear(
+  intent: ValidatedIntent,
+  bridgeBack: BridgeBackConfig,
+  tokenId: string,
+  amount: string,
+  logTag: string,
+): Promise<BridgeBackResult> {
+  const { destinationChain, destinationAddress, destinationAsset, slippageTolerance } = bridgeBack;
+
+  console.log(`[${logTag}] Starting bridge back to ${destinationChain}`, {
+    destinationAddress,
+    destinationAsset,
+    amount,
+    tokenId,
+  });
+
+  // Step 1: Get intents quote with dry: false to get deposit address.
+  // Checkpointed so a retry sends funds to the same deposit address.
+  const { depositAddress } = await runStep(intent.intentId, "bridge-quote", async () => {
+    if (config.intentsQuoteUrl) {
+      OpenAPI.BASE = config.intentsQuoteUrl;
+    }
+
+    // Convert NEAR token ID to Defuse asset ID
+    const originAsset = getDefuseAssetId("near", tokenId) || `nep141:${tokenId}`;
+
+    // Create deadline 30 minutes from now
+    const deadline = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+
+    const quoteRequest = {
+      originAsset,
+      destinationAsset, // Caller provides this in Defuse format
+      amount: String(amount),
+      swapType: "EXACT_INPUT" as const,
+      slippageTolerance: slippageTolerance ?? 300, // Default 3%
+      dry: false, // Important: we need the deposit address
+      recipient: destinationAddress,
+      recipientType: "DESTINATION_CHAIN" as const,
+      refundTo: intent.refundAddress || intent.userDestination,
+      refundType: "ORIGIN_CHAIN" as const,
+      depositType: "ORIGIN_CHAIN" as const,
+      deadline,
+    };
+
+    console.log(`[${logTag}] Requesting intents quote`, quoteRequest);
+
+    const quoteResponse = await OneClickService.getQuote(quoteRequest as any);
+
+    // Extract deposit address from the quote response
+    const quotedDepositAddress: string | undefined = (quoteResponse as any).depositAddress;
+    if (!quotedDepositAddress) {
+      throw new Error("Intents quote response missing depositAddress");
+    }
+
+    return { depositAddress: quotedDepositAddress };
+  });
+
+  console.log(`[${logTag}] Got intents deposit address: ${depositAddress}`);
+
+  // Step 2: Build ft_transfer_call to send tokens to intents deposit address
+  const { txId } = await runStep(intent.intentId, "bridge-transfer", async () => {
+    // For NEP-141 tokens, we use ft_transfer_call with a message
+    const ftTransferAction = createFunctionCallAction(
+      "ft_transfer_call",
+      {
+        receiver_id: depositAddress,
+        amount,
+        msg: "", // Empty message for simple transfer
+      },
+      GAS_FOR_FT_TRANSFER_CALL,
+      ONE_YOCTO, // NEP-141 requires 1 yoctoNEAR deposit
+    );
+
+    // Execute via meta transaction - agent pays for gas
+    const transferTxHash = await executeMetaTransaction(
+      intent.userDestination,
+      tokenId, // The token contract
+      [ftTransferAction],
+      { skipAccountCheck: true },
+    );
+    return { txId: transferTxHash };
+  });
+
+  console.log(`[${logTag}] Bridge transfer tx confirmed: ${txId}`);
+
+  return { txId, depositAddress };
+}
@@ -11,6 +11,7 @@ import {
   getAssociatedTokenAddressSync,
 } from "@solana/spl-token";
 import { config } from "../config";
+import { ValidationError, httpError } from "../errors";
 import { extractSolanaMintAddress } from "../constants";
 import { ValidatedIntent } from "../queue/types";
 import {
@@ -51,7 +52,7 @@ async function buildJupiterSwapTransaction(
 ): Promise<{ transaction: VersionedTransaction; agentPublicKey: string }> {
   // Validate userDestination is set - tokens should go to user, not agent
   if (!intent.userDestination) {
-    throw new Error(`[solSwap] Missing userDestination for intent ${intent.intentId}`);
+    throw new ValidationError(`[solSwap] Missing userDestination for intent ${intent.intentId}`);
   }
 
   // Derive agent's Solana address with userDestination in path for custody isolation
@@ -110,7 +111,7 @@ async function buildJupiterSwapTransaction(
   );
   if (!quoteRes.ok) {
     const body = await quoteRes.text().catch(() => "");
-    throw new Error(`Jupiter quote failed: ${quoteRes.status} ${quoteRes.statusText}${body ? ` - ${body}` : ""}`);
+    throw httpError(`Jupiter quote failed: ${quoteRes.status} ${quoteRes.statusText}${body ? ` - ${body}` : ""}`, quoteRes.status);
   }
   const quote = await quoteRes.json();
 
@@ -135,7 +136,7 @@ async function buildJupiterSwapTransaction(
 
   if (!swapInstructionsRes.ok) {
     const body = await swapInstructionsRes.text().catch(() => "");
-    throw new Error(`Jupiter swap-instructions failed: ${swapInstructionsRes.status} ${body}`);
+    throw httpError(`Jupiter swap-instructions failed: ${swapInstructionsRes.status} ${body}`, swapInstructionsRes.status);
   }
 
   const swapInstructions = await swapInstructionsRes.json();
@@ -0,0 +1,247 @@
+import {
+  VersionedTransaction,
+  Connection,
+  TransactionMessage,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddress,
+} from "@solana/spl-token";
+import {
+  OneClickService,
+  OpenAPI,
+} from "@defuse-protocol/one-click-sdk-typescript";
+import { config } from "../config";
+import { BridgeBackConfig, ValidatedIntent } from "../queue/types";
+import {
+  attachMultipleSignaturesToVersionedTx,
+  broadcastSolanaTx,
+  deriveAgentPublicKey,
+  SOLANA_DEFAULT_PATH,
+} from "../utils/solana";
+import { signWithNearChainSignatures } from "../utils/chainSignature";
+import { SOL_NATIVE_MINT } from "../constants";
+import { getDefuseAssetId, getSolDefuseAssetId } from "../utils/tokenMappings";
+import { runStep } from "../state/checkpoints";
+
+export interface BridgeBackResult {
+  txId: string;
+  depositAddress: string;
+}
+
+/**
+ * Bridges tokens held by the user's derived Solana account to the user's
+ * destination chain (e.g., ZEC) via NEAR intents.
+ *
+ * Flow:
+ * 1. Request a quote from intents with dry: false to get the deposit address
+ * 2. Build a transaction to transfer the tokens to that deposit address
+ * 3. Sign and broadcast the transfer transaction
+ * 4. Intents handles the cross-chain swap from there
+ */
+export async function bridgeBackFromSolana(
+  intent: ValidatedIntent,
+  bridgeBack: BridgeBackConfig,
+  mintAddress: string,
+  amount: string,
+  logTag: string,
+): Promise<BridgeBackResult> {
+  const { destinationChain, destinationAddress, destinationAsset, slippageTolerance } = bridgeBack;
+
+  console.log(`[${logTag}] Starting bridge back to ${destinationChain}`, {
+    destinationAddress,
+    destinationAsset,
+    amount,
+    mintAddress,
+  });
+
+  // Step 1: Get intents quote with dry: false to get deposit address.
+  // Checkpointed so a retry sends funds to the same deposit address.
+  const { depositAddress } = await runStep(intent.intentId, "bridge-quote", async () => {
+    if (config.intentsQuoteUrl) {
+      OpenAPI.BASE = config.intentsQuoteUrl;
+    }
+
+    // Convert Solana mint address to Defuse asset ID
+    // For native SOL, use the dedicated function; for SPL tokens, look up by address
+    const originAsset =
+      mintAddress === SOL_NATIVE_MINT
+        ? getSolDefuseAssetId()
+        : getDefuseAssetId("solana", mintAddress) || `nep141:${mintAddress}.omft.near`;
+
+    // Create deadline 30 minutes from now
+    const deadline = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+
+    const quoteRequest = {
+      originAsset,
+      destinationAsset, // Caller provides this in Defuse format
+      amount: String(amount),
+      swapType: "EXACT_INPUT" as const,
+      slippageTolerance: slippageTolerance ?? 300, // Default 3%
+      dry: false, // Important: we need the deposit address
+      recipient: destinationAddress,
+      recipientType: "DESTINATION_CHAIN" as const,
+      refundTo: intent.refundAddress || intent.userDestination,
+      refundType: "ORIGIN_CHAIN" as const,
+      depositType: "ORIGIN_CHAIN" as const,
+      deadline,
+    };
+
+    console.log(`[${logTag}] Requesting intents quote`, quoteRequest);
+
+    const quoteResponse = await OneClickService.getQuote(quoteRequest as any);
+
+    // Extract deposit address from the quote response
+    const quotedDepositAddress: string | undefined = (quoteResponse as any).depositAddress;
+    if (!quotedDepositAddress) {
+      throw new Error("Intents quote response missing depositAddress");
+    }
+
+    return { depositAddress: quotedDepositAddress };
+  });
+
+  console.log(`[${logTag}] Got intents deposit address: ${depositAddress}`);
+
+  // Step 2: Transfer the tokens to the deposit address
+  const { txId } = await runStep(intent.intentId, "bridge-transfer", async () => ({
+    txId: await sendToBridgeDeposit(intent, mintAddress, amount, depositAddress),
+  }));
+
+  console.log(`[${logTag}] Bridge transfer tx confirmed: ${txId}`);
+
+  return { txId, depositAddress };
+}
+
+/**
+ * Builds, signs and broadcasts the transfer of tokens from the user's
+ * derived account to the intents deposit address.
+ */
+async function sendToBridgeDeposit(
+  intent: ValidatedIntent,
+  mintAddress: string,
+  amount: string,
+  depositAddress: string,
+): Promise<string> {
+  // Base agent pays for transaction fees (has SOL)
+  const feePayerPublicKey = await deriveAgentPublicKey(SOLANA_DEFAULT_PATH);
+
+  // User-specific derived account holds tokens for custody isolation
+  const userAgentPublicKey = await deriveAgentPublicKey(
+    SOLANA_DEFAULT_PATH,
+    intent.userDestination,
+  );
+
+  const connection = new Connection(config.solRpcUrl, "confirmed");
+  const { blockhash } = await connection.getLatestBlockhash();
+
+  let transferIx;
+  const depositPubkey = new PublicKey(depositAddress);
+
+  // Check if this is native SOL or an SPL token
+  if (mintAddress === SOL_NATIVE_MINT) {
+    // Native SOL transfer - user agent sends SOL
+    transferIx = SystemProgram.transfer({
+      fromPubkey: userAgentPublicKey,
+      toPubkey: depositPubkey,
+      lamports: BigInt(amount),
+    });
+  } else {
+    // SPL token transfer
+    const mintPubkey = new PublicKey(mintAddress);
+
+    // Get or create associated token accounts
+    const sourceAta = await getAssociatedTokenAddress(
+      mintPubkey,
+      userAgentPublicKey,
+    );
+
+    const destinationAta = await getAssociatedTokenAddress(
+      mintPubkey,
+      depositPubkey,
+      true, // allowOwnerOffCurve for PDA
+    );
+
+    // Check if destination ATA exists
+    const destinationAtaInfo = await connection.getAccountInfo(destinationAta);
+
+    const instructions = [];
+
+    // Create destination ATA if it doesn't exist (fee payer pays for this)
+    if (!destinationAtaInfo) {
+      instructions.push(
+        createAssociatedTokenAccountInstruction(
+          feePayerPublicKey, // payer (base agent pays rent)
+          destinationAta, // ata
+          depositPubkey, // owner
+          mintPubkey, // mint
+        ),
+      );
+    }
+
+    // Add transfer instruction (user agent signs as token owner)
+    instructions.push(
+      createTransferInstruction(
+        sourceAta,
+        destinationAta,
+        userAgentPublicKey,
+        BigInt(amount),
+      ),
+    );
+
+    // Build transaction with multiple instructions
+    const messageV0 = new TransactionMessage({
+      payerKey: feePayerPublicKey, // Base agent pays for gas
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+
+    const transaction = new VersionedTransaction(messageV0);
+    const serializedMessage = transaction.message.serialize();
+
+    // Sign with both accounts
+    const feePayerSignature = await signWithNearChainSignatures(
+      serializedMessage,
+      undefined,
+    );
+    const userAgentSignature = await signWithNearChainSignatures(
+      serializedMessage,
+      intent.userDestination,
+    );
+
+    const finalized = attachMultipleSignaturesToVersionedTx(transaction, [
+      { signature: feePayerSignature, index: 0 },
+      { signature: userAgentSignature, index: 1 },
+    ]);
+
+    return broadcastSolanaTx(finalized);
+  }
+
+  // For native SOL, build a simple transfer transaction
+  const messageV0 = new TransactionMessage({
+    payerKey: feePayerPublicKey, // Base agent pays for gas
+    recentBlockhash: blockhash,
+    instructions: [transferIx],
+  }).compileToV0Message();
+
+  const transaction = new VersionedTransaction(messageV0);
+  const serializedMessage = transaction.message.serialize();
+
+  // Sign with both accounts
+  const feePayerSignature = await signWithNearChainSignatures(
+    serializedMessage,
+    undefined,
+  );
+  const userAgentSignature = await signWithNearChainSignatures(
+    serializedMessage,
+    intent.userDestination,
+  );
+
+  const finalized = attachMultipleSignaturesToVersionedTx(transaction, [
+    { signature: feePayerSignature, index: 0 },
+    { signature: userAgentSignature, index: 1 },
+  ]);
+  return broadcastSolanaTx(finalized);
+}
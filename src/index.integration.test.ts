@@ -73,8 +73,8 @@ vi.mock("./utils/signature", () => ({
   parseSignature: mocks.parseSignatureMock,
 }));
 
-vi.mock("./queue/redis", () => ({
-  RedisQueueClient: vi.fn().mockImplementation(() => ({
+vi.mock("./queue/client", () => ({
+  createQueueClient: vi.fn().mockImplementation(() => ({
     enqueueIntent: mocks.enqueueIntentMock,
   })),
 }));
@@ -82,8 +82,12 @@ vi.mock("./queue/redis", () => ({
 vi.mock("./state/status", () => ({
   setStatus: mocks.setStatusMock,
   getStatus: mocks.getStatusMock,
+  isTerminalState: (state: string) => state === "succeeded" || state === "failed",
 }));
 
+// Submission records (idempotency) live in-process
+config.stateBackend = "memory";
+
 vi.mock("chainsig.js", () => ({
   utils: {
     cryptography: {
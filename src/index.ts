@@ -2,8 +2,15 @@ import { Hono } from "hono";
 import { serve } from "@hono/node-server";
 import { cors } from "hono/cors";
 import dotenv from "dotenv";
-import { startQueueConsumer } from "./queue/consumer";
-import { startIntentsPoller } from "./queue/intentsPoller";
+import { QueueConsumer, startQueueConsumer } from "./queue/consumer";
+import { IntentsPoller, startIntentsPoller } from "./queue/intentsPoller";
+import { WebhookDispatcher, startWebhookDispatcher } from "./queue/webhookDispatcher";
+import { closeQueueClients } from "./queue/client";
+import { closeStatusStore } from "./state/status";
+import { closeCheckpointStore } from "./state/checkpoints";
+import { closeLockStore } from "./state/locks";
+import { closeSubmissionStore } from "./state/idempotency";
+import { closeWebhookStore } from "./state/webhooks";
 import { config } from "./config";
 
 // Load environment variables from .env file (only needed for local development)
@@ -21,6 +28,8 @@ import intents from "./routes/intents";
 import solAccount from "./routes/solAccount";
 import kaminoPositions from "./routes/kaminoPositions";
 import burrowPositions from "./routes/burrowPositions";
+import deadLetter from "./routes/deadLetter";
+import webhooks from "./routes/webhooks";
 
 const app = new Hono();
 
@@ -46,23 +55,110 @@ app.route("/api/intents", intents);
 app.route("/api/sol-account", solAccount);
 app.route("/api/kamino-positions", kaminoPositions);
 app.route("/api/burrow-positions", burrowPositions);
+app.route("/api/admin/dead-letter", deadLetter);
+app.route("/api/admin/webhooks", webhooks);
 
 // Start the server
 const port = Number(process.env.PORT || "3000");
 
 console.log(`App is running on port ${port}`);
 
-serve({ fetch: app.fetch, port });
+const server = serve({ fetch: app.fetch, port });
+
+let consumer: QueueConsumer | null = null;
+let poller: IntentsPoller | null = null;
+let webhookDispatcher: WebhookDispatcher | null = null;
 
 if (config.enableQueue) {
-  startQueueConsumer().catch((err) => {
-    console.error("Failed to start queue consumer", err);
-  });
+  startQueueConsumer()
+    .then((started) => {
+      consumer = started;
+    })
+    .catch((err) => {
+      console.error("Failed to start queue consumer", err);
+    });
 
   // Start the intents poller to monitor cross-chain swaps
-  startIntentsPoller().catch((err) => {
-    console.error("Failed to start intents poller", err);
-  });
+  startIntentsPoller()
+    .then((started) => {
+      poller = started;
+    })
+    .catch((err) => {
+      console.error("Failed to start intents poller", err);
+    });
+
+  // POST state transitions to intents' callbackUrl, off the flows' path
+  startWebhookDispatcher()
+    .then((started) => {
+      webhookDispatcher = started;
+    })
+    .catch((err) => {
+      console.error("Failed to start webhook dispatcher", err);
+    });
 } else {
   console.log("Queue consumer disabled (enable via ENABLE_QUEUE=true)");
 }
+
+/**
+ * Stops accepting connections and ends the open ones. Called after draining,
+ * so what's left are idle keep-alives and status event streams, which would
+ * otherwise hold server.close() open until the client goes away.
+ */
+function closeServer(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close((err) => (err ? reject(err) : resolve()));
+    if ("closeAllConnections" in server) {
+      server.closeAllConnections();
+    }
+  });
+}
+
+let shuttingDown = false;
+
+/**
+ * Stops taking new intents, lets in-flight ones finish (up to
+ * SHUTDOWN_TIMEOUT_MS), releases the rest back to the queue, then closes the
+ * HTTP server and Redis connections. A second signal exits immediately.
+ */
+async function shutdown(signal: string) {
+  if (shuttingDown) {
+    console.warn(`[shutdown] Received ${signal} again, exiting immediately`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+  console.log(`[shutdown] Received ${signal}, draining (timeout ${config.shutdownTimeoutMs}ms)`);
+
+  // Safety net in case a connection refuses to close
+  const forceExit = setTimeout(() => {
+    console.error("[shutdown] Timed out closing connections, exiting");
+    process.exit(1);
+  }, config.shutdownTimeoutMs + 15_000);
+  forceExit.unref();
+
+  try {
+    await Promise.all([
+      poller?.stop(),
+      webhookDispatcher?.stop(),
+      consumer?.stop(config.shutdownTimeoutMs),
+    ]);
+    console.log("[shutdown] Closing HTTP server");
+    await closeServer();
+    console.log("[shutdown] Closing Redis connections");
+    await Promise.all([
+      closeQueueClients(),
+      closeStatusStore(),
+      closeCheckpointStore(),
+      closeLockStore(),
+      closeSubmissionStore(),
+      closeWebhookStore(),
+    ]);
+    console.log("[shutdown] Shutdown complete");
+    process.exit(0);
+  } catch (err) {
+    console.error("[shutdown] Shutdown failed", err);
+    process.exit(1);
+  }
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
@@ -0,0 +1,88 @@
+import { config } from "../config";
+import { DeadLetterAttempt, IntentMessage } from "./types";
+import { ParsedDeadLetter } from "./deadLetter";
+import { RedisQueueClient } from "./redis";
+import { InMemoryQueueClient } from "./memory";
+import { RedisStreamQueueClient } from "./redisStreams";
+
+export interface FetchedIntent {
+  intent: IntentMessage | null;
+  raw: string | null;
+  /**
+   * How many times this message has been delivered, including this one.
+   * Only set by backends that track redeliveries on fetch (Redis Streams).
+   */
+  deliveryCount?: number;
+}
+
+export interface ReapResult {
+  requeued: number;
+  deadLettered: number;
+  /** Intents whose messages were dead-lettered, so their status can be failed */
+  deadLetteredIntentIds: string[];
+}
+
+/**
+ * At-least-once intent queue: fetched messages stay claimed until acked and
+ * are redelivered if their visibility window lapses, either by `requeueExpired`
+ * or, for backends without it, by `fetchNextIntent` itself.
+ */
+export interface QueueClient {
+  /** Intents with a future `executeAfter` go to the scheduled set instead */
+  enqueueIntent(intent: IntentMessage): Promise<void>;
+  /** Moves up to `limit` due scheduled intents onto the queue; returns how many */
+  promoteScheduled(limit?: number): Promise<number>;
+  fetchNextIntent(timeoutSeconds?: number): Promise<FetchedIntent>;
+  touchIntent(raw: string): Promise<void>;
+  ackIntent(raw: string): Promise<void>;
+  /**
+   * Hands a claimed message back to the queue for immediate redelivery without
+   * counting it as a failed attempt (used when shutting down mid-flow).
+   */
+  releaseIntent(raw: string): Promise<void>;
+  moveToDeadLetter(
+    raw: string,
+    details?: { intentId?: string; attempts?: DeadLetterAttempt[] },
+  ): Promise<void>;
+  listDeadLetters(start?: number, stop?: number): Promise<ParsedDeadLetter[]>;
+  replayDeadLetter(entry: ParsedDeadLetter): Promise<boolean>;
+  removeDeadLetter(entry: ParsedDeadLetter): Promise<boolean>;
+  requeueExpired?(visibilityMs?: number, maxAttempts?: number): Promise<ReapResult>;
+  close(): Promise<void>;
+}
+
+let memoryQueue: InMemoryQueueClient | null = null;
+const openClients = new Set<QueueClient>();
+
+/**
+ * Returns a queue client for the configured QUEUE_BACKEND.
+ * Redis clients get their own connection (fetch blocks it); the in-memory
+ * queue is shared so producers and the consumer see the same messages.
+ */
+export function createQueueClient(): QueueClient {
+  switch (config.queueBackend) {
+    case "redis":
+      return track(new RedisQueueClient());
+    case "redis-streams":
+      return track(new RedisStreamQueueClient());
+    case "memory":
+      if (!memoryQueue) {
+        memoryQueue = new InMemoryQueueClient();
+      }
+      return memoryQueue;
+    default:
+      throw new Error(`Unknown QUEUE_BACKEND: ${config.queueBackend}`);
+  }
+}
+
+function track(client: QueueClient): QueueClient {
+  openClients.add(client);
+  return client;
+}
+
+/** Closes every queue connection opened by createQueueClient */
+export async function closeQueueClients() {
+  const clients = [...openClients];
+  openClients.clear();
+  await Promise.all(clients.map((client) => client.close()));
+}
@@ -1,6 +1,13 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import { validateIntent } from "./validation";
 import { IntentMessage, ValidatedIntent, KaminoDepositMetadata, KaminoWithdrawMetadata } from "./types";
+import { startQueueConsumer } from "./consumer";
+import { config } from "../config";
+import { AuthorizationError, TransientError } from "../errors";
+import { attachOriginTx, claimSubmission } from "../state/idempotency";
+
+// Per-user locks use the in-process store so no Redis is needed
+config.stateBackend = "memory";
 
 // Mock all external dependencies
 const {
@@ -10,7 +17,7 @@ const {
   executeKaminoWithdrawFlowMock,
   isKaminoDepositIntentMock,
   isKaminoWithdrawIntentMock,
-  RedisQueueClientMock,
+  createQueueClientMock,
 } = vi.hoisted(() => ({
   setStatusMock: vi.fn(),
   executeSolanaSwapFlowMock: vi.fn(),
@@ -18,7 +25,7 @@ const {
   executeKaminoWithdrawFlowMock: vi.fn(),
   isKaminoDepositIntentMock: vi.fn(),
   isKaminoWithdrawIntentMock: vi.fn(),
-  RedisQueueClientMock: vi.fn(),
+  createQueueClientMock: vi.fn(),
 }));
 
 vi.mock("../state/status", () => ({
@@ -39,8 +46,55 @@ vi.mock("../flows/kaminoWithdraw", () => ({
   isKaminoWithdrawIntent: isKaminoWithdrawIntentMock,
 }));
 
-vi.mock("./redis", () => ({
-  RedisQueueClient: RedisQueueClientMock,
+vi.mock("../flows/kaminoBorrow", () => ({
+  executeKaminoBorrowFlow: vi.fn(),
+  isKaminoBorrowIntent: () => false,
+}));
+
+vi.mock("../flows/kaminoRepay", () => ({
+  executeKaminoRepayFlow: vi.fn(),
+  isKaminoRepayIntent: () => false,
+}));
+
+vi.mock("../flows/burrowDeposit", () => ({
+  executeBurrowDepositFlow: vi.fn(),
+  isBurrowDepositIntent: () => false,
+}));
+
+vi.mock("../flows/burrowWithdraw", () => ({
+  executeBurrowWithdrawFlow: vi.fn(),
+  isBurrowWithdrawIntent: () => false,
+}));
+
+vi.mock("../flows/burrowBorrow", () => ({
+  executeBurrowBorrowFlow: vi.fn(),
+  isBurrowBorrowIntent: () => false,
+}));
+
+vi.mock("../flows/burrowRepay", () => ({
+  executeBurrowRepayFlow: vi.fn(),
+  isBurrowRepayIntent: () => false,
+}));
+
+vi.mock("../flows/burrowCollateral", () => ({
+  executeBurrowCollateralFlow: vi.fn(),
+  isBurrowCollateralIntent: () => false,
+}));
+
+vi.mock("./client", () => ({
+  createQueueClient: createQueueClientMock,
+}));
+
+const { submitDepositTxMock } = vi.hoisted(() => ({
+  submitDepositTxMock: vi.fn(),
+}));
+
+vi.mock("../utils/oneClick", () => ({
+  submitDepositTx: submitDepositTxMock,
+}));
+
+vi.mock("./deliveredAmount", () => ({
+  snapshotAgentBalance: vi.fn().mockResolvedValue("0"),
 }));
 
 const baseIntent: IntentMessage = {
@@ -294,3 +348,341 @@ describe("intent types", () => {
     });
   });
 });
+
+/** Queue stub that hands out `messages` in order, then reports an empty queue */
+function createFakeQueue(messages: IntentMessage[]) {
+  const pending = [...messages];
+  return {
+    fetchNextIntent: vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const next = pending.shift();
+      if (!next) return { intent: null, raw: null };
+      return { intent: next, raw: JSON.stringify(next) };
+    }),
+    enqueueIntent: vi.fn(async (intent: IntentMessage) => {
+      pending.push(intent);
+    }),
+    promoteScheduled: vi.fn().mockResolvedValue(0),
+    touchIntent: vi.fn().mockResolvedValue(undefined),
+    ackIntent: vi.fn().mockResolvedValue(undefined),
+    releaseIntent: vi.fn().mockResolvedValue(undefined),
+    moveToDeadLetter: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe("consumer shutdown", () => {
+  const sameChainIntent: IntentMessage = {
+    ...baseIntent,
+    intentId: "drain-1",
+    sourceChain: "solana",
+  };
+  const raw = JSON.stringify(sameChainIntent);
+
+  beforeEach(() => {
+    executeSolanaSwapFlowMock.mockReset();
+    isKaminoDepositIntentMock.mockReturnValue(false);
+    isKaminoWithdrawIntentMock.mockReturnValue(false);
+    setStatusMock.mockResolvedValue(true);
+  });
+
+  it("waits for in-flight intents and acks them", async () => {
+    const queue = createFakeQueue([sameChainIntent]);
+    createQueueClientMock.mockReturnValue(queue);
+    let finish: (value: { txId: string }) => void = () => undefined;
+    executeSolanaSwapFlowMock.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(executeSolanaSwapFlowMock).toHaveBeenCalled());
+
+    const stopped = consumer.stop(5_000);
+    finish({ txId: "tx-1" });
+    await stopped;
+
+    expect(queue.ackIntent).toHaveBeenCalledWith(raw);
+    expect(queue.releaseIntent).not.toHaveBeenCalled();
+  });
+
+  it("leaves intents still running at the deadline claimed instead of releasing them", async () => {
+    const queue = createFakeQueue([sameChainIntent]);
+    createQueueClientMock.mockReturnValue(queue);
+    let finish: (value: { txId: string }) => void = () => undefined;
+    executeSolanaSwapFlowMock.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(executeSolanaSwapFlowMock).toHaveBeenCalled());
+
+    await consumer.stop(20);
+    expect(queue.releaseIntent).not.toHaveBeenCalled();
+    expect(queue.ackIntent).not.toHaveBeenCalled();
+
+    // Finishing before the process exits still completes the message
+    finish({ txId: "tx-1" });
+    await vi.waitFor(() => expect(queue.ackIntent).toHaveBeenCalledWith(raw));
+  });
+
+  it("releases intents still waiting for their user at the deadline", async () => {
+    const next = { ...sameChainIntent, intentId: "drain-2" };
+    const queue = createFakeQueue([sameChainIntent, next]);
+    createQueueClientMock.mockReturnValue(queue);
+    let finish: (value: { txId: string }) => void = () => undefined;
+    executeSolanaSwapFlowMock.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+    const consumer = await startQueueConsumer();
+    // Both fetched: the first running, the second waiting behind it
+    await vi.waitFor(() => expect(queue.fetchNextIntent.mock.calls.length).toBeGreaterThanOrEqual(3));
+
+    await consumer.stop(20);
+    expect(queue.releaseIntent).toHaveBeenCalledTimes(1);
+    expect(queue.releaseIntent).toHaveBeenCalledWith(JSON.stringify(next));
+
+    finish({ txId: "tx-1" });
+    await vi.waitFor(() => expect(queue.ackIntent).toHaveBeenCalledWith(raw));
+    expect(executeSolanaSwapFlowMock).toHaveBeenCalledTimes(1);
+    expect(queue.ackIntent).not.toHaveBeenCalledWith(JSON.stringify(next));
+  });
+});
+
+describe("per-user serialization", () => {
+  function intentFor(intentId: string, userDestination: string): IntentMessage {
+    return { ...baseIntent, intentId, sourceChain: "solana", userDestination };
+  }
+
+  beforeEach(() => {
+    executeSolanaSwapFlowMock.mockReset();
+    isKaminoDepositIntentMock.mockReturnValue(false);
+    isKaminoWithdrawIntentMock.mockReturnValue(false);
+    setStatusMock.mockResolvedValue(true);
+  });
+
+  it("runs intents of the same user in order and other users in parallel", async () => {
+    const finishers = new Map<string, (value: { txId: string }) => void>();
+    executeSolanaSwapFlowMock.mockImplementation(
+      (intent: ValidatedIntent) =>
+        new Promise((resolve) => finishers.set(intent.intentId, resolve)),
+    );
+    createQueueClientMock.mockReturnValue(
+      createFakeQueue([
+        intentFor("alice-1", "alice"),
+        intentFor("alice-2", "alice"),
+        intentFor("bob-1", "bob"),
+      ]),
+    );
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(finishers.has("bob-1")).toBe(true));
+    expect([...finishers.keys()]).toEqual(["alice-1", "bob-1"]);
+
+    finishers.get("alice-1")!({ txId: "tx-a1" });
+    await vi.waitFor(() => expect(finishers.has("alice-2")).toBe(true), { timeout: 2_000 });
+
+    finishers.get("alice-2")!({ txId: "tx-a2" });
+    finishers.get("bob-1")!({ txId: "tx-b1" });
+    await consumer.stop(1_000);
+  });
+});
+
+describe("error classification", () => {
+  const intent: IntentMessage = { ...baseIntent, intentId: "classify-1", sourceChain: "solana" };
+
+  beforeEach(() => {
+    executeSolanaSwapFlowMock.mockReset();
+    isKaminoDepositIntentMock.mockReturnValue(false);
+    isKaminoWithdrawIntentMock.mockReturnValue(false);
+    setStatusMock.mockReset();
+    setStatusMock.mockResolvedValue(true);
+    config.intentRetryBackoffMs = 1;
+  });
+
+  it("fails a non-retryable error on the first attempt and records its class", async () => {
+    executeSolanaSwapFlowMock.mockRejectedValue(
+      new AuthorizationError("Authorization failed: bad signature", "invalid_signature"),
+    );
+    const queue = createFakeQueue([intent]);
+    createQueueClientMock.mockReturnValue(queue);
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(queue.moveToDeadLetter).toHaveBeenCalled());
+    await consumer.stop(1_000);
+
+    expect(executeSolanaSwapFlowMock).toHaveBeenCalledTimes(1);
+    expect(setStatusMock).toHaveBeenLastCalledWith("classify-1", {
+      state: "failed",
+      attempt: 1,
+      error: "Authorization failed: bad signature",
+      errorClass: "authorization",
+      errorCode: "invalid_signature",
+      intentData: expect.objectContaining({ intentId: "classify-1" }),
+    });
+    const [, details] = queue.moveToDeadLetter.mock.calls[0];
+    expect(details.attempts).toHaveLength(1);
+    expect(details.attempts[0]).toMatchObject({ errorClass: "authorization", errorCode: "invalid_signature" });
+  });
+
+  it("drops a redelivered message whose intent has already finished", async () => {
+    // The store rejects "processing" for an intent that already succeeded
+    setStatusMock.mockResolvedValue(false);
+    const queue = createFakeQueue([intent]);
+    createQueueClientMock.mockReturnValue(queue);
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(queue.ackIntent).toHaveBeenCalled());
+    await consumer.stop(1_000);
+
+    expect(executeSolanaSwapFlowMock).not.toHaveBeenCalled();
+    expect(queue.moveToDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it("retries a transient error through the schedule", async () => {
+    executeSolanaSwapFlowMock
+      .mockRejectedValueOnce(new TransientError("NEAR RPC error: timeout", "rpc_error"))
+      .mockResolvedValue({ txId: "tx-1" });
+    const queue = createFakeQueue([intent]);
+    createQueueClientMock.mockReturnValue(queue);
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(queue.ackIntent).toHaveBeenCalledTimes(2));
+    await consumer.stop(1_000);
+
+    expect(executeSolanaSwapFlowMock).toHaveBeenCalledTimes(2);
+    expect(setStatusMock).toHaveBeenCalledWith("classify-1", expect.objectContaining({
+      state: "scheduled",
+      executeAfter: expect.any(String),
+      errorClass: "transient",
+      errorCode: "rpc_error",
+    }));
+    const [retry] = queue.enqueueIntent.mock.calls[0];
+    expect(retry.previousAttempts).toEqual([
+      expect.objectContaining({ attempt: 1, errorClass: "transient", errorCode: "rpc_error" }),
+    ]);
+    expect(setStatusMock).toHaveBeenLastCalledWith("classify-1", {
+      state: "succeeded",
+      txId: "tx-1",
+      attempt: 2,
+      intentData: expect.objectContaining({ intentId: "classify-1" }),
+    });
+    expect(queue.moveToDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it("dead-letters the message without retry bookkeeping once attempts run out", async () => {
+    executeSolanaSwapFlowMock.mockRejectedValue(new Error("boom"));
+    const queue = createFakeQueue([intent]);
+    createQueueClientMock.mockReturnValue(queue);
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(queue.moveToDeadLetter).toHaveBeenCalled(), { timeout: 2_000 });
+    await consumer.stop(1_000);
+
+    expect(executeSolanaSwapFlowMock).toHaveBeenCalledTimes(config.maxIntentAttempts);
+    const [raw, details] = queue.moveToDeadLetter.mock.calls[0];
+    expect(JSON.parse(raw).previousAttempts).toBeUndefined();
+    expect(details.attempts.map((a: { attempt: number }) => a.attempt)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("visibility reaper", () => {
+  beforeEach(() => {
+    setStatusMock.mockReset();
+    setStatusMock.mockResolvedValue(true);
+  });
+
+  it("fails the status of intents it dead-letters", async () => {
+    const queue = {
+      ...createFakeQueue([]),
+      requeueExpired: vi.fn().mockResolvedValue({
+        requeued: 0,
+        deadLettered: 1,
+        deadLetteredIntentIds: ["reaped-1"],
+      }),
+    };
+    createQueueClientMock.mockReturnValue(queue);
+
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(queue.requeueExpired).toHaveBeenCalled());
+    await consumer.stop(1_000);
+
+    expect(setStatusMock).toHaveBeenCalledWith("reaped-1", {
+      state: "failed",
+      error: "visibility timeout expired",
+      errorClass: "transient",
+      errorCode: "visibility_timeout",
+    });
+  });
+});
+
+describe("waiting on 1-Click", () => {
+  const bridged: IntentMessage = {
+    ...baseIntent,
+    intentId: "bridged-1",
+    intermediateAmount: "1000000",
+    intentsDepositAddress: "deposit-addr-1",
+    depositMemo: "memo-1",
+    refundAddress: "alice.near",
+  };
+
+  beforeEach(() => {
+    setStatusMock.mockReset();
+    setStatusMock.mockResolvedValue(true);
+    submitDepositTxMock.mockReset();
+    isKaminoDepositIntentMock.mockReturnValue(false);
+    isKaminoWithdrawIntentMock.mockReturnValue(false);
+  });
+
+  async function runOnce(intent: IntentMessage) {
+    const queue = createFakeQueue([intent]);
+    createQueueClientMock.mockReturnValue(queue);
+    const consumer = await startQueueConsumer();
+    await vi.waitFor(() => expect(queue.ackIntent).toHaveBeenCalled());
+    await consumer.stop(1_000);
+  }
+
+  it("forwards a deposit tx reported while the intent was queued", async () => {
+    await claimSubmission({
+      intentId: "bridged-1",
+      fingerprint: "f",
+      response: { intentId: "bridged-1", state: "pending", depositToken: "token" },
+      submittedAt: new Date().toISOString(),
+    });
+    await attachOriginTx("bridged-1", "tx-reported");
+
+    await runOnce(bridged);
+
+    expect(submitDepositTxMock).toHaveBeenCalledWith({
+      txHash: "tx-reported",
+      depositAddress: "deposit-addr-1",
+      memo: "memo-1",
+      nearSenderAccount: "alice.near",
+    });
+    expect(setStatusMock).toHaveBeenLastCalledWith("bridged-1", expect.objectContaining({
+      state: "awaiting_deposit",
+      originTxHash: "tx-reported",
+      agentBalanceBefore: "0",
+    }));
+  });
+
+  it("measures delivery against the balance snapshotted at submission", async () => {
+    await claimSubmission({
+      intentId: "bridged-3",
+      fingerprint: "f",
+      response: { intentId: "bridged-3", state: "pending" },
+      submittedAt: new Date().toISOString(),
+      agentBalanceBefore: "250000",
+    });
+
+    await runOnce({ ...bridged, intentId: "bridged-3" });
+
+    expect(setStatusMock).toHaveBeenLastCalledWith("bridged-3", expect.objectContaining({
+      state: "awaiting_intents",
+      agentBalanceBefore: "250000",
+    }));
+  });
+
+  it("waits in awaiting_intents when no deposit tx was reported", async () => {
+    await runOnce({ ...bridged, intentId: "bridged-2" });
+
+    expect(submitDepositTxMock).not.toHaveBeenCalled();
+    expect(setStatusMock).toHaveBeenLastCalledWith("bridged-2", expect.objectContaining({
+      state: "awaiting_intents",
+      originTxHash: undefined,
+    }));
+  });
+});
@@ -1,6 +1,6 @@
 import { setStatus } from "../state/status";
-import { RedisQueueClient } from "./redis";
-import { IntentMessage, ValidatedIntent } from "./types";
+import { QueueClient, createQueueClient } from "./client";
+import { DeadLetterAttempt, IntentMessage, ValidatedIntent } from "./types";
 import { executeSolanaSwapFlow } from "../flows/solSwap";
 import {
   executeKaminoDepositFlow,
@@ -10,6 +10,14 @@ import {
   executeKaminoWithdrawFlow,
   isKaminoWithdrawIntent,
 } from "../flows/kaminoWithdraw";
+import {
+  executeKaminoBorrowFlow,
+  isKaminoBorrowIntent,
+} from "../flows/kaminoBorrow";
+import {
+  executeKaminoRepayFlow,
+  isKaminoRepayIntent,
+} from "../flows/kaminoRepay";
 import {
   executeBurrowDepositFlow,
   isBurrowDepositIntent,
@@ -18,26 +26,74 @@ import {
   executeBurrowWithdrawFlow,
   isBurrowWithdrawIntent,
 } from "../flows/burrowWithdraw";
+import {
+  executeBurrowBorrowFlow,
+  isBurrowBorrowIntent,
+} from "../flows/burrowBorrow";
+import {
+  executeBurrowRepayFlow,
+  isBurrowRepayIntent,
+} from "../flows/burrowRepay";
+import {
+  executeBurrowCollateralFlow,
+  isBurrowCollateralIntent,
+} from "../flows/burrowCollateral";
 import { validateIntent } from "./validation";
+import { withLock } from "../state/locks";
+import { classifyError, retryDelayMs } from "../errors";
+import { scheduledFor } from "./schedule";
+import { snapshotAgentBalance } from "./deliveredAmount";
+import { getSubmission } from "../state/idempotency";
+import { submitDepositTx } from "../utils/oneClick";
 import { config } from "../config";
 
+export interface QueueConsumer {
+  /**
+   * Stops fetching new intents and waits up to `timeoutMs` for active ones to
+   * finish. Intents still waiting for their user lock after that are released
+   * back to the queue; ones already running stay claimed until their lease
+   * expires, since another worker picking them up now could repeat a step.
+   */
+  stop(timeoutMs: number): Promise<void>;
+}
+
+interface InFlightIntent {
+  intentId: string;
+  raw: string;
+  /** Waiting for an earlier intent of the same user; does not use a worker slot */
+  waiting: boolean;
+  /** Set once the message was handed back to the queue; it must not be acked */
+  released: boolean;
+  /** Aborted on release so a job still waiting for its user lock gives up */
+  abort: AbortController;
+}
+
+/** Tail of the per-user chain of intents in this process, by userDestination */
+const userChains = new Map<string, Promise<void>>();
+
 /**
  * Starts the queue consumer with parallel processing support.
  * Uses a worker pool pattern to process multiple intents concurrently.
+ * Intents of the same user run one at a time (see runExclusiveForUser); up to
+ * `queueConcurrency` of them may wait without taking a worker slot.
  */
-export async function startQueueConsumer() {
-  const queue = new RedisQueueClient();
+export async function startQueueConsumer(): Promise<QueueConsumer> {
+  const queue = createQueueClient();
   const concurrency = config.queueConcurrency;
-  let activeWorkers = 0;
+  const inFlight = new Set<InFlightIntent>();
+  let stopping = false;
 
   console.log(`Starting queue consumer with concurrency: ${concurrency}`);
 
+  startVisibilityReaper(queue, () => stopping);
+  startScheduledPromoter(queue, () => stopping);
+
   // Fire-and-forget loop; log errors so the server keeps running.
-  (async () => {
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
+  const loop = (async () => {
+    while (!stopping) {
       // Wait if we've hit max concurrency
-      if (activeWorkers >= concurrency) {
+      const waiting = [...inFlight].filter((job) => job.waiting).length;
+      if (inFlight.size - waiting >= concurrency || waiting >= concurrency) {
         await delay(100);
         continue;
       }
@@ -51,16 +107,128 @@ export async function startQueueConsumer() {
         continue;
       }
 
+      // Stop was requested while we were blocked on fetch
+      if (stopping) {
+        await queue.releaseIntent(next.raw);
+        break;
+      }
+
       // Spawn worker for this intent (don't await - run in parallel)
-      activeWorkers++;
-      processIntent(next.intent, next.raw, queue)
+      const job: InFlightIntent = {
+        intentId: next.intent.intentId,
+        raw: next.raw,
+        waiting: false,
+        released: false,
+        abort: new AbortController(),
+      };
+      inFlight.add(job);
+      processIntent(next.intent, job, queue, next.deliveryCount)
         .finally(() => {
-          activeWorkers--;
+          inFlight.delete(job);
         });
     }
   })().catch((err) => {
     console.error("Queue consumer crashed", err);
   });
+
+  return {
+    async stop(timeoutMs: number) {
+      stopping = true;
+      console.log("[consumer] Stopping: no longer fetching new intents");
+      await loop;
+
+      const deadline = Date.now() + timeoutMs;
+      while (inFlight.size && Date.now() < deadline) {
+        const remainingSeconds = Math.ceil((deadline - Date.now()) / 1000);
+        console.log(
+          `[consumer] Draining: ${inFlight.size} intent(s) in progress, ${remainingSeconds}s left`,
+        );
+        await delay(Math.min(1_000, deadline - Date.now()));
+      }
+
+      const unfinished = [...inFlight];
+      let released = 0;
+      for (const job of unfinished) {
+        // Its flow may be mid-way through on-chain steps; the reaper requeues
+        // it once the heartbeat stops with the process
+        if (!job.waiting) {
+          console.warn(`[consumer] Intent ${job.intentId} still running, leaving it claimed until its lease expires`);
+          continue;
+        }
+        job.released = true;
+        job.abort.abort();
+        try {
+          await queue.releaseIntent(job.raw);
+          released += 1;
+          console.warn(`[consumer] Released waiting intent ${job.intentId} back to the queue`);
+        } catch (err) {
+          console.error(`[consumer] Failed to release intent ${job.intentId}`, err);
+        }
+      }
+      console.log(
+        `[consumer] Stopped (${released} intent(s) released, ${unfinished.length - released} left claimed)`,
+      );
+    },
+  };
+}
+
+/**
+ * Periodically returns messages whose worker died mid-flow back to the queue.
+ * Every replica runs one; the per-message move is atomic in Redis.
+ * Backends without `requeueExpired` reclaim expired messages on fetch instead.
+ */
+function startVisibilityReaper(queue: QueueClient, isStopping: () => boolean) {
+  const requeueExpired = queue.requeueExpired?.bind(queue);
+  if (!requeueExpired) return;
+
+  (async () => {
+    while (!isStopping()) {
+      try {
+        const { requeued, deadLettered, deadLetteredIntentIds } = await requeueExpired();
+        if (requeued || deadLettered) {
+          console.warn(
+            `[consumer] Reaped expired intents: ${requeued} re-enqueued, ${deadLettered} dead-lettered`,
+          );
+        }
+        // The worker that held these died mid-flow, so nothing else will finish their status
+        for (const intentId of deadLetteredIntentIds) {
+          await setStatus(intentId, {
+            state: "failed",
+            error: "visibility timeout expired",
+            errorClass: "transient",
+            errorCode: "visibility_timeout",
+          });
+        }
+      } catch (err) {
+        console.error("[consumer] Visibility reaper failed", err);
+      }
+      await delay(config.redisReaperIntervalMs);
+    }
+  })().catch((err) => {
+    console.error("Visibility reaper crashed", err);
+  });
+}
+
+/**
+ * Moves scheduled intents onto the queue once their `executeAfter` has passed.
+ * Every replica runs one; each move is atomic, so an intent is promoted once.
+ */
+function startScheduledPromoter(queue: QueueClient, isStopping: () => boolean) {
+  (async () => {
+    while (!isStopping()) {
+      try {
+        const promoted = await queue.promoteScheduled();
+        if (promoted) {
+          console.log(`[consumer] Promoted ${promoted} scheduled intent(s) to the queue`);
+        }
+      } catch (err) {
+        console.error("[consumer] Scheduled intent promoter failed", err);
+      }
+      await delay(config.schedulerIntervalMs);
+    }
+  })().catch((err) => {
+    console.error("Scheduled intent promoter crashed", err);
+  });
 }
 
 /**
@@ -68,73 +236,193 @@ export async function startQueueConsumer() {
  */
 async function processIntent(
   intentMessage: IntentMessage,
-  raw: string,
-  queue: RedisQueueClient,
+  job: InFlightIntent,
+  queue: QueueClient,
+  deliveryCount = 1,
 ) {
+  const { raw } = job;
+  // Keep the message's claim fresh while we work so the reaper leaves it alone
+  const heartbeat = setInterval(() => {
+    queue.touchIntent(raw).catch((err) => {
+      console.error(`[consumer] Failed to extend visibility for ${intentMessage.intentId}`, err);
+    });
+  }, Math.max(1_000, Math.floor(config.redisVisibilityMs / 3)));
+
   try {
+    // Reached the queue early (e.g. a dead-letter replay); put it back on the schedule
+    if (scheduledFor(intentMessage) !== null) {
+      console.log(
+        `[consumer] Intent ${intentMessage.intentId} is not due until ${intentMessage.executeAfter}, rescheduling`,
+      );
+      await queue.enqueueIntent(intentMessage);
+      return;
+    }
     const intent = validateIntent(intentMessage);
-    await processIntentWithRetry(intent, raw, queue);
+    await runExclusiveForUser(intent.userDestination, job, () =>
+      processIntentWithRetry(intent, raw, queue, deliveryCount - 1),
+    );
   } catch (err) {
+    if (job.released) {
+      console.warn(`[consumer] Intent ${intentMessage.intentId} was released before it could run`);
+      return;
+    }
     console.error("Intent processing failed", err);
+    const failure = classifyError(err);
     await setStatus(intentMessage.intentId, {
       state: "failed",
-      error: (err as Error).message || "unknown error",
+      error: failure.message,
+      errorClass: failure.errorClass,
+      errorCode: failure.code,
     });
   } finally {
-    await queue.ackIntent(raw);
+    clearInterval(heartbeat);
+    if (!job.released) {
+      await queue.ackIntent(raw);
+    }
   }
 }
 
+/**
+ * Runs intents that share a userDestination (and so a derived account) one at
+ * a time: in fetch order within this process, and under a distributed lock
+ * across replicas. Two flows for one account would otherwise race on the NEAR
+ * access-key nonce or the account's balance.
+ */
+async function runExclusiveForUser(
+  userDestination: string,
+  job: InFlightIntent,
+  fn: () => Promise<void>,
+) {
+  job.waiting = true;
+  const previous = userChains.get(userDestination) ?? Promise.resolve();
+  const run = previous.then(() =>
+    withLock(
+      `user:${userDestination}`,
+      async () => {
+        job.waiting = false;
+        await fn();
+      },
+      { ttlMs: config.userLockTtlMs, signal: job.abort.signal },
+    ),
+  );
+
+  const chain = run.catch(() => undefined);
+  userChains.set(userDestination, chain);
+  try {
+    await run;
+  } finally {
+    if (userChains.get(userDestination) === chain) {
+      userChains.delete(userDestination);
+    }
+  }
+}
+
+/**
+ * Runs one attempt. A retryable failure schedules the next attempt through
+ * `executeAfter` rather than sleeping in the worker slot; the failures so far
+ * travel with the message in `previousAttempts`.
+ * `expiredDeliveries` counts earlier deliveries that were never acked (the
+ * worker died); each one uses up an attempt.
+ */
 async function processIntentWithRetry(
   intent: ValidatedIntent,
   raw: string,
-  queue: RedisQueueClient,
+  queue: QueueClient,
+  expiredDeliveries = 0,
 ) {
-  let attempt = 0;
-  while (attempt < config.maxIntentAttempts) {
-    attempt += 1;
-    try {
-      await setStatus(intent.intentId, {
-        state: "processing",
-        detail: `attempt ${attempt}/${config.maxIntentAttempts}`,
-      });
+  const failures: DeadLetterAttempt[] = [...(intent.previousAttempts ?? [])];
+  const attempt = failures.length + expiredDeliveries + 1;
+  if (attempt > config.maxIntentAttempts) {
+    const error = "visibility timeout expired";
+    console.error(
+      `Intent ${intent.intentId} expired ${expiredDeliveries} times without completing, dead-lettering`,
+    );
+    const failure = { error, errorClass: "transient" as const, errorCode: "visibility_timeout" };
+    await setStatus(intent.intentId, { state: "failed", ...failure, intentData: intent });
+    await queue.moveToDeadLetter(originalMessage(raw), {
+      intentId: intent.intentId,
+      attempts: [
+        ...failures,
+        { attempt: attempt - 1, ...failure, failedAt: new Date().toISOString() },
+      ],
+    });
+    return;
+  }
 
-      const result = await executeIntentFlow(intent);
+  try {
+    const started = await setStatus(intent.intentId, {
+      state: "processing",
+      detail: `attempt ${attempt}/${config.maxIntentAttempts}`,
+      attempt,
+    });
+    // e.g. a late redelivery of an intent that already succeeded or failed
+    if (!started) {
+      console.warn(`Intent ${intent.intentId} can no longer be processed, dropping the message`);
+      return;
+    }
 
-      // If the intent is awaiting intents delivery, don't overwrite the status
-      // The poller will handle the next step when intents completes
-      if (result.txId.startsWith("awaiting-intents-")) {
-        return;
-      }
+    const result = await executeIntentFlow(intent);
 
-      await setStatus(intent.intentId, {
-        state: "succeeded",
-        txId: result.txId,
-      });
+    // If the intent is awaiting intents delivery, don't overwrite the status
+    // The poller will handle the next step when intents completes
+    if (result.txId.startsWith("awaiting-intents-")) {
       return;
-    } catch (err) {
-      const isLast = attempt >= config.maxIntentAttempts;
-      console.error(
-        `Intent ${intent.intentId} failed on attempt ${attempt}/${config.maxIntentAttempts}`,
-        err,
-      );
-      if (isLast) {
-        await setStatus(intent.intentId, {
-          state: "failed",
-          error: (err as Error).message || "unknown error",
-        });
-        await queue.moveToDeadLetter(raw);
-        return;
+    }
+
+    // intentData goes with terminal states so the archive keeps the full intent
+    await setStatus(intent.intentId, {
+      state: "succeeded",
+      txId: result.txId,
+      attempt,
+      intentData: intent,
+    });
+  } catch (err) {
+    const failure = classifyError(err);
+    const details = {
+      error: failure.message,
+      errorClass: failure.errorClass,
+      errorCode: failure.code,
+    };
+    failures.push({ attempt, ...details, failedAt: new Date().toISOString() });
+    console.error(
+      `Intent ${intent.intentId} failed on attempt ${attempt}/${config.maxIntentAttempts} (${failure.errorClass}/${failure.code})`,
+      err,
+    );
+    // Validation, authorization, protocol rejections etc. fail the same way every time
+    if (!failure.retryable || attempt >= config.maxIntentAttempts) {
+      if (!failure.retryable) {
+        console.error(`Intent ${intent.intentId} hit a non-retryable ${failure.errorClass} error`);
       }
-      await setStatus(intent.intentId, {
-        state: "processing",
-        detail: `retrying (attempt ${attempt + 1}/${config.maxIntentAttempts})`,
+      await setStatus(intent.intentId, { state: "failed", attempt, ...details, intentData: intent });
+      await queue.moveToDeadLetter(originalMessage(raw), {
+        intentId: intent.intentId,
+        attempts: failures,
       });
-      await delay(config.intentRetryBackoffMs * attempt);
+      return;
     }
+
+    const executeAfter = new Date(Date.now() + retryDelayMs(failure.errorClass, attempt)).toISOString();
+    // Status first so the retry's own "processing" is never overwritten
+    await setStatus(intent.intentId, {
+      state: "scheduled",
+      detail: `retry ${attempt + 1}/${config.maxIntentAttempts} scheduled`,
+      attempt,
+      executeAfter,
+      ...details,
+    });
+    await queue.enqueueIntent({ ...intent, executeAfter, previousAttempts: failures });
   }
 }
 
+/**
+ * The message without the consumer's retry bookkeeping, so replaying it from
+ * the dead-letter list starts over with a full set of attempts.
+ */
+function originalMessage(raw: string): string {
+  const { previousAttempts, ...message } = JSON.parse(raw) as IntentMessage;
+  return previousAttempts ? JSON.stringify(message) : raw;
+}
+
 function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -162,6 +450,26 @@ function needsIntentsWait(intent: ValidatedIntent): boolean {
   return false;
 }
 
+/** Deposit tx reported for an intent that has none of its own, if any */
+async function reportedDepositTx(intent: ValidatedIntent): Promise<string | undefined> {
+  if (intent.originTxHash || !intent.intentsDepositAddress) return undefined;
+  return (await getSubmission(intent.intentId))?.originTxHash;
+}
+
+/** Best effort, like the route's: without it 1-Click still detects the deposit on its own */
+async function forwardReportedDeposit(intent: ValidatedIntent, txHash: string) {
+  try {
+    await submitDepositTx({
+      txHash,
+      depositAddress: intent.intentsDepositAddress!,
+      memo: intent.depositMemo,
+      nearSenderAccount: intent.sourceChain === "near" ? intent.refundAddress : undefined,
+    });
+  } catch (err) {
+    console.warn(`[consumer] Failed to submit reported deposit tx for ${intent.intentId}`, err);
+  }
+}
+
 /**
  * Routes the intent to the appropriate execution flow based on metadata
  */
@@ -172,15 +480,40 @@ async function executeIntentFlow(
   if (needsIntentsWait(intent)) {
     console.log(`[consumer] Intent ${intent.intentId} needs to wait for intents delivery`);
 
-    // Set status to awaiting_intents with all the info needed to poll and re-process
+    // Set status to awaiting_intents with all the info needed to poll and re-process.
+    // With the deposit tx known (and forwarded to 1-Click by the route), wait in
+    // awaiting_deposit until 1-Click acknowledges it; the poller moves it on.
+    // A tx reported via POST /:intentId/deposit before now is forwarded here.
+    const reportedTxHash = await reportedDepositTx(intent);
+    const originTxHash = intent.originTxHash ?? reportedTxHash;
+    const depositSubmitted = Boolean(originTxHash && intent.intentsDepositAddress);
+    if (reportedTxHash) {
+      await forwardReportedDeposit(intent, reportedTxHash);
+    }
+    // Before the swap settles, so only what it delivers counts towards the
+    // next step: taken at submission, since the swap may have settled by now
+    const agentBalanceBefore =
+      (await getSubmission(intent.intentId))?.agentBalanceBefore ?? (await snapshotAgentBalance(intent));
     await setStatus(intent.intentId, {
-      state: "awaiting_intents",
-      detail: "Waiting for cross-chain swap to complete",
+      state: depositSubmitted ? "awaiting_deposit" : "awaiting_intents",
+      detail: depositSubmitted
+        ? "Waiting for 1-Click to acknowledge the deposit"
+        : "Waiting for cross-chain swap to complete",
       depositAddress: intent.intentsDepositAddress,
       depositMemo: intent.depositMemo,
+      originTxHash,
+      awaitingIntentsSince: new Date().toISOString(),
+      agentBalanceBefore,
       intentData: intent,
     });
 
+    // The route records the hash before it reads the status, so a tx reported
+    // while this status was being written is only seen here
+    if (!originTxHash) {
+      const lateTxHash = await reportedDepositTx(intent);
+      if (lateTxHash) await forwardReportedDeposit(intent, lateTxHash);
+    }
+
     // Return a placeholder - the actual swap will happen after poller detects completion
     return { txId: `awaiting-intents-${intent.intentId}` };
   }
@@ -193,6 +526,14 @@ async function executeIntentFlow(
     return executeKaminoWithdrawFlow(intent);
   }
 
+  if (isKaminoBorrowIntent(intent)) {
+    return executeKaminoBorrowFlow(intent);
+  }
+
+  if (isKaminoRepayIntent(intent)) {
+    return executeKaminoRepayFlow(intent);
+  }
+
   if (isBurrowDepositIntent(intent)) {
     return executeBurrowDepositFlow(intent);
   }
@@ -201,6 +542,18 @@ async function executeIntentFlow(
     return executeBurrowWithdrawFlow(intent);
   }
 
+  if (isBurrowBorrowIntent(intent)) {
+    return executeBurrowBorrowFlow(intent);
+  }
+
+  if (isBurrowRepayIntent(intent)) {
+    return executeBurrowRepayFlow(intent);
+  }
+
+  if (isBurrowCollateralIntent(intent)) {
+    return executeBurrowCollateralFlow(intent);
+  }
+
   // Default to Solana swap flow
   return executeSolanaSwapFlow(intent);
 }
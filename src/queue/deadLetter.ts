@@ -0,0 +1,110 @@
+import { DeadLetterAttempt, DeadLetterEntry, IntentMessage } from "./types";
+
+export interface DeadLetterFilter {
+  intentIds?: string[];
+  /** Matches metadata.action (e.g. "kamino-withdraw") */
+  action?: string;
+  /** Case-insensitive substring of the last error */
+  errorContains?: string;
+  /** ISO timestamps bounding deadLetteredAt */
+  deadLetteredAfter?: string;
+  deadLetteredBefore?: string;
+}
+
+export interface ParsedDeadLetter extends DeadLetterEntry {
+  /** The exact string stored on the list, needed to remove this entry */
+  stored: string;
+  intent: IntentMessage | null;
+}
+
+/** Wraps a queue message with its failure history for the dead-letter list */
+export function createDeadLetterEntry(
+  raw: string,
+  details: { intentId?: string; attempts?: DeadLetterAttempt[] } = {},
+): DeadLetterEntry {
+  const attempts = details.attempts ?? [];
+  return {
+    raw,
+    intentId: details.intentId,
+    lastError: attempts[attempts.length - 1]?.error,
+    attempts,
+    deadLetteredAt: new Date().toISOString(),
+  };
+}
+
+/** The intentId of a raw queue message, if it parses */
+export function intentIdOf(raw: string): string | undefined {
+  try {
+    return (JSON.parse(raw) as IntentMessage).intentId || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a dead-letter list entry. Entries written before envelopes were
+ * introduced are the bare queue message and carry no error history.
+ */
+export function parseDeadLetterEntry(stored: string): ParsedDeadLetter {
+  let entry: DeadLetterEntry = { raw: stored, attempts: [] };
+  try {
+    const parsed = JSON.parse(stored);
+    if (parsed && typeof parsed.raw === "string") {
+      entry = {
+        ...parsed,
+        attempts: Array.isArray(parsed.attempts) ? parsed.attempts : [],
+      };
+    }
+  } catch {
+    // Not JSON at all - keep it as an opaque raw message
+  }
+
+  let intent: IntentMessage | null = null;
+  try {
+    intent = JSON.parse(entry.raw) as IntentMessage;
+  } catch {
+    intent = null;
+  }
+
+  return {
+    ...entry,
+    intentId: entry.intentId ?? intent?.intentId,
+    stored,
+    intent,
+  };
+}
+
+export function matchesDeadLetterFilter(
+  entry: ParsedDeadLetter,
+  filter: DeadLetterFilter,
+): boolean {
+  if (filter.intentIds?.length && (!entry.intentId || !filter.intentIds.includes(entry.intentId))) {
+    return false;
+  }
+  if (filter.action && (entry.intent?.metadata as { action?: string } | undefined)?.action !== filter.action) {
+    return false;
+  }
+  if (
+    filter.errorContains &&
+    !entry.lastError?.toLowerCase().includes(filter.errorContains.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.deadLetteredAfter || filter.deadLetteredBefore) {
+    if (!entry.deadLetteredAt) return false;
+    const at = Date.parse(entry.deadLetteredAt);
+    if (filter.deadLetteredAfter && at < Date.parse(filter.deadLetteredAfter)) return false;
+    if (filter.deadLetteredBefore && at > Date.parse(filter.deadLetteredBefore)) return false;
+  }
+  return true;
+}
+
+export function isEmptyDeadLetterFilter(filter: DeadLetterFilter): boolean {
+  return (
+    !filter.intentIds?.length &&
+    !filter.action &&
+    !filter.errorContains &&
+    !filter.deadLetteredAfter &&
+    !filter.deadLetteredBefore
+  );
+}
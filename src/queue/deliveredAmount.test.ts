@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { checkDeliveredAmount, snapshotAgentBalance } from "./deliveredAmount";
+import { ValidatedIntent } from "./types";
+
+const { getTokenBalanceMock, getFtBalanceMock } = vi.hoisted(() => ({
+  getTokenBalanceMock: vi.fn(),
+  getFtBalanceMock: vi.fn(),
+}));
+
+vi.mock("../utils/solanaBalance", () => ({
+  getTokenBalance: getTokenBalanceMock,
+}));
+
+vi.mock("../utils/nearRpc", () => ({
+  getFtBalance: getFtBalanceMock,
+}));
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+const solanaIntent: ValidatedIntent = {
+  intentId: "delivered-1",
+  sourceChain: "near",
+  sourceAsset: "wrap.near",
+  sourceAmount: "1000000000000000000000000",
+  destinationChain: "solana",
+  intermediateAsset: `nep141:sol-${USDC_MINT.toLowerCase()}.omft.near`,
+  intermediateAmount: "1000000",
+  finalAsset: USDC_MINT,
+  userDestination: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+  agentDestination: "8CKsW6cVfaQnBxpqtKfxDxZ8sM3E7DbpDZEPXx1cBa9u",
+  slippageBps: 300,
+  metadata: { action: "kamino-deposit", mintAddress: USDC_MINT },
+};
+
+describe("checkDeliveredAmount", () => {
+  beforeEach(() => {
+    getTokenBalanceMock.mockReset();
+    getFtBalanceMock.mockReset();
+  });
+
+  it("uses the amount 1-Click settled when the agent holds it", async () => {
+    getTokenBalanceMock.mockResolvedValue(2_000_000n);
+
+    const result = await checkDeliveredAmount(solanaIntent, { amountOut: "985000" });
+
+    expect(result).toEqual({ landed: true, amount: "985000" });
+    expect(getTokenBalanceMock).toHaveBeenCalledWith(solanaIntent.agentDestination, USDC_MINT);
+  });
+
+  it("caps the amount at the agent's balance", async () => {
+    getTokenBalanceMock.mockResolvedValue(970_000n);
+
+    expect(await checkDeliveredAmount(solanaIntent, { amountOut: "985000" })).toEqual({
+      landed: true,
+      amount: "970000",
+    });
+  });
+
+  it("falls back to the quoted amount without a settled one", async () => {
+    getTokenBalanceMock.mockResolvedValue(5_000_000n);
+
+    expect(await checkDeliveredAmount(solanaIntent)).toEqual({ landed: true, amount: "1000000" });
+  });
+
+  it("reports nothing landed while the agent balance is empty", async () => {
+    getTokenBalanceMock.mockResolvedValue(0n);
+
+    expect(await checkDeliveredAmount(solanaIntent, { amountOut: "985000" })).toEqual({ landed: false });
+  });
+
+  it("counts only what arrived on top of the balance before the swap", async () => {
+    getTokenBalanceMock.mockResolvedValue(1_500_000n);
+
+    expect(await checkDeliveredAmount(solanaIntent, { amountOut: "985000" }, "600000")).toEqual({
+      landed: true,
+      amount: "900000",
+    });
+  });
+
+  it("uses the settled amount when the balance grew by at least that much", async () => {
+    getTokenBalanceMock.mockResolvedValue(1_600_000n);
+
+    expect(await checkDeliveredAmount(solanaIntent, { amountOut: "985000" }, "600000")).toEqual({
+      landed: true,
+      amount: "985000",
+    });
+  });
+
+  it("reports nothing landed while the balance is still at its snapshot", async () => {
+    getTokenBalanceMock.mockResolvedValue(600_000n);
+
+    expect(await checkDeliveredAmount(solanaIntent, { amountOut: "985000" }, "600000")).toEqual({
+      landed: false,
+    });
+  });
+
+  it("counts a deposit made before submission that settled before the snapshot", async () => {
+    getTokenBalanceMock.mockResolvedValue(1_600_000n);
+    const depositedFirst = { ...solanaIntent, originTxHash: "tx-1" };
+
+    expect(await checkDeliveredAmount(depositedFirst, { amountOut: "985000" }, "1600000")).toEqual({
+      landed: true,
+      amount: "985000",
+    });
+    // Unless the balance doesn't even cover what 1-Click settled
+    getTokenBalanceMock.mockResolvedValue(900_000n);
+    expect(await checkDeliveredAmount(depositedFirst, { amountOut: "985000" }, "900000")).toEqual({
+      landed: false,
+    });
+  });
+
+  it("snapshots the balance of the token the bridge leg delivers", async () => {
+    getTokenBalanceMock.mockResolvedValue(600_000n);
+
+    expect(await snapshotAgentBalance(solanaIntent)).toBe("600000");
+    expect(getTokenBalanceMock).toHaveBeenCalledWith(solanaIntent.agentDestination, USDC_MINT);
+  });
+
+  it("reads the burrow token's balance on NEAR", async () => {
+    getFtBalanceMock.mockResolvedValue("990");
+    const nearIntent: ValidatedIntent = {
+      ...solanaIntent,
+      destinationChain: "near",
+      intermediateAsset: "nep141:usdc.near",
+      intermediateAmount: "1000",
+      agentDestination: "agent.near",
+      metadata: { action: "burrow-deposit", tokenId: "usdc.near" },
+    };
+
+    expect(await checkDeliveredAmount(nearIntent, { amountOut: "995" })).toEqual({
+      landed: true,
+      amount: "990",
+    });
+    expect(getFtBalanceMock).toHaveBeenCalledWith("usdc.near", "agent.near");
+  });
+});
@@ -0,0 +1,88 @@
+import type { SwapDetails } from "@defuse-protocol/one-click-sdk-typescript";
+import { extractSolanaMintAddress } from "../constants";
+import { getFtBalance } from "../utils/nearRpc";
+import { getTokenBalance } from "../utils/solanaBalance";
+import { BurrowDepositMetadata, BurrowRepayMetadata, KaminoDepositMetadata, KaminoRepayMetadata, ValidatedIntent } from "./types";
+
+export type DeliveryCheck =
+  /** Nothing has arrived on the agent account yet, even though 1-Click reports success */
+  | { landed: false }
+  /** Amount to use for the destination step; unset when it can't be verified */
+  | { landed: true; amount?: string };
+
+/**
+ * Token the bridge leg delivers to `agentDestination` and where to read its
+ * balance; null for chains whose balance we don't check.
+ */
+function deliveredToken(intent: ValidatedIntent): { chain: "solana" | "near"; token: string } | null {
+  const meta = intent.metadata;
+  if (intent.destinationChain === "solana") {
+    const mint = meta?.action === "kamino-deposit" || meta?.action === "kamino-repay"
+      ? (meta as KaminoDepositMetadata | KaminoRepayMetadata).mintAddress
+      : intent.intermediateAsset && extractSolanaMintAddress(intent.intermediateAsset);
+    return mint ? { chain: "solana", token: mint } : null;
+  }
+  if (intent.destinationChain === "near") {
+    const tokenId = meta?.action === "burrow-deposit" || meta?.action === "burrow-repay"
+      ? (meta as BurrowDepositMetadata | BurrowRepayMetadata).tokenId
+      : intent.intermediateAsset?.replace(/^nep141:/, "");
+    return tokenId ? { chain: "near", token: tokenId } : null;
+  }
+  return null;
+}
+
+async function agentBalance(intent: ValidatedIntent): Promise<bigint | null> {
+  const delivered = deliveredToken(intent);
+  if (!delivered) return null;
+  if (delivered.chain === "solana") {
+    return getTokenBalance(intent.agentDestination, delivered.token);
+  }
+  return BigInt(await getFtBalance(delivered.token, intent.agentDestination));
+}
+
+/**
+ * The agent account's balance of the token the bridge leg will deliver, taken
+ * before the swap settles so the delivery check can tell what the swap added
+ * from what was already there. Undefined for chains whose balance we don't
+ * check.
+ */
+export async function snapshotAgentBalance(intent: ValidatedIntent): Promise<string | undefined> {
+  const balance = await agentBalance(intent);
+  return balance === null ? undefined : balance.toString();
+}
+
+/**
+ * Amount the bridge leg actually delivered, to replace the `intermediateAmount`
+ * quoted before slippage. 1-Click's settled `amountOut` is used, capped at how
+ * much the agent account's balance of the delivered token grew since
+ * `balanceBefore` (from `snapshotAgentBalance`), so the destination step never
+ * spends more than the swap brought in. Without a snapshot the whole balance
+ * counts as delivered. Without a settled amount the quoted one is capped the
+ * same way. An intent submitted with its deposit already made may have been
+ * delivered before the snapshot; it counts as landed once the balance covers
+ * the settled amount. Balance lookups that fail reject, so the caller can try
+ * again on its next poll.
+ */
+export async function checkDeliveredAmount(
+  intent: ValidatedIntent,
+  swapDetails?: Partial<SwapDetails>,
+  balanceBefore?: string,
+): Promise<DeliveryCheck> {
+  const reported = swapDetails?.amountOut || intent.intermediateAmount;
+  const balance = await agentBalance(intent);
+
+  if (balance === null) {
+    return { landed: true, amount: reported };
+  }
+  const received = balance - BigInt(balanceBefore ?? "0");
+  if (received <= 0n) {
+    if (intent.originTxHash && reported && balance >= BigInt(reported)) {
+      return { landed: true, amount: reported };
+    }
+    return { landed: false };
+  }
+  if (!reported || received < BigInt(reported)) {
+    return { landed: true, amount: received.toString() };
+  }
+  return { landed: true, amount: reported };
+}
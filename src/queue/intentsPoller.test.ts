@@ -1,5 +1,7 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { IntentStatus } from "../state/status";
+import { config } from "../config";
+import { IntentStatus, StoredIntentStatus } from "../state/status";
+import { checkAndProcessIntent as checkIntent } from "./intentsPoller";
 import { ValidatedIntent } from "./types";
 
 const {
@@ -7,11 +9,13 @@ const {
   setStatusMock,
   getExecutionStatusMock,
   enqueueIntentMock,
+  checkDeliveredAmountMock,
 } = vi.hoisted(() => ({
   getIntentsByStateMock: vi.fn(),
   setStatusMock: vi.fn(),
   getExecutionStatusMock: vi.fn(),
   enqueueIntentMock: vi.fn(),
+  checkDeliveredAmountMock: vi.fn(),
 }));
 
 vi.mock("../state/status", () => ({
@@ -26,12 +30,16 @@ vi.mock("@defuse-protocol/one-click-sdk-typescript", () => ({
   OpenAPI: {},
 }));
 
-vi.mock("./redis", () => ({
-  RedisQueueClient: vi.fn().mockImplementation(() => ({
+vi.mock("./client", () => ({
+  createQueueClient: vi.fn().mockImplementation(() => ({
     enqueueIntent: enqueueIntentMock,
   })),
 }));
 
+vi.mock("./deliveredAmount", () => ({
+  checkDeliveredAmount: checkDeliveredAmountMock,
+}));
+
 const baseIntent: ValidatedIntent = {
   intentId: "test-1",
   sourceChain: "near",
@@ -100,6 +108,9 @@ describe("intentsPoller", () => {
           return { success: true };
 
         case "refunded":
+          await setStatusMock(intentId, { state: "refunded", intentsStatus: "REFUNDED" });
+          return { refunded: true };
+
         case "failed":
           await setStatusMock(intentId, {
             state: "failed",
@@ -200,10 +211,10 @@ describe("intentsPoller", () => {
 
       const result = await checkAndProcessIntent(intentStatus);
 
-      expect(result.failed).toBe(true);
+      expect(result.refunded).toBe(true);
       expect(setStatusMock).toHaveBeenCalledWith("test-1", {
-        state: "failed",
-        error: "Intents swap refunded",
+        state: "refunded",
+        intentsStatus: "REFUNDED",
       });
     });
 
@@ -309,13 +320,13 @@ describe("intentsPoller", () => {
 
   describe("getIntentsByState usage", () => {
     it("queries for awaiting_intents state", async () => {
-      getIntentsByStateMock.mockResolvedValue([]);
+      getIntentsByStateMock.mockResolvedValue({ intents: [], nextCursor: null });
 
       // Simulate what pollPendingIntents does
-      const pendingIntents = await getIntentsByStateMock("awaiting_intents");
+      const page = await getIntentsByStateMock("awaiting_intents", {});
 
-      expect(getIntentsByStateMock).toHaveBeenCalledWith("awaiting_intents");
-      expect(pendingIntents).toEqual([]);
+      expect(getIntentsByStateMock).toHaveBeenCalledWith("awaiting_intents", {});
+      expect(page.intents).toEqual([]);
     });
 
     it("returns multiple pending intents", async () => {
@@ -331,11 +342,11 @@ describe("intentsPoller", () => {
           depositAddress: "addr-2",
         },
       ];
-      getIntentsByStateMock.mockResolvedValue(mockIntents);
+      getIntentsByStateMock.mockResolvedValue({ intents: mockIntents, nextCursor: null });
 
-      const pendingIntents = await getIntentsByStateMock("awaiting_intents");
+      const page = await getIntentsByStateMock("awaiting_intents", {});
 
-      expect(pendingIntents).toHaveLength(2);
+      expect(page.intents).toHaveLength(2);
     });
   });
 
@@ -408,3 +419,204 @@ describe("intentsPoller", () => {
     });
   });
 });
+
+describe("checkAndProcessIntent", () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+  function awaiting(overrides: Partial<StoredIntentStatus> = {}): StoredIntentStatus {
+    return {
+      intentId: "test-1",
+      state: "awaiting_intents",
+      depositAddress: "deposit-addr-123",
+      intentData: baseIntent,
+      awaitingIntentsSince: minutesAgo(5),
+      createdAt: minutesAgo(6),
+      updatedAt: minutesAgo(5),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    setStatusMock.mockReset();
+    setStatusMock.mockResolvedValue(true);
+    getExecutionStatusMock.mockReset();
+    enqueueIntentMock.mockReset();
+    checkDeliveredAmountMock.mockReset();
+    config.intentsMaxWaitMs = 60 * 60 * 1000;
+  });
+
+  it("re-enqueues with the amount that was actually delivered", async () => {
+    const intent = { ...baseIntent, intermediateAmount: "1000000" };
+    const swapDetails = { amountOut: "985000" };
+    getExecutionStatusMock.mockResolvedValue({ status: "SUCCESS", swapDetails });
+    checkDeliveredAmountMock.mockResolvedValue({ landed: true, amount: "985000" });
+
+    await checkIntent(awaiting({ intentData: intent, agentBalanceBefore: "400000" }));
+
+    expect(checkDeliveredAmountMock).toHaveBeenCalledWith(intent, swapDetails, "400000");
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "test-1",
+      expect.objectContaining({ state: "processing", intentsStatus: "SUCCESS", deliveredAmount: "985000" }),
+      { from: "awaiting_intents" },
+    );
+    expect(enqueueIntentMock).toHaveBeenCalledWith({
+      ...intent,
+      intermediateAmount: "985000",
+      metadata: { intentsCompleted: true },
+    });
+  });
+
+  it("enqueues the intent once when it is polled again after the claim", async () => {
+    // A store honouring `from`, like the real ones
+    let state = "awaiting_intents";
+    setStatusMock.mockImplementation(async (_intentId, status: IntentStatus, options?: { from?: string }) => {
+      if (options?.from !== undefined && options.from !== state) return false;
+      state = status.state;
+      return true;
+    });
+    getExecutionStatusMock.mockResolvedValue({ status: "SUCCESS" });
+    checkDeliveredAmountMock.mockResolvedValue({ landed: true, amount: "985000" });
+
+    // The second poll works from a snapshot read before the first one's claim
+    await checkIntent(awaiting());
+    await checkIntent(awaiting());
+
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+    expect(setStatusMock).toHaveBeenCalledTimes(2);
+    expect(state).toBe("processing");
+  });
+
+  it("keeps waiting while the delivered funds have not landed", async () => {
+    getExecutionStatusMock.mockResolvedValue({ status: "SUCCESS" });
+    checkDeliveredAmountMock.mockResolvedValue({ landed: false });
+
+    await checkIntent(awaiting({ intentsStatus: "PROCESSING" }));
+
+    expect(enqueueIntentMock).not.toHaveBeenCalled();
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "test-1",
+      expect.objectContaining({
+        state: "awaiting_intents",
+        intentsStatus: "SUCCESS",
+        detail: "Cross-chain swap completed, waiting for the funds to arrive",
+      }),
+      { from: "awaiting_intents" },
+    );
+  });
+
+  it("moves an awaiting_deposit intent on once 1-Click sees the deposit", async () => {
+    getExecutionStatusMock.mockResolvedValue({ status: "KNOWN_DEPOSIT_TX" });
+
+    await checkIntent(awaiting({ state: "awaiting_deposit", originTxHash: "tx-1" }));
+
+    expect(setStatusMock).toHaveBeenCalledTimes(1);
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "test-1",
+      expect.objectContaining({
+        state: "awaiting_intents",
+        detail: "1-Click acknowledged the deposit",
+        intentsStatus: "KNOWN_DEPOSIT_TX",
+        originTxHash: "tx-1",
+        intentData: baseIntent,
+      }),
+      { from: "awaiting_deposit" },
+    );
+  });
+
+  it("keeps an awaiting_deposit intent waiting while the deposit is pending", async () => {
+    getExecutionStatusMock.mockResolvedValue({ status: "PENDING_DEPOSIT" });
+
+    await checkIntent(awaiting({ state: "awaiting_deposit", intentsStatus: "PENDING_DEPOSIT" }));
+
+    expect(setStatusMock).not.toHaveBeenCalled();
+  });
+
+  it("acts on an outcome 1-Click reports before the deposit was acknowledged", async () => {
+    getExecutionStatusMock.mockResolvedValue({ status: "REFUNDED" });
+
+    await checkIntent(awaiting({ state: "awaiting_deposit" }));
+
+    expect(setStatusMock.mock.calls.map(([, status]) => status.state)).toEqual(["awaiting_intents", "refunded"]);
+  });
+
+  it("records the refund 1-Click made", async () => {
+    getExecutionStatusMock.mockResolvedValue({
+      status: "REFUNDED",
+      swapDetails: { refundedAmount: "1000", refundedAmountFormatted: "0.001", refundReason: "Deposit too low" },
+    });
+
+    await checkIntent(awaiting());
+
+    expect(setStatusMock).toHaveBeenCalledWith("test-1", {
+      state: "refunded",
+      detail: "1-Click refunded the deposit",
+      intentsStatus: "REFUNDED",
+      refund: { amount: "1000", amountFormatted: "0.001", reason: "Deposit too low" },
+    });
+  });
+
+  it("records a change of the in-flight status once, with the quote deadline", async () => {
+    const deadline = new Date(Date.now() + 60 * 60_000).toISOString();
+    getExecutionStatusMock.mockResolvedValue({
+      status: "INCOMPLETE_DEPOSIT",
+      quoteResponse: { quote: { deadline } },
+      swapDetails: { depositedAmountFormatted: "0.5" },
+    });
+
+    await checkIntent(awaiting({ intentsStatus: "PENDING_DEPOSIT" }));
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "test-1",
+      expect.objectContaining({
+        state: "awaiting_intents",
+        intentsStatus: "INCOMPLETE_DEPOSIT",
+        quoteDeadline: deadline,
+        depositAddress: "deposit-addr-123",
+        intentData: baseIntent,
+        detail: expect.stringContaining("received 0.5"),
+      }),
+      { from: "awaiting_intents" },
+    );
+
+    setStatusMock.mockClear();
+    await checkIntent(awaiting({ intentsStatus: "INCOMPLETE_DEPOSIT", quoteDeadline: deadline }));
+    expect(setStatusMock).not.toHaveBeenCalled();
+  });
+
+  it("expires an intent past the maximum wait with the last 1-Click status", async () => {
+    getExecutionStatusMock.mockResolvedValue({ status: "PROCESSING" });
+
+    await checkIntent(awaiting({ awaitingIntentsSince: minutesAgo(61), intentsStatus: "PROCESSING" }));
+
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "test-1",
+      expect.objectContaining({
+        state: "expired",
+        error: "No 1-Click outcome within 60 minutes",
+        intentsStatus: "PROCESSING",
+      }),
+    );
+    expect(enqueueIntentMock).not.toHaveBeenCalled();
+  });
+
+  it("expires an intent whose deposit never arrived before the quote deadline", async () => {
+    getExecutionStatusMock.mockResolvedValue({
+      status: "PENDING_DEPOSIT",
+      quoteResponse: { quote: { deadline: minutesAgo(11) } },
+    });
+
+    await checkIntent(awaiting());
+
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "test-1",
+      expect.objectContaining({ state: "expired", intentsStatus: "PENDING_DEPOSIT" }),
+    );
+  });
+
+  it("still expires overdue intents while 1-Click is unreachable", async () => {
+    getExecutionStatusMock.mockRejectedValue(new Error("API timeout"));
+
+    await checkIntent(awaiting({ awaitingIntentsSince: minutesAgo(61) }));
+
+    expect(setStatusMock).toHaveBeenCalledWith("test-1", expect.objectContaining({ state: "expired" }));
+  });
+});
@@ -1,60 +1,144 @@
-import { OneClickService, OpenAPI } from "@defuse-protocol/one-click-sdk-typescript";
+import {
+  GetExecutionStatusResponse,
+  OneClickService,
+  OpenAPI,
+} from "@defuse-protocol/one-click-sdk-typescript";
 import { config } from "../config";
-import { getIntentsByState, setStatus, IntentStatus } from "../state/status";
-import { RedisQueueClient } from "./redis";
+import {
+  IntentRefund,
+  IntentStatus,
+  StoredIntentStatus,
+  getIntentsByState,
+  setStatus,
+} from "../state/status";
+import { Leadership, startLeaderElection } from "../state/locks";
+import { QueueClient, createQueueClient } from "./client";
+import { checkDeliveredAmount } from "./deliveredAmount";
 import { ValidatedIntent } from "./types";
 
 // How often to poll for swap status
 const STATUS_POLL_INTERVAL_MS = 5_000;
+/** A deposit sent right at the quote deadline may take this long to show up */
+const DEADLINE_GRACE_MS = 10 * 60 * 1000;
+/** Lock held by the one replica that polls */
+const POLLER_LOCK = "poller:intents";
 
-interface IntentsSwapStatus {
-  status: string;
-  // Add other fields as needed from the API response
+let queue: QueueClient | null = null;
+
+function getQueue(): QueueClient {
+  if (!queue) {
+    queue = createQueueClient();
+  }
+  return queue;
+}
+
+export interface IntentsPoller {
+  /** Stops polling; resolves once the in-progress poll (if any) has finished */
+  stop(): Promise<void>;
 }
 
 /**
  * Polls the Defuse/Intents API for pending cross-chain swaps.
  * When a swap completes successfully, triggers the next step (e.g., Jupiter swap).
+ * Every replica starts a poller, but only the elected leader polls, so each
+ * completed swap is acted on once.
  */
-export async function startIntentsPoller() {
+export async function startIntentsPoller(): Promise<IntentsPoller> {
   if (config.intentsQuoteUrl) {
     OpenAPI.BASE = config.intentsQuoteUrl;
   }
 
   console.log("[intentsPoller] Starting intents status poller");
 
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      await pollPendingIntents();
-    } catch (err) {
-      console.error("[intentsPoller] Error polling intents:", err);
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const leadership = await startLeaderElection(POLLER_LOCK, config.pollerLeaseMs);
+
+  const loop = (async () => {
+    while (!stopping) {
+      try {
+        if (leadership.isLeader()) {
+          await pollPendingIntents(leadership);
+        }
+      } catch (err) {
+        console.error("[intentsPoller] Error polling intents:", err);
+      }
+
+      if (stopping) break;
+      // Sleep until the next poll, or until stop() wakes us
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, STATUS_POLL_INTERVAL_MS);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
     }
+  })();
 
-    await delay(STATUS_POLL_INTERVAL_MS);
-  }
+  return {
+    async stop() {
+      stopping = true;
+      wake?.();
+      await loop;
+      await leadership.stop();
+      console.log("[intentsPoller] Stopped");
+    },
+  };
 }
 
-async function pollPendingIntents() {
-  // Get all intents that are awaiting intents completion
-  const pendingIntents = await getIntentsByState("awaiting_intents");
+/** States of intents waiting on 1-Click, polled in this order */
+const POLLED_STATES = ["awaiting_deposit", "awaiting_intents"] as const;
 
-  if (pendingIntents.length === 0) {
-    return;
+async function pollPendingIntents(leadership: Leadership) {
+  for (const state of POLLED_STATES) {
+    if (!(await pollIntentsInState(state, leadership))) return;
   }
+}
 
-  console.log(`[intentsPoller] Checking ${pendingIntents.length} pending intents`);
+/** Returns false when leadership was lost during the poll */
+async function pollIntentsInState(
+  state: (typeof POLLED_STATES)[number],
+  leadership: Leadership,
+): Promise<boolean> {
+  // Walk every page of intents in the state
+  let cursor: string | undefined;
+  do {
+    const page = await getIntentsByState(state, { cursor });
+    cursor = page.nextCursor ?? undefined;
 
-  for (const intentStatus of pendingIntents) {
-    try {
-      await checkAndProcessIntent(intentStatus);
-    } catch (err) {
-      console.error(`[intentsPoller] Error checking intent ${intentStatus.intentId}:`, err);
+    if (page.intents.length === 0) {
+      continue;
     }
-  }
+
+    console.log(`[intentsPoller] Checking ${page.intents.length} ${state} intents`);
+
+    for (const intentStatus of page.intents) {
+      // The lease may have lapsed mid-poll; the new leader picks up from here
+      if (!leadership.isLeader()) {
+        console.warn("[intentsPoller] Lost leadership, stopping this poll");
+        return false;
+      }
+      try {
+        await checkAndProcessIntent(intentStatus);
+      } catch (err) {
+        console.error(`[intentsPoller] Error checking intent ${intentStatus.intentId}:`, err);
+      }
+    }
+  } while (cursor);
+  return true;
 }
 
-async function checkAndProcessIntent(intentStatus: { intentId: string } & IntentStatus) {
+/**
+ * Checks one intent waiting on a 1-Click swap and moves it on when the swap
+ * has an outcome. While the swap is in flight, changes of its 1-Click status
+ * are recorded on the intent; one that waits past its quote deadline without
+ * a deposit, or longer than INTENTS_MAX_WAIT_MS overall, is marked expired.
+ * An `awaiting_deposit` intent moves to `awaiting_intents` once 1-Click
+ * reports anything past PENDING_DEPOSIT, and is then handled the same way.
+ */
+export async function checkAndProcessIntent(intentStatus: StoredIntentStatus) {
   const { intentId, depositAddress, depositMemo } = intentStatus;
 
   if (!depositAddress) {
@@ -63,46 +147,170 @@ async function checkAndProcessIntent(intentStatus: { intentId: string } & Intent
   }
 
   // Query the Defuse API for swap status
-  let swapStatus: IntentsSwapStatus;
+  let execution: GetExecutionStatusResponse;
   try {
-    swapStatus = await OneClickService.getExecutionStatus(
-      depositAddress,
-      depositMemo,
-    ) as IntentsSwapStatus;
+    execution = await OneClickService.getExecutionStatus(depositAddress, depositMemo);
   } catch (err) {
     console.error(`[intentsPoller] Failed to get status for ${intentId}:`, err);
+    // An intent 1-Click keeps failing on must still expire eventually
+    await expireIfOverdue(intentStatus);
     return;
   }
 
-  console.log(`[intentsPoller] Intent ${intentId} status: ${swapStatus.status}`);
+  const status = String(execution.status ?? "").toUpperCase();
+  console.log(`[intentsPoller] Intent ${intentId} status: ${status}`);
 
-  switch (swapStatus.status?.toLowerCase()) {
-    case "success":
-    case "completed":
-      // Intents swap completed - trigger the next step
-      await handleIntentsSuccess(intentStatus);
+  if (intentStatus.state === "awaiting_deposit" && status !== "PENDING_DEPOSIT") {
+    const acknowledged = await acknowledgeDeposit(intentStatus, status, execution);
+    if (!acknowledged) return;
+    intentStatus = acknowledged;
+  }
+
+  switch (status) {
+    case "SUCCESS":
+    case "COMPLETED":
+      // Intents swap completed - trigger the next step once the funds are there
+      if (await handleIntentsSuccess(intentStatus, execution)) return;
       break;
 
-    case "refunded":
-    case "failed":
-      // Intents swap failed
+    case "REFUNDED":
+      await setStatus(intentId, {
+        state: "refunded",
+        detail: "1-Click refunded the deposit",
+        intentsStatus: status,
+        refund: refundDetails(execution),
+      });
+      return;
+
+    case "FAILED":
       await setStatus(intentId, {
         state: "failed",
-        error: `Intents swap ${swapStatus.status}`,
+        error: `Intents swap ${execution.status}`,
+        intentsStatus: status,
+        refund: refundDetails(execution),
       });
-      break;
+      return;
 
-    case "pending":
-    case "processing":
-      // Still in progress, continue polling
+    case "PENDING_DEPOSIT":
+    case "KNOWN_DEPOSIT_TX":
+    case "INCOMPLETE_DEPOSIT":
+    case "PROCESSING":
       break;
 
     default:
-      console.log(`[intentsPoller] Unknown status for ${intentId}: ${swapStatus.status}`);
+      console.log(`[intentsPoller] Unknown status for ${intentId}: ${execution.status}`);
+  }
+
+  // Still in flight
+  const waiting: StoredIntentStatus = {
+    ...intentStatus,
+    intentsStatus: status,
+    quoteDeadline: execution.quoteResponse?.quote?.deadline ?? intentStatus.quoteDeadline,
+    awaitingIntentsSince: intentStatus.awaitingIntentsSince ?? intentStatus.updatedAt,
+  };
+  if (await expireIfOverdue(waiting)) return;
+  if (status !== intentStatus.intentsStatus) {
+    const { intentId: _intentId, updatedAt: _updatedAt, ...snapshot } = waiting;
+    // Only over the state this was read in, so a late poll can't undo a claim
+    await setStatus(
+      intentId,
+      { ...snapshot, detail: waitingDetail(status, execution) },
+      { from: intentStatus.state },
+    );
+  }
+}
+
+/**
+ * Moves an `awaiting_deposit` intent on to `awaiting_intents` now that 1-Click
+ * has seen its deposit. Resolves to the new status, or null when the write was
+ * rejected because the intent moved on meanwhile.
+ */
+async function acknowledgeDeposit(
+  intentStatus: StoredIntentStatus,
+  status: string,
+  execution: GetExecutionStatusResponse,
+): Promise<StoredIntentStatus | null> {
+  const { intentId, updatedAt: _updatedAt, ...snapshot } = intentStatus;
+  const acknowledged: IntentStatus = {
+    ...snapshot,
+    state: "awaiting_intents",
+    detail: "1-Click acknowledged the deposit",
+    intentsStatus: status,
+    quoteDeadline: execution.quoteResponse?.quote?.deadline ?? intentStatus.quoteDeadline,
+  };
+  if (!(await setStatus(intentId, acknowledged, { from: "awaiting_deposit" }))) {
+    console.warn(`[intentsPoller] Intent ${intentId} already left awaiting_deposit`);
+    return null;
+  }
+  console.log(`[intentsPoller] 1-Click acknowledged the deposit for ${intentId}`);
+  return { intentId, ...acknowledged };
+}
+
+/** Marks the intent expired if it has waited too long; returns whether it did */
+async function expireIfOverdue(intentStatus: StoredIntentStatus): Promise<boolean> {
+  const now = Date.now();
+  const since = Date.parse(intentStatus.awaitingIntentsSince ?? intentStatus.updatedAt ?? "");
+  const deadline = Date.parse(intentStatus.quoteDeadline ?? "");
+
+  let error: string;
+  if (now - since > config.intentsMaxWaitMs) {
+    error = `No 1-Click outcome within ${Math.round(config.intentsMaxWaitMs / 60_000)} minutes`;
+  } else if (intentStatus.intentsStatus === "PENDING_DEPOSIT" && now > deadline + DEADLINE_GRACE_MS) {
+    error = `No deposit before the quote deadline (${intentStatus.quoteDeadline})`;
+  } else {
+    return false;
+  }
+
+  console.warn(`[intentsPoller] Intent ${intentStatus.intentId} expired: ${error}`);
+  await setStatus(intentStatus.intentId, {
+    state: "expired",
+    error,
+    detail: `Last 1-Click status: ${intentStatus.intentsStatus ?? "unknown"}`,
+    intentsStatus: intentStatus.intentsStatus,
+    depositAddress: intentStatus.depositAddress,
+    quoteDeadline: intentStatus.quoteDeadline,
+  });
+  return true;
+}
+
+function waitingDetail(status: string, { swapDetails }: GetExecutionStatusResponse): string {
+  switch (status) {
+    case "PENDING_DEPOSIT":
+      return "Waiting for the deposit to the 1-Click address";
+    case "KNOWN_DEPOSIT_TX":
+      return "Deposit transaction seen, waiting for it to settle";
+    case "INCOMPLETE_DEPOSIT": {
+      const received = swapDetails?.depositedAmountFormatted ?? swapDetails?.depositedAmount ?? "0";
+      return `Deposit below the quoted amount (received ${received}); 1-Click refunds it after the deadline`;
+    }
+    case "PROCESSING":
+      return "Waiting for cross-chain swap to complete";
+    case "SUCCESS":
+    case "COMPLETED":
+      return "Cross-chain swap completed, waiting for the funds to arrive";
+    default:
+      return `1-Click status: ${status}`;
   }
 }
 
-async function handleIntentsSuccess(intentStatus: { intentId: string } & IntentStatus) {
+function refundDetails({ swapDetails }: GetExecutionStatusResponse): IntentRefund | undefined {
+  if (!swapDetails?.refundedAmount) return undefined;
+  const refund: IntentRefund = { amount: swapDetails.refundedAmount };
+  if (swapDetails.refundedAmountFormatted) refund.amountFormatted = swapDetails.refundedAmountFormatted;
+  if (swapDetails.refundedAmountUsd) refund.amountUsd = swapDetails.refundedAmountUsd;
+  if (swapDetails.refundReason) refund.reason = swapDetails.refundReason;
+  return refund;
+}
+
+/**
+ * Moves the intent on to its destination step with the amount that actually
+ * arrived. Returns false, leaving it waiting, while the funds have not shown
+ * up on the agent account yet.
+ */
+async function handleIntentsSuccess(
+  intentStatus: StoredIntentStatus,
+  execution: GetExecutionStatusResponse,
+): Promise<boolean> {
   const { intentId, intentData } = intentStatus;
 
   if (!intentData) {
@@ -111,33 +319,58 @@ async function handleIntentsSuccess(intentStatus: { intentId: string } & IntentS
       state: "failed",
       error: "Missing intent data after intents success",
     });
-    return;
+    return true;
+  }
+
+  const delivery = await checkDeliveredAmount(
+    intentData,
+    execution.swapDetails,
+    intentStatus.agentBalanceBefore,
+  );
+  if (!delivery.landed) {
+    console.log(`[intentsPoller] Intents swap completed for ${intentId}, waiting for the funds to land`);
+    return false;
+  }
+  if (delivery.amount !== intentData.intermediateAmount) {
+    console.log(`[intentsPoller] Delivered amount for ${intentId} differs from the quote`, {
+      quoted: intentData.intermediateAmount,
+      delivered: delivery.amount,
+    });
   }
 
   console.log(`[intentsPoller] Intents swap completed for ${intentId}, queueing next step`);
 
-  // Update status to indicate we're moving to the next step
-  await setStatus(intentId, {
-    state: "processing",
-    detail: "Intents swap completed, executing Jupiter swap",
-  });
+  // Claim the intent by moving it on from awaiting_intents; only one poller
+  // (or a stale leader) can make this move, so it is enqueued once
+  const moved = await setStatus(
+    intentId,
+    {
+      state: "processing",
+      detail: "Intents swap completed, executing Jupiter swap",
+      intentsStatus: "SUCCESS",
+      deliveredAmount: delivery.amount,
+    },
+    { from: "awaiting_intents" },
+  );
+  // Another replica's poller got there first, or the intent moved on meanwhile
+  if (!moved) {
+    console.warn(`[intentsPoller] Intent ${intentId} already left awaiting_intents, not re-enqueuing`);
+    return true;
+  }
 
   // Re-enqueue the intent for the consumer to process the Jupiter swap
-  // Mark it so the consumer knows intents is already done
+  // Mark it so the consumer knows intents is already done, and swap what arrived
   const updatedIntent: ValidatedIntent = {
     ...intentData,
+    intermediateAmount: delivery.amount ?? intentData.intermediateAmount,
     metadata: {
       ...intentData.metadata,
       intentsCompleted: true,
     },
   };
 
-  const queue = new RedisQueueClient();
-  await queue.enqueueIntent(updatedIntent);
+  await getQueue().enqueueIntent(updatedIntent);
 
   console.log(`[intentsPoller] Re-enqueued intent ${intentId} for Jupiter swap`);
-}
-
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  return true;
 }
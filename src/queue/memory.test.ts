@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryQueueClient } from "./memory";
+import { IntentMessage } from "./types";
+
+function intent(intentId: string): IntentMessage {
+  return {
+    intentId,
+    sourceChain: "near",
+    sourceAsset: "wrap.near",
+    sourceAmount: "1",
+    destinationChain: "solana",
+    intermediateAsset: "So11111111111111111111111111111111111111112",
+    finalAsset: "So11111111111111111111111111111111111111112",
+    userDestination: "user",
+    agentDestination: "agent",
+  };
+}
+
+describe("InMemoryQueueClient", () => {
+  it("delivers messages in FIFO order", async () => {
+    const queue = new InMemoryQueueClient();
+    await queue.enqueueIntent(intent("a"));
+    await queue.enqueueIntent(intent("b"));
+
+    expect((await queue.fetchNextIntent(0)).intent?.intentId).toBe("a");
+    expect((await queue.fetchNextIntent(0)).intent?.intentId).toBe("b");
+    expect(await queue.fetchNextIntent(0)).toEqual({ intent: null, raw: null });
+  });
+
+  it("wakes a waiting fetch when a message is enqueued", async () => {
+    const queue = new InMemoryQueueClient();
+    const pending = queue.fetchNextIntent(5);
+    await queue.enqueueIntent(intent("a"));
+
+    expect((await pending).intent?.intentId).toBe("a");
+  });
+
+  it("redelivers unacknowledged messages once their visibility expires", async () => {
+    const queue = new InMemoryQueueClient();
+    await queue.enqueueIntent(intent("a"));
+    const { raw } = await queue.fetchNextIntent(0);
+
+    expect(await queue.requeueExpired(60_000, 3)).toEqual({ requeued: 0, deadLettered: 0, deadLetteredIntentIds: [] });
+    expect(await queue.requeueExpired(0, 3)).toEqual({ requeued: 1, deadLettered: 0, deadLetteredIntentIds: [] });
+
+    const redelivered = await queue.fetchNextIntent(0);
+    expect(redelivered.raw).toBe(raw);
+    await queue.ackIntent(redelivered.raw!);
+    expect(await queue.requeueExpired(0, 3)).toEqual({ requeued: 0, deadLettered: 0, deadLetteredIntentIds: [] });
+  });
+
+  it("releases a claimed message to the front without counting an attempt", async () => {
+    const queue = new InMemoryQueueClient();
+    await queue.enqueueIntent(intent("a"));
+    await queue.enqueueIntent(intent("b"));
+    const { raw } = await queue.fetchNextIntent(0);
+
+    await queue.releaseIntent(raw!);
+
+    expect((await queue.fetchNextIntent(0)).raw).toBe(raw);
+    expect(await queue.requeueExpired(0, 2)).toEqual({ requeued: 1, deadLettered: 0, deadLetteredIntentIds: [] });
+  });
+
+  it("dead-letters a message that keeps expiring", async () => {
+    const queue = new InMemoryQueueClient();
+    await queue.enqueueIntent(intent("a"));
+
+    await queue.fetchNextIntent(0);
+    await queue.requeueExpired(0, 2);
+    await queue.fetchNextIntent(0);
+    expect(await queue.requeueExpired(0, 2)).toEqual({ requeued: 0, deadLettered: 1, deadLetteredIntentIds: ["a"] });
+
+    const [entry] = await queue.listDeadLetters();
+    expect(entry.intentId).toBe("a");
+    expect(entry.lastError).toBe("visibility timeout expired");
+  });
+
+  it("holds scheduled intents until they are due", async () => {
+    const queue = new InMemoryQueueClient();
+    await queue.enqueueIntent({ ...intent("later"), executeAfter: new Date(Date.now() + 60_000).toISOString() });
+    await queue.enqueueIntent({ ...intent("soon"), executeAfter: new Date(Date.now() + 20).toISOString() });
+
+    expect(await queue.promoteScheduled()).toBe(0);
+    expect(await queue.fetchNextIntent(0)).toEqual({ intent: null, raw: null });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await queue.promoteScheduled()).toBe(1);
+    expect((await queue.fetchNextIntent(0)).intent?.intentId).toBe("soon");
+  });
+
+  it("replays a dead-letter entry only once", async () => {
+    const queue = new InMemoryQueueClient();
+    await queue.moveToDeadLetter(JSON.stringify(intent("a")), {
+      intentId: "a",
+      attempts: [{ attempt: 3, error: "boom", failedAt: "2024-01-01T00:00:00.000Z" }],
+    });
+
+    const [entry] = await queue.listDeadLetters();
+    expect(entry.lastError).toBe("boom");
+    expect(await queue.replayDeadLetter(entry)).toBe(true);
+    expect(await queue.replayDeadLetter(entry)).toBe(false);
+    expect((await queue.fetchNextIntent(0)).intent?.intentId).toBe("a");
+  });
+});
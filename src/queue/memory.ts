@@ -0,0 +1,188 @@
+import { config } from "../config";
+import { DeadLetterAttempt, IntentMessage } from "./types";
+import {
+  ParsedDeadLetter,
+  createDeadLetterEntry,
+  intentIdOf,
+  parseDeadLetterEntry,
+} from "./deadLetter";
+import type { QueueClient, ReapResult } from "./client";
+import { scheduledFor } from "./schedule";
+
+interface Claim {
+  raw: string;
+  claimedAt: number;
+}
+
+interface ScheduledMessage {
+  raw: string;
+  dueAt: number;
+}
+
+/**
+ * In-process queue with the same delivery semantics as RedisQueueClient.
+ * State lives in this process only: use it for tests and single-node dev.
+ */
+export class InMemoryQueueClient implements QueueClient {
+  /** Next message to deliver is at index 0 */
+  private pending: string[] = [];
+  private processing: Claim[] = [];
+  /** Ordered by dueAt, like the Redis sorted set */
+  private scheduled: ScheduledMessage[] = [];
+  private attempts = new Map<string, number>();
+  /** Newest first, like the Redis dead-letter list */
+  private deadLetters: string[] = [];
+  private waiters: Array<(raw: string) => void> = [];
+
+  async enqueueIntent(intent: IntentMessage) {
+    const raw = JSON.stringify(intent);
+    const dueAt = scheduledFor(intent);
+    if (dueAt !== null) {
+      const idx = this.scheduled.findIndex((m) => m.dueAt > dueAt);
+      this.scheduled.splice(idx === -1 ? this.scheduled.length : idx, 0, { raw, dueAt });
+      return;
+    }
+    this.deliver(raw, false);
+  }
+
+  async promoteScheduled(limit = 100): Promise<number> {
+    const now = Date.now();
+    let promoted = 0;
+    while (promoted < limit && this.scheduled.length && this.scheduled[0].dueAt <= now) {
+      this.deliver(this.scheduled.shift()!.raw, false);
+      promoted += 1;
+    }
+    return promoted;
+  }
+
+  async fetchNextIntent(
+    timeoutSeconds = 5,
+  ): Promise<{ intent: IntentMessage | null; raw: string | null }> {
+    const res = this.pending.shift() ?? (await this.waitForMessage(timeoutSeconds));
+    if (!res) return { intent: null, raw: null };
+    this.processing.push({ raw: res, claimedAt: Date.now() });
+    try {
+      const intent = JSON.parse(res) as IntentMessage;
+      return { intent, raw: res };
+    } catch (err) {
+      console.error("Failed to parse intent message", err, res);
+      return { intent: null, raw: res };
+    }
+  }
+
+  async touchIntent(raw: string) {
+    const claim = this.processing.find((c) => c.raw === raw);
+    if (claim) claim.claimedAt = Date.now();
+  }
+
+  async ackIntent(raw: string) {
+    this.removeClaim(raw);
+    this.attempts.delete(raw);
+  }
+
+  async releaseIntent(raw: string) {
+    const idx = this.processing.findIndex((c) => c.raw === raw);
+    if (idx === -1) return;
+    this.processing.splice(idx, 1);
+    this.deliver(raw, true);
+  }
+
+  async close() {
+    // Nothing to close; messages stay available to this process
+  }
+
+  async moveToDeadLetter(
+    raw: string,
+    details: { intentId?: string; attempts?: DeadLetterAttempt[] } = {},
+  ) {
+    const entry = createDeadLetterEntry(raw, details);
+    this.deadLetters.unshift(JSON.stringify(entry));
+  }
+
+  async listDeadLetters(start = 0, stop = -1): Promise<ParsedDeadLetter[]> {
+    const end = stop < 0 ? this.deadLetters.length + stop + 1 : stop + 1;
+    return this.deadLetters.slice(start, end).map(parseDeadLetterEntry);
+  }
+
+  async replayDeadLetter(entry: ParsedDeadLetter): Promise<boolean> {
+    if (!this.removeDeadLetterEntry(entry.stored)) return false;
+    this.deliver(entry.raw, false);
+    return true;
+  }
+
+  async removeDeadLetter(entry: ParsedDeadLetter): Promise<boolean> {
+    return this.removeDeadLetterEntry(entry.stored);
+  }
+
+  async requeueExpired(
+    visibilityMs = config.redisVisibilityMs,
+    maxAttempts = config.maxIntentAttempts,
+  ): Promise<ReapResult> {
+    const cutoff = Date.now() - visibilityMs;
+    const result: ReapResult = { requeued: 0, deadLettered: 0, deadLetteredIntentIds: [] };
+
+    for (const claim of this.processing.filter((c) => c.claimedAt <= cutoff)) {
+      this.removeClaim(claim.raw);
+      const attempts = (this.attempts.get(claim.raw) ?? 0) + 1;
+
+      if (attempts >= maxAttempts) {
+        this.attempts.delete(claim.raw);
+        const intentId = intentIdOf(claim.raw);
+        const entry = createDeadLetterEntry(claim.raw, {
+          intentId,
+          attempts: [
+            { attempt: attempts, error: "visibility timeout expired", failedAt: new Date().toISOString() },
+          ],
+        });
+        this.deadLetters.unshift(JSON.stringify(entry));
+        result.deadLettered += 1;
+        if (intentId) result.deadLetteredIntentIds.push(intentId);
+        continue;
+      }
+
+      this.attempts.set(claim.raw, attempts);
+      // Expired messages go to the front of the line, as with the Redis RPUSH
+      this.deliver(claim.raw, true);
+      result.requeued += 1;
+    }
+
+    return result;
+  }
+
+  private deliver(raw: string, front: boolean) {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(raw);
+    } else if (front) {
+      this.pending.unshift(raw);
+    } else {
+      this.pending.push(raw);
+    }
+  }
+
+  private waitForMessage(timeoutSeconds: number): Promise<string | null> {
+    return new Promise((resolve) => {
+      const waiter = (raw: string) => {
+        clearTimeout(timer);
+        resolve(raw);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        resolve(null);
+      }, timeoutSeconds * 1000);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private removeClaim(raw: string) {
+    const idx = this.processing.findIndex((c) => c.raw === raw);
+    if (idx !== -1) this.processing.splice(idx, 1);
+  }
+
+  private removeDeadLetterEntry(stored: string): boolean {
+    const idx = this.deadLetters.indexOf(stored);
+    if (idx === -1) return false;
+    this.deadLetters.splice(idx, 1);
+    return true;
+  }
+}
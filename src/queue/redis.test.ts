@@ -0,0 +1,182 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { RedisQueueClient } from "./redis";
+import { config } from "../config";
+import { IntentMessage } from "./types";
+
+const { redisMock } = vi.hoisted(() => {
+  const multi = {
+    zrem: vi.fn().mockReturnThis(),
+    hdel: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockResolvedValue([]),
+  };
+  return {
+    redisMock: {
+      on: vi.fn(),
+      lpush: vi.fn(),
+      brpoplpush: vi.fn(),
+      zadd: vi.fn(),
+      lrem: vi.fn(),
+      ltrim: vi.fn(),
+      lrange: vi.fn(),
+      zrangebyscore: vi.fn(),
+      eval: vi.fn(),
+      multi: vi.fn(() => multi),
+      multiMock: multi,
+    },
+  };
+});
+
+vi.mock("ioredis", () => ({
+  default: vi.fn().mockImplementation(() => redisMock),
+}));
+
+const processingKey = `${config.redisQueueKey}:processing`;
+const claimsKey = `${config.redisQueueKey}:processing:claims`;
+const attemptsKey = `${config.redisQueueKey}:attempts`;
+
+describe("RedisQueueClient", () => {
+  beforeEach(() => {
+    for (const fn of [
+      redisMock.lpush,
+      redisMock.brpoplpush,
+      redisMock.zadd,
+      redisMock.lrem,
+      redisMock.ltrim,
+      redisMock.lrange,
+      redisMock.zrangebyscore,
+      redisMock.eval,
+    ]) {
+      fn.mockReset();
+    }
+  });
+
+  it("records a claim when fetching an intent", async () => {
+    const raw = JSON.stringify({ intentId: "intent-1" });
+    redisMock.brpoplpush.mockResolvedValue(raw);
+
+    const client = new RedisQueueClient();
+    const next = await client.fetchNextIntent(1);
+
+    expect(next.intent?.intentId).toBe("intent-1");
+    expect(redisMock.zadd).toHaveBeenCalledWith(claimsKey, expect.any(Number), raw);
+  });
+
+  it("holds intents with a future executeAfter on the scheduled set", async () => {
+    const client = new RedisQueueClient();
+    const executeAfter = new Date(Date.now() + 60_000).toISOString();
+    await client.enqueueIntent({ intentId: "later", executeAfter } as IntentMessage);
+    await client.enqueueIntent({ intentId: "now", executeAfter: new Date(0).toISOString() } as IntentMessage);
+
+    expect(redisMock.zadd).toHaveBeenCalledWith(
+      `${config.redisQueueKey}:scheduled`,
+      Date.parse(executeAfter),
+      expect.stringContaining('"later"'),
+    );
+    expect(redisMock.lpush).toHaveBeenCalledTimes(1);
+    expect(redisMock.lpush).toHaveBeenCalledWith(config.redisQueueKey, expect.stringContaining('"now"'));
+  });
+
+  it("only refreshes existing claims on touch", async () => {
+    const client = new RedisQueueClient();
+    await client.touchIntent("raw");
+
+    expect(redisMock.zadd).toHaveBeenCalledWith(claimsKey, "XX", expect.any(Number), "raw");
+  });
+
+  it("leaves the processing list alone when acking a message the reaper already took", async () => {
+    redisMock.lrem.mockResolvedValue(0);
+
+    const client = new RedisQueueClient();
+    await client.ackIntent("raw");
+
+    expect(redisMock.multiMock.zrem).toHaveBeenCalledWith(claimsKey, "raw");
+    expect(redisMock.ltrim).not.toHaveBeenCalled();
+  });
+
+  it("clears claim and attempt tracking on ack", async () => {
+    redisMock.lrem.mockResolvedValue(1);
+
+    const client = new RedisQueueClient();
+    await client.ackIntent("raw");
+
+    expect(redisMock.lrem).toHaveBeenCalledWith(processingKey, 1, "raw");
+    expect(redisMock.multiMock.zrem).toHaveBeenCalledWith(claimsKey, "raw");
+    expect(redisMock.multiMock.hdel).toHaveBeenCalledWith(attemptsKey, "raw");
+    expect(redisMock.ltrim).not.toHaveBeenCalled();
+  });
+
+  describe("requeueExpired", () => {
+    it("starts a visibility window for untracked processing messages", async () => {
+      redisMock.lrange.mockResolvedValue(["a", "b"]);
+      redisMock.zrangebyscore.mockResolvedValue([]);
+
+      const client = new RedisQueueClient();
+      await client.requeueExpired(30_000, 3);
+
+      expect(redisMock.zadd).toHaveBeenCalledWith(
+        claimsKey,
+        "NX",
+        expect.any(Number),
+        "a",
+        expect.any(Number),
+        "b",
+      );
+    });
+
+    it("counts re-enqueued and dead-lettered messages", async () => {
+      const b = JSON.stringify({ intentId: "intent-b" });
+      redisMock.lrange.mockResolvedValue([]);
+      redisMock.zrangebyscore.mockResolvedValue(["a", b, "c"]);
+      redisMock.eval
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(2)
+        .mockResolvedValueOnce(0);
+
+      const client = new RedisQueueClient();
+      const result = await client.requeueExpired(30_000, 3);
+
+      expect(result).toEqual({ requeued: 1, deadLettered: 1, deadLetteredIntentIds: ["intent-b"] });
+      expect(redisMock.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        5,
+        processingKey,
+        claimsKey,
+        attemptsKey,
+        config.redisQueueKey,
+        config.deadLetterKey,
+        "a",
+        expect.any(Number),
+        3,
+        expect.any(String),
+        "",
+      );
+      expect(redisMock.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        5,
+        processingKey,
+        claimsKey,
+        attemptsKey,
+        config.redisQueueKey,
+        config.deadLetterKey,
+        b,
+        expect.any(Number),
+        3,
+        expect.any(String),
+        "intent-b",
+      );
+    });
+
+    it("only reaps claims older than the visibility window", async () => {
+      redisMock.lrange.mockResolvedValue([]);
+      redisMock.zrangebyscore.mockResolvedValue([]);
+      const now = Date.now();
+      vi.spyOn(Date, "now").mockReturnValue(now);
+
+      const client = new RedisQueueClient();
+      await client.requeueExpired(30_000, 3);
+
+      expect(redisMock.zrangebyscore).toHaveBeenCalledWith(claimsKey, "-inf", now - 30_000);
+      vi.restoreAllMocks();
+    });
+  });
+});
@@ -1,12 +1,113 @@
 import Redis from "ioredis";
 import { config } from "../config";
-import { IntentMessage } from "./types";
+import { DeadLetterAttempt, IntentMessage } from "./types";
+import {
+  ParsedDeadLetter,
+  createDeadLetterEntry,
+  intentIdOf,
+  parseDeadLetterEntry,
+} from "./deadLetter";
+import type { QueueClient, ReapResult } from "./client";
+import { scheduledFor } from "./schedule";
 
 const PROCESSING_SUFFIX = ":processing";
+const CLAIMS_SUFFIX = ":processing:claims";
+const ATTEMPTS_SUFFIX = ":attempts";
+const SCHEDULED_SUFFIX = ":scheduled";
+const PROMOTE_BATCH = 100;
 
-export class RedisQueueClient {
+/**
+ * Atomically returns one expired message from the processing list to the main
+ * queue, or to the dead-letter list once it has used up its delivery attempts.
+ * Re-checks the claim score so a message touched after the reaper read the
+ * claims set is left alone.
+ *
+ * KEYS: processing, claims, attempts, queue, dead-letter
+ * ARGV: raw message, visibility cutoff (ms epoch), max attempts, ISO timestamp, intentId
+ * Returns 0 when skipped, 1 when re-enqueued, 2 when dead-lettered.
+ */
+const REAP_SCRIPT = `
+local score = redis.call("ZSCORE", KEYS[2], ARGV[1])
+if not score or tonumber(score) > tonumber(ARGV[2]) then
+  return 0
+end
+redis.call("ZREM", KEYS[2], ARGV[1])
+local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+if removed == 0 then
+  return 0
+end
+local attempts = redis.call("HINCRBY", KEYS[3], ARGV[1], 1)
+if attempts >= tonumber(ARGV[3]) then
+  redis.call("HDEL", KEYS[3], ARGV[1])
+  local err = "visibility timeout expired"
+  redis.call("LPUSH", KEYS[5], cjson.encode({
+    raw = ARGV[1],
+    intentId = ARGV[5] ~= "" and ARGV[5] or nil,
+    lastError = err,
+    attempts = { { attempt = attempts, error = err, failedAt = ARGV[4] } },
+    deadLetteredAt = ARGV[4],
+  }))
+  return 2
+end
+redis.call("RPUSH", KEYS[4], ARGV[1])
+return 1
+`;
+
+/**
+ * Returns one claimed message from the processing list to the front of the
+ * main queue without counting an attempt.
+ *
+ * KEYS: processing, claims, queue
+ * ARGV: raw message
+ */
+const RELEASE_SCRIPT = `
+local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+if removed == 0 then
+  return 0
+end
+redis.call("ZREM", KEYS[2], ARGV[1])
+redis.call("RPUSH", KEYS[3], ARGV[1])
+return 1
+`;
+
+/**
+ * Moves due messages from the scheduled set onto the main queue. Each member
+ * is removed before it is pushed, so concurrent promoters never duplicate it.
+ *
+ * KEYS: scheduled, queue
+ * ARGV: now (ms epoch), max messages
+ */
+const PROMOTE_SCRIPT = `
+local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, ARGV[2])
+for _, raw in ipairs(due) do
+  redis.call("ZREM", KEYS[1], raw)
+  redis.call("LPUSH", KEYS[2], raw)
+end
+return #due
+`;
+
+/**
+ * Moves one dead-letter entry back onto the main queue, but only if it is
+ * still on the dead-letter list (so concurrent replays cannot duplicate it).
+ *
+ * KEYS: dead-letter, queue
+ * ARGV: stored dead-letter entry, raw queue message
+ */
+const REPLAY_SCRIPT = `
+local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+if removed == 0 then
+  return 0
+end
+redis.call("LPUSH", KEYS[2], ARGV[2])
+return 1
+`;
+
+export class RedisQueueClient implements QueueClient {
   private client: Redis;
   private processingKey: string;
+  private claimsKey: string;
+  private attemptsKey: string;
+  private scheduledKey: string;
 
   constructor() {
     this.client = new Redis(config.redisUrl, {
@@ -14,18 +115,40 @@ export class RedisQueueClient {
       enableReadyCheck: true,
     });
     this.processingKey = `${config.redisQueueKey}${PROCESSING_SUFFIX}`;
+    this.claimsKey = `${config.redisQueueKey}${CLAIMS_SUFFIX}`;
+    this.attemptsKey = `${config.redisQueueKey}${ATTEMPTS_SUFFIX}`;
+    this.scheduledKey = `${config.redisQueueKey}${SCHEDULED_SUFFIX}`;
     this.client.on("error", (err) => {
       console.error("Redis connection error", err);
     });
   }
 
   async enqueueIntent(intent: IntentMessage) {
-    await this.client.lpush(config.redisQueueKey, JSON.stringify(intent));
+    const raw = JSON.stringify(intent);
+    const dueAt = scheduledFor(intent);
+    if (dueAt !== null) {
+      await this.client.zadd(this.scheduledKey, dueAt, raw);
+      return;
+    }
+    await this.client.lpush(config.redisQueueKey, raw);
+  }
+
+  async promoteScheduled(limit = PROMOTE_BATCH): Promise<number> {
+    return (await this.client.eval(
+      PROMOTE_SCRIPT,
+      2,
+      this.scheduledKey,
+      config.redisQueueKey,
+      Date.now(),
+      limit,
+    )) as number;
   }
 
   /**
    * Blocking pop from the main queue into a processing list where it can be
    * retried if not acknowledged. Uses a short timeout to allow graceful shutdown.
+   * The claim time is recorded so the reaper can return the message to the
+   * queue if it is not acknowledged within the visibility window.
    */
   async fetchNextIntent(
     timeoutSeconds = 5,
@@ -36,6 +159,7 @@ export class RedisQueueClient {
       timeoutSeconds,
     );
     if (!res) return { intent: null, raw: null };
+    await this.client.zadd(this.claimsKey, Date.now(), res);
     try {
       const intent = JSON.parse(res) as IntentMessage;
       return { intent, raw: res };
@@ -45,15 +169,124 @@ export class RedisQueueClient {
     }
   }
 
+  /**
+   * Extends the visibility window of a message that is still being processed.
+   * Workers call this periodically so long-running flows are not reaped.
+   */
+  async touchIntent(raw: string) {
+    await this.client.zadd(this.claimsKey, "XX", Date.now(), raw);
+  }
+
   async ackIntent(raw: string) {
-    const removed = await this.client.lrem(this.processingKey, 1, raw);
-    if (removed === 0) {
-      // Fallback: trim oldest processing entry
-      await this.client.ltrim(this.processingKey, 1, -1);
-    }
+    // Nothing to remove when the reaper already took the message back
+    await this.client.lrem(this.processingKey, 1, raw);
+    await this.client
+      .multi()
+      .zrem(this.claimsKey, raw)
+      .hdel(this.attemptsKey, raw)
+      .exec();
+  }
+
+  async releaseIntent(raw: string) {
+    await this.client.eval(
+      RELEASE_SCRIPT,
+      3,
+      this.processingKey,
+      this.claimsKey,
+      config.redisQueueKey,
+      raw,
+    );
+  }
+
+  async close() {
+    await this.client.quit();
   }
 
-  async moveToDeadLetter(raw: string) {
-    await this.client.lpush(config.deadLetterKey, raw);
+  async moveToDeadLetter(
+    raw: string,
+    details: { intentId?: string; attempts?: DeadLetterAttempt[] } = {},
+  ) {
+    const entry = createDeadLetterEntry(raw, details);
+    await this.client.lpush(config.deadLetterKey, JSON.stringify(entry));
+  }
+
+  /** Lists dead-letter entries, newest first */
+  async listDeadLetters(start = 0, stop = -1): Promise<ParsedDeadLetter[]> {
+    const stored = await this.client.lrange(config.deadLetterKey, start, stop);
+    return stored.map(parseDeadLetterEntry);
+  }
+
+  /**
+   * Puts a dead-lettered message back on the main queue.
+   * Returns false if the entry was already replayed or purged.
+   */
+  async replayDeadLetter(entry: ParsedDeadLetter): Promise<boolean> {
+    const moved = (await this.client.eval(
+      REPLAY_SCRIPT,
+      2,
+      config.deadLetterKey,
+      config.redisQueueKey,
+      entry.stored,
+      entry.raw,
+    )) as number;
+    return moved === 1;
+  }
+
+  /** Returns false if the entry was already replayed or purged */
+  async removeDeadLetter(entry: ParsedDeadLetter): Promise<boolean> {
+    const removed = await this.client.lrem(config.deadLetterKey, 1, entry.stored);
+    return removed > 0;
+  }
+
+  /**
+   * Returns messages whose visibility window expired (e.g. the worker crashed
+   * mid-flow) to the main queue. Each expiry counts as a delivery attempt; a
+   * message that has used up `maxIntentAttempts` goes to the dead-letter list.
+   */
+  async requeueExpired(
+    visibilityMs = config.redisVisibilityMs,
+    maxAttempts = config.maxIntentAttempts,
+  ): Promise<ReapResult> {
+    // Messages claimed before claim tracking existed (or whose claim write was
+    // lost to a crash) have no score yet; start their visibility window now.
+    const processing = await this.client.lrange(this.processingKey, 0, -1);
+    if (processing.length) {
+      const now = Date.now();
+      await this.client.zadd(
+        this.claimsKey,
+        "NX",
+        ...processing.flatMap((raw) => [now, raw]),
+      );
+    }
+
+    const cutoff = Date.now() - visibilityMs;
+    const expired = await this.client.zrangebyscore(this.claimsKey, "-inf", cutoff);
+    const result: ReapResult = { requeued: 0, deadLettered: 0, deadLetteredIntentIds: [] };
+
+    for (const raw of expired) {
+      const intentId = intentIdOf(raw);
+      const outcome = (await this.client.eval(
+        REAP_SCRIPT,
+        5,
+        this.processingKey,
+        this.claimsKey,
+        this.attemptsKey,
+        config.redisQueueKey,
+        config.deadLetterKey,
+        raw,
+        cutoff,
+        maxAttempts,
+        new Date().toISOString(),
+        intentId ?? "",
+      )) as number;
+
+      if (outcome === 1) result.requeued += 1;
+      if (outcome === 2) {
+        result.deadLettered += 1;
+        if (intentId) result.deadLetteredIntentIds.push(intentId);
+      }
+    }
+
+    return result;
   }
 }
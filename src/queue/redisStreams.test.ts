@@ -0,0 +1,109 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { RedisStreamQueueClient } from "./redisStreams";
+import { config } from "../config";
+
+const { redisMock } = vi.hoisted(() => {
+  const multi = {
+    xack: vi.fn().mockReturnThis(),
+    xdel: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockResolvedValue([]),
+  };
+  return {
+    redisMock: {
+      on: vi.fn(),
+      xadd: vi.fn(),
+      xgroup: vi.fn(),
+      xreadgroup: vi.fn(),
+      xautoclaim: vi.fn(),
+      xpending: vi.fn(),
+      xclaim: vi.fn(),
+      xack: vi.fn(),
+      multi: vi.fn(() => multi),
+      multiMock: multi,
+    },
+  };
+});
+
+vi.mock("ioredis", () => ({
+  default: vi.fn().mockImplementation(() => redisMock),
+}));
+
+const streamKey = config.redisStreamKey;
+const group = config.redisStreamGroup;
+const consumer = config.redisStreamConsumer;
+const raw = JSON.stringify({ intentId: "intent-1" });
+
+describe("RedisStreamQueueClient", () => {
+  beforeEach(() => {
+    for (const fn of [
+      redisMock.xadd,
+      redisMock.xgroup,
+      redisMock.xreadgroup,
+      redisMock.xautoclaim,
+      redisMock.xpending,
+      redisMock.xclaim,
+      redisMock.xack,
+      redisMock.multiMock.xack,
+      redisMock.multiMock.xdel,
+    ]) {
+      fn.mockClear();
+    }
+    redisMock.xgroup.mockResolvedValue("OK");
+    redisMock.xautoclaim.mockResolvedValue(["0-0", []]);
+  });
+
+  it("creates the consumer group once and reads new entries", async () => {
+    redisMock.xreadgroup.mockResolvedValue([[streamKey, [["1-0", ["intent", raw]]]]]);
+
+    const client = new RedisStreamQueueClient();
+    const first = await client.fetchNextIntent(1);
+    await client.fetchNextIntent(1);
+
+    expect(redisMock.xgroup).toHaveBeenCalledTimes(1);
+    expect(redisMock.xgroup).toHaveBeenCalledWith("CREATE", streamKey, group, "0", "MKSTREAM");
+    expect(first).toEqual({ intent: { intentId: "intent-1" }, raw, deliveryCount: 1 });
+  });
+
+  it("tolerates a consumer group that already exists", async () => {
+    redisMock.xgroup.mockRejectedValue(new Error("BUSYGROUP Consumer Group name already exists"));
+    redisMock.xreadgroup.mockResolvedValue(null);
+
+    const client = new RedisStreamQueueClient();
+    expect(await client.fetchNextIntent(1)).toEqual({ intent: null, raw: null });
+  });
+
+  it("reclaims expired entries with their delivery count", async () => {
+    redisMock.xautoclaim.mockResolvedValue(["0-0", [["1-0", ["intent", raw]]]]);
+    redisMock.xpending.mockResolvedValue([["1-0", consumer, 31_000, 3]]);
+
+    const client = new RedisStreamQueueClient();
+    const next = await client.fetchNextIntent(1);
+
+    expect(redisMock.xautoclaim).toHaveBeenCalledWith(
+      streamKey,
+      group,
+      consumer,
+      config.redisVisibilityMs,
+      "0-0",
+      "COUNT",
+      1,
+    );
+    expect(redisMock.xreadgroup).not.toHaveBeenCalled();
+    expect(next.deliveryCount).toBe(3);
+  });
+
+  it("acks and deletes the stream entry it fetched", async () => {
+    redisMock.xreadgroup.mockResolvedValue([[streamKey, [["1-0", ["intent", raw]]]]]);
+
+    const client = new RedisStreamQueueClient();
+    await client.fetchNextIntent(1);
+    await client.touchIntent(raw);
+    await client.ackIntent(raw);
+    await client.ackIntent(raw);
+
+    expect(redisMock.xclaim).toHaveBeenCalledWith(streamKey, group, consumer, 0, "1-0", "JUSTID");
+    expect(redisMock.multiMock.xack).toHaveBeenCalledTimes(1);
+    expect(redisMock.multiMock.xack).toHaveBeenCalledWith(streamKey, group, "1-0");
+    expect(redisMock.multiMock.xdel).toHaveBeenCalledWith(streamKey, "1-0");
+  });
+});
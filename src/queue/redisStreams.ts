@@ -0,0 +1,292 @@
+import Redis from "ioredis";
+import { config } from "../config";
+import { DeadLetterAttempt, IntentMessage } from "./types";
+import {
+  ParsedDeadLetter,
+  createDeadLetterEntry,
+  parseDeadLetterEntry,
+} from "./deadLetter";
+import type { FetchedIntent, QueueClient } from "./client";
+import { scheduledFor } from "./schedule";
+
+const INTENT_FIELD = "intent";
+const SCHEDULED_SUFFIX = ":scheduled";
+const PROMOTE_BATCH = 100;
+
+/**
+ * Moves due messages from the scheduled set onto the stream. Each member is
+ * removed before it is added, so concurrent promoters never duplicate it.
+ *
+ * KEYS: scheduled, stream
+ * ARGV: now (ms epoch), max messages
+ */
+const PROMOTE_SCRIPT = `
+local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, ARGV[2])
+for _, raw in ipairs(due) do
+  redis.call("ZREM", KEYS[1], raw)
+  redis.call("XADD", KEYS[2], "*", "${INTENT_FIELD}", raw)
+end
+return #due
+`;
+
+/**
+ * Moves one dead-letter entry back onto the stream, but only if it is still on
+ * the dead-letter list (so concurrent replays cannot duplicate it).
+ *
+ * KEYS: dead-letter, stream
+ * ARGV: stored dead-letter entry, raw queue message
+ */
+const REPLAY_SCRIPT = `
+local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+if removed == 0 then
+  return 0
+end
+redis.call("XADD", KEYS[2], "*", "${INTENT_FIELD}", ARGV[2])
+return 1
+`;
+
+type StreamEntry = [id: string, fields: string[] | null];
+
+function fieldValue(fields: string[], name: string): string | undefined {
+  for (let i = 0; i < fields.length - 1; i += 2) {
+    if (fields[i] === name) return fields[i + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Intent queue on a Redis Stream consumer group. Each pending entry is owned
+ * by one consumer (REDIS_STREAM_CONSUMER), so replicas never ack each other's
+ * messages. Entries left unacked for `redisVisibilityMs` are reclaimed with
+ * XAUTOCLAIM by the next fetch, which reports the stream's delivery count.
+ */
+export class RedisStreamQueueClient implements QueueClient {
+  private client: Redis;
+  private groupReady: Promise<void> | null = null;
+  private reclaimCursor = "0-0";
+  /** Stream IDs of the messages this process is working on, by raw message */
+  private inflight = new Map<string, string[]>();
+
+  constructor() {
+    this.client = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: true,
+    });
+    this.client.on("error", (err) => {
+      console.error("Redis connection error (stream queue)", err);
+    });
+  }
+
+  async enqueueIntent(intent: IntentMessage) {
+    const raw = JSON.stringify(intent);
+    const dueAt = scheduledFor(intent);
+    if (dueAt !== null) {
+      await this.client.zadd(`${config.redisStreamKey}${SCHEDULED_SUFFIX}`, dueAt, raw);
+      return;
+    }
+    await this.client.xadd(config.redisStreamKey, "*", INTENT_FIELD, raw);
+  }
+
+  async promoteScheduled(limit = PROMOTE_BATCH): Promise<number> {
+    return (await this.client.eval(
+      PROMOTE_SCRIPT,
+      2,
+      `${config.redisStreamKey}${SCHEDULED_SUFFIX}`,
+      config.redisStreamKey,
+      Date.now(),
+      limit,
+    )) as number;
+  }
+
+  /**
+   * Reclaims one expired pending entry if there is any, otherwise blocks for a
+   * new entry. Uses a short timeout to allow graceful shutdown.
+   */
+  async fetchNextIntent(timeoutSeconds = 5): Promise<FetchedIntent> {
+    await this.ensureGroup();
+
+    const reclaimed = await this.reclaimExpired();
+    if (reclaimed) return reclaimed;
+
+    const res = (await this.client.xreadgroup(
+      "GROUP",
+      config.redisStreamGroup,
+      config.redisStreamConsumer,
+      "COUNT",
+      1,
+      "BLOCK",
+      timeoutSeconds * 1000,
+      "STREAMS",
+      config.redisStreamKey,
+      ">",
+    )) as Array<[key: string, entries: StreamEntry[]]> | null;
+
+    const entry = res?.[0]?.[1]?.[0];
+    if (!entry) return { intent: null, raw: null };
+    return this.track(entry[0], entry[1] ?? [], 1);
+  }
+
+  /**
+   * Resets the idle time of our pending entries without bumping their
+   * delivery count, so long-running flows are not reclaimed.
+   */
+  async touchIntent(raw: string) {
+    for (const id of this.inflight.get(raw) ?? []) {
+      await this.client.xclaim(
+        config.redisStreamKey,
+        config.redisStreamGroup,
+        config.redisStreamConsumer,
+        0,
+        id,
+        "JUSTID",
+      );
+    }
+  }
+
+  async ackIntent(raw: string) {
+    const ids = this.inflight.get(raw);
+    const id = ids?.shift();
+    if (!ids?.length) this.inflight.delete(raw);
+    if (!id) {
+      console.warn("[redisStreams] Ack for a message this consumer does not own, ignoring");
+      return;
+    }
+    await this.client
+      .multi()
+      .xack(config.redisStreamKey, config.redisStreamGroup, id)
+      .xdel(config.redisStreamKey, id)
+      .exec();
+  }
+
+  /**
+   * Marks our pending entry as idle past the visibility window so the next
+   * fetch on any replica reclaims it. JUSTID leaves the delivery count alone.
+   */
+  async releaseIntent(raw: string) {
+    const ids = this.inflight.get(raw);
+    const id = ids?.shift();
+    if (!ids?.length) this.inflight.delete(raw);
+    if (!id) return;
+    await this.client.xclaim(
+      config.redisStreamKey,
+      config.redisStreamGroup,
+      config.redisStreamConsumer,
+      0,
+      id,
+      "IDLE",
+      config.redisVisibilityMs,
+      "JUSTID",
+    );
+  }
+
+  async close() {
+    await this.client.quit();
+  }
+
+  async moveToDeadLetter(
+    raw: string,
+    details: { intentId?: string; attempts?: DeadLetterAttempt[] } = {},
+  ) {
+    const entry = createDeadLetterEntry(raw, details);
+    await this.client.lpush(config.deadLetterKey, JSON.stringify(entry));
+  }
+
+  /** Lists dead-letter entries, newest first */
+  async listDeadLetters(start = 0, stop = -1): Promise<ParsedDeadLetter[]> {
+    const stored = await this.client.lrange(config.deadLetterKey, start, stop);
+    return stored.map(parseDeadLetterEntry);
+  }
+
+  /**
+   * Puts a dead-lettered message back on the stream.
+   * Returns false if the entry was already replayed or purged.
+   */
+  async replayDeadLetter(entry: ParsedDeadLetter): Promise<boolean> {
+    const moved = (await this.client.eval(
+      REPLAY_SCRIPT,
+      2,
+      config.deadLetterKey,
+      config.redisStreamKey,
+      entry.stored,
+      entry.raw,
+    )) as number;
+    return moved === 1;
+  }
+
+  /** Returns false if the entry was already replayed or purged */
+  async removeDeadLetter(entry: ParsedDeadLetter): Promise<boolean> {
+    const removed = await this.client.lrem(config.deadLetterKey, 1, entry.stored);
+    return removed > 0;
+  }
+
+  private ensureGroup(): Promise<void> {
+    if (!this.groupReady) {
+      this.groupReady = this.client
+        .xgroup("CREATE", config.redisStreamKey, config.redisStreamGroup, "0", "MKSTREAM")
+        .then(() => undefined)
+        .catch((err: Error) => {
+          if (err.message.includes("BUSYGROUP")) return;
+          this.groupReady = null;
+          throw err;
+        });
+    }
+    return this.groupReady;
+  }
+
+  private async reclaimExpired(): Promise<FetchedIntent | null> {
+    const [nextCursor, entries] = (await this.client.xautoclaim(
+      config.redisStreamKey,
+      config.redisStreamGroup,
+      config.redisStreamConsumer,
+      config.redisVisibilityMs,
+      this.reclaimCursor,
+      "COUNT",
+      1,
+    )) as [string, StreamEntry[]];
+    this.reclaimCursor = nextCursor;
+
+    const entry = entries[0];
+    if (!entry) return null;
+
+    const [id, fields] = entry;
+    if (!fields) {
+      // Trimmed from the stream while pending; nothing left to deliver
+      await this.client.xack(config.redisStreamKey, config.redisStreamGroup, id);
+      return null;
+    }
+
+    const pending = (await this.client.xpending(
+      config.redisStreamKey,
+      config.redisStreamGroup,
+      id,
+      id,
+      1,
+    )) as Array<[id: string, consumer: string, idleMs: number, deliveries: number]>;
+    const deliveryCount = pending[0]?.[3] ?? 1;
+
+    console.warn(`[redisStreams] Reclaimed expired entry ${id} (delivery ${deliveryCount})`);
+    return this.track(id, fields, deliveryCount);
+  }
+
+  private async track(id: string, fields: string[], deliveryCount: number): Promise<FetchedIntent> {
+    const raw = fieldValue(fields, INTENT_FIELD);
+    if (raw === undefined) {
+      console.warn(`[redisStreams] Entry ${id} has no ${INTENT_FIELD} field, dropping it`);
+      await this.client
+        .multi()
+        .xack(config.redisStreamKey, config.redisStreamGroup, id)
+        .xdel(config.redisStreamKey, id)
+        .exec();
+      return { intent: null, raw: null };
+    }
+    const ids = this.inflight.get(raw) ?? [];
+    if (!ids.includes(id)) this.inflight.set(raw, [...ids, id]);
+    try {
+      const intent = JSON.parse(raw) as IntentMessage;
+      return { intent, raw, deliveryCount };
+    } catch (err) {
+      console.error("Failed to parse intent message", err, raw);
+      return { intent: null, raw, deliveryCount };
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { IntentMessage } from "./types";
+
+/**
+ * Returns when the intent is due (ms epoch) if `executeAfter` is still in the
+ * future, or null if it can run now.
+ */
+export function scheduledFor(intent: IntentMessage, now = Date.now()): number | null {
+  if (!intent.executeAfter) return null;
+  const dueAt = Date.parse(intent.executeAfter);
+  return Number.isNaN(dueAt) || dueAt <= now ? null : dueAt;
+}
@@ -1,5 +1,19 @@
+import type { ErrorClass } from "../errors";
+
 export type IntentChain = "near" | "solana" | "zcash" | "ethereum" | "arbitrum" | "base" | "optimism" | "aurora" | "polygon" | "bnb" | "avalanche";
 
+/** Where a flow sends its output on another chain, via intents */
+export interface BridgeBackConfig {
+  /** Destination chain for the bridge (e.g., "zcash", "ethereum") */
+  destinationChain: string;
+  /** User's address on the destination chain */
+  destinationAddress: string;
+  /** Destination asset identifier (e.g., "zec:zec") */
+  destinationAsset: string;
+  /** Optional slippage tolerance in basis points */
+  slippageTolerance?: number;
+}
+
 export interface KaminoDepositMetadata extends Record<string, unknown> {
   action: "kamino-deposit";
   marketAddress: string;
@@ -18,16 +32,29 @@ export interface KaminoWithdrawMetadata extends Record<string, unknown> {
   marketAddress: string;
   mintAddress: string;
   /** Optional: bridge withdrawn tokens back to another chain via intents */
-  bridgeBack?: {
-    /** Destination chain for the bridge (e.g., "zcash") */
-    destinationChain: string;
-    /** User's address on the destination chain */
-    destinationAddress: string;
-    /** Destination asset identifier (e.g., "zec:zec") */
-    destinationAsset: string;
-    /** Optional slippage tolerance in basis points */
-    slippageTolerance?: number;
-  };
+  bridgeBack?: BridgeBackConfig;
+}
+
+export interface KaminoBorrowMetadata extends Record<string, unknown> {
+  action: "kamino-borrow";
+  marketAddress: string;
+  /** Mint of the asset to borrow */
+  mintAddress: string;
+  /** Optional: bridge the borrowed tokens to another chain via intents */
+  bridgeBack?: BridgeBackConfig;
+}
+
+export interface KaminoRepayMetadata extends Record<string, unknown> {
+  action: "kamino-repay";
+  marketAddress: string;
+  /** Mint of the borrowed asset; intents delivers it to the user's derived account */
+  mintAddress: string;
+  /** Repay the whole outstanding debt; whatever is left over goes back to the user */
+  repayMax?: boolean;
+  /** The Defuse asset ID of the borrowed asset */
+  targetDefuseAssetId?: string;
+  /** Slippage tolerance in basis points for the intents swap */
+  slippageTolerance?: number;
 }
 
 export interface BurrowDepositMetadata extends Record<string, unknown> {
@@ -49,23 +76,52 @@ export interface BurrowWithdrawMetadata extends Record<string, unknown> {
   /** The NEAR token contract address (e.g., "wrap.near", "usdc.token.near") */
   tokenId: string;
   /** Optional: bridge withdrawn tokens back to another chain via intents */
-  bridgeBack?: {
-    /** Destination chain for the bridge (e.g., "zcash", "ethereum") */
-    destinationChain: string;
-    /** User's address on the destination chain */
-    destinationAddress: string;
-    /** Destination asset identifier (e.g., "zec:zec") */
-    destinationAsset: string;
-    /** Optional slippage tolerance in basis points */
-    slippageTolerance?: number;
-  };
+  bridgeBack?: BridgeBackConfig;
+}
+
+export interface BurrowBorrowMetadata extends Record<string, unknown> {
+  action: "burrow-borrow";
+  /** The NEAR token contract address to borrow */
+  tokenId: string;
+  /** Optional: bridge the borrowed tokens to another chain via intents */
+  bridgeBack?: BridgeBackConfig;
+}
+
+export interface BurrowRepayMetadata extends Record<string, unknown> {
+  action: "burrow-repay";
+  /** The borrowed NEAR token; intents delivers it to the user's derived account */
+  tokenId: string;
+  /** Repay the whole outstanding debt; whatever is left over goes back to the user */
+  repayAll?: boolean;
+  /** The Defuse asset ID of the borrowed token */
+  targetDefuseAssetId?: string;
+  /** Slippage tolerance in basis points for the intents swap */
+  slippageTolerance?: number;
+}
+
+export interface BurrowIncreaseCollateralMetadata extends Record<string, unknown> {
+  action: "burrow-increase-collateral";
+  /** Token whose supplied balance becomes collateral; sourceAmount is the amount */
+  tokenId: string;
+}
+
+export interface BurrowDecreaseCollateralMetadata extends Record<string, unknown> {
+  action: "burrow-decrease-collateral";
+  /** Token whose collateral goes back to supplied balance; sourceAmount is the amount */
+  tokenId: string;
 }
 
 export type IntentMetadata =
   | KaminoDepositMetadata
   | KaminoWithdrawMetadata
+  | KaminoBorrowMetadata
+  | KaminoRepayMetadata
   | BurrowDepositMetadata
   | BurrowWithdrawMetadata
+  | BurrowBorrowMetadata
+  | BurrowRepayMetadata
+  | BurrowIncreaseCollateralMetadata
+  | BurrowDecreaseCollateralMetadata
   | Record<string, unknown>;
 
 export interface IntentMessage {
@@ -94,6 +150,12 @@ export interface IntentMessage {
   refundAddress?: string;
   /** User signature proving authorization for this intent (required for withdrawals) */
   userSignature?: UserSignature;
+  /** ISO 8601 time before which the intent is held on the scheduled set */
+  executeAfter?: string;
+  /** Receives a signed POST on every state transition of the intent */
+  callbackUrl?: string;
+  /** Failed attempts so far; set by the consumer when it schedules a retry */
+  previousAttempts?: DeadLetterAttempt[];
 }
 
 /** NEAR NEP-413 signature */
@@ -141,3 +203,22 @@ export type UserSignature = NearUserSignature | SolanaUserSignature | LegacyUser
 export interface ValidatedIntent extends IntentMessage {
   slippageBps: number;
 }
+
+/** One failed processing attempt recorded before an intent was dead-lettered */
+export interface DeadLetterAttempt {
+  attempt: number;
+  error: string;
+  errorClass?: ErrorClass;
+  errorCode?: string;
+  failedAt: string;
+}
+
+/** Envelope stored on the dead-letter list around the original queue message */
+export interface DeadLetterEntry {
+  /** The original queue message, exactly as it was enqueued */
+  raw: string;
+  intentId?: string;
+  lastError?: string;
+  attempts: DeadLetterAttempt[];
+  deadLetteredAt?: string;
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { validateIntent } from "./validation";
-import { IntentMessage, KaminoDepositMetadata, KaminoWithdrawMetadata } from "./types";
+import { BurrowBorrowMetadata, BurrowRepayMetadata, IntentMessage, KaminoBorrowMetadata, KaminoDepositMetadata, KaminoRepayMetadata, KaminoWithdrawMetadata } from "./types";
 
 const baseIntent: IntentMessage = {
   intentId: "test-intent",
@@ -146,6 +146,20 @@ describe("validateIntent", () => {
     });
   });
 
+  describe("callbackUrl validation", () => {
+    it("accepts an https callbackUrl", () => {
+      const validated = validateIntent({ ...baseIntent, callbackUrl: "https://example.com/hooks" });
+      expect(validated.callbackUrl).toBe("https://example.com/hooks");
+    });
+
+    it("rejects a callbackUrl that is not an http(s) URL", () => {
+      expect(() =>
+        validateIntent({ ...baseIntent, callbackUrl: "ftp://example.com/hooks" }),
+      ).toThrow(/callbackUrl/);
+      expect(() => validateIntent({ ...baseIntent, callbackUrl: "not a url" })).toThrow(/callbackUrl/);
+    });
+  });
+
   describe("Kamino deposit validation", () => {
     const kaminoDepositMetadata: KaminoDepositMetadata = {
       action: "kamino-deposit",
@@ -252,6 +266,143 @@ describe("validateIntent", () => {
     });
   });
 
+  describe("Kamino borrow validation", () => {
+    const kaminoBorrowMetadata: KaminoBorrowMetadata = {
+      action: "kamino-borrow",
+      marketAddress: "7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF",
+      mintAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    };
+
+    it("accepts valid kamino borrow intent", () => {
+      const validated = validateIntent({
+        ...baseIntent,
+        metadata: kaminoBorrowMetadata,
+      });
+      expect(validated.metadata).toEqual(kaminoBorrowMetadata);
+    });
+
+    it("rejects kamino borrow without mintAddress", () => {
+      expect(() =>
+        validateIntent({ ...baseIntent, metadata: { ...kaminoBorrowMetadata, mintAddress: "" } }),
+      ).toThrow(/Kamino borrow requires metadata.mintAddress/);
+    });
+
+    it("rejects an incomplete bridgeBack", () => {
+      const metaWithBridge = {
+        ...kaminoBorrowMetadata,
+        bridgeBack: { destinationChain: "zcash", destinationAddress: "t1abc..." },
+      };
+      expect(() =>
+        validateIntent({ ...baseIntent, metadata: metaWithBridge as KaminoBorrowMetadata }),
+      ).toThrow(/bridgeBack requires/);
+    });
+  });
+
+  describe("Kamino repay validation", () => {
+    const kaminoRepayMetadata: KaminoRepayMetadata = {
+      action: "kamino-repay",
+      marketAddress: "7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF",
+      mintAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      repayMax: true,
+    };
+
+    const repayIntent: IntentMessage = { ...baseIntent, refundAddress: "alice.near" };
+
+    it("accepts valid kamino repay intent", () => {
+      const validated = validateIntent({
+        ...repayIntent,
+        metadata: kaminoRepayMetadata,
+      });
+      expect(validated.metadata).toEqual(kaminoRepayMetadata);
+    });
+
+    it("rejects kamino repay without marketAddress", () => {
+      expect(() =>
+        validateIntent({ ...repayIntent, metadata: { ...kaminoRepayMetadata, marketAddress: "" } }),
+      ).toThrow(/Kamino repay requires metadata.marketAddress/);
+    });
+
+    it("rejects a non-boolean repayMax", () => {
+      const meta = { ...kaminoRepayMetadata, repayMax: "yes" };
+      expect(() =>
+        validateIntent({ ...repayIntent, metadata: meta as unknown as KaminoRepayMetadata }),
+      ).toThrow(/repayMax must be a boolean/);
+    });
+
+    it("rejects kamino repay without refundAddress", () => {
+      expect(() =>
+        validateIntent({ ...baseIntent, metadata: kaminoRepayMetadata }),
+      ).toThrow(/Kamino repay requires refundAddress/);
+    });
+  });
+
+  describe("Burrow borrow, repay and collateral validation", () => {
+    const nearIntent: IntentMessage = {
+      ...baseIntent,
+      sourceChain: "near",
+      destinationChain: "near",
+      sourceAsset: "usdc.near",
+      finalAsset: "usdc.near",
+      agentDestination: "a".repeat(64),
+    };
+
+    it("strips the nep141: prefix from a borrow tokenId", () => {
+      const validated = validateIntent({
+        ...nearIntent,
+        metadata: { action: "burrow-borrow", tokenId: "nep141:usdc.near" },
+      });
+      expect((validated.metadata as BurrowBorrowMetadata).tokenId).toBe("usdc.near");
+    });
+
+    it("rejects a burrow borrow that does not go to near", () => {
+      expect(() =>
+        validateIntent({ ...baseIntent, metadata: { action: "burrow-borrow", tokenId: "usdc.near" } }),
+      ).toThrow(/destinationChain must be near/);
+    });
+
+    it("rejects an incomplete bridgeBack on a borrow", () => {
+      const meta = {
+        action: "burrow-borrow",
+        tokenId: "usdc.near",
+        bridgeBack: { destinationChain: "zcash", destinationAddress: "t1abc..." },
+      };
+      expect(() =>
+        validateIntent({ ...nearIntent, metadata: meta as BurrowBorrowMetadata }),
+      ).toThrow(/Burrow borrow bridgeBack requires/);
+    });
+
+    it("accepts a repay-all burrow repay", () => {
+      const meta: BurrowRepayMetadata = { action: "burrow-repay", tokenId: "usdc.near", repayAll: true };
+      expect(validateIntent({ ...nearIntent, refundAddress: "alice.near", metadata: meta }).metadata).toEqual(meta);
+    });
+
+    it("rejects a burrow repay without refundAddress", () => {
+      expect(() =>
+        validateIntent({ ...nearIntent, metadata: { action: "burrow-repay", tokenId: "usdc.near" } }),
+      ).toThrow(/Burrow repay requires refundAddress/);
+    });
+
+    it("accepts a burrow collateral decrease", () => {
+      const validated = validateIntent({
+        ...nearIntent,
+        metadata: { action: "burrow-decrease-collateral", tokenId: "nep141:usdc.near" },
+      });
+      expect(validated.metadata).toEqual({ action: "burrow-decrease-collateral", tokenId: "usdc.near" });
+    });
+
+    it("rejects a burrow collateral increase without tokenId", () => {
+      expect(() =>
+        validateIntent({ ...nearIntent, metadata: { action: "burrow-increase-collateral", tokenId: "" } }),
+      ).toThrow(/Burrow collateral increase requires metadata.tokenId/);
+    });
+
+    it("rejects a burrow repay with an invalid tokenId", () => {
+      expect(() =>
+        validateIntent({ ...nearIntent, metadata: { action: "burrow-repay", tokenId: "usdc" } }),
+      ).toThrow(/Burrow repay tokenId must be a valid NEAR contract address/);
+    });
+  });
+
   describe("non-Kamino metadata", () => {
     it("accepts generic metadata without action field", () => {
       const validated = validateIntent({
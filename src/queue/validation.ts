@@ -1,10 +1,18 @@
 import { SOL_NATIVE_MINT, WRAP_NEAR_CONTRACT } from "../constants";
+import { ValidationError } from "../errors";
 import {
+  BridgeBackConfig,
   IntentMessage,
   KaminoDepositMetadata,
   KaminoWithdrawMetadata,
+  KaminoBorrowMetadata,
+  KaminoRepayMetadata,
   BurrowDepositMetadata,
   BurrowWithdrawMetadata,
+  BurrowBorrowMetadata,
+  BurrowRepayMetadata,
+  BurrowIncreaseCollateralMetadata,
+  BurrowDecreaseCollateralMetadata,
   ValidatedIntent,
 } from "./types";
 
@@ -22,6 +30,18 @@ function isKaminoWithdrawMetadata(
   return (metadata as KaminoWithdrawMetadata)?.action === "kamino-withdraw";
 }
 
+function isKaminoBorrowMetadata(
+  metadata?: IntentMessage["metadata"],
+): boolean {
+  return (metadata as KaminoBorrowMetadata)?.action === "kamino-borrow";
+}
+
+function isKaminoRepayMetadata(
+  metadata?: IntentMessage["metadata"],
+): boolean {
+  return (metadata as KaminoRepayMetadata)?.action === "kamino-repay";
+}
+
 function isBurrowDepositMetadata(
   metadata?: IntentMessage["metadata"],
 ): boolean {
@@ -34,53 +54,84 @@ function isBurrowWithdrawMetadata(
   return (metadata as BurrowWithdrawMetadata)?.action === "burrow-withdraw";
 }
 
+function isBurrowBorrowMetadata(
+  metadata?: IntentMessage["metadata"],
+): boolean {
+  return (metadata as BurrowBorrowMetadata)?.action === "burrow-borrow";
+}
+
+function isBurrowRepayMetadata(
+  metadata?: IntentMessage["metadata"],
+): boolean {
+  return (metadata as BurrowRepayMetadata)?.action === "burrow-repay";
+}
+
+function isBurrowCollateralMetadata(
+  metadata?: IntentMessage["metadata"],
+): boolean {
+  const action = (metadata as BurrowIncreaseCollateralMetadata | BurrowDecreaseCollateralMetadata)?.action;
+  return action === "burrow-increase-collateral" || action === "burrow-decrease-collateral";
+}
+
 export function validateIntent(message: IntentMessage): ValidatedIntent {
-  if (!message.intentId) throw new Error("intentId missing");
+  if (!message.intentId) throw new ValidationError("intentId missing");
 
   // Check if this is a Burrow intent (NEAR-based)
-  const isBurrowIntent = isBurrowDepositMetadata(message.metadata) || isBurrowWithdrawMetadata(message.metadata);
+  const isBurrowIntent =
+    isBurrowDepositMetadata(message.metadata) ||
+    isBurrowWithdrawMetadata(message.metadata) ||
+    isBurrowBorrowMetadata(message.metadata) ||
+    isBurrowRepayMetadata(message.metadata) ||
+    isBurrowCollateralMetadata(message.metadata);
 
   // Validate destination chain based on intent type
   if (isBurrowIntent) {
     if (message.destinationChain !== "near") {
-      throw new Error("destinationChain must be near for Burrow intents");
+      throw new ValidationError("destinationChain must be near for Burrow intents");
     }
   } else {
     if (message.destinationChain !== "solana") {
-      throw new Error("destinationChain must be solana");
+      throw new ValidationError("destinationChain must be solana");
     }
   }
 
-  if (!message.userDestination) throw new Error("userDestination missing");
-  if (!message.agentDestination) throw new Error("agentDestination missing");
-  if (!message.sourceAsset) throw new Error("sourceAsset missing");
-  if (!message.finalAsset) throw new Error("finalAsset missing");
+  if (!message.userDestination) throw new ValidationError("userDestination missing");
+  if (!message.agentDestination) throw new ValidationError("agentDestination missing");
+  if (!message.sourceAsset) throw new ValidationError("sourceAsset missing");
+  if (!message.finalAsset) throw new ValidationError("finalAsset missing");
   if (!message.sourceAmount || !/^\d+$/.test(message.sourceAmount)) {
-    throw new Error("sourceAmount must be a numeric string in base units");
+    throw new ValidationError("sourceAmount must be a numeric string in base units");
   }
   // Validate sourceAmount is a reasonable size (max 2^128 to prevent overflow issues)
   try {
     const amount = BigInt(message.sourceAmount);
     if (amount <= 0n) {
-      throw new Error("sourceAmount must be positive");
+      throw new ValidationError("sourceAmount must be positive");
     }
     if (amount > 2n ** 128n) {
-      throw new Error("sourceAmount exceeds maximum allowed value");
+      throw new ValidationError("sourceAmount exceeds maximum allowed value");
     }
   } catch (e) {
-    if (e instanceof Error && e.message.includes("sourceAmount")) throw e;
-    throw new Error("sourceAmount is not a valid integer");
+    if (e instanceof ValidationError) throw e;
+    throw new ValidationError("sourceAmount is not a valid integer");
   }
   // destinationAmount is optional - if provided, must be numeric string
   if (
     message.destinationAmount !== undefined &&
     !/^\d+$/.test(message.destinationAmount)
   ) {
-    throw new Error(
+    throw new ValidationError(
       "destinationAmount must be a numeric string in base units if provided",
     );
   }
 
+  if (message.executeAfter !== undefined && Number.isNaN(Date.parse(message.executeAfter))) {
+    throw new ValidationError("executeAfter must be an ISO 8601 timestamp if provided");
+  }
+  if (message.callbackUrl !== undefined && !isHttpUrl(message.callbackUrl)) {
+    throw new ValidationError("callbackUrl must be an http(s) URL if provided");
+  }
+
   // Validate Kamino-specific requirements
   if (isKaminoDepositMetadata(message.metadata)) {
     validateKaminoDepositIntent(message);
@@ -88,6 +139,12 @@ export function validateIntent(message: IntentMessage): ValidatedIntent {
   if (isKaminoWithdrawMetadata(message.metadata)) {
     validateKaminoWithdrawIntent(message);
   }
+  if (isKaminoBorrowMetadata(message.metadata)) {
+    validateKaminoBorrowIntent(message);
+  }
+  if (isKaminoRepayMetadata(message.metadata)) {
+    validateKaminoRepayIntent(message);
+  }
 
   // Validate Burrow-specific requirements
   if (isBurrowDepositMetadata(message.metadata)) {
@@ -96,6 +153,15 @@ export function validateIntent(message: IntentMessage): ValidatedIntent {
   if (isBurrowWithdrawMetadata(message.metadata)) {
     validateBurrowWithdrawIntent(message);
   }
+  if (isBurrowBorrowMetadata(message.metadata)) {
+    validateBurrowBorrowIntent(message);
+  }
+  if (isBurrowRepayMetadata(message.metadata)) {
+    validateBurrowRepayIntent(message);
+  }
+  if (isBurrowCollateralMetadata(message.metadata)) {
+    validateBurrowCollateralIntent(message);
+  }
 
   const intermediateAsset =
     message.intermediateAsset || getDefaultIntermediateAsset(message);
@@ -114,10 +180,10 @@ function validateKaminoDepositIntent(message: IntentMessage): void {
   const metadata = message.metadata as KaminoDepositMetadata;
 
   if (!metadata.marketAddress) {
-    throw new Error("Kamino deposit requires metadata.marketAddress");
+    throw new ValidationError("Kamino deposit requires metadata.marketAddress");
   }
   if (!metadata.mintAddress) {
-    throw new Error("Kamino deposit requires metadata.mintAddress");
+    throw new ValidationError("Kamino deposit requires metadata.mintAddress");
   }
 
   // Note: nearPublicKey and userSignature are validated at runtime in the flow
@@ -128,41 +194,102 @@ function validateKaminoWithdrawIntent(message: IntentMessage): void {
   const metadata = message.metadata as KaminoWithdrawMetadata;
 
   if (!metadata.marketAddress) {
-    throw new Error("Kamino withdraw requires metadata.marketAddress");
+    throw new ValidationError("Kamino withdraw requires metadata.marketAddress");
   }
   if (!metadata.mintAddress) {
-    throw new Error("Kamino withdraw requires metadata.mintAddress");
+    throw new ValidationError("Kamino withdraw requires metadata.mintAddress");
   }
 
   // Note: nearPublicKey and userSignature are validated at runtime in the flow
   // because they may be added after initial validation
 }
 
-function validateBurrowDepositIntent(message: IntentMessage): void {
-  const metadata = message.metadata as BurrowDepositMetadata;
+function validateKaminoBorrowIntent(message: IntentMessage): void {
+  const metadata = message.metadata as KaminoBorrowMetadata;
 
-  if (!metadata.tokenId) {
-    throw new Error("Burrow deposit requires metadata.tokenId");
+  if (!metadata.marketAddress) {
+    throw new ValidationError("Kamino borrow requires metadata.marketAddress");
+  }
+  if (!metadata.mintAddress) {
+    throw new ValidationError("Kamino borrow requires metadata.mintAddress");
+  }
+  if (metadata.bridgeBack) {
+    validateBridgeBack(metadata.bridgeBack, "Kamino borrow");
   }
 
-  // Sanitize tokenId: strip nep141: prefix if present (Defuse asset ID format)
-  if (metadata.tokenId.startsWith("nep141:")) {
-    metadata.tokenId = metadata.tokenId.slice(7);
+  // Note: userSignature is validated at runtime in the flow
+}
+
+function validateKaminoRepayIntent(message: IntentMessage): void {
+  const metadata = message.metadata as KaminoRepayMetadata;
+
+  if (!metadata.marketAddress) {
+    throw new ValidationError("Kamino repay requires metadata.marketAddress");
+  }
+  if (!metadata.mintAddress) {
+    throw new ValidationError("Kamino repay requires metadata.mintAddress");
   }
+  if (metadata.repayMax !== undefined && typeof metadata.repayMax !== "boolean") {
+    throw new ValidationError("Kamino repay metadata.repayMax must be a boolean if provided");
+  }
+  if (!message.refundAddress) {
+    throw new ValidationError("Kamino repay requires refundAddress to return any excess to");
+  }
+}
 
-  // Validate tokenId looks like a NEAR account (either named account with . or hex implicit account)
-  const isNamedAccount = metadata.tokenId.includes(".");
-  const isImplicitAccount = /^[0-9a-f]{64}$/i.test(metadata.tokenId);
-  if (!isNamedAccount && !isImplicitAccount) {
-    throw new Error("Burrow deposit tokenId must be a valid NEAR contract address");
+function validateBridgeBack(bridgeBack: BridgeBackConfig, label: string): void {
+  if (!bridgeBack.destinationChain || !bridgeBack.destinationAddress || !bridgeBack.destinationAsset) {
+    throw new ValidationError(
+      `${label} bridgeBack requires destinationChain, destinationAddress and destinationAsset`,
+    );
   }
 }
 
+function validateBurrowDepositIntent(message: IntentMessage): void {
+  validateBurrowTokenId(message.metadata as BurrowDepositMetadata, "Burrow deposit");
+}
+
 function validateBurrowWithdrawIntent(message: IntentMessage): void {
-  const metadata = message.metadata as BurrowWithdrawMetadata;
+  validateBurrowTokenId(message.metadata as BurrowWithdrawMetadata, "Burrow withdraw");
+}
 
+function validateBurrowBorrowIntent(message: IntentMessage): void {
+  const metadata = message.metadata as BurrowBorrowMetadata;
+
+  validateBurrowTokenId(metadata, "Burrow borrow");
+  if (metadata.bridgeBack) {
+    validateBridgeBack(metadata.bridgeBack, "Burrow borrow");
+  }
+
+  // Note: nearPublicKey and userSignature are validated at runtime in the flow
+}
+
+function validateBurrowRepayIntent(message: IntentMessage): void {
+  const metadata = message.metadata as BurrowRepayMetadata;
+
+  validateBurrowTokenId(metadata, "Burrow repay");
+  if (metadata.repayAll !== undefined && typeof metadata.repayAll !== "boolean") {
+    throw new ValidationError("Burrow repay metadata.repayAll must be a boolean if provided");
+  }
+  if (!message.refundAddress) {
+    throw new ValidationError("Burrow repay requires refundAddress to return any excess to");
+  }
+}
+
+function validateBurrowCollateralIntent(message: IntentMessage): void {
+  const metadata = message.metadata as BurrowIncreaseCollateralMetadata | BurrowDecreaseCollateralMetadata;
+
+  validateBurrowTokenId(
+    metadata,
+    metadata.action === "burrow-increase-collateral" ? "Burrow collateral increase" : "Burrow collateral decrease",
+  );
+
+  // Note: nearPublicKey and userSignature are validated at runtime in the flow
+}
+
+function validateBurrowTokenId(metadata: { tokenId: string }, label: string): void {
   if (!metadata.tokenId) {
-    throw new Error("Burrow withdraw requires metadata.tokenId");
+    throw new ValidationError(`${label} requires metadata.tokenId`);
   }
 
   // Sanitize tokenId: strip nep141: prefix if present (Defuse asset ID format)
@@ -174,12 +301,22 @@ function validateBurrowWithdrawIntent(message: IntentMessage): void {
   const isNamedAccount = metadata.tokenId.includes(".");
   const isImplicitAccount = /^[0-9a-f]{64}$/i.test(metadata.tokenId);
   if (!isNamedAccount && !isImplicitAccount) {
-    throw new Error("Burrow withdraw tokenId must be a valid NEAR contract address");
+    throw new ValidationError(`${label} tokenId must be a valid NEAR contract address`);
+  }
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
   }
 }
 
 function getDefaultIntermediateAsset(intent: IntentMessage) {
   if (intent.destinationChain === "solana") return SOL_NATIVE_MINT;
   if (intent.destinationChain === "near") return WRAP_NEAR_CONTRACT;
-  throw new Error("intermediateAsset missing");
+  throw new ValidationError("intermediateAsset missing");
 }
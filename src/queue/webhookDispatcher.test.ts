@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config";
+import { WebhookDelivery } from "../state/webhooks";
+import { deliverWebhook, signWebhook, webhookRetryDelayMs } from "./webhookDispatcher";
+
+const fetchMock = vi.fn();
+
+const { assertPublicUrlMock } = vi.hoisted(() => ({
+  assertPublicUrlMock: vi.fn(),
+}));
+
+vi.mock("../utils/publicHost", () => ({
+  assertPublicUrl: assertPublicUrlMock,
+}));
+
+function delivery(overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    deliveryId: "delivery-1",
+    intentId: "intent-1",
+    url: "https://example.com/hooks",
+    payload: {
+      type: "intent.state_changed",
+      deliveryId: "delivery-1",
+      intentId: "intent-1",
+      state: "succeeded",
+      previousState: "processing",
+      at: "2024-01-01T00:00:00.000Z",
+      seq: 4,
+    },
+    state: "pending",
+    attempts: [],
+    createdAt: "2024-01-01T00:00:00.000Z",
+    nextAttemptAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("webhook dispatcher", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    assertPublicUrlMock.mockReset().mockResolvedValue(undefined);
+    vi.stubGlobal("fetch", fetchMock);
+    config.webhookSecret = "whsec";
+    config.webhookMaxAttempts = 3;
+    config.webhookRetryBackoffMs = 1_000;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("signs the timestamp and raw body with the webhook secret", () => {
+    const expected = crypto.createHmac("sha256", "whsec").update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhook('{"a":1}', 1700000000)).toBe(`sha256=${expected}`);
+  });
+
+  it("POSTs the signed payload and marks the delivery delivered on 2xx", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    const result = await deliverWebhook(delivery());
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://example.com/hooks");
+    expect(init.method).toBe("POST");
+    expect(init.redirect).toBe("manual");
+    expect(JSON.parse(init.body)).toEqual(delivery().payload);
+    expect(init.headers["X-Webhook-Id"]).toBe("delivery-1");
+    expect(init.headers["X-Webhook-Signature"]).toBe(
+      signWebhook(init.body, Number(init.headers["X-Webhook-Timestamp"])),
+    );
+    expect(result.state).toBe("delivered");
+    expect(result.nextAttemptAt).toBeUndefined();
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, statusCode: 204 }),
+    ]);
+  });
+
+  it("reschedules a failed attempt with backoff", async () => {
+    fetchMock.mockResolvedValue(new Response("nope", { status: 500 }));
+
+    const before = Date.now();
+    const result = await deliverWebhook(delivery());
+
+    expect(result.state).toBe("pending");
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, statusCode: 500, error: "HTTP 500" }),
+    ]);
+    expect(Date.parse(result.nextAttemptAt!)).toBeGreaterThanOrEqual(before + 1_000);
+    expect(webhookRetryDelayMs(3)).toBe(4_000);
+  });
+
+  it("doesn't request a URL whose host resolves to a private address", async () => {
+    assertPublicUrlMock.mockRejectedValue(new Error("Host example.com resolves to non-public address 127.0.0.1"));
+
+    const result = await deliverWebhook(delivery());
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.state).toBe("pending");
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, error: expect.stringContaining("non-public address") }),
+    ]);
+  });
+
+  it("gives up after WEBHOOK_MAX_ATTEMPTS and counts again after a redelivery", async () => {
+    fetchMock.mockRejectedValue(new Error("connect ECONNREFUSED"));
+    const failed = { attempt: 1, at: "2024-01-01T00:00:01.000Z", error: "HTTP 500", durationMs: 5 };
+
+    const exhausted = await deliverWebhook(
+      delivery({ attempts: [failed, { ...failed, attempt: 2 }] }),
+    );
+    expect(exhausted.state).toBe("failed");
+    expect(exhausted.attempts[2]).toEqual(
+      expect.objectContaining({ attempt: 3, error: "connect ECONNREFUSED" }),
+    );
+
+    const redelivered = await deliverWebhook({
+      ...exhausted,
+      state: "pending",
+      redeliveredAt: new Date().toISOString(),
+      roundStart: 3,
+    });
+    expect(redelivered.state).toBe("pending");
+    expect(redelivered.attempts).toHaveLength(4);
+    expect(redelivered.attempts[3].attempt).toBe(1);
+  });
+});
@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import { config } from "../config";
+import { fetchWithTimeout } from "../utils/http";
+import { assertPublicUrl } from "../utils/publicHost";
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  claimDueWebhooks,
+  saveWebhookDelivery,
+} from "../state/webhooks";
+
+/** Deliveries attempted per dispatcher tick */
+const DISPATCH_BATCH_SIZE = 20;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export interface WebhookDispatcher {
+  /** Stops dispatching; resolves once the in-progress batch (if any) has finished */
+  stop(): Promise<void>;
+}
+
+/**
+ * `sha256=<hex>` HMAC of `<timestamp>.<body>` with WEBHOOK_SECRET. Receivers
+ * recompute it over the raw body and the `X-Webhook-Timestamp` header, and
+ * should reject stale timestamps to stop replays.
+ */
+export function signWebhook(body: string, timestamp: number, secret = config.webhookSecret): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/** Wait before retry number `attempt` (1-based): doubles from WEBHOOK_RETRY_BACKOFF_MS */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, config.webhookRetryBackoffMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Makes one attempt at the delivery and returns the record updated with its
+ * outcome: delivered on any 2xx, otherwise rescheduled with backoff until
+ * WEBHOOK_MAX_ATTEMPTS attempts have failed. URLs whose host resolves to a
+ * non-public address are not requested at all.
+ */
+export async function deliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const attempt = delivery.attempts.length - (delivery.roundStart ?? 0) + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+  const record: WebhookAttempt = { attempt, at: new Date(startedAt).toISOString(), durationMs: 0 };
+
+  try {
+    // Checked again on every attempt: the host may resolve elsewhere by now
+    await assertPublicUrl(delivery.url, config.webhookAllowedHosts);
+    const res = await fetchWithTimeout(
+      delivery.url,
+      {
+        method: "POST",
+        // A redirect could lead to a private address; it counts as a failure
+        redirect: "manual",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Id": delivery.deliveryId,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signWebhook(body, timestamp),
+        },
+        body,
+      },
+      config.webhookTimeoutMs,
+    );
+    record.statusCode = res.status;
+    if (!res.ok) {
+      record.error = `HTTP ${res.status}`;
+    }
+    // The body is not used; drain it so the connection can be reused
+    await res.body?.cancel().catch(() => {});
+  } catch (err) {
+    record.error = (err as Error).message || String(err);
+  }
+  record.durationMs = Date.now() - startedAt;
+
+  const attempts = [...delivery.attempts, record];
+  if (!record.error) {
+    return { ...delivery, attempts, state: "delivered", nextAttemptAt: undefined };
+  }
+  if (attempt >= config.webhookMaxAttempts) {
+    console.warn("[webhooks] Giving up on delivery", {
+      deliveryId: delivery.deliveryId,
+      intentId: delivery.intentId,
+      attempts: attempt,
+      error: record.error,
+    });
+    return { ...delivery, attempts, state: "failed", nextAttemptAt: undefined };
+  }
+  const nextAttemptAt = new Date(Date.now() + webhookRetryDelayMs(attempt)).toISOString();
+  return { ...delivery, attempts, state: "pending", nextAttemptAt };
+}
+
+/**
+ * POSTs due webhook deliveries in the background. Deliveries are leased while
+ * in flight, so several replicas can run a dispatcher without sending one
+ * delivery twice at a time.
+ */
+export async function startWebhookDispatcher(): Promise<WebhookDispatcher> {
+  console.log("[webhooks] Starting webhook dispatcher");
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  // Outlives the request timeout, so a lease never lapses mid-delivery
+  const leaseMs = config.webhookTimeoutMs * 2;
+
+  const loop = (async () => {
+    while (!stopping) {
+      let claimed = 0;
+      try {
+        const due = await claimDueWebhooks(leaseMs, DISPATCH_BATCH_SIZE);
+        claimed = due.length;
+        await Promise.all(
+          due.map(async (delivery) => {
+            try {
+              await saveWebhookDelivery(await deliverWebhook(delivery));
+            } catch (err) {
+              console.error("[webhooks] Failed to record delivery", delivery.deliveryId, err);
+            }
+          }),
+        );
+      } catch (err) {
+        console.error("[webhooks] Error dispatching webhooks:", err);
+      }
+
+      // A full batch means more may be due right away
+      if (stopping || claimed === DISPATCH_BATCH_SIZE) continue;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, config.webhookPollIntervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    }
+  })();
+
+  return {
+    async stop() {
+      stopping = true;
+      wake?.();
+      await loop;
+      console.log("[webhooks] Stopped");
+    },
+  };
+}
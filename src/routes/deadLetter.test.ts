@@ -0,0 +1,217 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import deadLetterApp from "./deadLetter";
+import { config } from "../config";
+import { parseDeadLetterEntry } from "../queue/deadLetter";
+
+const {
+  listDeadLettersMock,
+  replayDeadLetterMock,
+  removeDeadLetterMock,
+  getStatusMock,
+  setStatusMock,
+  expireCheckpointsMock,
+} = vi.hoisted(() => ({
+  listDeadLettersMock: vi.fn(),
+  replayDeadLetterMock: vi.fn(),
+  removeDeadLetterMock: vi.fn(),
+  getStatusMock: vi.fn(),
+  setStatusMock: vi.fn(),
+  expireCheckpointsMock: vi.fn(),
+}));
+
+vi.mock("../queue/client", () => ({
+  createQueueClient: vi.fn().mockImplementation(() => ({
+    listDeadLetters: listDeadLettersMock,
+    replayDeadLetter: replayDeadLetterMock,
+    removeDeadLetter: removeDeadLetterMock,
+  })),
+}));
+
+vi.mock("../state/checkpoints", () => ({
+  expireCheckpoints: expireCheckpointsMock,
+}));
+
+vi.mock("../state/status", () => ({
+  getStatus: getStatusMock,
+  setStatus: setStatusMock,
+}));
+
+const app = new Hono().route("/api/admin/dead-letter", deadLetterApp);
+const auth = { Authorization: "Bearer secret" };
+
+function stored(intentId: string, action: string, error: string) {
+  return JSON.stringify({
+    raw: JSON.stringify({ intentId, metadata: { action } }),
+    intentId,
+    lastError: error,
+    attempts: [{ attempt: 3, error, failedAt: "2024-01-01T00:00:00.000Z" }],
+    deadLetteredAt: "2024-01-01T00:00:00.000Z",
+  });
+}
+
+describe("dead-letter route", () => {
+  beforeEach(() => {
+    listDeadLettersMock.mockReset();
+    replayDeadLetterMock.mockReset();
+    removeDeadLetterMock.mockReset();
+    getStatusMock.mockReset();
+    setStatusMock.mockReset();
+    setStatusMock.mockResolvedValue(true);
+    expireCheckpointsMock.mockReset();
+    config.adminApiKey = "secret";
+
+    listDeadLettersMock.mockResolvedValue([
+      parseDeadLetterEntry(stored("intent-1", "kamino-withdraw", "RPC timeout")),
+      parseDeadLetterEntry(stored("intent-2", "burrow-deposit", "Token cannot be deposited")),
+    ]);
+  });
+
+  it("is disabled without an admin key", async () => {
+    config.adminApiKey = "";
+    const res = await app.request("/api/admin/dead-letter", { headers: auth });
+    expect(res.status).toBe(503);
+  });
+
+  it("rejects a wrong credential", async () => {
+    const res = await app.request("/api/admin/dead-letter", {
+      headers: { Authorization: "Bearer nope" },
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it("lists entries with parsed intents and attempt history", async () => {
+    const res = await app.request("/api/admin/dead-letter?action=kamino-withdraw", {
+      headers: auth,
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.total).toBe(1);
+    expect(body.entries[0].intentId).toBe("intent-1");
+    expect(body.entries[0].intent.metadata.action).toBe("kamino-withdraw");
+    expect(body.entries[0].lastError).toBe("RPC timeout");
+    expect(body.entries[0].attempts).toHaveLength(1);
+  });
+
+  it("parses legacy entries stored as the bare message", () => {
+    const entry = parseDeadLetterEntry(JSON.stringify({ intentId: "legacy" }));
+    expect(entry.intentId).toBe("legacy");
+    expect(entry.attempts).toEqual([]);
+    expect(entry.raw).toBe(entry.stored);
+  });
+
+  it("replays a single entry and resets its status", async () => {
+    replayDeadLetterMock.mockResolvedValue(true);
+    getStatusMock.mockResolvedValue({ state: "failed", replayCount: 1 });
+
+    const res = await app.request("/api/admin/dead-letter/intent-2/replay", {
+      method: "POST",
+      headers: auth,
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.replayed).toEqual(["intent-2"]);
+    expect(replayDeadLetterMock).toHaveBeenCalledTimes(1);
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "intent-2",
+      expect.objectContaining({ state: "pending", replayCount: 2 }),
+    );
+  });
+
+  it("returns 404 when replaying an unknown intent", async () => {
+    const res = await app.request("/api/admin/dead-letter/missing/replay", {
+      method: "POST",
+      headers: auth,
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("requires a filter for batch replay", async () => {
+    const res = await app.request("/api/admin/dead-letter/replay", {
+      method: "POST",
+      headers: { ...auth, "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("replays a filtered batch", async () => {
+    replayDeadLetterMock.mockResolvedValue(true);
+    getStatusMock.mockResolvedValue(null);
+
+    const res = await app.request("/api/admin/dead-letter/replay", {
+      method: "POST",
+      headers: { ...auth, "Content-Type": "application/json" },
+      body: JSON.stringify({ errorContains: "rpc" }),
+    });
+
+    const body = await res.json();
+    expect(body.replayed).toEqual(["intent-1"]);
+  });
+
+  it("restores the previous status when the entry was already replayed", async () => {
+    replayDeadLetterMock.mockResolvedValue(false);
+    getStatusMock.mockResolvedValue({ state: "failed", error: "boom" });
+
+    const res = await app.request("/api/admin/dead-letter/intent-1/replay", {
+      method: "POST",
+      headers: auth,
+    });
+
+    const body = await res.json();
+    expect(body.replayed).toEqual([]);
+    expect(body.skipped[0].intentId).toBe("intent-1");
+    expect(setStatusMock).toHaveBeenLastCalledWith("intent-1", { state: "failed", error: "boom" });
+  });
+
+  it("skips an entry whose status can't be reset to pending without requeuing it", async () => {
+    setStatusMock.mockResolvedValue(false);
+    getStatusMock.mockResolvedValue({ state: "succeeded" });
+
+    const res = await app.request("/api/admin/dead-letter/intent-1/replay", {
+      method: "POST",
+      headers: auth,
+    });
+
+    const body = await res.json();
+    expect(body.replayed).toEqual([]);
+    expect(body.skipped).toEqual([
+      { intentId: "intent-1", reason: "status succeeded cannot be reset to pending" },
+    ]);
+    expect(replayDeadLetterMock).not.toHaveBeenCalled();
+  });
+
+  it("purges a single entry", async () => {
+    removeDeadLetterMock.mockResolvedValue(true);
+
+    const res = await app.request("/api/admin/dead-letter/intent-1", {
+      method: "DELETE",
+      headers: auth,
+    });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).purged).toBe(1);
+    expect(expireCheckpointsMock).toHaveBeenCalledWith("intent-1");
+  });
+
+  it("keeps the checkpoints of an entry that was already gone", async () => {
+    removeDeadLetterMock.mockResolvedValue(false);
+
+    const res = await app.request("/api/admin/dead-letter/intent-1", {
+      method: "DELETE",
+      headers: auth,
+    });
+
+    expect((await res.json()).purged).toBe(0);
+    expect(expireCheckpointsMock).not.toHaveBeenCalled();
+  });
+
+  it("requires all=true to purge without a filter", async () => {
+    const res = await app.request("/api/admin/dead-letter", {
+      method: "DELETE",
+      headers: auth,
+    });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,208 @@
+import { Hono } from "hono";
+import { createQueueClient } from "../queue/client";
+import {
+  DeadLetterFilter,
+  ParsedDeadLetter,
+  isEmptyDeadLetterFilter,
+  matchesDeadLetterFilter,
+} from "../queue/deadLetter";
+import { expireCheckpoints } from "../state/checkpoints";
+import { getStatus, setStatus } from "../state/status";
+import { requireAdmin } from "../utils/adminAuth";
+
+const app = new Hono();
+const queueClient = createQueueClient();
+
+app.use("*", requireAdmin);
+
+type ReplayRequestBody = DeadLetterFilter & {
+  /** Required to replay every entry when no other filter is given */
+  all?: boolean;
+  /** Maximum number of entries to replay (default: all matches) */
+  limit?: number;
+};
+
+function filterFromQuery(query: (name: string) => string | undefined): DeadLetterFilter {
+  const intentId = query("intentId");
+  return {
+    intentIds: intentId ? intentId.split(",").filter(Boolean) : undefined,
+    action: query("action"),
+    errorContains: query("errorContains"),
+    deadLetteredAfter: query("after"),
+    deadLetteredBefore: query("before"),
+  };
+}
+
+function toResponseEntry(entry: ParsedDeadLetter) {
+  return {
+    intentId: entry.intentId,
+    intent: entry.intent,
+    lastError: entry.lastError,
+    attempts: entry.attempts,
+    deadLetteredAt: entry.deadLetteredAt,
+  };
+}
+
+async function findEntries(filter: DeadLetterFilter): Promise<ParsedDeadLetter[]> {
+  const entries = await queueClient.listDeadLetters();
+  return entries.filter((entry) => matchesDeadLetterFilter(entry, filter));
+}
+
+/**
+ * Puts entries back on the main queue and resets their status to pending.
+ * Entries that vanished in the meantime (replayed or purged elsewhere), and
+ * entries whose status can't go back to pending, are skipped.
+ */
+async function replayEntries(entries: ParsedDeadLetter[]) {
+  const replayed: string[] = [];
+  const skipped: Array<{ intentId?: string; reason: string }> = [];
+
+  for (const entry of entries) {
+    if (!entry.intent || !entry.intentId) {
+      skipped.push({ intentId: entry.intentId, reason: "message is not a valid intent" });
+      continue;
+    }
+
+    // Reset status before the message is visible to consumers so we never
+    // overwrite a newer "processing" state with "pending"
+    const previous = await getStatus(entry.intentId);
+    const reset = await setStatus(entry.intentId, {
+      state: "pending",
+      detail: "Replayed from dead-letter",
+      replayedAt: new Date().toISOString(),
+      replayCount: (previous?.replayCount ?? 0) + 1,
+    });
+    if (!reset) {
+      skipped.push({
+        intentId: entry.intentId,
+        reason: `status ${previous?.state ?? "unknown"} cannot be reset to pending`,
+      });
+      continue;
+    }
+
+    const moved = await queueClient.replayDeadLetter(entry);
+    if (!moved) {
+      if (previous) {
+        await setStatus(entry.intentId, previous);
+      }
+      skipped.push({ intentId: entry.intentId, reason: "entry no longer in dead-letter" });
+      continue;
+    }
+
+    console.info("[deadLetter] Replayed intent", { intentId: entry.intentId });
+    replayed.push(entry.intentId);
+  }
+
+  return { replayed, skipped };
+}
+
+/**
+ * Removes an entry for good. Its intent can no longer be replayed, so the
+ * step checkpoints kept for a replay may expire.
+ */
+async function purgeEntry(entry: ParsedDeadLetter): Promise<boolean> {
+  if (!(await queueClient.removeDeadLetter(entry))) return false;
+  if (entry.intentId) await expireCheckpoints(entry.intentId);
+  return true;
+}
+
+// GET /api/admin/dead-letter?limit=&offset=&intentId=&action=&errorContains=&after=&before=
+app.get("/", async (c) => {
+  try {
+    const limit = parseInt(c.req.query("limit") || "", 10) || 50;
+    const offset = parseInt(c.req.query("offset") || "", 10) || 0;
+    const matches = await findEntries(filterFromQuery((name) => c.req.query(name)));
+
+    return c.json({
+      total: matches.length,
+      entries: matches.slice(offset, offset + limit).map(toResponseEntry),
+    });
+  } catch (err) {
+    console.error("[deadLetter] Failed to list dead-letter entries", err);
+    return c.json({ error: "Failed to list dead-letter entries" }, 500);
+  }
+});
+
+// POST /api/admin/dead-letter/replay - replay a filtered batch
+app.post("/replay", async (c) => {
+  let body: ReplayRequestBody;
+  try {
+    body = await c.req.json<ReplayRequestBody>();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const { all, limit, ...filter } = body;
+  if (isEmptyDeadLetterFilter(filter) && !all) {
+    return c.json({ error: "Provide a filter or set all: true to replay every entry" }, 400);
+  }
+
+  try {
+    let matches = await findEntries(filter);
+    if (typeof limit === "number" && limit > 0) {
+      matches = matches.slice(0, limit);
+    }
+    const result = await replayEntries(matches);
+    return c.json(result);
+  } catch (err) {
+    console.error("[deadLetter] Failed to replay dead-letter entries", err);
+    return c.json({ error: "Failed to replay dead-letter entries" }, 500);
+  }
+});
+
+// POST /api/admin/dead-letter/:intentId/replay
+app.post("/:intentId/replay", async (c) => {
+  const intentId = c.req.param("intentId");
+  try {
+    const matches = await findEntries({ intentIds: [intentId] });
+    if (!matches.length) {
+      return c.json({ error: "Intent not found in dead-letter" }, 404);
+    }
+    const result = await replayEntries(matches);
+    return c.json(result);
+  } catch (err) {
+    console.error("[deadLetter] Failed to replay dead-letter entry", err);
+    return c.json({ error: "Failed to replay dead-letter entry" }, 500);
+  }
+});
+
+// DELETE /api/admin/dead-letter?all=true or with the same filters as GET
+app.delete("/", async (c) => {
+  const filter = filterFromQuery((name) => c.req.query(name));
+  if (isEmptyDeadLetterFilter(filter) && c.req.query("all") !== "true") {
+    return c.json({ error: "Provide a filter or all=true to purge every entry" }, 400);
+  }
+
+  try {
+    const matches = await findEntries(filter);
+    let purged = 0;
+    for (const entry of matches) {
+      if (await purgeEntry(entry)) purged += 1;
+    }
+    return c.json({ purged });
+  } catch (err) {
+    console.error("[deadLetter] Failed to purge dead-letter entries", err);
+    return c.json({ error: "Failed to purge dead-letter entries" }, 500);
+  }
+});
+
+// DELETE /api/admin/dead-letter/:intentId
+app.delete("/:intentId", async (c) => {
+  const intentId = c.req.param("intentId");
+  try {
+    const matches = await findEntries({ intentIds: [intentId] });
+    if (!matches.length) {
+      return c.json({ error: "Intent not found in dead-letter" }, 404);
+    }
+    let purged = 0;
+    for (const entry of matches) {
+      if (await purgeEntry(entry)) purged += 1;
+    }
+    return c.json({ purged });
+  } catch (err) {
+    console.error("[deadLetter] Failed to purge dead-letter entry", err);
+    return c.json({ error: "Failed to purge dead-letter entry" }, 500);
+  }
+});
+
+export default app;
@@ -3,33 +3,111 @@ import { Hono } from "hono";
 import intentsApp from "./intents";
 import { config } from "../config";
 import { OpenAPI } from "@defuse-protocol/one-click-sdk-typescript";
+import { claimSubmission, closeSubmissionStore, getSubmission } from "../state/idempotency";
+import { closeCheckpointStore, listCheckpoints, saveCheckpoint } from "../state/checkpoints";
 
-const { enqueueIntentMock, setStatusMock } = vi.hoisted(() => ({
+const { enqueueIntentMock, setStatusMock, getStatusMock } = vi.hoisted(() => ({
   enqueueIntentMock: vi.fn(),
   setStatusMock: vi.fn(),
+  getStatusMock: vi.fn(),
 }));
 
-const { getQuoteMock } = vi.hoisted(() => ({
+const { getQuoteMock, submitDepositTxMock } = vi.hoisted(() => ({
   getQuoteMock: vi.fn(),
+  submitDepositTxMock: vi.fn(),
 }));
 
-vi.mock("../queue/redis", () => ({
-  RedisQueueClient: vi.fn().mockImplementation(() => ({
+vi.mock("../queue/client", () => ({
+  createQueueClient: vi.fn().mockImplementation(() => ({
     enqueueIntent: enqueueIntentMock,
   })),
 }));
 
 vi.mock("../state/status", () => ({
   setStatus: setStatusMock,
+  getStatus: getStatusMock,
+  isTerminalState: (state: string) => state === "succeeded" || state === "failed",
+  intentSummary: (intent: Record<string, string>) => ({
+    userDestination: intent.userDestination,
+    sourceChain: intent.sourceChain,
+    destinationChain: intent.destinationChain,
+    ...(intent.callbackUrl && { callbackUrl: intent.callbackUrl }),
+  }),
 }));
 
+// Submission records live in-process so idempotency is exercised for real
+config.stateBackend = "memory";
+
 vi.mock("@defuse-protocol/one-click-sdk-typescript", () => ({
   OneClickService: {
     getQuote: getQuoteMock,
+    submitDepositTx: submitDepositTxMock,
   },
   OpenAPI: {},
 }));
 
+const { loadKaminoReserveMock, getKaminoDebtMock } = vi.hoisted(() => ({
+  loadKaminoReserveMock: vi.fn(),
+  getKaminoDebtMock: vi.fn(),
+}));
+
+vi.mock("../utils/kamino", () => ({
+  loadKaminoReserve: loadKaminoReserveMock,
+  getKaminoDebt: getKaminoDebtMock,
+}));
+
+vi.mock("../utils/solana", () => ({
+  deriveAgentPublicKey: vi.fn().mockResolvedValue({
+    toBase58: () => "8CKsW6cVfaQnBxpqtKfxDxZ8sM3E7DbpDZEPXx1cBa9u",
+  }),
+}));
+
+const {
+  getBurrowDebtMock,
+  getExtraDecimalsMock,
+  deriveNearImplicitAccountMock,
+  ensureImplicitAccountExistsMock,
+} = vi.hoisted(() => ({
+  getBurrowDebtMock: vi.fn(),
+  getExtraDecimalsMock: vi.fn(),
+  deriveNearImplicitAccountMock: vi.fn(),
+  ensureImplicitAccountExistsMock: vi.fn(),
+}));
+
+vi.mock("../utils/burrow", () => ({
+  getBurrowDebt: getBurrowDebtMock,
+  getExtraDecimals: getExtraDecimalsMock,
+}));
+
+vi.mock("../utils/chainSignature", () => ({
+  deriveNearImplicitAccount: deriveNearImplicitAccountMock,
+  NEAR_DEFAULT_PATH: "near-1",
+}));
+
+vi.mock("../utils/nearMetaTx", () => ({
+  ensureImplicitAccountExists: ensureImplicitAccountExistsMock,
+}));
+
+vi.mock("../utils/solanaSignature", () => ({
+  verifySolanaSignature: vi.fn().mockReturnValue(true),
+}));
+
+const { snapshotAgentBalanceMock } = vi.hoisted(() => ({
+  snapshotAgentBalanceMock: vi.fn(),
+}));
+
+vi.mock("../queue/deliveredAmount", () => ({
+  snapshotAgentBalance: snapshotAgentBalanceMock,
+}));
+
+const { assertPublicUrlMock } = vi.hoisted(() => ({
+  assertPublicUrlMock: vi.fn(),
+}));
+
+vi.mock("../utils/publicHost", () => ({
+  assertPublicUrl: assertPublicUrlMock,
+}));
+
 const app = new Hono().route("/api/intents", intentsApp);
 
 const baseIntent = {
@@ -49,12 +127,26 @@ const baseIntent = {
 };
 
 describe("intents route", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     enqueueIntentMock.mockReset();
     setStatusMock.mockReset();
+    getStatusMock.mockReset();
+    submitDepositTxMock.mockReset();
+    snapshotAgentBalanceMock.mockReset();
+    snapshotAgentBalanceMock.mockResolvedValue("700");
     config.enableQueue = true;
+    await closeSubmissionStore();
+    await closeCheckpointStore();
   });
 
+  function submit(body: unknown) {
+    return app.request("/api/intents", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
   it("accepts a valid intent with deposit proof and enqueues", async () => {
     const res = await app.request("/api/intents", {
       method: "POST",
@@ -66,8 +158,177 @@ describe("intents route", () => {
     const body = await res.json();
     expect(body.intentId).toBe("abc");
     expect(body.state).toBe("pending");
+    expect(body.depositToken).toMatch(/^[a-f0-9]{64}$/);
     expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
-    expect(setStatusMock).toHaveBeenCalledWith("abc", { state: "pending" });
+    expect(setStatusMock).toHaveBeenCalledWith("abc", {
+      state: "pending",
+      userDestination: baseIntent.userDestination,
+      sourceChain: "solana",
+      destinationChain: "solana",
+      createdAt: expect.any(String),
+    });
+  });
+
+  it("snapshots the agent balance at submission, before the swap can settle", async () => {
+    expect((await submit(baseIntent)).status).toBe(202);
+
+    expect(snapshotAgentBalanceMock).toHaveBeenCalledWith(expect.objectContaining({ intentId: "abc" }));
+    expect((await getSubmission("abc"))?.agentBalanceBefore).toBe("700");
+  });
+
+  it("accepts the intent when the balance snapshot fails", async () => {
+    snapshotAgentBalanceMock.mockRejectedValue(new Error("rpc down"));
+
+    expect((await submit(baseIntent)).status).toBe(202);
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+    expect((await getSubmission("abc"))?.agentBalanceBefore).toBeUndefined();
+  });
+
+  it("forwards the deposit tx of a deposit-verified intent to 1-Click", async () => {
+    const res = await submit(baseIntent);
+
+    expect(res.status).toBe(202);
+    expect(submitDepositTxMock).toHaveBeenCalledWith({
+      txHash: "test-tx-hash-12345",
+      depositAddress: "deposit-addr-12345",
+      memo: undefined,
+      nearSenderAccount: undefined,
+    });
+  });
+
+  it("still accepts the intent when 1-Click rejects the deposit tx", async () => {
+    submitDepositTxMock.mockRejectedValueOnce(new Error("unknown tx"));
+
+    expect((await submit(baseIntent)).status).toBe(202);
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the original response for an exact replay without enqueuing again", async () => {
+    const first = await submit(baseIntent);
+    const second = await submit(baseIntent);
+
+    expect(second.status).toBe(202);
+    expect(await second.json()).toEqual(await first.json());
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a different payload for an intentId that is still in progress", async () => {
+    await submit(baseIntent);
+    getStatusMock.mockResolvedValue({ state: "processing" });
+
+    const res = await submit({ ...baseIntent, sourceAmount: "2000", originTxHash: "other-tx" });
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).status.state).toBe("processing");
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts a new payload for an intentId that already finished", async () => {
+    await submit(baseIntent);
+    getStatusMock.mockResolvedValue({ state: "failed" });
+
+    const res = await submit({ ...baseIntent, sourceAmount: "2000" });
+
+    expect(res.status).toBe(202);
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops the step checkpoints of the previous use when an intentId is reused", async () => {
+    await submit(baseIntent);
+    await saveCheckpoint("abc", "withdraw", { txId: "old-tx" });
+    getStatusMock.mockResolvedValue({ state: "failed" });
+
+    expect((await submit({ ...baseIntent, sourceAmount: "2000" })).status).toBe(202);
+    expect(await listCheckpoints("abc")).toEqual({});
+  });
+
+  it("rejects reusing a finished intentId for a signature-authorized intent", async () => {
+    const signed = {
+      ...baseIntent,
+      originTxHash: undefined,
+      intentsDepositAddress: undefined,
+      userSignature: { message: "msg", signature: "sig", publicKey: "pk" },
+    };
+    await submit(signed);
+    await saveCheckpoint("abc", "withdraw", { txId: "old-tx" });
+    getStatusMock.mockResolvedValue({ state: "succeeded" });
+
+    const res = await submit({ ...signed, sourceAmount: "2000" });
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toContain("intentId already used");
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+    expect(await listCheckpoints("abc")).toEqual({ withdraw: { txId: "old-tx" } });
+  });
+
+  it("rejects an originTxHash that already authorized another intent", async () => {
+    await submit(baseIntent);
+
+    const res = await submit({ ...baseIntent, intentId: "def" });
+
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.error).toContain("originTxHash");
+    expect(body.intentId).toBe("abc");
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets the client retry when enqueuing fails", async () => {
+    enqueueIntentMock.mockRejectedValueOnce(new Error("redis down"));
+
+    expect((await submit(baseIntent)).status).toBe(500);
+    expect((await submit(baseIntent)).status).toBe(202);
+    expect(enqueueIntentMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("marks an intent with a future executeAfter as scheduled", async () => {
+    const executeAfter = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const res = await submit({ ...baseIntent, executeAfter });
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ intentId: "abc", state: "scheduled", depositToken: expect.any(String) });
+    expect(setStatusMock).toHaveBeenCalledWith("abc", {
+      state: "scheduled",
+      executeAfter,
+      userDestination: baseIntent.userDestination,
+      sourceChain: "solana",
+      destinationChain: "solana",
+      createdAt: expect.any(String),
+    });
+    expect(enqueueIntentMock).toHaveBeenCalledWith(expect.objectContaining({ executeAfter }));
+  });
+
+  it("passes callbackUrl on to the status when webhooks are configured", async () => {
+    config.webhookSecret = "whsec";
+    const res = await submit({ ...baseIntent, callbackUrl: "https://example.com/hooks" });
+    config.webhookSecret = "";
+
+    expect(res.status).toBe(202);
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "abc",
+      expect.objectContaining({ state: "pending", callbackUrl: "https://example.com/hooks" }),
+    );
+  });
+
+  it("rejects a callbackUrl that resolves to a private address", async () => {
+    config.webhookSecret = "whsec";
+    assertPublicUrlMock.mockRejectedValueOnce(new Error("Host internal.example resolves to non-public address 10.0.0.5"));
+    const res = await submit({ ...baseIntent, callbackUrl: "https://internal.example/hooks" });
+    config.webhookSecret = "";
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("non-public address");
+    expect(assertPublicUrlMock).toHaveBeenCalledWith("https://internal.example/hooks", config.webhookAllowedHosts);
+    expect(enqueueIntentMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a callbackUrl when webhooks are not configured", async () => {
+    config.webhookSecret = "";
+    const res = await submit({ ...baseIntent, callbackUrl: "https://example.com/hooks" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("WEBHOOK_SECRET");
+    expect(enqueueIntentMock).not.toHaveBeenCalled();
   });
 
   it("returns 403 when verification proof is missing", async () => {
@@ -114,6 +375,167 @@ describe("intents route", () => {
   });
 });
 
+describe("intents deposit route", () => {
+  beforeEach(async () => {
+    setStatusMock.mockReset();
+    setStatusMock.mockResolvedValue(true);
+    getStatusMock.mockReset();
+    submitDepositTxMock.mockReset();
+    await closeSubmissionStore();
+    await submitted("abc");
+  });
+
+  /** Submission record of an intent funded through a 1-Click deposit address */
+  function submitted(intentId: string, originTxHash?: string) {
+    return claimSubmission({
+      intentId,
+      fingerprint: `fingerprint-${intentId}`,
+      originTxHash,
+      response: { intentId, state: "pending", depositToken: `token-${intentId}` },
+      submittedAt: "2024-01-15T10:00:00.000Z",
+    });
+  }
+
+  function reportDeposit(body: unknown, token = "token-abc") {
+    return app.request("/api/intents/abc/deposit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const awaiting = {
+    intentId: "abc",
+    state: "awaiting_intents",
+    depositAddress: "deposit-addr-12345",
+    depositMemo: "memo-1",
+    userDestination: "alice.near",
+    createdAt: "2024-01-15T10:00:00.000Z",
+    updatedAt: "2024-01-15T10:00:01.000Z",
+  };
+
+  it("forwards the tx to 1-Click and waits in awaiting_deposit", async () => {
+    getStatusMock.mockResolvedValue(awaiting);
+
+    const res = await reportDeposit({ txHash: "tx-1", nearSenderAccount: "alice.near" });
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ intentId: "abc", state: "awaiting_deposit" });
+    expect(submitDepositTxMock).toHaveBeenCalledWith({
+      txHash: "tx-1",
+      depositAddress: "deposit-addr-12345",
+      memo: "memo-1",
+      nearSenderAccount: "alice.near",
+    });
+    expect(setStatusMock).toHaveBeenCalledWith("abc", {
+      state: "awaiting_deposit",
+      detail: "Waiting for 1-Click to acknowledge the deposit",
+      depositAddress: "deposit-addr-12345",
+      depositMemo: "memo-1",
+      originTxHash: "tx-1",
+      userDestination: "alice.near",
+      createdAt: "2024-01-15T10:00:00.000Z",
+    });
+    expect((await getSubmission("abc"))?.originTxHash).toBe("tx-1");
+  });
+
+  it("keeps an intent whose deposit 1-Click already saw in awaiting_intents", async () => {
+    getStatusMock.mockResolvedValue({ ...awaiting, intentsStatus: "PROCESSING" });
+
+    const res = await reportDeposit({ txHash: "tx-1" });
+
+    expect(await res.json()).toEqual({ intentId: "abc", state: "awaiting_intents" });
+    expect(setStatusMock).toHaveBeenCalledWith(
+      "abc",
+      expect.objectContaining({ state: "awaiting_intents", originTxHash: "tx-1" }),
+    );
+  });
+
+  it("records the tx of an intent that is not waiting on 1-Click yet, for the consumer to forward", async () => {
+    getStatusMock.mockResolvedValue({ state: "pending" });
+
+    const res = await reportDeposit({ txHash: "tx-1" });
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ intentId: "abc", state: "pending" });
+    expect((await getSubmission("abc"))?.originTxHash).toBe("tx-1");
+    expect(submitDepositTxMock).not.toHaveBeenCalled();
+    expect(setStatusMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects intents that are finished", async () => {
+    getStatusMock.mockResolvedValue({ state: "succeeded" });
+
+    const res = await reportDeposit({ txHash: "tx-1" });
+
+    expect(res.status).toBe(409);
+    expect(submitDepositTxMock).not.toHaveBeenCalled();
+  });
+
+  it("requires the intent's deposit token", async () => {
+    getStatusMock.mockResolvedValue(awaiting);
+
+    expect((await reportDeposit({ txHash: "tx-1" }, "token-def")).status).toBe(401);
+    const res = await app.request("/api/intents/abc/deposit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ txHash: "tx-1" }),
+    });
+    expect(res.status).toBe(401);
+    expect(submitDepositTxMock).not.toHaveBeenCalled();
+    expect((await getSubmission("abc"))?.originTxHash).toBeUndefined();
+  });
+
+  it("answers an unknown intent like a wrong token", async () => {
+    const res = await app.request("/api/intents/unknown/deposit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer token-abc" },
+      body: JSON.stringify({ txHash: "tx-1" }),
+    });
+
+    expect(res.status).toBe(401);
+    expect(getStatusMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a tx that already authorized another intent", async () => {
+    await submitted("def", "tx-1");
+    getStatusMock.mockResolvedValue(awaiting);
+
+    const res = await reportDeposit({ txHash: "tx-1" });
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toContain("intent def");
+    expect(submitDepositTxMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a second, different tx for the same intent", async () => {
+    getStatusMock.mockResolvedValue(awaiting);
+    await reportDeposit({ txHash: "tx-1" });
+
+    const res = await reportDeposit({ txHash: "tx-2" });
+
+    expect(res.status).toBe(409);
+    expect(submitDepositTxMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns 404 for unknown intents and 400 without a txHash", async () => {
+    getStatusMock.mockResolvedValue(null);
+
+    expect((await reportDeposit({ txHash: "tx-1" })).status).toBe(404);
+    expect((await reportDeposit({})).status).toBe(400);
+  });
+
+  it("returns 502 and leaves the status alone when 1-Click rejects the tx", async () => {
+    getStatusMock.mockResolvedValue(awaiting);
+    submitDepositTxMock.mockRejectedValue(new Error("tx not found"));
+
+    const res = await reportDeposit({ txHash: "tx-1" });
+
+    expect(res.status).toBe(502);
+    expect(setStatusMock).not.toHaveBeenCalled();
+  });
+});
+
 describe("intents quote route", () => {
   beforeEach(() => {
     config.intentsQuoteUrl = "https://intents.example/quote";
@@ -186,3 +608,220 @@ describe("intents quote route", () => {
     expect(res.status).toBe(500);
   });
 });
+
+describe("intents kamino repay quote", () => {
+  const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+  const AGENT = "8CKsW6cVfaQnBxpqtKfxDxZ8sM3E7DbpDZEPXx1cBa9u";
+
+  beforeEach(async () => {
+    config.intentsQuoteUrl = "https://intents.example/quote";
+    config.enableQueue = true;
+    getQuoteMock.mockReset();
+    enqueueIntentMock.mockReset();
+    setStatusMock.mockReset();
+    loadKaminoReserveMock.mockReset().mockResolvedValue({ market: {}, reserve: {} });
+    getKaminoDebtMock.mockReset();
+    await closeSubmissionStore();
+  });
+
+  function quote(body: Record<string, unknown>) {
+    return app.request("/api/intents/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        originAsset: "nep141:wrap.near",
+        destinationAsset: `nep141:sol-${USDC_MINT.toLowerCase()}.omft.near`,
+        amount: "1000000",
+        swapType: "EXACT_INPUT",
+        slippageTolerance: 100,
+        refundTo: "alice.near",
+        sourceChain: "near",
+        userDestination: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+        ...body,
+      }),
+    });
+  }
+
+  it("quotes the outstanding debt plus a buffer for repayMax and enqueues the repay", async () => {
+    getKaminoDebtMock.mockResolvedValue({ obligation: {}, debt: 2_000_000n });
+    getQuoteMock.mockResolvedValue({
+      quote: { amountIn: "7000000000000000000000000", amountOut: "2010001", depositAddress: "deposit-1" },
+    });
+
+    const res = await quote({
+      dry: false,
+      kaminoRepay: { marketAddress: "market-1", mintAddress: USDC_MINT, repayMax: true },
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.quote.outstandingDebt).toBe("2000000");
+    expect(getKaminoDebtMock).toHaveBeenCalledWith({}, USDC_MINT, AGENT);
+    expect(getQuoteMock).toHaveBeenCalledWith(
+      expect.objectContaining({ swapType: "EXACT_OUTPUT", amount: "2010001", recipient: AGENT }),
+    );
+    expect(enqueueIntentMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceAmount: "7000000000000000000000000",
+        intermediateAmount: "2010001",
+        refundAddress: "alice.near",
+        metadata: expect.objectContaining({ action: "kamino-repay", repayMax: true, mintAddress: USDC_MINT }),
+      }),
+    );
+  });
+
+  it("quotes the requested amount without repayMax", async () => {
+    getQuoteMock.mockResolvedValue({ quote: { amountOut: "990000", depositAddress: "deposit-1" } });
+
+    const res = await quote({ kaminoRepay: { marketAddress: "market-1", mintAddress: USDC_MINT } });
+
+    expect(res.status).toBe(200);
+    expect(getKaminoDebtMock).not.toHaveBeenCalled();
+    expect(getQuoteMock).toHaveBeenCalledWith(
+      expect.objectContaining({ swapType: "EXACT_INPUT", amount: "1000000" }),
+    );
+  });
+
+  it("rejects a repay without refundTo before quoting", async () => {
+    const res = await quote({
+      dry: false,
+      refundTo: undefined,
+      kaminoRepay: { marketAddress: "market-1", mintAddress: USDC_MINT },
+    });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("refundTo");
+    expect(getQuoteMock).not.toHaveBeenCalled();
+    expect(enqueueIntentMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects repayMax when there is no debt", async () => {
+    getKaminoDebtMock.mockResolvedValue(null);
+
+    const res = await quote({
+      kaminoRepay: { marketAddress: "market-1", mintAddress: USDC_MINT, repayMax: true },
+    });
+
+    expect(res.status).toBe(400);
+    expect(getQuoteMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("intents burrow repay quote", () => {
+  const USDT = "usdt.tether-token.near";
+  const AGENT = "a".repeat(64);
+
+  beforeEach(async () => {
+    config.intentsQuoteUrl = "https://intents.example/quote";
+    config.enableQueue = true;
+    getQuoteMock.mockReset();
+    enqueueIntentMock.mockReset();
+    setStatusMock.mockReset();
+    getBurrowDebtMock.mockReset();
+    getExtraDecimalsMock.mockReset().mockResolvedValue(12);
+    deriveNearImplicitAccountMock.mockReset().mockResolvedValue({ accountId: AGENT, publicKey: "ed25519:agent" });
+    ensureImplicitAccountExistsMock.mockReset().mockResolvedValue(undefined);
+    await closeSubmissionStore();
+  });
+
+  function quote(body: Record<string, unknown>) {
+    return app.request("/api/intents/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        originAsset: "nep141:sol-5ce3bf3a31af18be40ba30f721101b4341690186.omft.near",
+        destinationAsset: `nep141:${USDT}`,
+        amount: "1000000",
+        swapType: "EXACT_INPUT",
+        slippageTolerance: 100,
+        refundTo: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+        sourceChain: "solana",
+        userDestination: "alice.near",
+        ...body,
+      }),
+    });
+  }
+
+  it("quotes the requested amount without repayAll", async () => {
+    getQuoteMock.mockResolvedValue({ quote: { amountOut: "990000" } });
+
+    const res = await quote({ burrowRepay: { tokenId: USDT } });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).quote.outstandingDebt).toBeUndefined();
+    expect(getBurrowDebtMock).not.toHaveBeenCalled();
+    expect(ensureImplicitAccountExistsMock).not.toHaveBeenCalled();
+    expect(getQuoteMock).toHaveBeenCalledWith(
+      expect.objectContaining({ swapType: "EXACT_INPUT", amount: "1000000", recipient: AGENT }),
+    );
+  });
+
+  it("quotes the outstanding debt plus a buffer for repayAll and enqueues the repay", async () => {
+    getBurrowDebtMock.mockResolvedValue(2_000_000n);
+    getQuoteMock.mockResolvedValue({
+      quote: { amountIn: "2030000", amountOut: "2010001", depositAddress: "deposit-1" },
+    });
+
+    const res = await quote({ dry: false, burrowRepay: { tokenId: USDT, repayAll: true } });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.quote.outstandingDebt).toBe("2000000");
+    expect(body.depositToken).toEqual(expect.any(String));
+    expect(getBurrowDebtMock).toHaveBeenCalledWith(AGENT, USDT, 12);
+    expect(ensureImplicitAccountExistsMock).toHaveBeenCalledWith(expect.anything(), AGENT, "ed25519:agent");
+    expect(getQuoteMock).toHaveBeenCalledWith(
+      expect.objectContaining({ swapType: "EXACT_OUTPUT", amount: "2010001", recipient: AGENT }),
+    );
+    expect(enqueueIntentMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceAmount: "2030000",
+        intermediateAmount: "2010001",
+        destinationChain: "near",
+        agentDestination: AGENT,
+        refundAddress: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+        metadata: expect.objectContaining({ action: "burrow-repay", tokenId: USDT, repayAll: true }),
+      }),
+    );
+  });
+
+  it("returns 502 when the debt can't be read", async () => {
+    getBurrowDebtMock.mockRejectedValue(new Error("rpc down"));
+
+    const res = await quote({ burrowRepay: { tokenId: USDT, repayAll: true } });
+
+    expect(res.status).toBe(502);
+    expect((await res.json()).error).toContain("rpc down");
+    expect(getQuoteMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a repay without refundTo before deriving the agent account", async () => {
+    const res = await quote({ dry: false, refundTo: undefined, burrowRepay: { tokenId: USDT } });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("refundTo");
+    expect(deriveNearImplicitAccountMock).not.toHaveBeenCalled();
+    expect(getQuoteMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects repayAll when there is no debt", async () => {
+    getBurrowDebtMock.mockResolvedValue(0n);
+
+    const res = await quote({ burrowRepay: { tokenId: USDT, repayAll: true } });
+
+    expect(res.status).toBe(400);
+    expect(getQuoteMock).not.toHaveBeenCalled();
+  });
+
+  it("returns 502 when the agent account can't be derived or created", async () => {
+    deriveNearImplicitAccountMock.mockRejectedValueOnce(new Error("mpc unavailable"));
+    expect((await quote({ burrowRepay: { tokenId: USDT } })).status).toBe(502);
+
+    ensureImplicitAccountExistsMock.mockRejectedValueOnce(new Error("funding failed"));
+    const res = await quote({ dry: false, burrowRepay: { tokenId: USDT } });
+    expect(res.status).toBe(502);
+    expect((await res.json()).error).toContain("funding failed");
+
+    expect(getQuoteMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,18 +1,35 @@
+import crypto from "crypto";
 import { Hono } from "hono";
-import { RedisQueueClient } from "../queue/redis";
-import { IntentMessage, IntentChain } from "../queue/types";
+import { createQueueClient } from "../queue/client";
+import { IntentMessage, IntentChain, ValidatedIntent } from "../queue/types";
 import { validateIntent } from "../queue/validation";
-import { setStatus } from "../state/status";
+import { scheduledFor } from "../queue/schedule";
+import { snapshotAgentBalance } from "../queue/deliveredAmount";
+import { IntentStatus, getStatus, intentSummary, isTerminalState, setStatus } from "../state/status";
+import {
+  IntentSubmission,
+  SubmissionResponse,
+  attachOriginTx,
+  claimSubmission,
+  getSubmission,
+  releaseSubmission,
+} from "../state/idempotency";
+import { clearCheckpoints } from "../state/checkpoints";
 import { config } from "../config";
 import { fetchWithRetry } from "../utils/http";
+import { submitDepositTx } from "../utils/oneClick";
+import { safeEqual } from "../utils/adminAuth";
 import { SOL_NATIVE_MINT, extractSolanaMintAddress } from "../constants";
 import { getSolDefuseAssetId, getDefuseAssetId } from "../utils/tokenMappings";
 import { deriveAgentPublicKey } from "../utils/solana";
+import { getKaminoDebt, loadKaminoReserve } from "../utils/kamino";
+import { getBurrowDebt, getExtraDecimals } from "../utils/burrow";
 import { deriveNearImplicitAccount, NEAR_DEFAULT_PATH } from "../utils/chainSignature";
 import { ensureImplicitAccountExists } from "../utils/nearMetaTx";
 import { JsonRpcProvider } from "@near-js/providers";
 import { verifyNearSignature, isNearSignature } from "../utils/nearSignature";
 import { verifySolanaSignature } from "../utils/solanaSignature";
+import { assertPublicUrl } from "../utils/publicHost";
 import { UserSignature } from "../queue/types";
 import {
   OneClickService,
@@ -20,8 +37,11 @@ import {
   QuoteRequest,
 } from "@defuse-protocol/one-click-sdk-typescript";
 
+/** Headroom on a repay-everything quote for interest accruing until the funds arrive */
+const REPAY_MAX_BUFFER_BPS = 50n;
+
 const app = new Hono();
-const queueClient = new RedisQueueClient();
+const queueClient = createQueueClient();
 
 type QuoteRequestBody = QuoteRequest & {
   // Additional fields for intent enqueuing (required when dry: false)
@@ -33,11 +53,24 @@ type QuoteRequestBody = QuoteRequest & {
     marketAddress: string;
     mintAddress: string;
   };
+  kaminoRepay?: {
+    marketAddress: string;
+    /** Mint of the borrowed asset */
+    mintAddress: string;
+    /** Quote exactly the outstanding debt (plus a buffer) instead of `amount` */
+    repayMax?: boolean;
+  };
   // Burrow-specific fields
   burrowDeposit?: {
     tokenId: string;
     isCollateral?: boolean;
   };
+  burrowRepay?: {
+    /** The borrowed NEAR token */
+    tokenId: string;
+    /** Quote exactly the outstanding debt (plus a buffer) instead of `amount` */
+    repayAll?: boolean;
+  };
   burrowWithdraw?: {
     tokenId: string;
     bridgeBack?: {
@@ -56,6 +89,105 @@ interface IntentsQuoteResponse {
   quote: Record<string, any>;
 }
 
+type SubmitResult =
+  | { outcome: "accepted" | "replayed"; response: SubmissionResponse }
+  | { outcome: "conflict"; error: string; intentId: string; status?: IntentStatus | null };
+
+function fingerprintIntent(intent: ValidatedIntent): string {
+  return crypto.createHash("sha256").update(JSON.stringify(intent)).digest("hex");
+}
+
+/**
+ * The agent's balance before the bridge leg can deliver, for intents that
+ * wait on one. Best effort: without it the consumer snapshots on its own.
+ */
+async function snapshotBeforeDelivery(intent: ValidatedIntent): Promise<string | undefined> {
+  if (!intent.intentsDepositAddress) return undefined;
+  try {
+    return await snapshotAgentBalance(intent);
+  } catch (err) {
+    console.warn("[intents] Failed to snapshot the agent balance", { intentId: intent.intentId }, err);
+    return undefined;
+  }
+}
+
+/**
+ * Enqueues an intent at most once. An exact replay gets the original response;
+ * reusing an intentId that is still in flight, or an originTxHash that already
+ * authorized another intent, is a conflict. A finished intentId may be reused,
+ * except by a signature-authorized intent: its signature covers the intentId,
+ * so accepting it again would let the same signature authorize a second action.
+ */
+async function submitIntent(intent: ValidatedIntent): Promise<SubmitResult> {
+  const { intentId } = intent;
+  const submission: IntentSubmission = {
+    intentId,
+    fingerprint: fingerprintIntent(intent),
+    originTxHash: intent.originTxHash,
+    response: {
+      intentId,
+      state: scheduledFor(intent) === null ? "pending" : "scheduled",
+      ...(intent.intentsDepositAddress && { depositToken: crypto.randomBytes(32).toString("hex") }),
+    },
+    submittedAt: new Date().toISOString(),
+    agentBalanceBefore: await snapshotBeforeDelivery(intent),
+  };
+
+  let reused = false;
+  let claim = await claimSubmission(submission);
+  if (claim.outcome === "exists") {
+    if (claim.existing.fingerprint === submission.fingerprint) {
+      console.info("[intents] Replayed submission, returning original response", { intentId });
+      return { outcome: "replayed", response: claim.existing.response };
+    }
+    // No status yet means the other submission is still being enqueued
+    const status = await getStatus(intentId);
+    if (!status || !isTerminalState(status.state)) {
+      return { outcome: "conflict", error: "Intent already exists and is not finished", intentId, status };
+    }
+    if (intent.userSignature) {
+      return { outcome: "conflict", error: "intentId already used; sign a new intentId", intentId, status };
+    }
+    claim = await claimSubmission(submission, claim.stored);
+    reused = claim.outcome === "claimed";
+  }
+
+  if (claim.outcome === "exists") {
+    return { outcome: "conflict", error: "Intent was submitted concurrently", intentId };
+  }
+  if (claim.outcome === "origin-used") {
+    console.warn("[intents] Rejected reuse of originTxHash", {
+      intentId,
+      originTxHash: intent.originTxHash,
+      existingIntentId: claim.intentId,
+    });
+    return {
+      outcome: "conflict",
+      error: `originTxHash already used by intent ${claim.intentId}`,
+      intentId: claim.intentId,
+    };
+  }
+
+  try {
+    // Steps recorded for the previous use of this intentId must not be resumed
+    if (reused) await clearCheckpoints(intentId);
+    // Status first so a fast consumer's "processing" is never overwritten
+    const summary = { ...intentSummary(intent), createdAt: submission.submittedAt };
+    if (submission.response.state === "scheduled") {
+      await setStatus(intentId, { state: "scheduled", executeAfter: intent.executeAfter, ...summary });
+    } else {
+      await setStatus(intentId, { state: "pending", ...summary });
+    }
+    await queueClient.enqueueIntent(intent);
+  } catch (err) {
+    await releaseSubmission(submission).catch((releaseErr) => {
+      console.error("[intents] Failed to release submission", releaseErr);
+    });
+    throw err;
+  }
+  return { outcome: "accepted", response: submission.response };
+}
+
 /**
  * POST /api/intents - Enqueue an intent for processing
  *
@@ -145,18 +277,151 @@ app.post("/", async (c) => {
   } catch (err) {
     return c.json({ error: (err as Error).message }, 400);
   }
+  if (validatedIntent.callbackUrl && !config.webhookSecret) {
+    return c.json({ error: "callbackUrl is not supported: webhooks are not configured (set WEBHOOK_SECRET)" }, 400);
+  }
+  if (validatedIntent.callbackUrl) {
+    try {
+      await assertPublicUrl(validatedIntent.callbackUrl, config.webhookAllowedHosts);
+    } catch (err) {
+      return c.json({ error: `callbackUrl is not allowed: ${(err as Error).message}` }, 400);
+    }
+  }
 
+  let submitted: SubmitResult;
   try {
-    await queueClient.enqueueIntent(validatedIntent);
-    await setStatus(validatedIntent.intentId, { state: "pending" });
-    return c.json(
-      { intentId: validatedIntent.intentId, state: "pending" },
-      202,
-    );
+    submitted = await submitIntent(validatedIntent);
   } catch (err) {
     console.error("Failed to enqueue intent", err);
     return c.json({ error: "Failed to enqueue intent" }, 500);
   }
+  if (submitted.outcome === "conflict") {
+    return c.json(
+      { error: submitted.error, intentId: submitted.intentId, status: submitted.status },
+      409,
+    );
+  }
+
+  // Best effort: without it 1-Click still detects the deposit on its own
+  if (submitted.outcome === "accepted" && validatedIntent.originTxHash && validatedIntent.intentsDepositAddress) {
+    try {
+      await submitDepositTx({
+        txHash: validatedIntent.originTxHash,
+        depositAddress: validatedIntent.intentsDepositAddress,
+        memo: validatedIntent.depositMemo,
+        nearSenderAccount: validatedIntent.sourceChain === "near" ? validatedIntent.refundAddress : undefined,
+      });
+    } catch (err) {
+      console.warn("[intents] Failed to submit deposit tx to 1-Click", { intentId: validatedIntent.intentId }, err);
+    }
+  }
+  return c.json(submitted.response, 202);
+});
+
+/**
+ * POST /api/intents/:intentId/deposit - Report the user's deposit tx
+ *
+ * Requires `Authorization: Bearer <depositToken>`, the token issued with the
+ * intent; unknown intents get the same 401 as a wrong token. The hash is recorded as the intent's origin tx under the same rule
+ * as POST /api/intents: a tx authorizes one intent only. If the intent is
+ * already waiting on 1-Click, the hash is forwarded to 1-Click and, unless
+ * 1-Click has already seen the deposit, the intent moves to awaiting_deposit;
+ * the poller moves it on to awaiting_intents once 1-Click acknowledges it.
+ * Before that (e.g. still `pending`), the consumer forwards the recorded hash
+ * once the intent starts waiting on 1-Click.
+ */
+app.post("/:intentId/deposit", async (c) => {
+  const intentId = c.req.param("intentId");
+
+  // Before anything else, so an unknown intent looks the same as a wrong token
+  const header = c.req.header("Authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const depositToken = (await getSubmission(intentId))?.response.depositToken;
+  if (!token || !depositToken || !safeEqual(token, depositToken)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  let body: { txHash?: unknown; nearSenderAccount?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  const { txHash, nearSenderAccount } = body;
+  if (typeof txHash !== "string" || txHash === "") {
+    return c.json({ error: "txHash is required" }, 400);
+  }
+  if (nearSenderAccount !== undefined && typeof nearSenderAccount !== "string") {
+    return c.json({ error: "nearSenderAccount must be a string" }, 400);
+  }
+
+  const status = await getStatus(intentId);
+  if (!status) {
+    return c.json({ error: "Intent not found" }, 404);
+  }
+
+  if (isTerminalState(status.state)) {
+    return c.json({ error: "Intent is not waiting for a 1-Click deposit", state: status.state }, 409);
+  }
+
+  const attached = await attachOriginTx(intentId, txHash);
+  if (attached.outcome === "missing") {
+    return c.json({ error: "Intent not found" }, 404);
+  }
+  if (attached.outcome === "conflict") {
+    return c.json({ error: `Intent already has deposit tx ${attached.originTxHash}` }, 409);
+  }
+  if (attached.outcome === "origin-used") {
+    console.warn("[intents] Rejected reuse of originTxHash", {
+      intentId,
+      originTxHash: txHash,
+      existingIntentId: attached.intentId,
+    });
+    return c.json({ error: `originTxHash already used by intent ${attached.intentId}` }, 409);
+  }
+
+  // Read again after recording the hash: the consumer records the deposit
+  // address first and reads the hash after, so one of the two forwards it
+  const current = await getStatus(intentId);
+  if (
+    !current ||
+    (current.state !== "awaiting_deposit" && current.state !== "awaiting_intents") ||
+    !current.depositAddress
+  ) {
+    return c.json({ intentId, state: current?.state ?? status.state }, 202);
+  }
+
+  try {
+    await submitDepositTx({
+      txHash,
+      depositAddress: current.depositAddress,
+      memo: current.depositMemo,
+      nearSenderAccount,
+    });
+  } catch (err) {
+    console.error("[intents] 1-Click rejected deposit tx", { intentId, txHash }, err);
+    return c.json({ error: `1-Click rejected the deposit tx: ${(err as Error).message}` }, 502);
+  }
+
+  // Once 1-Click is past PENDING_DEPOSIT the intent stays where it is
+  const depositSeen = current.state === "awaiting_intents" &&
+    current.intentsStatus !== undefined &&
+    current.intentsStatus !== "PENDING_DEPOSIT";
+  const { intentId: _intentId, updatedAt: _updatedAt, ...snapshot } = current;
+  const next: IntentStatus = depositSeen
+    ? { ...snapshot, originTxHash: txHash }
+    : {
+        ...snapshot,
+        state: "awaiting_deposit",
+        detail: "Waiting for 1-Click to acknowledge the deposit",
+        originTxHash: txHash,
+      };
+  if (!(await setStatus(intentId, next))) {
+    // The poller moved it on meanwhile; the hash was still forwarded
+    const latest = await getStatus(intentId);
+    return c.json({ intentId, state: latest?.state ?? current.state }, 202);
+  }
+  return c.json({ intentId, state: next.state }, 202);
 });
 
 app.post("/quote", async (c) => {
@@ -182,7 +447,7 @@ app.post("/quote", async (c) => {
   const isDryRun = payload.dry !== false;
 
   // Extract custom fields that should NOT be sent to the Defuse API
-  const { sourceChain, userDestination, metadata, kaminoDeposit, burrowDeposit, burrowWithdraw, ...defuseQuoteFields } = payload;
+  const { sourceChain, userDestination, metadata, kaminoDeposit, kaminoRepay, burrowDeposit, burrowRepay, burrowWithdraw, ...defuseQuoteFields } = payload;
 
   if (config.intentsQuoteUrl) {
     OpenAPI.BASE = config.intentsQuoteUrl;
@@ -194,6 +459,11 @@ app.post("/quote", async (c) => {
     return handleBurrowDepositQuote(c, payload, defuseQuoteFields, isDryRun, burrowDeposit, sourceChain, userDestination, metadata);
   }
 
+  // For Burrow repays, intents delivers the borrowed NEAR token, which then repays the debt
+  if (burrowRepay) {
+    return handleBurrowRepayQuote(c, payload, defuseQuoteFields, isDryRun, burrowRepay, sourceChain, userDestination, metadata);
+  }
+
   // For Burrow withdrawals, this is just for validation/preview - actual withdraw is triggered via POST /api/intents
   // The bridgeBack flow happens after withdrawal completes
   if (burrowWithdraw) {
@@ -218,6 +488,11 @@ app.post("/quote", async (c) => {
     return handleKaminoDepositQuote(c, payload, defuseQuoteFields, isDryRun, agentSolanaAddress, kaminoDeposit, sourceChain, userDestination, metadata);
   }
 
+  // For Kamino repays, intents delivers the borrowed SPL token, which then repays the debt
+  if (kaminoRepay) {
+    return handleKaminoRepayQuote(c, payload, defuseQuoteFields, isDryRun, agentSolanaAddress, kaminoRepay, sourceChain, userDestination, metadata);
+  }
+
   // Regular two-leg swap: First swap origin asset to SOL via Intents, then SOL to final token via Jupiter
   // Use Defuse asset ID format for the SOL destination
   const solDefuseAssetId = getSolDefuseAssetId();
@@ -309,6 +584,7 @@ app.post("/quote", async (c) => {
 
   // When dry: false, auto-enqueue the intent (deposit verification happens via 1-Click API)
   // This prevents malicious actors from enqueuing fake intents without going through quote flow
+  let depositToken: string | undefined;
   if (!isDryRun && config.enableQueue && baseQuote.depositAddress) {
     // Validate required fields for intent enqueuing
     if (!payload.sourceChain) {
@@ -340,8 +616,11 @@ app.post("/quote", async (c) => {
       };
 
       const validatedIntent = validateIntent(intentMessage);
-      await queueClient.enqueueIntent(validatedIntent);
-      await setStatus(validatedIntent.intentId, { state: "pending" });
+      const submitted = await submitIntent(validatedIntent);
+      if (submitted.outcome === "conflict") {
+        throw new Error(submitted.error);
+      }
+      depositToken = submitted.response.depositToken;
 
       console.info("[intents/quote] Intent auto-enqueued", {
         intentId: quoteId,
@@ -372,6 +651,8 @@ app.post("/quote", async (c) => {
       depositAddress: baseQuote.depositAddress,
       depositMemo: baseQuote.depositMemo,
     },
+    // For reporting the deposit tx via POST /api/intents/:intentId/deposit
+    depositToken,
   });
 });
 
@@ -446,6 +727,7 @@ async function handleKaminoDepositQuote(
   const quoteId = baseQuote.quoteId || `shade-kamino-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
   // When dry: false, auto-enqueue the Kamino deposit intent
+  let depositToken: string | undefined;
   if (!isDryRun && config.enableQueue && baseQuote.depositAddress) {
     if (!sourceChain) {
       return c.json({ error: "sourceChain is required when dry: false" }, 400);
@@ -484,8 +766,11 @@ async function handleKaminoDepositQuote(
       };
 
       const validatedIntent = validateIntent(intentMessage);
-      await queueClient.enqueueIntent(validatedIntent);
-      await setStatus(validatedIntent.intentId, { state: "pending" });
+      const submitted = await submitIntent(validatedIntent);
+      if (submitted.outcome === "conflict") {
+        throw new Error(submitted.error);
+      }
+      depositToken = submitted.response.depositToken;
 
       console.info("[intents/quote] Kamino deposit intent auto-enqueued", {
         intentId: quoteId,
@@ -514,6 +799,175 @@ async function handleKaminoDepositQuote(
       depositAddress: baseQuote.depositAddress,
       depositMemo: baseQuote.depositMemo,
     },
+    depositToken,
+  });
+}
+
+/**
+ * Handle Kamino repay quote requests.
+ * Like Kamino deposits, intents swaps directly to the borrowed SPL token, delivered
+ * to the user's derived account, which then repays the obligation's debt.
+ * With repayMax the quote is for exactly the outstanding debt plus
+ * REPAY_MAX_BUFFER_BPS for interest accruing until delivery; any excess is
+ * returned to the user after the repay.
+ */
+async function handleKaminoRepayQuote(
+  c: any,
+  payload: QuoteRequestBody,
+  defuseQuoteFields: Omit<QuoteRequestBody, "sourceChain" | "userDestination" | "metadata" | "kaminoDeposit" | "kaminoRepay">,
+  isDryRun: boolean,
+  agentSolanaAddress: string | undefined,
+  kaminoRepay: { marketAddress: string; mintAddress: string; repayMax?: boolean },
+  sourceChain: IntentChain | undefined,
+  userDestination: string | undefined,
+  metadata: Record<string, unknown> | undefined,
+) {
+  // Any excess goes back to refundTo, so a repay that will run needs one
+  if (!isDryRun && !payload.refundTo) {
+    return c.json({ error: "refundTo is required for repays" }, 400);
+  }
+
+  // The debt is read from the obligation of the user's derived account
+  let outstandingDebt: string | undefined;
+  if (kaminoRepay.repayMax) {
+    if (!agentSolanaAddress) {
+      return c.json({ error: "userDestination is required for repayMax" }, 400);
+    }
+    let position;
+    try {
+      const { market } = await loadKaminoReserve(kaminoRepay.marketAddress, kaminoRepay.mintAddress);
+      position = await getKaminoDebt(market, kaminoRepay.mintAddress, agentSolanaAddress);
+    } catch (err) {
+      console.error("[intents/quote] Kamino repay: failed to read debt", err);
+      return c.json({ error: `Failed to read Kamino debt: ${(err as Error).message}` }, 502);
+    }
+    if (!position) {
+      return c.json({ error: "No outstanding Kamino debt to repay" }, 400);
+    }
+    outstandingDebt = position.debt.toString();
+  }
+
+  const directQuoteRequest = {
+    ...defuseQuoteFields,
+    ...(outstandingDebt && {
+      swapType: "EXACT_OUTPUT" as const,
+      amount: (BigInt(outstandingDebt) + (BigInt(outstandingDebt) * REPAY_MAX_BUFFER_BPS) / 10_000n + 1n).toString(),
+    }),
+    dry: isDryRun,
+    // Set recipient to the derived agent address so Intents delivers tokens there
+    ...(agentSolanaAddress && {
+      recipient: agentSolanaAddress,
+      recipientType: "DESTINATION_CHAIN" as const,
+    }),
+  };
+
+  console.info("[intents/quote] Kamino repay: requesting direct quote", {
+    originAsset: payload.originAsset,
+    destinationAsset: payload.destinationAsset,
+    amount: directQuoteRequest.amount,
+    swapType: directQuoteRequest.swapType,
+    dry: isDryRun,
+    agentRecipient: agentSolanaAddress,
+    kaminoMarket: kaminoRepay.marketAddress,
+    kaminoMint: kaminoRepay.mintAddress,
+    outstandingDebt,
+  });
+
+  let intentsQuote: IntentsQuoteResponse;
+  try {
+    intentsQuote = (await OneClickService.getQuote(
+      directQuoteRequest as any,
+    )) as IntentsQuoteResponse;
+  } catch (err) {
+    console.error("[intents/quote] Kamino repay: intents quote failed", err);
+    return c.json({ error: (err as Error).message }, 502);
+  }
+
+  const baseQuote = intentsQuote.quote || {};
+  let amountOut: string;
+  try {
+    amountOut = BigInt(baseQuote.amountOut || baseQuote.minAmountOut || baseQuote.amount).toString();
+  } catch {
+    return c.json({ error: "Intents quote missing amountOut" }, 502);
+  }
+  // For EXACT_OUTPUT quotes the user deposits amountIn
+  const sourceAmount = outstandingDebt && baseQuote.amountIn ? String(baseQuote.amountIn) : directQuoteRequest.amount;
+
+  const quoteId = baseQuote.quoteId || `shade-kamino-repay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  // When dry: false, auto-enqueue the Kamino repay intent
+  let depositToken: string | undefined;
+  if (!isDryRun && config.enableQueue && baseQuote.depositAddress) {
+    if (!sourceChain) {
+      return c.json({ error: "sourceChain is required when dry: false" }, 400);
+    }
+    if (!userDestination) {
+      return c.json({ error: "userDestination is required when dry: false" }, 400);
+    }
+
+    try {
+      const intentMessage: IntentMessage = {
+        intentId: quoteId,
+        sourceChain,
+        sourceAsset: payload.originAsset,
+        sourceAmount,
+        destinationChain: "solana",
+        intermediateAmount: amountOut,
+        finalAsset: payload.destinationAsset,
+        slippageBps: payload.slippageTolerance,
+        userDestination,
+        agentDestination: agentSolanaAddress!,
+        intentsDepositAddress: baseQuote.depositAddress,
+        depositMemo: baseQuote.depositMemo,
+        // Excess is returned here
+        refundAddress: payload.refundTo,
+        metadata: {
+          ...metadata,
+          action: "kamino-repay",
+          marketAddress: kaminoRepay.marketAddress,
+          mintAddress: kaminoRepay.mintAddress,
+          repayMax: kaminoRepay.repayMax === true,
+          targetDefuseAssetId: payload.destinationAsset,
+          slippageTolerance: payload.slippageTolerance,
+        },
+      };
+
+      const validatedIntent = validateIntent(intentMessage);
+      const submitted = await submitIntent(validatedIntent);
+      if (submitted.outcome === "conflict") {
+        throw new Error(submitted.error);
+      }
+      depositToken = submitted.response.depositToken;
+
+      console.info("[intents/quote] Kamino repay intent auto-enqueued", {
+        intentId: quoteId,
+        sourceChain,
+        depositAddress: baseQuote.depositAddress,
+        kaminoMarket: kaminoRepay.marketAddress,
+      });
+    } catch (err) {
+      console.error("[intents/quote] Failed to auto-enqueue Kamino repay intent", err);
+    }
+  }
+
+  return c.json({
+    timestamp: intentsQuote.timestamp || new Date().toISOString(),
+    signature: intentsQuote.signature || "",
+    quoteRequest: {
+      ...payload,
+      dry: isDryRun,
+    },
+    quote: {
+      ...baseQuote,
+      quoteId,
+      amountOut,
+      minAmountOut: amountOut,
+      destinationAsset: payload.destinationAsset,
+      depositAddress: baseQuote.depositAddress,
+      depositMemo: baseQuote.depositMemo,
+      ...(outstandingDebt && { outstandingDebt }),
+    },
+    depositToken,
   });
 }
 
@@ -607,6 +1061,7 @@ async function handleBurrowDepositQuote(
   const quoteId = baseQuote.quoteId || `shade-burrow-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
   // When dry: false, auto-enqueue the Burrow deposit intent
+  let depositToken: string | undefined;
   if (!isDryRun && config.enableQueue && baseQuote.depositAddress) {
     if (!sourceChain) {
       return c.json({ error: "sourceChain is required when dry: false" }, 400);
@@ -645,8 +1100,11 @@ async function handleBurrowDepositQuote(
       };
 
       const validatedIntent = validateIntent(intentMessage);
-      await queueClient.enqueueIntent(validatedIntent);
-      await setStatus(validatedIntent.intentId, { state: "pending" });
+      const submitted = await submitIntent(validatedIntent);
+      if (submitted.outcome === "conflict") {
+        throw new Error(submitted.error);
+      }
+      depositToken = submitted.response.depositToken;
 
       console.info("[intents/quote] Burrow deposit intent auto-enqueued", {
         intentId: quoteId,
@@ -675,6 +1133,201 @@ async function handleBurrowDepositQuote(
       depositAddress: baseQuote.depositAddress,
       depositMemo: baseQuote.depositMemo,
     },
+    depositToken,
+  });
+}
+
+/**
+ * Handle Burrow repay quote requests.
+ * Like Burrow deposits, intents swaps directly to the borrowed token, delivered
+ * to the user's derived NEAR account, which then repays its debt. With
+ * repayAll the quote is for exactly the outstanding debt plus
+ * REPAY_MAX_BUFFER_BPS; any excess is returned to the user after the repay.
+ */
+async function handleBurrowRepayQuote(
+  c: any,
+  payload: QuoteRequestBody,
+  defuseQuoteFields: Omit<QuoteRequestBody, "sourceChain" | "userDestination" | "metadata" | "kaminoDeposit" | "burrowDeposit" | "burrowRepay">,
+  isDryRun: boolean,
+  burrowRepay: { tokenId: string; repayAll?: boolean },
+  sourceChain: IntentChain | undefined,
+  userDestination: string | undefined,
+  metadata: Record<string, unknown> | undefined,
+) {
+  // Any excess goes back to refundTo, so a repay that will run needs one
+  if (!isDryRun && !payload.refundTo) {
+    return c.json({ error: "refundTo is required for repays" }, 400);
+  }
+
+  // Derive the agent's NEAR address for the recipient
+  let agentNearAddress: string | undefined;
+  let agentPublicKey: string | undefined;
+  if (userDestination) {
+    try {
+      const { accountId, publicKey } = await deriveNearImplicitAccount(
+        NEAR_DEFAULT_PATH,
+        undefined,
+        userDestination,
+      );
+      agentNearAddress = accountId;
+      agentPublicKey = publicKey;
+    } catch (err) {
+      console.error("[intents/quote] Burrow repay: failed to derive agent NEAR account", err);
+      return c.json({ error: `Failed to derive agent NEAR account: ${(err as Error).message}` }, 502);
+    }
+  }
+
+  // The debt is read from the Burrow account of the user's derived account
+  let outstandingDebt: string | undefined;
+  if (burrowRepay.repayAll) {
+    if (!agentNearAddress) {
+      return c.json({ error: "userDestination is required for repayAll" }, 400);
+    }
+    let debt: bigint;
+    try {
+      const extraDecimals = await getExtraDecimals(burrowRepay.tokenId);
+      debt = await getBurrowDebt(agentNearAddress, burrowRepay.tokenId, extraDecimals);
+    } catch (err) {
+      console.error("[intents/quote] Burrow repay: failed to read debt", err);
+      return c.json({ error: `Failed to read Burrow debt: ${(err as Error).message}` }, 502);
+    }
+    if (debt === 0n) {
+      return c.json({ error: "No outstanding Burrow debt to repay" }, 400);
+    }
+    outstandingDebt = debt.toString();
+  }
+
+  // When not a dry run, ensure the implicit account exists so it can receive tokens
+  if (!isDryRun && agentNearAddress && agentPublicKey) {
+    const nearRpcUrl = config.nearRpcUrls[0] || "https://rpc.mainnet.near.org";
+    const provider = new JsonRpcProvider({ url: nearRpcUrl });
+    try {
+      await ensureImplicitAccountExists(provider, agentNearAddress, agentPublicKey);
+    } catch (err) {
+      console.error("[intents/quote] Burrow repay: failed to create agent NEAR account", err);
+      return c.json({ error: `Failed to create agent NEAR account: ${(err as Error).message}` }, 502);
+    }
+  }
+
+  const directQuoteRequest = {
+    ...defuseQuoteFields,
+    ...(outstandingDebt && {
+      swapType: "EXACT_OUTPUT" as const,
+      amount: (BigInt(outstandingDebt) + (BigInt(outstandingDebt) * REPAY_MAX_BUFFER_BPS) / 10_000n + 1n).toString(),
+    }),
+    dry: isDryRun,
+    // Set recipient to the derived agent NEAR address so Intents delivers tokens there
+    ...(agentNearAddress && {
+      recipient: agentNearAddress,
+      recipientType: "DESTINATION_CHAIN" as const,
+    }),
+  };
+
+  console.info("[intents/quote] Burrow repay: requesting direct quote", {
+    originAsset: payload.originAsset,
+    destinationAsset: payload.destinationAsset,
+    amount: directQuoteRequest.amount,
+    swapType: directQuoteRequest.swapType,
+    dry: isDryRun,
+    agentRecipient: agentNearAddress,
+    burrowTokenId: burrowRepay.tokenId,
+    outstandingDebt,
+  });
+
+  let intentsQuote: IntentsQuoteResponse;
+  try {
+    intentsQuote = (await OneClickService.getQuote(
+      directQuoteRequest as any,
+    )) as IntentsQuoteResponse;
+  } catch (err) {
+    console.error("[intents/quote] Burrow repay: intents quote failed", err);
+    return c.json({ error: (err as Error).message }, 502);
+  }
+
+  const baseQuote = intentsQuote.quote || {};
+  let amountOut: string;
+  try {
+    amountOut = BigInt(baseQuote.amountOut || baseQuote.minAmountOut || baseQuote.amount).toString();
+  } catch {
+    return c.json({ error: "Intents quote missing amountOut" }, 502);
+  }
+  // For EXACT_OUTPUT quotes the user deposits amountIn
+  const sourceAmount = outstandingDebt && baseQuote.amountIn ? String(baseQuote.amountIn) : directQuoteRequest.amount;
+
+  const quoteId = baseQuote.quoteId || `shade-burrow-repay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  // When dry: false, auto-enqueue the Burrow repay intent
+  let depositToken: string | undefined;
+  if (!isDryRun && config.enableQueue && baseQuote.depositAddress) {
+    if (!sourceChain) {
+      return c.json({ error: "sourceChain is required when dry: false" }, 400);
+    }
+    if (!userDestination) {
+      return c.json({ error: "userDestination is required when dry: false" }, 400);
+    }
+
+    try {
+      const intentMessage: IntentMessage = {
+        intentId: quoteId,
+        sourceChain,
+        sourceAsset: payload.originAsset,
+        sourceAmount,
+        destinationChain: "near",
+        intermediateAmount: amountOut,
+        finalAsset: payload.destinationAsset,
+        slippageBps: payload.slippageTolerance,
+        userDestination,
+        agentDestination: agentNearAddress!,
+        intentsDepositAddress: baseQuote.depositAddress,
+        depositMemo: baseQuote.depositMemo,
+        // Excess is returned here
+        refundAddress: payload.refundTo,
+        metadata: {
+          ...metadata,
+          action: "burrow-repay",
+          tokenId: burrowRepay.tokenId,
+          repayAll: burrowRepay.repayAll === true,
+          targetDefuseAssetId: payload.destinationAsset,
+          slippageTolerance: payload.slippageTolerance,
+        },
+      };
+
+      const validatedIntent = validateIntent(intentMessage);
+      const submitted = await submitIntent(validatedIntent);
+      if (submitted.outcome === "conflict") {
+        throw new Error(submitted.error);
+      }
+      depositToken = submitted.response.depositToken;
+
+      console.info("[intents/quote] Burrow repay intent auto-enqueued", {
+        intentId: quoteId,
+        sourceChain,
+        depositAddress: baseQuote.depositAddress,
+        burrowTokenId: burrowRepay.tokenId,
+      });
+    } catch (err) {
+      console.error("[intents/quote] Failed to auto-enqueue Burrow repay intent", err);
+    }
+  }
+
+  return c.json({
+    timestamp: intentsQuote.timestamp || new Date().toISOString(),
+    signature: intentsQuote.signature || "",
+    quoteRequest: {
+      ...payload,
+      dry: isDryRun,
+    },
+    quote: {
+      ...baseQuote,
+      quoteId,
+      amountOut,
+      minAmountOut: amountOut,
+      destinationAsset: payload.destinationAsset,
+      depositAddress: baseQuote.depositAddress,
+      depositMemo: baseQuote.depositMemo,
+      ...(outstandingDebt && { outstandingDebt }),
+    },
+    depositToken,
   });
 }
 
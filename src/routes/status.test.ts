@@ -1,13 +1,35 @@
 import { describe, expect, it, vi } from "vitest";
 import { Hono } from "hono";
 import statusApp from "./status";
+import { config } from "../config";
+import { encodeCursor } from "../state/statusCursor";
 
-const { getStatusMock } = vi.hoisted(() => ({
+const {
+  getStatusMock,
+  getStatusHistoryMock,
+  listStatusesMock,
+  subscribeStatusChangesMock,
+  getStatusChangesSinceMock,
+  getArchivedIntentMock,
+} = vi.hoisted(() => ({
   getStatusMock: vi.fn(),
+  getStatusHistoryMock: vi.fn(),
+  listStatusesMock: vi.fn(),
+  subscribeStatusChangesMock: vi.fn(),
+  getStatusChangesSinceMock: vi.fn(),
+  getArchivedIntentMock: vi.fn(),
 }));
 
 vi.mock("../state/status", () => ({
   getStatus: getStatusMock,
+  getStatusHistory: getStatusHistoryMock,
+  listStatuses: listStatusesMock,
+  subscribeStatusChanges: subscribeStatusChangesMock,
+  getStatusChangesSince: getStatusChangesSinceMock,
+}));
+
+vi.mock("../state/archive", () => ({
+  getArchivedIntent: getArchivedIntentMock,
 }));
 
 const app = new Hono().route("/api/status", statusApp);
@@ -26,10 +48,173 @@ describe("status route", () => {
 
   it("returns 404 for unknown intent", async () => {
     getStatusMock.mockResolvedValue(null);
+    getArchivedIntentMock.mockResolvedValue(null);
 
     const res = await app.request("/api/status/missing");
     expect(res.status).toBe(404);
     const body = await res.json();
     expect(body.status).toBe("unknown");
   });
+
+  it("returns the status timeline", async () => {
+    const events = [
+      { state: "pending", at: "2024-01-01T00:00:00.000Z" },
+      { state: "processing", attempt: 1, at: "2024-01-01T00:00:01.000Z" },
+      { state: "failed", attempt: 1, error: "boom", at: "2024-01-01T00:00:02.000Z" },
+    ];
+    getStatusHistoryMock.mockResolvedValue(events);
+
+    const res = await app.request("/api/status/intent-1/history");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ intentId: "intent-1", events });
+  });
+
+  it("falls back to the archive once the status has expired", async () => {
+    const events = [{ state: "succeeded", txId: "tx-old", at: "2024-01-01T00:00:02.000Z" }];
+    getStatusMock.mockResolvedValue(null);
+    getStatusHistoryMock.mockResolvedValue([]);
+    getArchivedIntentMock.mockResolvedValue({
+      intentId: "intent-old",
+      archivedAt: "2024-01-01T00:00:02.000Z",
+      status: { state: "succeeded", txId: "tx-old" },
+      events,
+    });
+
+    const res = await app.request("/api/status/intent-old");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      intentId: "intent-old",
+      state: "succeeded",
+      txId: "tx-old",
+      archivedAt: "2024-01-01T00:00:02.000Z",
+    });
+    const history = await app.request("/api/status/intent-old/history");
+    expect(await history.json()).toEqual({ intentId: "intent-old", events });
+  });
+
+  it("returns 404 when an intent has no history", async () => {
+    getStatusHistoryMock.mockResolvedValue([]);
+    getArchivedIntentMock.mockResolvedValue(null);
+
+    const res = await app.request("/api/status/missing/history");
+    expect(res.status).toBe(404);
+  });
+
+  it("lists statuses a page at a time", async () => {
+    const cursor = encodeCursor({ score: 1700000000000, intentId: "intent-2" });
+    listStatusesMock.mockResolvedValue({
+      intents: [{ intentId: "intent-1", state: "pending" }],
+      nextCursor: null,
+    });
+
+    const res = await app.request(`/api/status?limit=500&cursor=${cursor}`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      intents: [{ intentId: "intent-1", state: "pending" }],
+      nextCursor: null,
+    });
+    expect(listStatusesMock).toHaveBeenCalledWith({ limit: 200, cursor });
+  });
+
+  it("rejects a cursor it did not issue", async () => {
+    const res = await app.request("/api/status?cursor=not-a-cursor");
+    expect(res.status).toBe(400);
+  });
+
+  it("passes the filters on, normalizing the creation bounds", async () => {
+    listStatusesMock.mockResolvedValue({ intents: [], nextCursor: null });
+
+    const res = await app.request(
+      "/api/status?state=succeeded&userDestination=alice.near&action=kamino-deposit" +
+        "&sourceChain=near&destinationChain=solana&createdAfter=2024-01-01&createdBefore=2024-01-02T12:00:00Z",
+    );
+    expect(res.status).toBe(200);
+    expect(listStatusesMock).toHaveBeenCalledWith({
+      state: "succeeded",
+      userDestination: "alice.near",
+      action: "kamino-deposit",
+      sourceChain: "near",
+      destinationChain: "solana",
+      createdAfter: "2024-01-01T00:00:00.000Z",
+      createdBefore: "2024-01-02T12:00:00.000Z",
+      limit: 50,
+      cursor: undefined,
+    });
+  });
+
+  it("rejects unknown states and unparseable creation bounds", async () => {
+    expect((await app.request("/api/status?state=done")).status).toBe(400);
+    const res = await app.request("/api/status?createdAfter=yesterday");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("createdAfter");
+  });
+});
+
+describe("status event stream", () => {
+  /** Reads the SSE body until `count` events have arrived, then disconnects */
+  async function readEvents(res: Response, count: number) {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    while (text.split("\n\n").length <= count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    await reader.cancel();
+    return text.split("\n\n").slice(0, count);
+  }
+
+  it("pushes status changes of the intent", async () => {
+    const unsubscribe = vi.fn().mockResolvedValue(undefined);
+    subscribeStatusChangesMock.mockImplementation(async (_feed, listener) => {
+      setTimeout(() => listener({ intentId: "intent-1", state: "processing", at: "t", seq: 7 }), 0);
+      return unsubscribe;
+    });
+
+    const res = await app.request("/api/status/intent-1/events");
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const [event] = await readEvents(res, 1);
+
+    expect(event).toBe(
+      'event: status\ndata: {"intentId":"intent-1","state":"processing","at":"t","seq":7}\nid: 7',
+    );
+    expect(subscribeStatusChangesMock).toHaveBeenCalledWith({ intentId: "intent-1" }, expect.any(Function));
+    await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalled());
+  });
+
+  it("replays changes after Last-Event-ID before live ones, without duplicates", async () => {
+    let publish: (change: unknown) => void = () => {};
+    subscribeStatusChangesMock.mockImplementation(async (_feed, listener) => {
+      publish = listener;
+      return vi.fn().mockResolvedValue(undefined);
+    });
+    getStatusChangesSinceMock.mockImplementation(async () => {
+      // Published while the replay is read, so it also shows up in the replay
+      publish({ intentId: "intent-2", state: "succeeded", at: "t2", seq: 12 });
+      publish({ intentId: "intent-1", state: "failed", at: "t3", seq: 13 });
+      return [
+        { intentId: "intent-1", state: "processing", at: "t1", seq: 11 },
+        { intentId: "intent-2", state: "succeeded", at: "t2", seq: 12 },
+      ];
+    });
+
+    const res = await app.request("/api/status/user/alice.near/events", {
+      headers: { "Last-Event-ID": "10" },
+    });
+    const events = await readEvents(res, 3);
+
+    expect(getStatusChangesSinceMock).toHaveBeenCalledWith({ userDestination: "alice.near" }, 10);
+    expect(events.map((event) => event.match(/^id: (\d+)$/m)?.[1])).toEqual(["11", "12", "13"]);
+  });
+
+  it("sends heartbeats while nothing changes", async () => {
+    config.sseHeartbeatMs = 5;
+    subscribeStatusChangesMock.mockResolvedValue(vi.fn().mockResolvedValue(undefined));
+
+    const res = await app.request("/api/status/intent-1/events");
+    const [event] = await readEvents(res, 1);
+
+    expect(event).toMatch(/^event: heartbeat\ndata: /);
+  });
 });
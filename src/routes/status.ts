@@ -1,31 +1,176 @@
-import { Hono } from "hono";
-import { getStatus, listStatuses } from "../state/status";
+import { Context, Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { config } from "../config";
+import { IntentChain } from "../queue/types";
+import {
+  StatusChange,
+  getStatus,
+  getStatusChangesSince,
+  getStatusHistory,
+  listStatuses,
+  subscribeStatusChanges,
+} from "../state/status";
+import { getArchivedIntent } from "../state/archive";
+import { INTENT_STATES, IntentState } from "../state/intentState";
+import { decodeCursor } from "../state/statusCursor";
+import { StatusFeed } from "../state/statusFeed";
 
 const app = new Hono();
 
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Newest-created intents first. Every filter is optional and they combine with
+ * AND; `createdAfter`/`createdBefore` are inclusive ISO 8601 timestamps.
+ */
 app.get("/", async (c) => {
+  const cursor = c.req.query("cursor") || undefined;
+  if (cursor && !decodeCursor(cursor)) {
+    return c.json({ error: "Invalid cursor" }, 400);
+  }
+  const state = c.req.query("state") || undefined;
+  if (state && !INTENT_STATES.includes(state as IntentState)) {
+    return c.json({ error: `state must be one of: ${INTENT_STATES.join(", ")}` }, 400);
+  }
+  const createdAfter = c.req.query("createdAfter") || undefined;
+  const createdBefore = c.req.query("createdBefore") || undefined;
+  for (const [name, value] of [["createdAfter", createdAfter], ["createdBefore", createdBefore]]) {
+    if (value && Number.isNaN(Date.parse(value))) {
+      return c.json({ error: `${name} must be an ISO 8601 timestamp` }, 400);
+    }
+  }
   try {
-    const limit = parseInt(c.req.query("limit") || "", 10) || 50;
-    const intents = await listStatuses(limit);
-    return c.json({ intents });
+    const limit = Math.min(parseInt(c.req.query("limit") || "", 10) || 50, MAX_PAGE_SIZE);
+    const { intents, nextCursor } = await listStatuses({
+      state: state as IntentState | undefined,
+      userDestination: c.req.query("userDestination") || undefined,
+      action: c.req.query("action") || undefined,
+      sourceChain: (c.req.query("sourceChain") || undefined) as IntentChain | undefined,
+      destinationChain: (c.req.query("destinationChain") || undefined) as IntentChain | undefined,
+      createdAfter: createdAfter && new Date(createdAfter).toISOString(),
+      createdBefore: createdBefore && new Date(createdBefore).toISOString(),
+      limit,
+      cursor,
+    });
+    return c.json({ intents, nextCursor });
   } catch (err) {
     console.error("Failed to list intent statuses", err);
     return c.json({ error: "Failed to list intent statuses" }, 500);
   }
 });
 
+/** Falls back to the archive once the status has expired from the store */
 app.get("/:intentId", async (c) => {
   const intentId = c.req.param("intentId");
   try {
     const status = await getStatus(intentId);
-    if (!status) {
-      return c.json({ intentId, status: "unknown" }, 404);
+    if (status) {
+      return c.json({ intentId, ...status });
     }
-    return c.json({ intentId, ...status });
+    const archived = await getArchivedIntent(intentId);
+    if (archived) {
+      return c.json({ intentId, ...archived.status, archivedAt: archived.archivedAt });
+    }
+    return c.json({ intentId, status: "unknown" }, 404);
   } catch (err) {
     console.error("Failed to read intent status", err);
     return c.json({ error: "Failed to read intent status" }, 500);
   }
 });
 
+/** Every status change of the intent, oldest first */
+app.get("/:intentId/history", async (c) => {
+  const intentId = c.req.param("intentId");
+  try {
+    let events = await getStatusHistory(intentId);
+    if (!events.length) {
+      events = (await getArchivedIntent(intentId))?.events ?? [];
+    }
+    if (!events.length) {
+      return c.json({ intentId, status: "unknown" }, 404);
+    }
+    return c.json({ intentId, events });
+  } catch (err) {
+    console.error("Failed to read intent status history", err);
+    return c.json({ error: "Failed to read intent status history" }, 500);
+  }
+});
+
+/** Status changes of the intent as they happen (server-sent events) */
+app.get("/:intentId/events", (c) => streamStatusChanges(c, { intentId: c.req.param("intentId") }));
+
+/** Status changes of every intent of the user as they happen (server-sent events) */
+app.get("/user/:userDestination/events", (c) =>
+  streamStatusChanges(c, { userDestination: c.req.param("userDestination") }),
+);
+
+/**
+ * Sends each change as a `status` event with its `seq` as the event id, plus
+ * a `heartbeat` event every SSE_HEARTBEAT_MS. A `Last-Event-ID` header (sent
+ * by EventSource when it reconnects) first replays the changes after it.
+ */
+function streamStatusChanges(c: Context, feed: StatusFeed) {
+  const lastEventId = parseInt(c.req.header("Last-Event-ID") || "", 10);
+
+  return streamSSE(c, async (stream) => {
+    let lastSeq = Number.isNaN(lastEventId) ? null : lastEventId;
+    const send = async (change: StatusChange) => {
+      if (change.seq !== undefined) {
+        // Changes published while the replay was read arrive twice
+        if (lastSeq !== null && change.seq <= lastSeq) return;
+        lastSeq = change.seq;
+      }
+      await stream.writeSSE({
+        event: "status",
+        id: change.seq?.toString(),
+        data: JSON.stringify(change),
+      });
+    };
+
+    // One chain for every write, so replayed, live and heartbeat events stay in order
+    let writes = Promise.resolve();
+    const write = (task: () => Promise<void>) => {
+      writes = writes.then(task).catch(() => stream.abort());
+      return writes;
+    };
+
+    // Subscribe before reading the replay so nothing falls in between; live
+    // changes wait until the replay is out
+    const held: StatusChange[] = [];
+    let live = lastSeq === null;
+    const unsubscribe = await subscribeStatusChanges(feed, (change) => {
+      if (live) {
+        void write(() => send(change));
+      } else {
+        held.push(change);
+      }
+    });
+    try {
+      if (lastSeq !== null) {
+        const since = lastSeq;
+        await write(async () => {
+          for (const change of await getStatusChangesSince(feed, since)) {
+            await send(change);
+          }
+          live = true;
+          for (const change of held.splice(0)) {
+            await send(change);
+          }
+        });
+      }
+      // Wake up as soon as the client goes away rather than at the next heartbeat
+      const disconnected = new Promise<void>((resolve) => stream.onAbort(resolve));
+      while (!stream.aborted && !stream.closed) {
+        await Promise.race([stream.sleep(config.sseHeartbeatMs), disconnected]);
+        if (stream.aborted) break;
+        await write(() =>
+          stream.writeSSE({ event: "heartbeat", data: new Date().toISOString() }),
+        );
+      }
+    } finally {
+      await unsubscribe();
+    }
+  });
+}
+
 export default app;
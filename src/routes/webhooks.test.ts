@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+import webhooksApp from "./webhooks";
+import { config } from "../config";
+
+const { listWebhookDeliveriesMock, getWebhookDeliveryMock, redeliverWebhookMock } = vi.hoisted(
+  () => ({
+    listWebhookDeliveriesMock: vi.fn(),
+    getWebhookDeliveryMock: vi.fn(),
+    redeliverWebhookMock: vi.fn(),
+  }),
+);
+
+vi.mock("../state/webhooks", () => ({
+  listWebhookDeliveries: listWebhookDeliveriesMock,
+  getWebhookDelivery: getWebhookDeliveryMock,
+  redeliverWebhook: redeliverWebhookMock,
+}));
+
+const app = new Hono().route("/api/admin/webhooks", webhooksApp);
+const auth = { Authorization: "Bearer secret" };
+
+describe("webhooks admin route", () => {
+  beforeEach(() => {
+    listWebhookDeliveriesMock.mockReset();
+    getWebhookDeliveryMock.mockReset();
+    redeliverWebhookMock.mockReset();
+    config.adminApiKey = "secret";
+  });
+
+  it("requires the admin key", async () => {
+    const res = await app.request("/api/admin/webhooks/intents/intent-1");
+    expect(res.status).toBe(401);
+  });
+
+  it("returns the delivery log of an intent", async () => {
+    const deliveries = [{ deliveryId: "d-1", intentId: "intent-1", state: "delivered" }];
+    listWebhookDeliveriesMock.mockResolvedValue(deliveries);
+
+    const res = await app.request("/api/admin/webhooks/intents/intent-1", { headers: auth });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ intentId: "intent-1", deliveries });
+  });
+
+  it("schedules a redelivery", async () => {
+    redeliverWebhookMock.mockResolvedValue({ deliveryId: "d-1", intentId: "intent-1", state: "pending" });
+
+    const res = await app.request("/api/admin/webhooks/deliveries/d-1/redeliver", {
+      method: "POST",
+      headers: auth,
+    });
+    expect(res.status).toBe(202);
+    expect(redeliverWebhookMock).toHaveBeenCalledWith("d-1");
+  });
+
+  it("returns 404 when redelivering an unknown delivery", async () => {
+    redeliverWebhookMock.mockResolvedValue(null);
+
+    const res = await app.request("/api/admin/webhooks/deliveries/missing/redeliver", {
+      method: "POST",
+      headers: auth,
+    });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,56 @@
+import { Hono } from "hono";
+import {
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  redeliverWebhook,
+} from "../state/webhooks";
+import { requireAdmin } from "../utils/adminAuth";
+
+const app = new Hono();
+
+app.use("*", requireAdmin);
+
+// GET /api/admin/webhooks/intents/:intentId - delivery log of the intent
+app.get("/intents/:intentId", async (c) => {
+  const intentId = c.req.param("intentId");
+  try {
+    const deliveries = await listWebhookDeliveries(intentId);
+    return c.json({ intentId, deliveries });
+  } catch (err) {
+    console.error("[webhooks] Failed to list webhook deliveries", err);
+    return c.json({ error: "Failed to list webhook deliveries" }, 500);
+  }
+});
+
+// GET /api/admin/webhooks/deliveries/:deliveryId
+app.get("/deliveries/:deliveryId", async (c) => {
+  const deliveryId = c.req.param("deliveryId");
+  try {
+    const delivery = await getWebhookDelivery(deliveryId);
+    if (!delivery) {
+      return c.json({ error: "Webhook delivery not found" }, 404);
+    }
+    return c.json(delivery);
+  } catch (err) {
+    console.error("[webhooks] Failed to read webhook delivery", err);
+    return c.json({ error: "Failed to read webhook delivery" }, 500);
+  }
+});
+
+// POST /api/admin/webhooks/deliveries/:deliveryId/redeliver - send it again with fresh attempts
+app.post("/deliveries/:deliveryId/redeliver", async (c) => {
+  const deliveryId = c.req.param("deliveryId");
+  try {
+    const delivery = await redeliverWebhook(deliveryId);
+    if (!delivery) {
+      return c.json({ error: "Webhook delivery not found" }, 404);
+    }
+    console.info("[webhooks] Redelivery scheduled", { deliveryId, intentId: delivery.intentId });
+    return c.json(delivery, 202);
+  } catch (err) {
+    console.error("[webhooks] Failed to schedule webhook redelivery", err);
+    return c.json({ error: "Failed to schedule webhook redelivery" }, 500);
+  }
+});
+
+export default app;
@@ -0,0 +1,55 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { config } from "../config";
+import { archiveIntent, getArchivedIntent } from "./archive";
+import { setStatus } from "./status";
+
+config.stateBackend = "memory";
+
+describe("intent archive", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "intent-archive-"));
+    config.archiveDir = dir;
+  });
+
+  afterEach(async () => {
+    config.archiveDir = "";
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("archives intents with their timeline once they reach a terminal state", async () => {
+    const intentData = { intentId: "archive-1", userDestination: "alice.near" } as never;
+    await setStatus("archive-1", { state: "pending", userDestination: "alice.near" });
+    expect(await getArchivedIntent("archive-1")).toBeNull();
+
+    await setStatus("archive-1", { state: "processing", attempt: 1 });
+    await setStatus("archive-1", { state: "succeeded", attempt: 1, txId: "tx-1", intentData });
+
+    const archived = await getArchivedIntent("archive-1");
+    expect(archived).toMatchObject({
+      intentId: "archive-1",
+      status: { state: "succeeded", txId: "tx-1", userDestination: "alice.near", intentData },
+    });
+    expect(archived!.events.map((event) => event.state)).toEqual(["pending", "processing", "succeeded"]);
+  });
+
+  it("returns the newest record of a reused intentId", async () => {
+    const record = { intentId: "archive-2", archivedAt: "2024-01-01T00:00:00.000Z", events: [] };
+    await archiveIntent({ ...record, status: { state: "failed" } });
+    await archiveIntent({ ...record, status: { state: "succeeded" } });
+
+    expect((await getArchivedIntent("archive-2"))?.status.state).toBe("succeeded");
+    expect(await getArchivedIntent("never-archived")).toBeNull();
+  });
+
+  it("is a no-op lookup when archiving is off", async () => {
+    await archiveIntent({ intentId: "archive-3", archivedAt: "", status: { state: "failed" }, events: [] });
+    config.archiveDir = "";
+
+    expect(await getArchivedIntent("archive-3")).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { config } from "../config";
+import type { IntentStatus, IntentStatusEvent } from "./status";
+
+/**
+ * Durable copy of terminal intents, for lookups after their status expired
+ * from the status store. Records are appended as JSON lines to one of
+ * ARCHIVE_SHARDS files under ARCHIVE_DIR, picked by a hash of the intentId,
+ * so a lookup reads one shard rather than the whole archive.
+ */
+
+const ARCHIVE_SHARDS = 256;
+
+export interface ArchivedIntent {
+  intentId: string;
+  archivedAt: string;
+  /** Terminal snapshot, including `intentData` when the intent had reached the consumer */
+  status: IntentStatus;
+  /** Timeline, oldest first */
+  events: IntentStatusEvent[];
+}
+
+export function isArchiveEnabled(): boolean {
+  return config.archiveDir !== "";
+}
+
+function shardPath(intentId: string): string {
+  const digest = crypto.createHash("sha256").update(intentId).digest();
+  const shard = digest.readUInt16BE(0) % ARCHIVE_SHARDS;
+  return path.join(config.archiveDir, `intents-${shard.toString(16).padStart(2, "0")}.jsonl`);
+}
+
+/**
+ * Appends the record to its shard. Each record is a single write, so
+ * concurrent writers on one host do not interleave lines.
+ */
+export async function archiveIntent(record: ArchivedIntent): Promise<void> {
+  const file = shardPath(record.intentId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, `${JSON.stringify(record)}\n`);
+}
+
+/**
+ * Latest archived record of the intent, or null when it was never archived
+ * (or archiving is off). A reused intentId is archived again, and the newest
+ * record wins.
+ */
+export async function getArchivedIntent(intentId: string): Promise<ArchivedIntent | null> {
+  if (!isArchiveEnabled()) return null;
+
+  let file: fs.FileHandle;
+  try {
+    file = await fs.open(shardPath(intentId), "r");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+
+  // Cheap pre-check so only candidate lines are parsed
+  const needle = `"intentId":${JSON.stringify(intentId)}`;
+  let found: ArchivedIntent | null = null;
+  try {
+    for await (const line of file.readLines()) {
+      if (!line.includes(needle)) continue;
+      try {
+        const record = JSON.parse(line) as ArchivedIntent;
+        if (record.intentId === intentId) found = record;
+      } catch (err) {
+        console.error("[archive] Skipping unreadable archive line", err);
+      }
+    }
+  } finally {
+    await file.close();
+  }
+  return found;
+}
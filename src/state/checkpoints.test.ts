@@ -0,0 +1,86 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import { config } from "../config";
+import { expireCheckpoints, runStep } from "./checkpoints";
+
+const { redisMock } = vi.hoisted(() => {
+  const multi = {
+    hset: vi.fn().mockReturnThis(),
+    persist: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockResolvedValue([]),
+  };
+  return {
+    redisMock: {
+      on: vi.fn(),
+      hget: vi.fn(),
+      hgetall: vi.fn(),
+      expire: vi.fn(),
+      multi: vi.fn(() => multi),
+      multiMock: multi,
+    },
+  };
+});
+
+vi.mock("ioredis", () => ({
+  default: vi.fn().mockImplementation(() => redisMock),
+}));
+
+describe("runStep", () => {
+  beforeEach(() => {
+    redisMock.hget.mockReset();
+    redisMock.multiMock.hset.mockClear();
+    redisMock.multiMock.expire.mockClear();
+  });
+
+  it("runs the step and records its result", async () => {
+    redisMock.hget.mockResolvedValue(null);
+    const fn = vi.fn().mockResolvedValue({ txId: "tx-1" });
+
+    const result = await runStep("intent-1", "deposit", fn);
+
+    expect(result).toEqual({ txId: "tx-1" });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(redisMock.multiMock.hset).toHaveBeenCalledWith(
+      "intent:steps:intent-1",
+      "deposit",
+      JSON.stringify({ txId: "tx-1" }),
+    );
+  });
+
+  it("returns the recorded result without re-running a completed step", async () => {
+    redisMock.hget.mockResolvedValue(JSON.stringify({ txId: "tx-1" }));
+    const fn = vi.fn();
+
+    const result = await runStep("intent-1", "deposit", fn);
+
+    expect(result).toEqual({ txId: "tx-1" });
+    expect(fn).not.toHaveBeenCalled();
+    expect(redisMock.multiMock.hset).not.toHaveBeenCalled();
+  });
+
+  it("does not record a step that throws", async () => {
+    redisMock.hget.mockResolvedValue(null);
+
+    await expect(
+      runStep("intent-1", "deposit", () => Promise.reject(new Error("boom"))),
+    ).rejects.toThrow("boom");
+    expect(redisMock.multiMock.hset).not.toHaveBeenCalled();
+  });
+
+  it("keeps the recorded steps until the intent ends", async () => {
+    redisMock.hget.mockResolvedValue(null);
+
+    await runStep("intent-1", "deposit", () => Promise.resolve({ txId: "tx-1" }));
+
+    expect(redisMock.multiMock.persist).toHaveBeenCalledWith("intent:steps:intent-1");
+    expect(redisMock.multiMock.expire).not.toHaveBeenCalled();
+  });
+});
+
+describe("expireCheckpoints", () => {
+  it("lets the steps expire with the status", async () => {
+    await expireCheckpoints("intent-1");
+
+    expect(redisMock.expire).toHaveBeenCalledWith("intent:steps:intent-1", config.statusTtlSeconds);
+  });
+});
@@ -0,0 +1,197 @@
+import Redis from "ioredis";
+import { config } from "../config";
+
+/**
+ * Per-intent step checkpoints. Flows split their on-chain work into named
+ * steps; once a step's result is recorded here, a retry (consumer retry,
+ * reaper redelivery or dead-letter replay) returns the recorded result
+ * instead of executing the step again.
+ *
+ * Dead-letter entries never expire, so neither do the checkpoints of an
+ * intent that may still be replayed: they only start expiring, along with the
+ * status, once the intent ends for good (see expireCheckpoints).
+ */
+
+const CHECKPOINT_PREFIX = "intent:steps:";
+const CHECKPOINT_TTL_SECONDS = config.statusTtlSeconds;
+
+/** Step results are stored as JSON strings, keyed by step name */
+interface CheckpointStore {
+  get(intentId: string, step: string): Promise<string | null>;
+  save(intentId: string, step: string, value: string): Promise<void>;
+  getAll(intentId: string): Promise<Record<string, string>>;
+  expire(intentId: string): Promise<void>;
+  clear(intentId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+function checkpointKey(intentId: string) {
+  return `${CHECKPOINT_PREFIX}${intentId}`;
+}
+
+class RedisCheckpointStore implements CheckpointStore {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: true,
+    });
+    this.redis.on("error", (err) => {
+      console.error("Redis connection error (checkpoint store)", err);
+    });
+  }
+
+  async get(intentId: string, step: string) {
+    return this.redis.hget(checkpointKey(intentId), step);
+  }
+
+  async save(intentId: string, step: string, value: string) {
+    const key = checkpointKey(intentId);
+    // A step recorded after the intent was replayed keeps it until it ends again
+    await this.redis
+      .multi()
+      .hset(key, step, value)
+      .persist(key)
+      .exec();
+  }
+
+  async getAll(intentId: string) {
+    return this.redis.hgetall(checkpointKey(intentId));
+  }
+
+  async expire(intentId: string) {
+    await this.redis.expire(checkpointKey(intentId), CHECKPOINT_TTL_SECONDS);
+  }
+
+  async clear(intentId: string) {
+    await this.redis.del(checkpointKey(intentId));
+  }
+
+  async close() {
+    await this.redis.quit();
+  }
+}
+
+class MemoryCheckpointStore implements CheckpointStore {
+  private steps = new Map<string, { values: Record<string, string>; expiresAt?: number }>();
+
+  async get(intentId: string, step: string) {
+    return (await this.getAll(intentId))[step] ?? null;
+  }
+
+  async save(intentId: string, step: string, value: string) {
+    const values = await this.getAll(intentId);
+    this.steps.set(intentId, { values: { ...values, [step]: value } });
+  }
+
+  async getAll(intentId: string) {
+    const entry = this.steps.get(intentId);
+    if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+      this.steps.delete(intentId);
+      return {};
+    }
+    return { ...entry.values };
+  }
+
+  async expire(intentId: string) {
+    const entry = this.steps.get(intentId);
+    if (entry) entry.expiresAt = Date.now() + CHECKPOINT_TTL_SECONDS * 1000;
+  }
+
+  async clear(intentId: string) {
+    this.steps.delete(intentId);
+  }
+
+  async close() {
+    // Nothing to close; checkpoints are kept for the life of the process
+  }
+}
+
+let store: CheckpointStore | null = null;
+
+/** Follows STATE_BACKEND, like the status store; created on first use */
+function getCheckpointStore(): CheckpointStore {
+  if (store) return store;
+  switch (config.stateBackend) {
+    case "redis":
+      store = new RedisCheckpointStore();
+      break;
+    case "memory":
+      store = new MemoryCheckpointStore();
+      break;
+    default:
+      throw new Error(`Unknown STATE_BACKEND: ${config.stateBackend}`);
+  }
+  return store;
+}
+
+/** Closes the store's connection; the next call reopens it */
+export async function closeCheckpointStore() {
+  const current = store;
+  store = null;
+  await current?.close();
+}
+
+export async function getCheckpoint<T>(intentId: string, step: string): Promise<T | null> {
+  const raw = await getCheckpointStore().get(intentId, step);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    console.error("Failed to parse step checkpoint", err);
+    return null;
+  }
+}
+
+export async function saveCheckpoint<T>(intentId: string, step: string, result: T) {
+  await getCheckpointStore().save(intentId, step, JSON.stringify(result));
+}
+
+export async function listCheckpoints(intentId: string): Promise<Record<string, unknown>> {
+  const raw = await getCheckpointStore().getAll(intentId);
+  const steps: Record<string, unknown> = {};
+  for (const [step, value] of Object.entries(raw)) {
+    try {
+      steps[step] = JSON.parse(value);
+    } catch {
+      steps[step] = value;
+    }
+  }
+  return steps;
+}
+
+/**
+ * Lets an intent's checkpoints expire with its status, once nothing can run it
+ * again: it succeeded, was refunded or expired, or its dead-letter entry was
+ * purged.
+ */
+export async function expireCheckpoints(intentId: string) {
+  await getCheckpointStore().expire(intentId);
+}
+
+/** Forgets every step of an intent, so a reused intentId starts from scratch */
+export async function clearCheckpoints(intentId: string) {
+  await getCheckpointStore().clear(intentId);
+}
+
+/**
+ * Runs `fn` unless `step` already completed for this intent, in which case the
+ * recorded result is returned. Only successful results are recorded, so a step
+ * that throws runs again on the next attempt.
+ */
+export async function runStep<T>(
+  intentId: string,
+  step: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const existing = await getCheckpoint<T>(intentId, step);
+  if (existing !== null) {
+    console.log(`[checkpoints] Intent ${intentId} step "${step}" already completed, skipping`);
+    return existing;
+  }
+
+  const result = await fn();
+  await saveCheckpoint(intentId, step, result);
+  return result;
+}
@@ -0,0 +1,321 @@
+import Redis from "ioredis";
+import { config } from "../config";
+
+/**
+ * Submission records for idempotent intent intake. Claiming an intentId (and
+ * its originTxHash, if any) is atomic, so concurrent retries of the same
+ * request enqueue the intent exactly once across all replicas.
+ */
+
+const SUBMISSION_PREFIX = "intent:submission:";
+const ORIGIN_TX_PREFIX = "intent:origin-tx:";
+const SUBMISSION_TTL_SECONDS = config.statusTtlSeconds;
+
+export interface SubmissionResponse {
+  intentId: string;
+  state: "pending" | "scheduled";
+  /**
+   * Bearer token for reporting the deposit tx (`POST /:intentId/deposit`);
+   * issued to intents funded through a 1-Click deposit address
+   */
+  depositToken?: string;
+}
+
+export interface IntentSubmission {
+  intentId: string;
+  /** Hash of the submitted intent, to tell exact replays from conflicting reuse */
+  fingerprint: string;
+  originTxHash?: string;
+  /** Body of the original 202 response, returned again on exact replays */
+  response: SubmissionResponse;
+  submittedAt: string;
+  /**
+   * Agent account's balance of the token the bridge leg delivers, taken at
+   * submission: by the time the consumer runs, the swap may have settled
+   */
+  agentBalanceBefore?: string;
+}
+
+export type ClaimResult =
+  | { outcome: "claimed" }
+  /** The intentId was already submitted; `stored` is needed to replace it */
+  | { outcome: "exists"; existing: IntentSubmission; stored: string }
+  /** The originTxHash already authorized a different intent */
+  | { outcome: "origin-used"; intentId: string };
+
+export type AttachOriginResult =
+  | { outcome: "attached" }
+  /** No submission record for the intentId (never submitted, or expired) */
+  | { outcome: "missing" }
+  /** The intent already has a different deposit tx */
+  | { outcome: "conflict"; originTxHash: string }
+  /** The originTxHash already authorized a different intent */
+  | { outcome: "origin-used"; intentId: string };
+
+/**
+ * KEYS: submission, [origin tx]
+ * ARGV: record, intentId, stored record to replace ("" for none), ttl seconds
+ * Returns {"claimed"}, {"exists", stored} or {"origin", intentId}.
+ */
+const CLAIM_SCRIPT = `
+local existing = redis.call("GET", KEYS[1])
+if existing and existing ~= ARGV[3] then
+  return {"exists", existing}
+end
+if #KEYS == 2 then
+  local owner = redis.call("GET", KEYS[2])
+  if owner and owner ~= ARGV[2] then
+    return {"origin", owner}
+  end
+  redis.call("SET", KEYS[2], ARGV[2], "EX", ARGV[4])
+end
+redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[4])
+return {"claimed"}
+`;
+
+/**
+ * KEYS: submission, [origin tx]
+ * ARGV: stored record, intentId
+ */
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("DEL", KEYS[1])
+end
+if #KEYS == 2 and redis.call("GET", KEYS[2]) == ARGV[2] then
+  redis.call("DEL", KEYS[2])
+end
+return 1
+`;
+
+/**
+ * KEYS: submission, origin tx
+ * ARGV: intentId, origin tx hash, ttl seconds
+ * Returns {"attached"}, {"missing"}, {"conflict", originTxHash} or {"origin", intentId}.
+ */
+const ATTACH_ORIGIN_SCRIPT = `
+local existing = redis.call("GET", KEYS[1])
+if not existing then
+  return {"missing"}
+end
+local record = cjson.decode(existing)
+if record.originTxHash and record.originTxHash ~= ARGV[2] then
+  return {"conflict", record.originTxHash}
+end
+local owner = redis.call("GET", KEYS[2])
+if owner and owner ~= ARGV[1] then
+  return {"origin", owner}
+end
+redis.call("SET", KEYS[2], ARGV[1], "EX", ARGV[3])
+record.originTxHash = ARGV[2]
+redis.call("SET", KEYS[1], cjson.encode(record), "KEEPTTL")
+return {"attached"}
+`;
+
+interface SubmissionStore {
+  claim(record: string, submission: IntentSubmission, replace: string): Promise<string[]>;
+  release(record: string, submission: IntentSubmission): Promise<void>;
+  get(intentId: string): Promise<string | null>;
+  attachOrigin(intentId: string, originTxHash: string): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+function submissionKey(intentId: string) {
+  return `${SUBMISSION_PREFIX}${intentId}`;
+}
+
+function originTxKey(originTxHash: string) {
+  return `${ORIGIN_TX_PREFIX}${originTxHash}`;
+}
+
+function submissionKeys(submission: IntentSubmission): string[] {
+  const keys = [submissionKey(submission.intentId)];
+  if (submission.originTxHash) {
+    keys.push(originTxKey(submission.originTxHash));
+  }
+  return keys;
+}
+
+class RedisSubmissionStore implements SubmissionStore {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: true,
+    });
+    this.redis.on("error", (err) => {
+      console.error("Redis connection error (submission store)", err);
+    });
+  }
+
+  async claim(record: string, submission: IntentSubmission, replace: string) {
+    const keys = submissionKeys(submission);
+    return (await this.redis.eval(
+      CLAIM_SCRIPT,
+      keys.length,
+      ...keys,
+      record,
+      submission.intentId,
+      replace,
+      SUBMISSION_TTL_SECONDS,
+    )) as string[];
+  }
+
+  async release(record: string, submission: IntentSubmission) {
+    const keys = submissionKeys(submission);
+    await this.redis.eval(RELEASE_SCRIPT, keys.length, ...keys, record, submission.intentId);
+  }
+
+  async get(intentId: string) {
+    return this.redis.get(submissionKey(intentId));
+  }
+
+  async attachOrigin(intentId: string, originTxHash: string) {
+    return (await this.redis.eval(
+      ATTACH_ORIGIN_SCRIPT,
+      2,
+      submissionKey(intentId),
+      originTxKey(originTxHash),
+      intentId,
+      originTxHash,
+      SUBMISSION_TTL_SECONDS,
+    )) as string[];
+  }
+
+  async close() {
+    await this.redis.quit();
+  }
+}
+
+class MemorySubmissionStore implements SubmissionStore {
+  private values = new Map<string, { value: string; expiresAt: number }>();
+
+  async claim(record: string, submission: IntentSubmission, replace: string) {
+    const [submissionKey, originKey] = submissionKeys(submission);
+    const existing = this.read(submissionKey);
+    if (existing !== null && existing !== replace) {
+      return ["exists", existing];
+    }
+    if (originKey) {
+      const owner = this.read(originKey);
+      if (owner !== null && owner !== submission.intentId) {
+        return ["origin", owner];
+      }
+      this.set(originKey, submission.intentId);
+    }
+    this.set(submissionKey, record);
+    return ["claimed"];
+  }
+
+  async release(record: string, submission: IntentSubmission) {
+    const [submissionKey, originKey] = submissionKeys(submission);
+    if (this.read(submissionKey) === record) this.values.delete(submissionKey);
+    if (originKey && this.read(originKey) === submission.intentId) this.values.delete(originKey);
+  }
+
+  async get(intentId: string) {
+    return this.read(submissionKey(intentId));
+  }
+
+  async attachOrigin(intentId: string, originTxHash: string) {
+    const key = submissionKey(intentId);
+    const existing = this.read(key);
+    if (existing === null) return ["missing"];
+    const record = JSON.parse(existing) as IntentSubmission;
+    if (record.originTxHash && record.originTxHash !== originTxHash) {
+      return ["conflict", record.originTxHash];
+    }
+    const originKey = originTxKey(originTxHash);
+    const owner = this.read(originKey);
+    if (owner !== null && owner !== intentId) return ["origin", owner];
+    this.set(originKey, intentId);
+    // Keeps the record's expiry, like KEEPTTL
+    const { expiresAt } = this.values.get(key)!;
+    this.values.set(key, { value: JSON.stringify({ ...record, originTxHash }), expiresAt });
+    return ["attached"];
+  }
+
+  async close() {
+    // Nothing to close; records are kept for the life of the process
+  }
+
+  private read(key: string): string | null {
+    const entry = this.values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private set(key: string, value: string) {
+    this.values.set(key, { value, expiresAt: Date.now() + SUBMISSION_TTL_SECONDS * 1000 });
+  }
+}
+
+let store: SubmissionStore | null = null;
+
+/** Follows STATE_BACKEND, like the status store; created on first use */
+function getSubmissionStore(): SubmissionStore {
+  if (store) return store;
+  switch (config.stateBackend) {
+    case "redis":
+      store = new RedisSubmissionStore();
+      break;
+    case "memory":
+      store = new MemorySubmissionStore();
+      break;
+    default:
+      throw new Error(`Unknown STATE_BACKEND: ${config.stateBackend}`);
+  }
+  return store;
+}
+
+/** Closes the store's connection; the next call reopens it */
+export async function closeSubmissionStore() {
+  const current = store;
+  store = null;
+  await current?.close();
+}
+
+/**
+ * Records the submission unless its intentId or originTxHash is already taken.
+ * Pass `replace` (the `stored` value from an earlier "exists" result) to take
+ * over an intentId whose previous submission is finished.
+ */
+export async function claimSubmission(
+  submission: IntentSubmission,
+  replace?: string,
+): Promise<ClaimResult> {
+  const record = JSON.stringify(submission);
+  const [outcome, value] = await getSubmissionStore().claim(record, submission, replace ?? "");
+
+  if (outcome === "claimed") return { outcome: "claimed" };
+  if (outcome === "origin") return { outcome: "origin-used", intentId: value };
+  return { outcome: "exists", existing: JSON.parse(value) as IntentSubmission, stored: value };
+}
+
+/** Undoes a claim whose intent could not be enqueued, so the client can retry */
+export async function releaseSubmission(submission: IntentSubmission) {
+  await getSubmissionStore().release(JSON.stringify(submission), submission);
+}
+
+export async function getSubmission(intentId: string): Promise<IntentSubmission | null> {
+  const raw = await getSubmissionStore().get(intentId);
+  return raw ? (JSON.parse(raw) as IntentSubmission) : null;
+}
+
+/**
+ * Records `originTxHash` as the deposit tx of an already submitted intent, under
+ * the same rule as `claimSubmission`: a tx hash authorizes one intent only, and
+ * an intent has one deposit tx.
+ */
+export async function attachOriginTx(intentId: string, originTxHash: string): Promise<AttachOriginResult> {
+  const [outcome, value] = await getSubmissionStore().attachOrigin(intentId, originTxHash);
+
+  if (outcome === "attached") return { outcome: "attached" };
+  if (outcome === "missing") return { outcome: "missing" };
+  if (outcome === "conflict") return { outcome: "conflict", originTxHash: value };
+  return { outcome: "origin-used", intentId: value };
+}
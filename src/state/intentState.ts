@@ -0,0 +1,67 @@
+/** Lifecycle states of an intent, shared by the status store and its indexes */
+export type IntentState =
+  | "pending"
+  | "scheduled"
+  | "processing"
+  | "awaiting_deposit"
+  | "awaiting_intents"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  | "refunded"
+  | "expired";
+
+export const INTENT_STATES: readonly IntentState[] = [
+  "pending",
+  "scheduled",
+  "processing",
+  "awaiting_deposit",
+  "awaiting_intents",
+  "succeeded",
+  "failed",
+  "cancelled",
+  "refunded",
+  "expired",
+];
+
+/** States after which an intent will not be processed again on its own */
+export const TERMINAL_STATES: readonly IntentState[] = [
+  "succeeded",
+  "failed",
+  "cancelled",
+  "refunded",
+  "expired",
+];
+
+export function isTerminalState(state: IntentState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+/**
+ * Legal next states of each state. Non-terminal states may also be written
+ * again (a new attempt, a new `detail`). `failed` only leaves its state when
+ * an operator replays the intent from the dead-letter list, or when the funds
+ * are returned to the user.
+ */
+export const INTENT_TRANSITIONS: Readonly<Record<IntentState, readonly IntentState[]>> = {
+  pending: ["scheduled", "processing", "awaiting_deposit", "failed", "cancelled"],
+  scheduled: ["pending", "processing", "failed", "cancelled"],
+  awaiting_deposit: ["pending", "scheduled", "processing", "awaiting_intents", "failed", "cancelled", "expired"],
+  processing: ["scheduled", "awaiting_deposit", "awaiting_intents", "succeeded", "failed"],
+  awaiting_intents: ["processing", "awaiting_deposit", "failed", "refunded", "expired"],
+  succeeded: [],
+  failed: ["pending", "refunded"],
+  cancelled: [],
+  refunded: [],
+  expired: [],
+};
+
+export function canTransition(from: IntentState, to: IntentState): boolean {
+  if (from === to) return !isTerminalState(from);
+  return INTENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** States an intent may be in for a write of `to` to be accepted */
+export function statesBefore(to: IntentState): IntentState[] {
+  return INTENT_STATES.filter((from) => canTransition(from, to));
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { acquireLock, extendLock, releaseLock, startLeaderElection, withLock } from "./locks";
+import { config } from "../config";
+
+config.stateBackend = "memory";
+
+describe("locks", () => {
+  it("lets only one holder acquire a lock until it is released", async () => {
+    const first = await acquireLock("user:a", 1_000);
+    expect(first).not.toBeNull();
+    expect(await acquireLock("user:a", 1_000)).toBeNull();
+    expect(await acquireLock("user:b", 1_000)).not.toBeNull();
+
+    expect(await releaseLock(first!)).toBe(true);
+    expect(await acquireLock("user:a", 1_000)).not.toBeNull();
+  });
+
+  it("does not let a stale holder extend or release someone else's lock", async () => {
+    const stale = await acquireLock("user:c", 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const current = await acquireLock("user:c", 1_000);
+
+    expect(current).not.toBeNull();
+    expect(await extendLock(stale!, 1_000)).toBe(false);
+    expect(await releaseLock(stale!)).toBe(false);
+    expect(await releaseLock(current!)).toBe(true);
+  });
+
+  it("runs withLock callers one at a time", async () => {
+    const events: string[] = [];
+    const task = (id: string) =>
+      withLock(
+        "user:d",
+        async () => {
+          events.push(`start ${id}`);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          events.push(`end ${id}`);
+        },
+        { ttlMs: 1_000, retryMs: 5 },
+      );
+
+    await Promise.all([task("1"), task("2")]);
+
+    expect(events).toEqual(["start 1", "end 1", "start 2", "end 2"]);
+  });
+
+  it("stops waiting when aborted", async () => {
+    const held = await acquireLock("user:e", 1_000);
+    const abort = new AbortController();
+    const waiting = withLock("user:e", async () => "ran", {
+      ttlMs: 1_000,
+      retryMs: 5,
+      signal: abort.signal,
+    });
+
+    abort.abort();
+    await expect(waiting).rejects.toThrow(/Stopped waiting/);
+    await releaseLock(held!);
+  });
+
+  it("gives the lock back without running when aborted mid-acquire", async () => {
+    const abort = new AbortController();
+    const fn = vi.fn();
+    const acquiring = withLock("user:f", fn, { ttlMs: 1_000, signal: abort.signal });
+
+    abort.abort();
+    await expect(acquiring).rejects.toThrow(/Stopped waiting/);
+    expect(fn).not.toHaveBeenCalled();
+    expect(await acquireLock("user:f", 1_000)).not.toBeNull();
+  });
+});
+
+describe("leader election", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("elects one leader and hands over when it steps down", async () => {
+    vi.useFakeTimers();
+    const first = await startLeaderElection("leader:a", 3_000);
+    const second = await startLeaderElection("leader:a", 3_000);
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+
+    // Renewals keep the lease past its TTL
+    await vi.advanceTimersByTimeAsync(6_000);
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+
+    await first.stop();
+    expect(first.isLeader()).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(second.isLeader()).toBe(true);
+    await second.stop();
+  });
+
+  it("takes over within one TTL when the leader dies", async () => {
+    vi.useFakeTimers();
+    // A leader that crashed: it holds the lock but never renews it
+    await acquireLock("leader:b", 3_000);
+    const election = await startLeaderElection("leader:b", 3_000);
+    expect(election.isLeader()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(election.isLeader()).toBe(true);
+    await election.stop();
+  });
+});
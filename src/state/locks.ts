@@ -0,0 +1,280 @@
+import crypto from "crypto";
+import Redis from "ioredis";
+import { config } from "../config";
+
+/**
+ * Named mutual-exclusion locks shared by every replica (when backed by Redis).
+ * A lock expires after its TTL unless extended, so a crashed holder never
+ * blocks others for longer than one TTL.
+ */
+
+const LOCK_PREFIX = "intent:lock:";
+const DEFAULT_RETRY_MS = 250;
+
+export interface HeldLock {
+  name: string;
+  token: string;
+}
+
+/**
+ * Deletes the lock only if we still hold it.
+ * KEYS: lock  ARGV: token
+ */
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Extends the lock only if we still hold it.
+ * KEYS: lock  ARGV: token, ttl ms
+ */
+const EXTEND_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+interface LockStore {
+  acquire(name: string, token: string, ttlMs: number): Promise<boolean>;
+  extend(name: string, token: string, ttlMs: number): Promise<boolean>;
+  release(name: string, token: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+class RedisLockStore implements LockStore {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: true,
+    });
+    this.redis.on("error", (err) => {
+      console.error("Redis connection error (lock store)", err);
+    });
+  }
+
+  async acquire(name: string, token: string, ttlMs: number) {
+    const res = await this.redis.set(`${LOCK_PREFIX}${name}`, token, "PX", ttlMs, "NX");
+    return res === "OK";
+  }
+
+  async extend(name: string, token: string, ttlMs: number) {
+    const res = await this.redis.eval(EXTEND_SCRIPT, 1, `${LOCK_PREFIX}${name}`, token, ttlMs);
+    return res === 1;
+  }
+
+  async release(name: string, token: string) {
+    const res = await this.redis.eval(RELEASE_SCRIPT, 1, `${LOCK_PREFIX}${name}`, token);
+    return res === 1;
+  }
+
+  async close() {
+    await this.redis.quit();
+  }
+}
+
+class MemoryLockStore implements LockStore {
+  private locks = new Map<string, { token: string; expiresAt: number }>();
+
+  async acquire(name: string, token: string, ttlMs: number) {
+    const current = this.locks.get(name);
+    if (current && current.expiresAt > Date.now()) return false;
+    this.locks.set(name, { token, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async extend(name: string, token: string, ttlMs: number) {
+    const current = this.locks.get(name);
+    if (!current || current.token !== token || current.expiresAt <= Date.now()) return false;
+    current.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async release(name: string, token: string) {
+    const current = this.locks.get(name);
+    if (!current || current.token !== token) return false;
+    this.locks.delete(name);
+    return true;
+  }
+
+  async close() {
+    // Nothing to close; locks are kept for the life of the process
+  }
+}
+
+let store: LockStore | null = null;
+
+/** Follows STATE_BACKEND, like the status store; created on first use */
+function getLockStore(): LockStore {
+  if (store) return store;
+  switch (config.stateBackend) {
+    case "redis":
+      store = new RedisLockStore();
+      break;
+    case "memory":
+      store = new MemoryLockStore();
+      break;
+    default:
+      throw new Error(`Unknown STATE_BACKEND: ${config.stateBackend}`);
+  }
+  return store;
+}
+
+/** Closes the store's connection; the next call reopens it */
+export async function closeLockStore() {
+  const current = store;
+  store = null;
+  await current?.close();
+}
+
+/** Single attempt; returns null if someone else holds the lock */
+export async function acquireLock(name: string, ttlMs: number): Promise<HeldLock | null> {
+  const token = crypto.randomUUID();
+  const acquired = await getLockStore().acquire(name, token, ttlMs);
+  return acquired ? { name, token } : null;
+}
+
+/** Returns false if the lock expired and may now be held by someone else */
+export async function extendLock(lock: HeldLock, ttlMs: number): Promise<boolean> {
+  return getLockStore().extend(lock.name, lock.token, ttlMs);
+}
+
+export async function releaseLock(lock: HeldLock): Promise<boolean> {
+  return getLockStore().release(lock.name, lock.token);
+}
+
+export interface WithLockOptions {
+  ttlMs: number;
+  /** How often to retry while another holder has the lock */
+  retryMs?: number;
+  /** Stops waiting for the lock (the returned promise rejects) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Waits for the lock, runs `fn` while holding it and releases it afterwards.
+ * The lock is extended every ttl/3 so long-running work keeps it.
+ */
+export async function withLock<T>(
+  name: string,
+  fn: () => Promise<T>,
+  options: WithLockOptions,
+): Promise<T> {
+  const { ttlMs, retryMs = DEFAULT_RETRY_MS, signal } = options;
+
+  let lock: HeldLock | null = null;
+  let waitingSince: number | null = null;
+  while (!lock) {
+    if (signal?.aborted) {
+      throw new Error(`Stopped waiting for lock ${name}`);
+    }
+    lock = await acquireLock(name, ttlMs);
+    if (!lock) {
+      if (waitingSince === null) {
+        waitingSince = Date.now();
+        console.log(`[locks] Waiting for lock ${name}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryMs));
+    }
+  }
+  const held = lock;
+  // Aborted while the last attempt was in flight; the caller has moved on
+  if (signal?.aborted) {
+    await releaseLock(held).catch((err) => {
+      console.error(`[locks] Failed to release lock ${name}`, err);
+    });
+    throw new Error(`Stopped waiting for lock ${name}`);
+  }
+  if (waitingSince !== null) {
+    console.log(`[locks] Acquired lock ${name} after ${Date.now() - waitingSince}ms`);
+  }
+
+  const renewal = setInterval(() => {
+    extendLock(held, ttlMs)
+      .then((extended) => {
+        if (!extended) console.error(`[locks] Lost lock ${name} while still running`);
+      })
+      .catch((err) => {
+        console.error(`[locks] Failed to extend lock ${name}`, err);
+      });
+  }, Math.max(1_000, Math.floor(ttlMs / 3)));
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(renewal);
+    await releaseLock(held).catch((err) => {
+      console.error(`[locks] Failed to release lock ${name}`, err);
+    });
+  }
+}
+
+export interface Leadership {
+  /** Whether this process holds the lease (and it has not run out since the last renewal) */
+  isLeader(): boolean;
+  /** Stops campaigning and gives up the lease, so another replica takes over right away */
+  stop(): Promise<void>;
+}
+
+/**
+ * Campaigns for the lock `name` every ttl/3: takes it when it is free and
+ * renews it while held. When the leader dies, another replica takes over
+ * within one TTL. Resolves after the first round, so `isLeader()` is
+ * meaningful straight away.
+ */
+export async function startLeaderElection(name: string, ttlMs: number): Promise<Leadership> {
+  let lease: HeldLock | null = null;
+  // Local bound on the lease, so a stalled renewal never leaves us acting as leader
+  let leaseExpiresAt = 0;
+
+  const campaign = async () => {
+    const startedAt = Date.now();
+    try {
+      if (lease) {
+        if (await extendLock(lease, ttlMs)) {
+          leaseExpiresAt = startedAt + ttlMs;
+          return;
+        }
+        console.warn(`[locks] Lost leadership of ${name}`);
+        lease = null;
+      }
+      lease = await acquireLock(name, ttlMs);
+      if (lease) {
+        leaseExpiresAt = startedAt + ttlMs;
+        console.log(`[locks] Became leader of ${name}`);
+      }
+    } catch (err) {
+      // We can't tell whether we still hold it, so stop acting as leader
+      console.error(`[locks] Leader election for ${name} failed`, err);
+      lease = null;
+    }
+  };
+
+  let round = campaign();
+  await round;
+  const timer = setInterval(() => {
+    round = round.then(campaign);
+  }, Math.max(1_000, Math.floor(ttlMs / 3)));
+
+  return {
+    isLeader() {
+      return lease !== null && Date.now() < leaseExpiresAt;
+    },
+    async stop() {
+      clearInterval(timer);
+      await round;
+      if (lease) {
+        const held = lease;
+        lease = null;
+        await releaseLock(held).catch((err) => {
+          console.error(`[locks] Failed to release leadership of ${name}`, err);
+        });
+      }
+    },
+  };
+}
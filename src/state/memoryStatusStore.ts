@@ -0,0 +1,115 @@
+import { EventEmitter } from "events";
+import { config } from "../config";
+import type {
+  IntentStatus,
+  IntentStatusEvent,
+  StatusChange,
+  StatusPage,
+  StatusQuery,
+  StatusStore,
+  StoredIntentStatus,
+} from "./status";
+import { decodeCursor, encodeCursor, isAfterCursor } from "./statusCursor";
+import { StatusFeed, feedChannel } from "./statusFeed";
+import { createdAtScore, matchesStatusQuery } from "./statusFilter";
+import { IntentState, canTransition } from "./intentState";
+
+/**
+ * In-process status store honouring STATUS_TTL_SECONDS.
+ * State lives in this process only: use it for tests and single-node dev.
+ */
+export class MemoryStatusStore implements StatusStore {
+  private statuses = new Map<
+    string,
+    { status: IntentStatus; events: IntentStatusEvent[]; expiresAt: number }
+  >();
+  private seq = 0;
+  private feeds = new EventEmitter().setMaxListeners(0);
+
+  async set(intentId: string, status: IntentStatus, event: IntentStatusEvent, from?: IntentState) {
+    const previous = this.live(intentId)?.status;
+    if (from !== undefined && (previous?.state !== from || !canTransition(from, status.state))) {
+      return null;
+    }
+    // Same rules as the Redis script: another createdAt is an earlier intent under this id
+    const replaced =
+      from === undefined && previous?.createdAt !== undefined && previous.createdAt !== status.createdAt;
+    if (previous && !replaced && !canTransition(previous.state, status.state)) {
+      return null;
+    }
+    const stored = { ...structuredClone(event), seq: ++this.seq };
+    const events = [...(this.live(intentId)?.events ?? []), stored];
+    this.statuses.set(intentId, {
+      status: structuredClone(status),
+      events: events.slice(-config.statusHistoryMaxEvents),
+      expiresAt: Date.now() + config.statusTtlSeconds * 1000,
+    });
+    const change: StatusChange = { intentId, ...stored };
+    this.feeds.emit(feedChannel({ intentId }), change);
+    if (status.userDestination) {
+      this.feeds.emit(feedChannel({ userDestination: status.userDestination }), change);
+    }
+    return structuredClone(stored);
+  }
+
+  async history(intentId: string): Promise<IntentStatusEvent[]> {
+    return structuredClone(this.live(intentId)?.events ?? []);
+  }
+
+  async get(intentId: string): Promise<IntentStatus | null> {
+    const entry = this.live(intentId);
+    return entry ? structuredClone(entry.status) : null;
+  }
+
+  /** Same order and cursors as the Redis indexes: newest `createdAt` first */
+  async list(query: StatusQuery & { limit: number }): Promise<StatusPage> {
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const now = Date.now();
+    const matches: Array<{ intentId: string; score: number; status: IntentStatus }> = [];
+    for (const [intentId, entry] of this.statuses) {
+      if (entry.expiresAt <= now) {
+        this.statuses.delete(intentId);
+        continue;
+      }
+      const score = createdAtScore(entry.status);
+      if (!matchesStatusQuery(entry.status, query)) continue;
+      if (!isAfterCursor(score, intentId, after)) continue;
+      matches.push({ intentId, score, status: entry.status });
+    }
+    matches.sort((a, b) => b.score - a.score || (a.intentId < b.intentId ? 1 : -1));
+
+    const page = matches.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      intents: page.map(({ intentId, status }) => ({ intentId, ...structuredClone(status) })),
+      nextCursor:
+        matches.length > query.limit && last
+          ? encodeCursor({ score: last.score, intentId: last.intentId })
+          : null,
+    };
+  }
+
+  async subscribe(feed: StatusFeed, listener: (change: StatusChange) => void) {
+    const channel = feedChannel(feed);
+    // Each listener gets its own copy, as it would from a Redis message
+    const deliver = (change: StatusChange) => listener(structuredClone(change));
+    this.feeds.on(channel, deliver);
+    return async () => {
+      this.feeds.off(channel, deliver);
+    };
+  }
+
+  async close() {
+    // Nothing to close; statuses are kept for the life of the process
+  }
+
+  private live(intentId: string) {
+    const entry = this.statuses.get(intentId);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.statuses.delete(intentId);
+      return undefined;
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { RedisStatusStore } from "./redisStatusStore";
+import { INTENT_STATES } from "./intentState";
+
+const { redisMock } = vi.hoisted(() => ({
+  redisMock: {
+    on: vi.fn(),
+    eval: vi.fn(),
+  },
+}));
+
+vi.mock("ioredis", () => ({
+  default: vi.fn().mockImplementation(() => redisMock),
+}));
+
+describe("RedisStatusStore.set", () => {
+  beforeEach(() => {
+    redisMock.eval.mockReset();
+    redisMock.eval.mockResolvedValue(7);
+  });
+
+  it("declares every key the script writes, the previous state's index included", async () => {
+    const store = new RedisStatusStore();
+
+    const event = await store.set(
+      "intent-1",
+      { state: "processing", userDestination: "alice.near", createdAt: "2024-01-01T00:00:00.000Z" },
+      { state: "processing", at: "2024-01-01T00:00:01.000Z" },
+    );
+
+    const [, keyCount, ...rest] = redisMock.eval.mock.calls[0];
+    const keys = rest.slice(0, keyCount);
+    const args = rest.slice(keyCount);
+    expect(keys).toEqual([
+      "intent:status:intent-1",
+      "intent:history:intent-1",
+      "intent:events:seq",
+      "intent:index:all",
+      "intent:index:user:alice.near",
+      "intent:index:state:processing",
+      ...INTENT_STATES.map((state) => `intent:index:state:${state}`),
+    ]);
+    // The script finds the previous state's index by its position in this list
+    expect(JSON.parse(args[6])).toEqual(INTENT_STATES);
+    expect(event).toMatchObject({ state: "processing", seq: 7 });
+  });
+});
@@ -0,0 +1,319 @@
+import Redis from "ioredis";
+import { config } from "../config";
+import type {
+  IntentStatus,
+  IntentStatusEvent,
+  StatusChange,
+  StatusPage,
+  StatusQuery,
+  StatusStore,
+  StoredIntentStatus,
+} from "./status";
+import { decodeCursor, encodeCursor, isAfterCursor } from "./statusCursor";
+import { StatusFeed, feedChannel } from "./statusFeed";
+import { createdAtRange, createdAtScore, matchesStatusQuery } from "./statusFilter";
+import { INTENT_STATES, IntentState, canTransition, isTerminalState, statesBefore } from "./intentState";
+
+const STATUS_PREFIX = "intent:status:";
+const HISTORY_PREFIX = "intent:history:";
+/** Counter behind `IntentStatusEvent.seq` */
+const EVENT_SEQ_KEY = "intent:events:seq";
+/** Sorted sets of intentIds scored by createdAt (ms) */
+const ALL_INDEX_KEY = "intent:index:all";
+const STATE_INDEX_PREFIX = "intent:index:state:";
+const USER_INDEX_PREFIX = "intent:index:user:";
+const STATUS_TTL_SECONDS = config.statusTtlSeconds; // keep status for one day
+
+function statusKey(intentId: string) {
+  return `${STATUS_PREFIX}${intentId}`;
+}
+
+function historyKey(intentId: string) {
+  return `${HISTORY_PREFIX}${intentId}`;
+}
+
+/**
+ * Replaces the snapshot, appends the timeline event (numbered from the shared
+ * sequence) and moves the intent from its previous state index to the new
+ * one, all at once, then publishes the event to the intent's and user's
+ * feeds. Indexes are scored by `createdAt`. The first `trim count` of them
+ * drop entries created before the status TTL as we go; the index of a
+ * non-terminal state is left alone, since an intent still in that state may
+ * have outlived it and must stay visible to the poller.
+ *
+ * Nothing is written, and false is returned, when the current state is not
+ * one the new state may follow. A snapshot with another `createdAt` belongs
+ * to an earlier intent under the same intentId and is replaced regardless,
+ * unless the write expects a current state: then there must be a snapshot,
+ * in one of the allowed states.
+ *
+ * Every key the script touches is passed in KEYS, the previous state's index
+ * included: the index of each state follows the indexes written to, in the
+ * order of the states in ARGV.
+ *
+ * KEYS: status, history, event sequence, indexes..., state indexes...
+ * ARGV: status JSON, event JSON, intentId, createdAt (ms), ttl seconds,
+ *       max events, JSON array of every state (in the order of the state
+ *       indexes), trim cutoff (ms), trim count, JSON array of the states
+ *       allowed before this one, createdAt (ISO), "1" if the current state is
+ *       expected, intent channel, [user channel]
+ */
+const SET_SCRIPT = `
+local previous = redis.call("GET", KEYS[1])
+local expected = ARGV[12] == "1"
+local states = cjson.decode(ARGV[7])
+local indexCount = #KEYS - 3 - #states
+if expected and not previous then
+  return false
+end
+if previous then
+  local ok, decoded = pcall(cjson.decode, previous)
+  if expected and not (ok and type(decoded) == "table" and type(decoded.state) == "string") then
+    return false
+  end
+  if ok and type(decoded) == "table" and type(decoded.state) == "string" then
+    local replaced = not expected and type(decoded.createdAt) == "string" and decoded.createdAt ~= ARGV[11]
+    if not replaced then
+      local allowed = false
+      for _, state in ipairs(cjson.decode(ARGV[10])) do
+        if state == decoded.state then allowed = true end
+      end
+      if not allowed then
+        return false
+      end
+    end
+    for i, state in ipairs(states) do
+      if state == decoded.state then
+        redis.call("ZREM", KEYS[3 + indexCount + i], ARGV[3])
+      end
+    end
+  end
+end
+redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[5])
+local event = cjson.decode(ARGV[2])
+event.seq = redis.call("INCR", KEYS[3])
+redis.call("RPUSH", KEYS[2], cjson.encode(event))
+redis.call("LTRIM", KEYS[2], -tonumber(ARGV[6]), -1)
+redis.call("EXPIRE", KEYS[2], ARGV[5])
+local trimmed = 3 + tonumber(ARGV[9])
+for i = 4, 3 + indexCount do
+  redis.call("ZADD", KEYS[i], ARGV[4], ARGV[3])
+  if i <= trimmed then
+    redis.call("ZREMRANGEBYSCORE", KEYS[i], "-inf", "(" .. ARGV[8])
+  end
+end
+event.intentId = ARGV[3]
+local message = cjson.encode(event)
+for i = 13, #ARGV do
+  redis.call("PUBLISH", ARGV[i], message)
+end
+return event.seq
+`;
+
+export class RedisStatusStore implements StatusStore {
+  private redis: Redis;
+  /** Opened on the first subscribe; a subscribed connection can't run other commands */
+  private subscriber: Redis | null = null;
+  private listeners = new Map<string, Set<(change: StatusChange) => void>>();
+
+  constructor() {
+    this.redis = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: true,
+    });
+    this.redis.on("error", (err) => {
+      console.error("Redis connection error (status store)", err);
+    });
+  }
+
+  async set(intentId: string, status: IntentStatus, event: IntentStatusEvent, from?: IntentState) {
+    const indexes = [ALL_INDEX_KEY];
+    const channels = [feedChannel({ intentId })];
+    if (status.userDestination) {
+      indexes.push(`${USER_INDEX_PREFIX}${status.userDestination}`);
+      channels.push(feedChannel({ userDestination: status.userDestination }));
+    }
+    // Untrimmed index goes last, see SET_SCRIPT
+    indexes.push(`${STATE_INDEX_PREFIX}${status.state}`);
+    const trimCount = isTerminalState(status.state) ? indexes.length : indexes.length - 1;
+
+    const allowedBefore = from === undefined
+      ? statesBefore(status.state)
+      : [from].filter((state) => canTransition(state, status.state));
+
+    const keys = [
+      statusKey(intentId),
+      historyKey(intentId),
+      EVENT_SEQ_KEY,
+      ...indexes,
+      ...INTENT_STATES.map((state) => `${STATE_INDEX_PREFIX}${state}`),
+    ];
+    const seq = await this.redis.eval(
+      SET_SCRIPT,
+      keys.length,
+      ...keys,
+      JSON.stringify(status),
+      JSON.stringify(event),
+      intentId,
+      createdAtScore(status),
+      STATUS_TTL_SECONDS,
+      config.statusHistoryMaxEvents,
+      JSON.stringify(INTENT_STATES),
+      Date.now() - STATUS_TTL_SECONDS * 1000,
+      trimCount,
+      JSON.stringify(allowedBefore),
+      status.createdAt ?? "",
+      from === undefined ? "" : "1",
+      ...channels,
+    );
+    if (seq === null) return null;
+    return { ...event, seq: Number(seq) };
+  }
+
+  async get(intentId: string): Promise<IntentStatus | null> {
+    const raw = await this.redis.get(statusKey(intentId));
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as IntentStatus;
+    } catch (err) {
+      console.error("Failed to parse intent status from Redis", err);
+      return null;
+    }
+  }
+
+  async history(intentId: string): Promise<IntentStatusEvent[]> {
+    const stored = await this.redis.lrange(historyKey(intentId), 0, -1);
+    const events: IntentStatusEvent[] = [];
+    for (const raw of stored) {
+      try {
+        events.push(JSON.parse(raw) as IntentStatusEvent);
+      } catch (err) {
+        console.error("Failed to parse intent status event from Redis", err);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Walks the narrowest index for the query newest first, within the
+   * `createdAt` range. With both a user and a state, the user's index is
+   * walked and filtered by state; the other filters are applied per status.
+   */
+  async list(query: StatusQuery & { limit: number }): Promise<StatusPage> {
+    const { limit } = query;
+    const indexKey = query.userDestination
+      ? `${USER_INDEX_PREFIX}${query.userDestination}`
+      : query.state
+        ? `${STATE_INDEX_PREFIX}${query.state}`
+        : ALL_INDEX_KEY;
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const range = createdAtRange(query);
+    const max = Math.min(range.max, after?.score ?? Infinity);
+    const min = range.min;
+
+    const intents: StoredIntentStatus[] = [];
+    const stale: string[] = [];
+    let last: { score: number; intentId: string } | null = null;
+    let offset = 0;
+
+    while (intents.length < limit) {
+      const batch = await this.redis.zrevrangebyscore(
+        indexKey,
+        max === Infinity ? "+inf" : max,
+        min === -Infinity ? "-inf" : min,
+        "WITHSCORES",
+        "LIMIT",
+        offset,
+        limit,
+      );
+      if (!batch.length) break;
+      offset += batch.length / 2;
+
+      const entries: Array<{ intentId: string; score: number }> = [];
+      for (let i = 0; i < batch.length; i += 2) {
+        const score = Number(batch[i + 1]);
+        if (isAfterCursor(score, batch[i], after)) {
+          entries.push({ intentId: batch[i], score });
+        }
+      }
+      if (!entries.length) continue;
+
+      const values = await this.redis.mget(entries.map((e) => statusKey(e.intentId)));
+      for (const [idx, entry] of entries.entries()) {
+        if (intents.length >= limit) break;
+        const raw = values[idx];
+        if (!raw) {
+          stale.push(entry.intentId);
+          continue;
+        }
+        try {
+          const parsed = JSON.parse(raw) as IntentStatus;
+          last = entry;
+          if (!matchesStatusQuery(parsed, query)) continue;
+          intents.push({ intentId: entry.intentId, ...parsed });
+        } catch (err) {
+          console.error("Failed to parse intent status from Redis", err);
+        }
+      }
+    }
+
+    // Statuses that expired before their index entry was trimmed
+    if (stale.length) {
+      await this.redis.zrem(indexKey, ...stale);
+    }
+
+    return {
+      intents,
+      nextCursor: intents.length >= limit && last ? encodeCursor(last) : null,
+    };
+  }
+
+  async subscribe(feed: StatusFeed, listener: (change: StatusChange) => void) {
+    const channel = feedChannel(feed);
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+      await this.getSubscriber().subscribe(channel);
+    }
+    listeners.add(listener);
+
+    return async () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(channel) === listeners) {
+        this.listeners.delete(channel);
+        await this.subscriber?.unsubscribe(channel);
+      }
+    };
+  }
+
+  async close() {
+    this.listeners.clear();
+    await Promise.all([this.redis.quit(), this.subscriber?.quit()]);
+    this.subscriber = null;
+  }
+
+  private getSubscriber(): Redis {
+    if (this.subscriber) return this.subscriber;
+    const subscriber = this.redis.duplicate();
+    subscriber.on("error", (err) => {
+      console.error("Redis connection error (status subscriber)", err);
+    });
+    subscriber.on("message", (channel: string, raw: string) => {
+      const listeners = this.listeners.get(channel);
+      if (!listeners?.size) return;
+      let change: StatusChange;
+      try {
+        change = JSON.parse(raw) as StatusChange;
+      } catch (err) {
+        console.error("Failed to parse status change from Redis", err);
+        return;
+      }
+      for (const listener of listeners) {
+        listener(structuredClone(change));
+      }
+    });
+    this.subscriber = subscriber;
+    return subscriber;
+  }
+}
@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  StatusChange,
+  getIntentsByState,
+  getStatus,
+  getStatusChangesSince,
+  getStatusHistory,
+  listStatuses,
+  setStatus,
+  subscribeStatusChanges,
+} from "./status";
+import { getCheckpoint, saveCheckpoint } from "./checkpoints";
+import { config } from "../config";
+
+config.stateBackend = "memory";
+
+describe("status timeline", () => {
+  it("keeps every status change while the snapshot shows the latest", async () => {
+    await setStatus("intent-1", { state: "processing", attempt: 1 });
+    await setStatus("intent-1", { state: "awaiting_intents", depositAddress: "deposit.near" });
+    await setStatus("intent-1", { state: "failed", attempt: 2, error: "boom", errorClass: "unknown" });
+
+    expect(await getStatus("intent-1")).toEqual({
+      state: "failed",
+      attempt: 2,
+      error: "boom",
+      errorClass: "unknown",
+      createdAt: expect.any(String),
+      updatedAt: expect.any(String),
+    });
+    const events = await getStatusHistory("intent-1");
+    expect(events.map(({ at: _at, seq: _seq, ...event }) => event)).toEqual([
+      { state: "processing", attempt: 1 },
+      { state: "awaiting_intents", depositAddress: "deposit.near" },
+      { state: "failed", attempt: 2, error: "boom", errorClass: "unknown" },
+    ]);
+    expect(events.every((event) => !Number.isNaN(Date.parse(event.at)))).toBe(true);
+  });
+
+  it("leaves intentData out of the timeline", async () => {
+    await setStatus("intent-2", {
+      state: "awaiting_intents",
+      intentData: { intentId: "intent-2" } as never,
+    });
+
+    const [event] = await getStatusHistory("intent-2");
+    expect(event).not.toHaveProperty("intentData");
+  });
+
+  it("caps the timeline at the configured number of events", async () => {
+    config.statusHistoryMaxEvents = 3;
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await setStatus("intent-3", { state: "processing", attempt });
+    }
+
+    const events = await getStatusHistory("intent-3");
+    expect(events.map((event) => event.attempt)).toEqual([3, 4, 5]);
+  });
+});
+
+describe("status listings", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Writes each status one millisecond apart so the order is deterministic */
+  async function seed(statuses: Array<[string, Parameters<typeof setStatus>[1]]>) {
+    vi.useFakeTimers();
+    for (const [intentId, status] of statuses) {
+      vi.advanceTimersByTime(1);
+      await setStatus(intentId, status);
+    }
+  }
+
+  it("filters by state and pages newest first with a cursor", async () => {
+    await seed([
+      ["page-a", { state: "awaiting_deposit" }],
+      ["page-b", { state: "awaiting_deposit" }],
+      ["page-c", { state: "succeeded" }],
+      ["page-d", { state: "awaiting_deposit" }],
+    ]);
+
+    const first = await getIntentsByState("awaiting_deposit", { limit: 2 });
+    expect(first.intents.map((s) => s.intentId)).toEqual(["page-d", "page-b"]);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const second = await getIntentsByState("awaiting_deposit", {
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.intents.map((s) => s.intentId)).toEqual(["page-a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("keeps the cursor position when listed intents change state", async () => {
+    await seed([
+      ["move-a", { state: "pending" }],
+      ["move-b", { state: "pending" }],
+      ["move-c", { state: "pending" }],
+    ]);
+
+    const first = await listStatuses({ state: "pending", limit: 1 });
+    expect(first.intents.map((s) => s.intentId)).toEqual(["move-c"]);
+    await seed([["move-c", { state: "processing" }]]);
+
+    const second = await listStatuses({ state: "pending", limit: 1, cursor: first.nextCursor! });
+    expect(second.intents.map((s) => s.intentId)).toEqual(["move-b"]);
+  });
+
+  it("indexes intents by user, carrying the user over later updates", async () => {
+    await seed([
+      ["user-a", { state: "pending", userDestination: "alice.near" }],
+      ["user-b", { state: "pending", userDestination: "bob.near" }],
+      ["user-a", { state: "processing", attempt: 1 }],
+    ]);
+
+    const page = await listStatuses({ userDestination: "alice.near" });
+    expect(page.intents).toEqual([
+      {
+        intentId: "user-a",
+        state: "processing",
+        attempt: 1,
+        userDestination: "alice.near",
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      },
+    ]);
+  });
+
+  it("filters by action, chains and creation time, ordered by creation", async () => {
+    await seed([
+      ["filter-a", { state: "pending", action: "kamino-deposit", sourceChain: "near", destinationChain: "solana" }],
+      ["filter-b", { state: "pending", action: "burrow-deposit", sourceChain: "near", destinationChain: "near" }],
+      ["filter-c", { state: "pending", action: "kamino-deposit", sourceChain: "solana", destinationChain: "solana" }],
+    ]);
+    const { createdAt: bCreatedAt } = (await getStatus("filter-b"))!;
+    // An update does not move filter-a ahead of the intents created after it
+    await seed([["filter-a", { state: "processing", attempt: 1 }]]);
+
+    const kamino = await listStatuses({ action: "kamino-deposit", destinationChain: "solana" });
+    expect(kamino.intents.map((s) => s.intentId)).toEqual(["filter-c", "filter-a"]);
+    expect(kamino.intents[1]).toMatchObject({ state: "processing", action: "kamino-deposit" });
+
+    const fromNear = await listStatuses({ sourceChain: "near", createdAfter: bCreatedAt });
+    expect(fromNear.intents.map((s) => s.intentId)).toEqual(["filter-b"]);
+    const beforeB = await listStatuses({ action: "kamino-deposit", createdBefore: bCreatedAt });
+    expect(beforeB.intents.map((s) => s.intentId)).toEqual(["filter-a"]);
+  });
+});
+
+describe("state machine", () => {
+  it("rejects moving a finished intent back and keeps its status", async () => {
+    await setStatus("machine-1", { state: "processing", attempt: 1 });
+    expect(await setStatus("machine-1", { state: "succeeded", txId: "tx-1" })).toBe(true);
+
+    expect(await setStatus("machine-1", { state: "processing", attempt: 2 })).toBe(false);
+    expect(await setStatus("machine-1", { state: "failed", error: "late" })).toBe(false);
+    expect(await getStatus("machine-1")).toMatchObject({ state: "succeeded", txId: "tx-1" });
+    expect((await getStatusHistory("machine-1")).map((e) => e.state)).toEqual(["processing", "succeeded"]);
+  });
+
+  it("allows refunds and dead-letter replays of failed intents", async () => {
+    await setStatus("machine-2", { state: "awaiting_intents" });
+    expect(await setStatus("machine-2", { state: "failed" })).toBe(true);
+    expect(await setStatus("machine-2", { state: "pending" })).toBe(true);
+    expect(await setStatus("machine-2", { state: "cancelled" })).toBe(true);
+    expect(await setStatus("machine-2", { state: "refunded" })).toBe(false);
+  });
+
+  it("only moves an intent on from the expected state", async () => {
+    await setStatus("machine-4", { state: "awaiting_intents" });
+
+    expect(await setStatus("machine-4", { state: "processing" }, { from: "awaiting_intents" })).toBe(true);
+    // processing -> processing is a legal move, but not from awaiting_intents
+    expect(await setStatus("machine-4", { state: "processing" }, { from: "awaiting_intents" })).toBe(false);
+    expect(await setStatus("machine-5", { state: "processing" }, { from: "awaiting_intents" })).toBe(false);
+    expect(await getStatus("machine-5")).toBeNull();
+    expect((await getStatusHistory("machine-4")).map((e) => e.state)).toEqual(["awaiting_intents", "processing"]);
+  });
+
+  it("keeps a failed intent's step checkpoints for a replay and expires them once it succeeds", async () => {
+    vi.useFakeTimers();
+    try {
+      await setStatus("machine-6", { state: "processing" });
+      await saveCheckpoint("machine-6", "withdraw", { txId: "withdraw-tx" });
+      await setStatus("machine-6", { state: "failed", error: "bridge down" });
+
+      vi.advanceTimersByTime((config.statusTtlSeconds + 1) * 1000);
+      expect(await getCheckpoint("machine-6", "withdraw")).toEqual({ txId: "withdraw-tx" });
+
+      await setStatus("machine-6", { state: "pending" });
+      await setStatus("machine-6", { state: "processing" });
+      await setStatus("machine-6", { state: "succeeded", txId: "tx-1" });
+      expect(await getCheckpoint("machine-6", "withdraw")).toEqual({ txId: "withdraw-tx" });
+
+      vi.advanceTimersByTime((config.statusTtlSeconds + 1) * 1000);
+      expect(await getCheckpoint("machine-6", "withdraw")).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("starts over when a finished intentId is reused for a new intent", async () => {
+    await setStatus("machine-3", { state: "succeeded", createdAt: "2024-01-01T00:00:00.000Z" });
+
+    expect(await setStatus("machine-3", { state: "pending", createdAt: "2024-01-02T00:00:00.000Z" })).toBe(true);
+    expect(await getStatus("machine-3")).toMatchObject({
+      state: "pending",
+      createdAt: "2024-01-02T00:00:00.000Z",
+    });
+  });
+});
+
+describe("status feeds", () => {
+  it("publishes each change to the intent's and its user's subscribers", async () => {
+    const intentChanges: StatusChange[] = [];
+    const userChanges: StatusChange[] = [];
+    const stopIntent = await subscribeStatusChanges({ intentId: "feed-a" }, (c) => intentChanges.push(c));
+    const stopUser = await subscribeStatusChanges({ userDestination: "carol.near" }, (c) =>
+      userChanges.push(c),
+    );
+
+    await setStatus("feed-a", { state: "pending", userDestination: "carol.near" });
+    await setStatus("feed-b", { state: "pending", userDestination: "carol.near" });
+    await stopIntent();
+    await setStatus("feed-a", { state: "processing", attempt: 1 });
+    await stopUser();
+    await setStatus("feed-b", { state: "processing", attempt: 1 });
+
+    expect(intentChanges.map((c) => [c.intentId, c.state])).toEqual([["feed-a", "pending"]]);
+    expect(userChanges.map((c) => [c.intentId, c.state])).toEqual([
+      ["feed-a", "pending"],
+      ["feed-b", "pending"],
+      ["feed-a", "processing"],
+    ]);
+    expect(userChanges[1].seq).toBeGreaterThan(userChanges[0].seq!);
+  });
+
+  it("returns the changes after a seq for resuming clients", async () => {
+    await setStatus("resume-a", { state: "pending", userDestination: "dave.near" });
+    const [first] = await getStatusHistory("resume-a");
+    await setStatus("resume-b", { state: "pending", userDestination: "dave.near" });
+    await setStatus("resume-a", { state: "processing", attempt: 1 });
+
+    const userChanges = await getStatusChangesSince({ userDestination: "dave.near" }, first.seq!);
+    expect(userChanges.map((c) => [c.intentId, c.state])).toEqual([
+      ["resume-b", "pending"],
+      ["resume-a", "processing"],
+    ]);
+    const intentChanges = await getStatusChangesSince({ intentId: "resume-a" }, first.seq!);
+    expect(intentChanges.map((c) => c.state)).toEqual(["processing"]);
+  });
+});
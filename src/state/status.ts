@@ -1,8 +1,16 @@
-import Redis from "ioredis";
 import { config } from "../config";
-import { ValidatedIntent } from "../queue/types";
+import { IntentChain, IntentMessage, ValidatedIntent } from "../queue/types";
+import type { ErrorClass } from "../errors";
+import { RedisStatusStore } from "./redisStatusStore";
+import { MemoryStatusStore } from "./memoryStatusStore";
+import type { StatusFeed } from "./statusFeed";
+import { IntentState, isTerminalState } from "./intentState";
+import { archiveIntent, isArchiveEnabled } from "./archive";
+import { expireCheckpoints } from "./checkpoints";
+import { queueWebhook } from "./webhooks";
 
-export type IntentState = "pending" | "processing" | "awaiting_deposit" | "awaiting_intents" | "succeeded" | "failed";
+export type { IntentState } from "./intentState";
+export { INTENT_STATES, TERMINAL_STATES, canTransition, isTerminalState } from "./intentState";
 
 export type IntentStatus = {
   intentId?: string;
@@ -10,85 +18,350 @@ export type IntentStatus = {
   detail?: string;
   depositAddress?: string;
   depositMemo?: string;
+  /** The user's deposit transaction, as forwarded to 1-Click */
+  originTxHash?: string;
   expectedAmount?: string;
   txId?: string;
   bridgeTxId?: string;
   error?: string;
+  /** Which processing attempt this status belongs to (1-based) */
+  attempt?: number;
+  /** When a scheduled intent (or its next retry) becomes due */
+  executeAfter?: string;
+  /** Class of the error that failed the intent (or the last retried one) */
+  errorClass?: ErrorClass;
+  errorCode?: string;
   /** Store the full intent data for re-processing after intents completes */
   intentData?: ValidatedIntent;
+  /** Last execution status 1-Click reported for the bridge leg, e.g. `PROCESSING` */
+  intentsStatus?: string;
+  /** Deadline of the 1-Click quote; a deposit that has not arrived by then is not swapped */
+  quoteDeadline?: string;
+  /** When the intent started waiting on 1-Click; the wait is capped at INTENTS_MAX_WAIT_MS */
+  awaitingIntentsSince?: string;
+  /**
+   * Agent account's balance of the intermediate asset when the intent started
+   * waiting on 1-Click; what the bridge leg delivered is measured against it
+   */
+  agentBalanceBefore?: string;
+  /**
+   * Amount of the intermediate asset the bridge leg actually delivered, which
+   * the destination step uses instead of the quoted `intermediateAmount`
+   */
+  deliveredAmount?: string;
+  /** What 1-Click returned to the user, for `refunded` (and some `failed`) intents */
+  refund?: IntentRefund;
+  /** Set when an operator replays the intent from the dead-letter list */
+  replayedAt?: string;
+  replayCount?: number;
+  /** Set on the first status of the intent; listings are ordered by it */
+  createdAt?: string;
+  /** Set on every status write */
+  updatedAt?: string;
+  /** Owner of the intent, for the per-user index; kept across status changes */
+  userDestination?: string;
+  /** Where state transitions are POSTed; kept across status changes */
+  callbackUrl?: string;
+  /** `metadata.action` of the intent, for filtering; kept across status changes */
+  action?: string;
+  sourceChain?: IntentChain;
+  destinationChain?: IntentChain;
 };
 
-const STATUS_PREFIX = "intent:status:";
-const STATUS_TTL_SECONDS = config.statusTtlSeconds; // keep status for one day
+/**
+ * Fields set once (from the intent at submission, or from `intentData`) and
+ * carried over every later status write, so listings can filter on them.
+ */
+const STICKY_FIELDS = [
+  "createdAt",
+  "userDestination",
+  "callbackUrl",
+  "action",
+  "sourceChain",
+  "destinationChain",
+] as const;
 
-const redis = new Redis(config.redisUrl, {
-  maxRetriesPerRequest: 3,
-  enableReadyCheck: true,
-});
+type IntentSummary = Pick<IntentStatus, Exclude<(typeof STICKY_FIELDS)[number], "createdAt">>;
 
-redis.on("error", (err) => {
-  console.error("Redis connection error (status store)", err);
-});
+/** The sticky fields of an intent, to pass with its first status */
+export function intentSummary(intent: IntentMessage): IntentSummary {
+  const summary: IntentSummary = {
+    userDestination: intent.userDestination,
+    sourceChain: intent.sourceChain,
+    destinationChain: intent.destinationChain,
+  };
+  if (intent.callbackUrl) summary.callbackUrl = intent.callbackUrl;
+  if (typeof intent.metadata?.action === "string") summary.action = intent.metadata.action;
+  return summary;
+}
 
-function statusKey(intentId: string) {
-  return `${STATUS_PREFIX}${intentId}`;
+/** Refund of the deposit by 1-Click, from its execution status */
+export interface IntentRefund {
+  /** In the smallest unit of the origin asset */
+  amount: string;
+  amountFormatted?: string;
+  amountUsd?: string;
+  reason?: string;
 }
 
-export async function setStatus(intentId: string, status: IntentStatus) {
-  await redis.set(statusKey(intentId), JSON.stringify(status), "EX", STATUS_TTL_SECONDS);
+export type StoredIntentStatus = { intentId: string } & IntentStatus;
+
+export interface StatusQuery {
+  state?: IntentState;
+  userDestination?: string;
+  action?: string;
+  sourceChain?: IntentChain;
+  destinationChain?: IntentChain;
+  /** Inclusive ISO 8601 bounds on `createdAt` */
+  createdAfter?: string;
+  createdBefore?: string;
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
 }
 
-export async function getStatus(intentId: string): Promise<IntentStatus | null> {
-  const raw = await redis.get(statusKey(intentId));
-  if (!raw) return null;
-  try {
-    return JSON.parse(raw) as IntentStatus;
-  } catch (err) {
-    console.error("Failed to parse intent status from Redis", err);
-    return null;
+export interface StatusPage {
+  /** Newest first by `createdAt`, so pages do not shift as intents progress */
+  intents: StoredIntentStatus[];
+  /** Pass as `cursor` to get the next page; null when there is none */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_STATUS_PAGE_SIZE = 50;
+
+/**
+ * One entry in an intent's append-only timeline. Written with every status
+ * change, so attempts and tx ids survive later overwrites of the snapshot.
+ */
+export type IntentStatusEvent = Pick<
+  IntentStatus,
+  | "state"
+  | "detail"
+  | "attempt"
+  | "txId"
+  | "bridgeTxId"
+  | "depositAddress"
+  | "error"
+  | "errorClass"
+  | "errorCode"
+  | "executeAfter"
+  | "intentsStatus"
+  | "refund"
+> & {
+  at: string;
+  /**
+   * Assigned by the store; increases with every status write across all
+   * intents, so it orders a user's events too. Used as the SSE event id.
+   */
+  seq?: number;
+};
+
+/** A timeline event as published to status subscribers */
+export type StatusChange = { intentId: string } & IntentStatusEvent;
+
+export interface StatusStore {
+  /**
+   * Replaces the snapshot, appends `event` to the timeline and publishes it to
+   * the intent's and its user's feeds. Resolves to the event as stored, or to
+   * null without writing anything when the intent's current state may not be
+   * followed by `status.state` (see `canTransition`), or, with `from`, when
+   * the intent is not currently in `from`. Checked atomically with the write.
+   */
+  set(
+    intentId: string,
+    status: IntentStatus,
+    event: IntentStatusEvent,
+    from?: IntentState,
+  ): Promise<IntentStatusEvent | null>;
+  get(intentId: string): Promise<IntentStatus | null>;
+  /** Timeline of the intent, oldest first */
+  history(intentId: string): Promise<IntentStatusEvent[]>;
+  /** Served from the state/user indexes rather than scanning every status */
+  list(query: StatusQuery & { limit: number }): Promise<StatusPage>;
+  /** Calls `listener` for every change published to the feed; resolves to an unsubscribe */
+  subscribe(feed: StatusFeed, listener: (change: StatusChange) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+let store: StatusStore | null = null;
+
+/**
+ * Returns the store for the configured STATE_BACKEND. Created on first use so
+ * importing this module never opens a connection.
+ */
+export function getStatusStore(): StatusStore {
+  if (store) return store;
+  switch (config.stateBackend) {
+    case "redis":
+      store = new RedisStatusStore();
+      break;
+    case "memory":
+      store = new MemoryStatusStore();
+      break;
+    default:
+      throw new Error(`Unknown STATE_BACKEND: ${config.stateBackend}`);
   }
+  return store;
+}
+
+/** Closes the store's connection; the next call reopens it */
+export async function closeStatusStore() {
+  const current = store;
+  store = null;
+  await current?.close();
 }
 
-export async function listStatuses(
-  limit = 50,
-): Promise<Array<{ intentId: string } & IntentStatus>> {
-  const matchPattern = `${STATUS_PREFIX}*`;
-  let cursor = "0";
-  const results: Array<{ intentId: string } & IntentStatus> = [];
-
-  do {
-    const [nextCursor, keys] = await redis.scan(cursor, "MATCH", matchPattern, "COUNT", 100);
-    cursor = nextCursor;
-
-    if (keys.length) {
-      const values = await redis.mget(keys);
-      keys.forEach((key, idx) => {
-        if (results.length >= limit) return;
-        const raw = values[idx];
-        if (!raw) return;
-        try {
-          const parsed = JSON.parse(raw) as IntentStatus;
-          const intentId = key.replace(STATUS_PREFIX, "");
-          results.push({ intentId, ...parsed });
-        } catch (err) {
-          console.error("Failed to parse intent status from Redis", err);
-        }
+/**
+ * Writes the snapshot and timeline event, carrying the sticky fields and
+ * `createdAt` over from the previous snapshot. When the state changes and the
+ * intent has a `callbackUrl`, a webhook delivery is queued for the dispatcher.
+ * Terminal intents are also copied to the archive when ARCHIVE_DIR is set.
+ * Failing either is logged and never fails the status write.
+ *
+ * Resolves to false, writing nothing, when the intent's current state may not
+ * be followed by `status.state`: a finished intent is never moved back, so
+ * callers should stop working on it. With `options.from` the write is a
+ * compare-and-set: it also resolves to false unless the intent is in `from`
+ * at the time of the write, so of several processes making the same move
+ * only one succeeds.
+ */
+export async function setStatus(
+  intentId: string,
+  status: IntentStatus,
+  options: { from?: IntentState } = {},
+): Promise<boolean> {
+  const store = getStatusStore();
+  const stored = await store.get(intentId);
+  // A new createdAt means the intentId was reused for a new intent
+  const previous = status.createdAt && status.createdAt !== stored?.createdAt ? null : stored;
+  const now = new Date().toISOString();
+
+  const snapshot: IntentStatus = { ...status };
+  const fromIntent: Partial<IntentStatus> = status.intentData ? intentSummary(status.intentData) : {};
+  for (const field of STICKY_FIELDS) {
+    const value = status[field] ?? fromIntent[field] ?? previous?.[field];
+    if (value !== undefined) Object.assign(snapshot, { [field]: value });
+  }
+  snapshot.createdAt ??= now;
+  snapshot.updatedAt = now;
+
+  const event = await store.set(intentId, snapshot, toStatusEvent(status), options.from);
+  if (!event) {
+    console.warn("[status] Rejected illegal state transition", {
+      intentId,
+      from: stored?.state,
+      to: status.state,
+      ...(options.from && { expected: options.from }),
+    });
+    return false;
+  }
+
+  if (snapshot.callbackUrl && previous?.state !== status.state) {
+    try {
+      await queueWebhook(snapshot.callbackUrl, { intentId, ...event }, previous?.state);
+    } catch (err) {
+      console.error("Failed to queue status webhook", { intentId, state: status.state }, err);
+    }
+  }
+
+  if (isArchiveEnabled() && isTerminalState(status.state)) {
+    try {
+      await archiveIntent({
+        intentId,
+        archivedAt: now,
+        status: { ...snapshot, intentData: snapshot.intentData ?? previous?.intentData },
+        events: await store.history(intentId),
       });
+    } catch (err) {
+      console.error("Failed to archive intent", { intentId, state: status.state }, err);
+    }
+  }
+
+  // A failed intent can still be replayed from the dead-letter list, which
+  // needs its checkpoints; purging the entry lets them expire instead
+  if (isTerminalState(status.state) && status.state !== "failed") {
+    try {
+      await expireCheckpoints(intentId);
+    } catch (err) {
+      console.error("Failed to expire step checkpoints", { intentId, state: status.state }, err);
     }
-  } while (cursor !== "0" && results.length < limit);
+  }
+  return true;
+}
+
+export async function getStatus(intentId: string): Promise<IntentStatus | null> {
+  return getStatusStore().get(intentId);
+}
+
+export async function getStatusHistory(intentId: string): Promise<IntentStatusEvent[]> {
+  return getStatusStore().history(intentId);
+}
+
+/** Leaves out bulky fields like `intentData`; the snapshot keeps those */
+function toStatusEvent(status: IntentStatus): IntentStatusEvent {
+  const event: IntentStatusEvent = { state: status.state, at: new Date().toISOString() };
+  if (status.detail !== undefined) event.detail = status.detail;
+  if (status.attempt !== undefined) event.attempt = status.attempt;
+  if (status.txId !== undefined) event.txId = status.txId;
+  if (status.bridgeTxId !== undefined) event.bridgeTxId = status.bridgeTxId;
+  if (status.depositAddress !== undefined) event.depositAddress = status.depositAddress;
+  if (status.error !== undefined) event.error = status.error;
+  if (status.errorClass !== undefined) event.errorClass = status.errorClass;
+  if (status.errorCode !== undefined) event.errorCode = status.errorCode;
+  if (status.executeAfter !== undefined) event.executeAfter = status.executeAfter;
+  if (status.intentsStatus !== undefined) event.intentsStatus = status.intentsStatus;
+  if (status.refund !== undefined) event.refund = status.refund;
+  return event;
+}
 
-  return results;
+export async function listStatuses(query: StatusQuery = {}): Promise<StatusPage> {
+  return getStatusStore().list({ ...query, limit: query.limit ?? DEFAULT_STATUS_PAGE_SIZE });
 }
 
 /**
- * Get all intents with a specific state
+ * One page of the intents currently in `state`. Follow `nextCursor` to see
+ * them all; the cursor stays valid while intents leave the state.
  */
 export async function getIntentsByState(
   state: IntentState,
-  limit = 100,
-): Promise<Array<{ intentId: string } & IntentStatus>> {
-  const allStatuses = await listStatuses(limit * 2); // Fetch more since we'll filter
-  return allStatuses
-    .filter((s) => s.state === state)
-    .slice(0, limit);
+  options: { limit?: number; cursor?: string } = {},
+): Promise<StatusPage> {
+  return listStatuses({ ...options, state, limit: options.limit ?? 100 });
+}
+
+/**
+ * Follows status changes as they are written, from any process sharing the
+ * store. Call the returned function to stop.
+ */
+export async function subscribeStatusChanges(
+  feed: StatusFeed,
+  listener: (change: StatusChange) => void,
+): Promise<() => Promise<void>> {
+  return getStatusStore().subscribe(feed, listener);
+}
+
+/**
+ * Changes of the feed with a `seq` above `afterSeq`, oldest first, for
+ * clients resuming a stream. A user's feed is rebuilt from the timelines of
+ * their most recently created intents.
+ */
+export async function getStatusChangesSince(
+  feed: StatusFeed,
+  afterSeq: number,
+): Promise<StatusChange[]> {
+  const intentIds =
+    "intentId" in feed
+      ? [feed.intentId]
+      : (await listStatuses({ userDestination: feed.userDestination })).intents.map(
+          (status) => status.intentId,
+        );
+  const changes: StatusChange[] = [];
+  for (const intentId of intentIds) {
+    for (const event of await getStatusHistory(intentId)) {
+      if (event.seq !== undefined && event.seq > afterSeq) {
+        changes.push({ intentId, ...event });
+      }
+    }
+  }
+  return changes.sort((a, b) => a.seq! - b.seq!);
 }
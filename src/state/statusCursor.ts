@@ -0,0 +1,33 @@
+/**
+ * Opaque cursor for status listings. Pages are ordered newest first by
+ * (createdAt, intentId), so the cursor holds the last item's position and
+ * stays valid when intents change state or are updated in between.
+ */
+export interface StatusCursor {
+  /** createdAt of the last item, in ms */
+  score: number;
+  intentId: string;
+}
+
+export function encodeCursor(cursor: StatusCursor): string {
+  return Buffer.from(JSON.stringify([cursor.score, cursor.intentId])).toString("base64url");
+}
+
+/** Returns null for anything that is not a cursor we issued */
+export function decodeCursor(value: string): StatusCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || typeof parsed[0] !== "number" || typeof parsed[1] !== "string") {
+      return null;
+    }
+    return { score: parsed[0], intentId: parsed[1] };
+  } catch {
+    return null;
+  }
+}
+
+/** Whether an item at (score, intentId) comes after the cursor in newest-first order */
+export function isAfterCursor(score: number, intentId: string, cursor: StatusCursor | null): boolean {
+  if (!cursor) return true;
+  return score < cursor.score || (score === cursor.score && intentId < cursor.intentId);
+}
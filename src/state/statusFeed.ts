@@ -0,0 +1,9 @@
+/** Status changes of one intent, or of every intent owned by one user */
+export type StatusFeed = { intentId: string } | { userDestination: string };
+
+/** Pub/sub channel (or in-process event name) a feed's changes are published on */
+export function feedChannel(feed: StatusFeed): string {
+  return "intentId" in feed
+    ? `intent:events:${feed.intentId}`
+    : `intent:events:user:${feed.userDestination}`;
+}
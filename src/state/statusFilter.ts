@@ -0,0 +1,27 @@
+import type { IntentStatus, StatusQuery } from "./status";
+
+/** Score of an intent in the listing indexes: its `createdAt`, in ms */
+export function createdAtScore(status: IntentStatus): number {
+  const createdAt = status.createdAt ? Date.parse(status.createdAt) : NaN;
+  return Number.isNaN(createdAt) ? 0 : createdAt;
+}
+
+/** Inclusive `createdAt` bounds of the query in ms; open ends are infinite */
+export function createdAtRange(query: StatusQuery): { min: number; max: number } {
+  return {
+    min: query.createdAfter ? Date.parse(query.createdAfter) : -Infinity,
+    max: query.createdBefore ? Date.parse(query.createdBefore) : Infinity,
+  };
+}
+
+/** Checks the filters the indexes do not cover (all of them, for the memory store) */
+export function matchesStatusQuery(status: IntentStatus, query: StatusQuery): boolean {
+  if (query.state && status.state !== query.state) return false;
+  if (query.userDestination && status.userDestination !== query.userDestination) return false;
+  if (query.action && status.action !== query.action) return false;
+  if (query.sourceChain && status.sourceChain !== query.sourceChain) return false;
+  if (query.destinationChain && status.destinationChain !== query.destinationChain) return false;
+  const { min, max } = createdAtRange(query);
+  const createdAt = createdAtScore(status);
+  return createdAt >= min && createdAt <= max;
+}
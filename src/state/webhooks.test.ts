@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { config } from "../config";
+import { setStatus } from "./status";
+import {
+  claimDueWebhooks,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  saveWebhookDelivery,
+} from "./webhooks";
+
+config.stateBackend = "memory";
+
+describe("webhook deliveries", () => {
+  it("queues one delivery per state transition of an intent with a callbackUrl", async () => {
+    await setStatus("hook-1", { state: "pending", callbackUrl: "https://example.com/hooks" });
+    await setStatus("hook-1", { state: "processing", attempt: 1 });
+    await setStatus("hook-1", { state: "processing", attempt: 1, detail: "swapping" });
+    await setStatus("hook-1", { state: "succeeded", attempt: 1, txId: "tx-1" });
+
+    const deliveries = await listWebhookDeliveries("hook-1");
+    expect(deliveries.map((d) => [d.payload.previousState, d.payload.state])).toEqual([
+      [undefined, "pending"],
+      ["pending", "processing"],
+      ["processing", "succeeded"],
+    ]);
+    expect(deliveries[2]).toMatchObject({
+      url: "https://example.com/hooks",
+      state: "pending",
+      payload: { type: "intent.state_changed", intentId: "hook-1", txId: "tx-1" },
+    });
+    expect(deliveries[2].payload.deliveryId).toBe(deliveries[2].deliveryId);
+  });
+
+  it("queues nothing for intents without a callbackUrl", async () => {
+    await setStatus("hook-2", { state: "pending" });
+    await setStatus("hook-2", { state: "succeeded" });
+
+    expect(await listWebhookDeliveries("hook-2")).toEqual([]);
+  });
+
+  it("leases due deliveries and schedules redeliveries", async () => {
+    await setStatus("hook-3", { state: "pending", callbackUrl: "https://example.com/hooks" });
+
+    const claimed = (await claimDueWebhooks(60_000, 100)).filter((d) => d.intentId === "hook-3");
+    expect(claimed).toHaveLength(1);
+    // Leased, so another dispatcher does not get it
+    expect((await claimDueWebhooks(60_000, 100)).some((d) => d.intentId === "hook-3")).toBe(false);
+
+    await saveWebhookDelivery({ ...claimed[0], state: "failed", nextAttemptAt: undefined });
+    const redelivery = await redeliverWebhook(claimed[0].deliveryId);
+    expect(redelivery).toMatchObject({
+      state: "pending",
+      redeliveredAt: expect.any(String),
+      roundStart: 0,
+    });
+    expect((await claimDueWebhooks(60_000, 100)).map((d) => d.deliveryId)).toContain(
+      claimed[0].deliveryId,
+    );
+    expect(await redeliverWebhook("missing")).toBeNull();
+  });
+});
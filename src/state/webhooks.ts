@@ -0,0 +1,343 @@
+import crypto from "crypto";
+import Redis from "ioredis";
+import { config } from "../config";
+import type { IntentState, StatusChange } from "./status";
+
+/**
+ * Webhook deliveries for intents submitted with a `callbackUrl`. Every state
+ * transition becomes a delivery record on a due-time schedule; the webhook
+ * dispatcher POSTs due deliveries and reschedules failed ones, so a slow
+ * receiver never holds up a flow. Records double as the delivery log.
+ */
+
+const DELIVERY_PREFIX = "webhook:delivery:";
+const INTENT_DELIVERIES_PREFIX = "webhook:intent:";
+/** Sorted set of pending deliveryIds scored by when they are due (ms) */
+const DUE_KEY = "webhook:due";
+const DELIVERY_TTL_SECONDS = config.statusTtlSeconds;
+
+export type WebhookDeliveryState = "pending" | "delivered" | "failed";
+
+/** Body POSTed to the callback URL */
+export type WebhookPayload = StatusChange & {
+  type: "intent.state_changed";
+  deliveryId: string;
+  /** Unset for the first status of the intent */
+  previousState?: IntentState;
+};
+
+export interface WebhookAttempt {
+  attempt: number;
+  at: string;
+  /** HTTP status of the response; unset when the request itself failed */
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  intentId: string;
+  url: string;
+  payload: WebhookPayload;
+  state: WebhookDeliveryState;
+  /** Oldest first, including attempts before a manual redelivery */
+  attempts: WebhookAttempt[];
+  createdAt: string;
+  /** When the next attempt is due; unset once delivered or failed */
+  nextAttemptAt?: string;
+  /** Set by a manual redelivery */
+  redeliveredAt?: string;
+  /** Index in `attempts` where the current round began; attempts count from 1 again after a redelivery */
+  roundStart?: number;
+}
+
+/**
+ * KEYS: due set
+ * ARGV: now (ms), lease expiry (ms), limit, delivery key prefix
+ * Pushes the due time of each returned delivery out to the lease expiry, so a
+ * dispatcher that dies mid-delivery leaves it to be picked up again later.
+ * Deliveries whose record expired are dropped from the schedule.
+ */
+const CLAIM_SCRIPT = `
+local ids = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[3]))
+local claimed = {}
+for _, id in ipairs(ids) do
+  if redis.call("EXISTS", ARGV[4] .. id) == 1 then
+    redis.call("ZADD", KEYS[1], ARGV[2], id)
+    table.insert(claimed, id)
+  else
+    redis.call("ZREM", KEYS[1], id)
+  end
+end
+return claimed
+`;
+
+interface WebhookStore {
+  /** Saves a new delivery and adds it to its intent's log */
+  create(delivery: WebhookDelivery): Promise<void>;
+  /** Saves the record and schedules it at `nextAttemptAt`, or unschedules it */
+  update(delivery: WebhookDelivery): Promise<void>;
+  get(deliveryId: string): Promise<WebhookDelivery | null>;
+  listForIntent(intentId: string): Promise<WebhookDelivery[]>;
+  /** Leases up to `limit` due deliveries for `leaseMs` and returns their ids */
+  claimDue(leaseMs: number, limit: number): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+function deliveryKey(deliveryId: string) {
+  return `${DELIVERY_PREFIX}${deliveryId}`;
+}
+
+function intentDeliveriesKey(intentId: string) {
+  return `${INTENT_DELIVERIES_PREFIX}${intentId}`;
+}
+
+function dueAt(delivery: WebhookDelivery): number | null {
+  if (delivery.state !== "pending" || !delivery.nextAttemptAt) return null;
+  return Date.parse(delivery.nextAttemptAt);
+}
+
+class RedisWebhookStore implements WebhookStore {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: true,
+    });
+    this.redis.on("error", (err) => {
+      console.error("Redis connection error (webhook store)", err);
+    });
+  }
+
+  async create(delivery: WebhookDelivery) {
+    const logKey = intentDeliveriesKey(delivery.intentId);
+    await this.schedule(
+      this.redis
+        .multi()
+        .set(deliveryKey(delivery.deliveryId), JSON.stringify(delivery), "EX", DELIVERY_TTL_SECONDS)
+        .rpush(logKey, delivery.deliveryId)
+        .expire(logKey, DELIVERY_TTL_SECONDS),
+      delivery,
+    ).exec();
+  }
+
+  async update(delivery: WebhookDelivery) {
+    await this.schedule(
+      this.redis
+        .multi()
+        .set(deliveryKey(delivery.deliveryId), JSON.stringify(delivery), "EX", DELIVERY_TTL_SECONDS),
+      delivery,
+    ).exec();
+  }
+
+  async get(deliveryId: string): Promise<WebhookDelivery | null> {
+    const raw = await this.redis.get(deliveryKey(deliveryId));
+    return raw ? parseDelivery(raw) : null;
+  }
+
+  async listForIntent(intentId: string): Promise<WebhookDelivery[]> {
+    const ids = await this.redis.lrange(intentDeliveriesKey(intentId), 0, -1);
+    if (!ids.length) return [];
+    const values = await this.redis.mget(ids.map(deliveryKey));
+    return values.flatMap((raw) => {
+      const delivery = raw ? parseDelivery(raw) : null;
+      return delivery ? [delivery] : [];
+    });
+  }
+
+  async claimDue(leaseMs: number, limit: number) {
+    const now = Date.now();
+    return (await this.redis.eval(
+      CLAIM_SCRIPT,
+      1,
+      DUE_KEY,
+      now,
+      now + leaseMs,
+      limit,
+      DELIVERY_PREFIX,
+    )) as string[];
+  }
+
+  async close() {
+    await this.redis.quit();
+  }
+
+  private schedule(multi: ReturnType<Redis["multi"]>, delivery: WebhookDelivery) {
+    const due = dueAt(delivery);
+    return due === null
+      ? multi.zrem(DUE_KEY, delivery.deliveryId)
+      : multi.zadd(DUE_KEY, due, delivery.deliveryId);
+  }
+}
+
+class MemoryWebhookStore implements WebhookStore {
+  private deliveries = new Map<string, { delivery: WebhookDelivery; expiresAt: number }>();
+  private byIntent = new Map<string, string[]>();
+  private due = new Map<string, number>();
+
+  async create(delivery: WebhookDelivery) {
+    this.byIntent.set(delivery.intentId, [
+      ...(this.byIntent.get(delivery.intentId) ?? []),
+      delivery.deliveryId,
+    ]);
+    await this.update(delivery);
+  }
+
+  async update(delivery: WebhookDelivery) {
+    this.deliveries.set(delivery.deliveryId, {
+      delivery: structuredClone(delivery),
+      expiresAt: Date.now() + DELIVERY_TTL_SECONDS * 1000,
+    });
+    const due = dueAt(delivery);
+    if (due === null) {
+      this.due.delete(delivery.deliveryId);
+    } else {
+      this.due.set(delivery.deliveryId, due);
+    }
+  }
+
+  async get(deliveryId: string): Promise<WebhookDelivery | null> {
+    const entry = this.deliveries.get(deliveryId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.deliveries.delete(deliveryId);
+      this.due.delete(deliveryId);
+      return null;
+    }
+    return structuredClone(entry.delivery);
+  }
+
+  async listForIntent(intentId: string): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+    for (const deliveryId of this.byIntent.get(intentId) ?? []) {
+      const delivery = await this.get(deliveryId);
+      if (delivery) deliveries.push(delivery);
+    }
+    return deliveries;
+  }
+
+  async claimDue(leaseMs: number, limit: number) {
+    const now = Date.now();
+    const ids = [...this.due]
+      .filter(([, due]) => due <= now)
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, limit)
+      .map(([deliveryId]) => deliveryId);
+    for (const deliveryId of ids) {
+      this.due.set(deliveryId, now + leaseMs);
+    }
+    return ids;
+  }
+
+  async close() {
+    // Nothing to close; deliveries are kept for the life of the process
+  }
+}
+
+function parseDelivery(raw: string): WebhookDelivery | null {
+  try {
+    return JSON.parse(raw) as WebhookDelivery;
+  } catch (err) {
+    console.error("Failed to parse webhook delivery", err);
+    return null;
+  }
+}
+
+let store: WebhookStore | null = null;
+
+/** Follows STATE_BACKEND, like the status store; created on first use */
+function getWebhookStore(): WebhookStore {
+  if (store) return store;
+  switch (config.stateBackend) {
+    case "redis":
+      store = new RedisWebhookStore();
+      break;
+    case "memory":
+      store = new MemoryWebhookStore();
+      break;
+    default:
+      throw new Error(`Unknown STATE_BACKEND: ${config.stateBackend}`);
+  }
+  return store;
+}
+
+/** Closes the store's connection; the next call reopens it */
+export async function closeWebhookStore() {
+  const current = store;
+  store = null;
+  await current?.close();
+}
+
+/** Records a delivery of `change` to `url`, due immediately */
+export async function queueWebhook(
+  url: string,
+  change: StatusChange,
+  previousState?: IntentState,
+): Promise<WebhookDelivery> {
+  const deliveryId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const payload: WebhookPayload = { type: "intent.state_changed", deliveryId, ...change };
+  if (previousState) payload.previousState = previousState;
+  const delivery: WebhookDelivery = {
+    deliveryId,
+    intentId: change.intentId,
+    url,
+    payload,
+    state: "pending",
+    attempts: [],
+    createdAt: now,
+    nextAttemptAt: now,
+  };
+  await getWebhookStore().create(delivery);
+  return delivery;
+}
+
+export async function getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+  return getWebhookStore().get(deliveryId);
+}
+
+/** Delivery log of the intent, oldest first */
+export async function listWebhookDeliveries(intentId: string): Promise<WebhookDelivery[]> {
+  return getWebhookStore().listForIntent(intentId);
+}
+
+/** Persists a delivery after an attempt; pending ones are rescheduled at `nextAttemptAt` */
+export async function saveWebhookDelivery(delivery: WebhookDelivery) {
+  await getWebhookStore().update(delivery);
+}
+
+/**
+ * Leases up to `limit` due deliveries for `leaseMs`. A delivery that is not
+ * saved again within the lease becomes due again.
+ */
+export async function claimDueWebhooks(leaseMs: number, limit: number): Promise<WebhookDelivery[]> {
+  const store = getWebhookStore();
+  const deliveries: WebhookDelivery[] = [];
+  for (const deliveryId of await store.claimDue(leaseMs, limit)) {
+    const delivery = await store.get(deliveryId);
+    if (delivery) deliveries.push(delivery);
+  }
+  return deliveries;
+}
+
+/**
+ * Schedules another round of attempts for a delivery, whatever its state.
+ * Earlier attempts stay in the log. Returns null for unknown deliveries.
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDelivery | null> {
+  const store = getWebhookStore();
+  const delivery = await store.get(deliveryId);
+  if (!delivery) return null;
+  const now = new Date().toISOString();
+  const redelivery: WebhookDelivery = {
+    ...delivery,
+    state: "pending",
+    nextAttemptAt: now,
+    redeliveredAt: now,
+    roundStart: delivery.attempts.length,
+  };
+  await store.update(redelivery);
+  return redelivery;
+}
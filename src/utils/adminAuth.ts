@@ -0,0 +1,30 @@
+import crypto from "crypto";
+import { createMiddleware } from "hono/factory";
+import { config } from "../config";
+
+/** Constant-time string comparison, for secrets */
+export function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  if (aBuf.length !== bBuf.length) return false;
+  return crypto.timingSafeEqual(aBuf, bBuf);
+}
+
+/**
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ * Admin routes respond 503 when no key is configured so they are never open by default.
+ */
+export const requireAdmin = createMiddleware(async (c, next) => {
+  if (!config.adminApiKey) {
+    return c.json({ error: "Admin API is disabled (set ADMIN_API_KEY)" }, 503);
+  }
+
+  const header = c.req.header("Authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  if (!token || !safeEqual(token, config.adminApiKey)) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  await next();
+});
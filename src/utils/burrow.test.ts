@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BURROW_CONTRACT,
+  buildBorrowArgs,
+  buildCollateralArgs,
+  buildRepayArgs,
+  buildWithdrawArgs,
+  fromBurrowInnerAmount,
+  getBurrowSupplied,
+  projectHealthFactorAfterDecrease,
+  toBurrowInnerAmount,
+} from "./burrow";
+import { getFtMetadata, nearViewCall } from "./nearRpc";
+
+vi.mock("./nearRpc", () => ({
+  // $1 per USDC: multiplier / 10^(decimals - token decimals)
+  nearViewCall: vi.fn().mockResolvedValue({
+    timestamp: "0",
+    recency_duration_sec: 90,
+    prices: [{ asset_id: "usdc.near", price: { multiplier: "10000", decimals: 10 } }],
+  }),
+  getFtMetadata: vi.fn().mockResolvedValue({ decimals: 6, symbol: "USDC" }),
+}));
+
+const USDC = 10n ** 18n; // 1 USDC in Burrow's inner units (6 + 12 extra decimals)
+
+describe("burrow", () => {
+  describe("inner amounts", () => {
+    it("scales token amounts by the asset's extra decimals", () => {
+      expect(toBurrowInnerAmount("1500000", 12)).toBe("1500000000000000000");
+      expect(toBurrowInnerAmount(42n, 0)).toBe("42");
+    });
+
+    it("rounds inner amounts up when converting back", () => {
+      expect(fromBurrowInnerAmount("1500000000000000000", 12)).toBe(1500000n);
+      expect(fromBurrowInnerAmount("1500000000000000001", 12)).toBe(1500001n);
+      expect(fromBurrowInnerAmount("0", 12)).toBe(0n);
+    });
+  });
+
+  describe("buildBorrowArgs", () => {
+    it("borrows and withdraws the same inner amount", () => {
+      expect(buildBorrowArgs("usdc.near", "1000000", 12)).toEqual({
+        actions: [
+          { Borrow: { token_id: "usdc.near", amount: "1000000000000000000" } },
+          { Withdraw: { token_id: "usdc.near", max_amount: "1000000000000000000" } },
+        ],
+      });
+    });
+  });
+
+  describe("buildRepayArgs", () => {
+    it("caps the repay at max_amount when given", () => {
+      const args = buildRepayArgs("usdc.near", "1000000", "1000000000000000000");
+
+      expect(args.receiver_id).toBe(BURROW_CONTRACT);
+      expect(args.amount).toBe("1000000");
+      expect(JSON.parse(args.msg)).toEqual({
+        Execute: { actions: [{ Repay: { token_id: "usdc.near", max_amount: "1000000000000000000" } }] },
+      });
+    });
+
+    it("omits max_amount to repay the whole debt", () => {
+      const args = buildRepayArgs("usdc.near", "1000000");
+
+      expect(JSON.parse(args.msg)).toEqual({
+        Execute: { actions: [{ Repay: { token_id: "usdc.near" } }] },
+      });
+    });
+  });
+
+  describe("buildWithdrawArgs", () => {
+    it("withdraws up to the inner amount", () => {
+      expect(buildWithdrawArgs("usdc.near", "2000000000000")).toEqual({
+        actions: [{ Withdraw: { token_id: "usdc.near", max_amount: "2000000000000" } }],
+      });
+    });
+  });
+
+  describe("getBurrowSupplied", () => {
+    it("reads the exact supplied inner balance of the token", async () => {
+      vi.mocked(nearViewCall).mockResolvedValueOnce({
+        account_id: "derived.near",
+        supplied: [{ token_id: "usdc.near", balance: "1500000000000000001", shares: "0" }],
+        borrowed: [],
+      });
+
+      expect(await getBurrowSupplied("derived.near", "usdc.near")).toBe(1500000000000000001n);
+      expect(nearViewCall).toHaveBeenLastCalledWith(BURROW_CONTRACT, "get_account", {
+        account_id: "derived.near",
+      });
+    });
+
+    it("is 0 without an account or a supplied balance", async () => {
+      vi.mocked(nearViewCall).mockResolvedValueOnce(null);
+      expect(await getBurrowSupplied("derived.near", "usdc.near")).toBe(0n);
+
+      vi.mocked(nearViewCall).mockResolvedValueOnce({ account_id: "derived.near", supplied: [], borrowed: [] });
+      expect(await getBurrowSupplied("derived.near", "usdc.near")).toBe(0n);
+    });
+  });
+
+  describe("buildCollateralArgs", () => {
+    it("moves the inner amount in or out of collateral", () => {
+      expect(buildCollateralArgs("increase", "usdc.near", "5", 12)).toEqual({
+        actions: [{ IncreaseCollateral: { token_id: "usdc.near", amount: "5000000000000" } }],
+      });
+      expect(buildCollateralArgs("decrease", "usdc.near", "5", 12)).toEqual({
+        actions: [{ DecreaseCollateral: { token_id: "usdc.near", amount: "5000000000000" } }],
+      });
+    });
+  });
+
+  describe("projectHealthFactorAfterDecrease", () => {
+    let account: Record<string, unknown> | null;
+
+    beforeEach(() => {
+      account = {
+        account_id: "derived.near",
+        supplied: [],
+        collateral: [{ token_id: "usdc.near", balance: (1000n * USDC).toString(), shares: "0", apr: "0" }],
+        borrowed: [{ token_id: "usdc.near", balance: (500n * USDC).toString(), shares: "0", apr: "0" }],
+        farms: [],
+        has_non_farmed_assets: false,
+        booster_staking: null,
+      };
+      vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+        const data = url.includes("get_account")
+          ? account
+          : [{ token_id: "usdc.near", config: { extra_decimals: 12, volatility_ratio: 9500 } }];
+        return new Response(JSON.stringify({ code: "0", msg: "success", data }), { status: 200 });
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("projects the health factor with the collateral removed", async () => {
+      // (700 * 0.95) / (500 / 0.95) * 100
+      const health = await projectHealthFactorAfterDecrease("derived.near", "usdc.near", 300n * USDC);
+      expect(health).toBeCloseTo(126.35, 2);
+    });
+
+    it("is null when nothing is borrowed", async () => {
+      account!.borrowed = [];
+      expect(await projectHealthFactorAfterDecrease("derived.near", "usdc.near", 300n * USDC)).toBeNull();
+    });
+
+    it("rejects removing more collateral than there is", async () => {
+      await expect(
+        projectHealthFactorAfterDecrease("derived.near", "usdc.near", 1001n * USDC),
+      ).rejects.toThrow(/less than/);
+    });
+
+    it("fails when a borrowed token has no oracle price", async () => {
+      (account!.borrowed as unknown[]).push({ token_id: "wbtc.near", balance: "1", shares: "0", apr: "0" });
+      await expect(
+        projectHealthFactorAfterDecrease("derived.near", "usdc.near", USDC),
+      ).rejects.toThrow(/Failed to price Burrow position for wbtc.near/);
+    });
+
+    it("fails when a token's metadata can't be read", async () => {
+      vi.mocked(getFtMetadata).mockRejectedValueOnce(new Error("rpc down"));
+      await expect(
+        projectHealthFactorAfterDecrease("derived.near", "usdc.near", USDC),
+      ).rejects.toThrow(/rpc down/);
+    });
+
+    it("fails when the account can't be loaded", async () => {
+      account = null;
+      await expect(
+        projectHealthFactorAfterDecrease("derived.near", "usdc.near", USDC),
+      ).rejects.toThrow(/Failed to load Burrow account/);
+    });
+  });
+});
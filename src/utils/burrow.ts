@@ -1,4 +1,5 @@
 import { isTestnet } from "../config";
+import { ProtocolRejectedError, TransientError, httpError } from "../errors";
 import { nearViewCall, getFtMetadata, FtMetadata } from "./nearRpc";
 
 // Burrow contract addresses
@@ -147,13 +148,13 @@ export async function getAssetsPagedDetailed(): Promise<BurrowAssetDetailed[]> {
   const response = await fetch(`${RHEA_SDK_BASE_URL}/get_assets_paged_detailed`);
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch Burrow markets from Rhea SDK: ${response.status}`);
+    throw httpError(`Failed to fetch Burrow markets from Rhea SDK: ${response.status}`, response.status);
   }
 
   const result: RheaSdkResponse = await response.json();
 
   if (result.code !== "0" || result.msg !== "success") {
-    throw new Error(`Rhea SDK error: ${result.msg}`);
+    throw new ProtocolRejectedError(`Rhea SDK error: ${result.msg}`, "rhea_error");
   }
 
   return result.data;
@@ -173,7 +174,7 @@ export async function getBurrowAccount(accountId: string): Promise<BurrowAccount
       if (response.status === 404) {
         return null;
       }
-      throw new Error(`Failed to fetch account: ${response.status}`);
+      throw httpError(`Failed to fetch account: ${response.status}`, response.status);
     }
 
     const result: RheaAccountResponse = await response.json();
@@ -338,6 +339,63 @@ export async function getUserPositions(accountId: string): Promise<BurrowUserPos
     };
   }
 
+  return summarizePositions(accountId, account, assets, priceData);
+}
+
+/**
+ * Health factor the account would have with `innerAmount` (in Burrow's inner
+ * units) of the token's collateral removed, at current oracle prices; null
+ * when nothing is borrowed. Throws when the account can't be loaded or one of
+ * its tokens can't be priced, so a caller guarding a decrease fails closed.
+ */
+export async function projectHealthFactorAfterDecrease(
+  accountId: string,
+  tokenId: string,
+  innerAmount: bigint,
+): Promise<number | null> {
+  const [account, assets, priceData] = await Promise.all([
+    getBurrowAccount(accountId),
+    getAssetsPagedDetailed(),
+    getPriceData(),
+  ]);
+
+  if (!account) {
+    throw new TransientError(`Failed to load Burrow account ${accountId}`);
+  }
+
+  const collateral = account.collateral.find((c) => c.token_id === tokenId);
+  const collateralBalance = BigInt(collateral?.balance || "0");
+  if (collateralBalance < innerAmount) {
+    throw new ProtocolRejectedError(
+      `Burrow collateral of ${tokenId} is ${collateralBalance}, less than ${innerAmount}`,
+      "insufficient_collateral",
+    );
+  }
+
+  const projected: BurrowAccount = {
+    ...account,
+    collateral: account.collateral.map((c) =>
+      c.token_id === tokenId ? { ...c, balance: (collateralBalance - innerAmount).toString() } : c,
+    ),
+  };
+  const { healthFactor } = await summarizePositions(accountId, projected, assets, priceData, {
+    requirePrices: true,
+  });
+  return healthFactor;
+}
+
+/**
+ * Values the account's positions at oracle prices. A token that can't be
+ * priced is left out with a warning, or with `requirePrices` fails the whole
+ * summary, since leaving it out would misstate the health factor.
+ */
+async function summarizePositions(
+  accountId: string,
+  account: BurrowAccount,
+  assets: BurrowAssetDetailed[],
+  priceData: BurrowPriceData,
+  options: { requirePrices?: boolean } = {},
+): Promise<BurrowUserPositions> {
   const tokenMetadataCache: Record<string, FtMetadata> = {};
   const assetConfigMap: Record<string, BurrowAssetConfig> = {};
 
@@ -372,6 +430,9 @@ export async function getUserPositions(accountId: string): Promise<BurrowUserPos
       const volatilityRatio = (config?.volatility_ratio || 0) / 10000;
 
       const price = calculateTokenPrice(priceData, tokenId, metadata.decimals);
+      if (options.requirePrices && !(price > 0)) {
+        throw new Error(`no oracle price for ${tokenId}`);
+      }
 
       const supplied = account.supplied.find((s) => s.token_id === tokenId);
       const collateral = account.collateral.find((c) => c.token_id === tokenId);
@@ -409,6 +470,13 @@ export async function getUserPositions(accountId: string): Promise<BurrowUserPos
         borrowedBalanceUsd: borrowedUsd,
       });
     } catch (err) {
+      if (options.requirePrices) {
+        throw new TransientError(
+          `Failed to price Burrow position for ${tokenId}: ${(err as Error).message}`,
+          "transient",
+          { cause: err },
+        );
+      }
       console.warn(`Failed to process position for ${tokenId}:`, err);
     }
   }
@@ -468,13 +536,13 @@ export async function buildSupplyTransaction(
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to build supply transaction: ${response.status}`);
+    throw httpError(`Failed to build supply transaction: ${response.status}`, response.status);
   }
 
   const result: RheaSupplyResponse = await response.json();
 
   if (result.code !== "0" || result.msg !== "success") {
-    throw new Error(`Rhea SDK supply error: ${result.msg}`);
+    throw new ProtocolRejectedError(`Rhea SDK supply error: ${result.msg}`, "rhea_error");
   }
 
   return result.data;
@@ -519,14 +587,144 @@ export async function buildWithdrawTransaction(
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to build withdraw transaction: ${response.status}`);
+    throw httpError(`Failed to build withdraw transaction: ${response.status}`, response.status);
   }
 
   const result: RheaWithdrawResponse = await response.json();
 
   if (result.code !== "0" || result.msg !== "success") {
-    throw new Error(`Rhea SDK withdraw error: ${result.msg}`);
+    throw new ProtocolRejectedError(`Rhea SDK withdraw error: ${result.msg}`, "rhea_error");
   }
 
   return result.data;
 }
+
+// Borrow and collateral changes run with fresh Pyth prices, so they need more
+// gas than a plain ft_transfer_call
+export const GAS_FOR_EXECUTE_WITH_PYTH = BigInt("250000000000000"); // 250 TGas
+
+// Burrow keeps balances with the asset's extra_decimals on top of the token's
+export function toBurrowInnerAmount(amount: string | bigint, extraDecimals: number): string {
+  return (BigInt(amount) * 10n ** BigInt(extraDecimals)).toString();
+}
+
+// Back to token units, rounding up so a repay of the result covers the balance
+export function fromBurrowInnerAmount(innerAmount: string | bigint, extraDecimals: number): bigint {
+  const scale = 10n ** BigInt(extraDecimals);
+  return (BigInt(innerAmount) + scale - 1n) / scale;
+}
+
+export type BurrowAction =
+  | { Borrow: { token_id: string; amount: string } }
+  | { Withdraw: { token_id: string; max_amount?: string } }
+  | { Repay: { token_id: string; max_amount?: string } }
+  | { IncreaseCollateral: { token_id: string; amount: string } }
+  | { DecreaseCollateral: { token_id: string; amount: string } };
+
+/**
+ * Args for `execute_with_pyth`, which Burrow requires for any action that
+ * lowers the account's health: the contract pulls Pyth prices itself.
+ * Borrowed tokens are credited as supplied, so a borrow is followed by a
+ * withdraw to send them to the account.
+ */
+export function buildBorrowArgs(
+  tokenId: string,
+  amount: string,
+  extraDecimals: number,
+): { actions: BurrowAction[] } {
+  const innerAmount = toBurrowInnerAmount(amount, extraDecimals);
+  return {
+    actions: [
+      { Borrow: { token_id: tokenId, amount: innerAmount } },
+      { Withdraw: { token_id: tokenId, max_amount: innerAmount } },
+    ],
+  };
+}
+
+/**
+ * Args for the ft_transfer_call on the token contract that repays from the
+ * transferred tokens. Without `maxInnerAmount` Burrow repays the whole debt;
+ * whatever the transfer doesn't use stays supplied on the account (see
+ * buildWithdrawArgs).
+ */
+export function buildRepayArgs(
+  tokenId: string,
+  amount: string,
+  maxInnerAmount?: string,
+): { receiver_id: string; amount: string; msg: string } {
+  const repay: BurrowAction = {
+    Repay: { token_id: tokenId, ...(maxInnerAmount && { max_amount: maxInnerAmount }) },
+  };
+  return {
+    receiver_id: BURROW_CONTRACT,
+    amount,
+    msg: JSON.stringify({ Execute: { actions: [repay] } }),
+  };
+}
+
+/**
+ * Args for `execute` withdrawing up to `maxInnerAmount` of the account's
+ * supplied (non-collateral) balance to the account.
+ */
+export function buildWithdrawArgs(
+  tokenId: string,
+  maxInnerAmount: string,
+): { actions: BurrowAction[] } {
+  return { actions: [{ Withdraw: { token_id: tokenId, max_amount: maxInnerAmount } }] };
+}
+
+interface BurrowContractAccount {
+  account_id: string;
+  supplied: Array<{ token_id: string; balance: string; shares: string }>;
+  borrowed: Array<{ token_id: string; balance: string; shares: string }>;
+}
+
+function getContractAccount(accountId: string): Promise<BurrowContractAccount | null> {
+  return nearViewCall<BurrowContractAccount | null>(
+    BURROW_CONTRACT,
+    "get_account",
+    { account_id: accountId },
+  );
+}
+
+/**
+ * What the account owes of the token in token units (rounded up), read from
+ * the contract. Unlike getBurrowAccount, errors propagate: a debt of 0 must
+ * mean there is none.
+ */
+export async function getBurrowDebt(
+  accountId: string,
+  tokenId: string,
+  extraDecimals: number,
+): Promise<bigint> {
+  const account = await getContractAccount(accountId);
+  const borrowed = account?.borrowed.find((b) => b.token_id === tokenId);
+  return borrowed ? fromBurrowInnerAmount(borrowed.balance, extraDecimals) : 0n;
+}
+
+/**
+ * The account's supplied (non-collateral) balance of the token in Burrow's
+ * inner units, exact so two reads can be compared. Errors propagate like
+ * getBurrowDebt's.
+ */
+export async function getBurrowSupplied(accountId: string, tokenId: string): Promise<bigint> {
+  const account = await getContractAccount(accountId);
+  const supplied = account?.supplied.find((s) => s.token_id === tokenId);
+  return supplied ? BigInt(supplied.balance) : 0n;
+}
+
+/**
+ * Args for moving supplied balance into collateral (`execute`) or collateral
+ * back into supplied balance (`execute_with_pyth`, as it lowers health).
+ */
+export function buildCollateralArgs(
+  direction: "increase" | "decrease",
+  tokenId: string,
+  amount: string,
+  extraDecimals: number,
+): { actions: BurrowAction[] } {
+  const asset = { token_id: tokenId, amount: toBurrowInnerAmount(amount, extraDecimals) };
+  return {
+    actions: [direction === "increase" ? { IncreaseCollateral: asset } : { DecreaseCollateral: asset }],
+  };
+}
@@ -1,6 +1,7 @@
 import { requestSignature } from "@neardefi/shade-agent-js";
 import { contracts, utils } from "chainsig.js";
 import { config } from "../config";
+import { ConfigurationError } from "../errors";
 import { parseSignature } from "./signature";
 import { SOLANA_DEFAULT_PATH } from "./solana";
 
@@ -30,7 +31,7 @@ export async function deriveNearImplicitAccount(
   userDestination?: string,
 ): Promise<{ accountId: string; publicKey: string }> {
   const accountId = config.shadeContractId;
-  if (!accountId) throw new Error("NEXT_PUBLIC_contractId not configured");
+  if (!accountId) throw new ConfigurationError("NEXT_PUBLIC_contractId not configured");
 
   // Build derivation path including user identifiers for custody isolation
   let derivationPath = path;
@@ -123,7 +124,7 @@ export async function signWithNearChainSignatures(
   userDestination?: string,
 ): Promise<Uint8Array> {
   if (!config.shadeContractId) {
-    throw new Error("NEXT_PUBLIC_contractId not configured for signing");
+    throw new ConfigurationError("NEXT_PUBLIC_contractId not configured for signing");
   }
 
   // Build derivation path including user destination for custody isolation
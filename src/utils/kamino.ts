@@ -0,0 +1,157 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { createSolanaRpc, address } from "@solana/kit";
+import {
+  KaminoAction,
+  KaminoMarket,
+  KaminoObligation,
+  KaminoReserve,
+  PROGRAM_ID,
+  VanillaObligation,
+} from "@kamino-finance/klend-sdk";
+import { config } from "../config";
+import { ProtocolRejectedError } from "../errors";
+import {
+  attachMultipleSignaturesToVersionedTx,
+  broadcastSolanaTx,
+} from "./solana";
+import { signWithNearChainSignatures } from "./chainSignature";
+
+export function createKaminoRpc() {
+  return createSolanaRpc(config.solRpcUrl);
+}
+
+/**
+ * Loads the market and its reserve for the mint.
+ * Throws ProtocolRejectedError if either does not exist.
+ */
+export async function loadKaminoReserve(
+  marketAddress: string,
+  mintAddress: string,
+): Promise<{ market: KaminoMarket; reserve: KaminoReserve }> {
+  const market = await KaminoMarket.load(
+    createKaminoRpc(),
+    address(marketAddress),
+    1000, // recentSlotDurationMs
+    PROGRAM_ID,
+  );
+  if (!market) {
+    throw new ProtocolRejectedError(`Failed to load Kamino market: ${marketAddress}`, "market_not_found");
+  }
+
+  const reserve = market.getReserveByMint(address(mintAddress));
+  if (!reserve) {
+    throw new ProtocolRejectedError(`Reserve not found for mint: ${mintAddress}`, "reserve_not_found");
+  }
+  return { market, reserve };
+}
+
+/**
+ * The owner's vanilla obligation in the market and what it owes of the mint,
+ * in base units rounded up, including interest accrued up to the last refresh.
+ * Null when the owner has no obligation or no such borrow.
+ */
+export async function getKaminoDebt(
+  market: KaminoMarket,
+  mintAddress: string,
+  ownerAddress: string,
+): Promise<{ obligation: KaminoObligation; debt: bigint } | null> {
+  const obligation = await market.getObligationByWallet(
+    address(ownerAddress),
+    new VanillaObligation(PROGRAM_ID),
+  );
+  const borrow = obligation?.getBorrowByMint(address(mintAddress));
+  if (!obligation || !borrow || borrow.amount.lte(0)) {
+    return null;
+  }
+  return { obligation, debt: BigInt(borrow.amount.ceil().toFixed(0)) };
+}
+
+/**
+ * Compiles the instructions of a Kamino action into a v0 transaction paid
+ * for by `feePayer`, for signing via NEAR chain signatures.
+ */
+export async function buildKaminoActionTransaction(
+  action: KaminoAction,
+  feePayer: PublicKey,
+  logTag: string,
+): Promise<{ transaction: VersionedTransaction; serializedMessage: Uint8Array }> {
+  console.log(`[${logTag}] Action instruction counts:`, {
+    computeBudgetIxs: action.computeBudgetIxs?.length ?? 'undefined',
+    setupIxs: action.setupIxs?.length ?? 'undefined',
+    lendingIxs: action.lendingIxs?.length ?? 'undefined',
+    cleanupIxs: action.cleanupIxs?.length ?? 'undefined',
+  });
+
+  const instructions = [
+    ...(action.computeBudgetIxs || []),
+    ...(action.setupIxs || []),
+    ...(action.lendingIxs || []),
+    ...(action.cleanupIxs || []),
+  ].filter((ix) => ix != null);
+
+  console.log(`[${logTag}] Total instructions after filtering: ${instructions.length}`);
+
+  // For broadcasting via @solana/web3.js, we need to convert the transaction
+  const connection = new Connection(config.solRpcUrl, "confirmed");
+  const { blockhash } = await connection.getLatestBlockhash();
+
+  // Convert kit instructions to web3.js instructions
+  // AccountRole values from @solana/instructions:
+  // READONLY = 0, WRITABLE = 1, READONLY_SIGNER = 2, WRITABLE_SIGNER = 3
+  // Note: Some instructions (like ComputeBudget) don't have accounts
+  const web3Instructions = instructions.map((ix: any) => {
+    return {
+      programId: new PublicKey(ix.programAddress),
+      keys: (ix.accounts || []).map((acc: any) => ({
+        pubkey: new PublicKey(acc.address),
+        isSigner: acc.role === 2 || acc.role === 3, // READONLY_SIGNER or WRITABLE_SIGNER
+        isWritable: acc.role === 1 || acc.role === 3, // WRITABLE or WRITABLE_SIGNER
+      })),
+      data: Buffer.from(ix.data),
+    };
+  });
+
+  const messageV0 = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: blockhash,
+    instructions: web3Instructions,
+  }).compileToV0Message();
+
+  const transaction = new VersionedTransaction(messageV0);
+
+  return { transaction, serializedMessage: transaction.message.serialize() };
+}
+
+/**
+ * Signs with the base agent (fee payer, index 0) and the user's derived
+ * account (owner, index 1), then broadcasts.
+ */
+export async function signAndBroadcastAsUserAgent(
+  transaction: VersionedTransaction,
+  serializedMessage: Uint8Array,
+  userDestination: string,
+): Promise<string> {
+  // Sign with base agent (fee payer)
+  const feePayerSignature = await signWithNearChainSignatures(
+    serializedMessage,
+    undefined, // base agent path
+  );
+
+  // Sign with user-specific derived account (owner)
+  const userAgentSignature = await signWithNearChainSignatures(
+    serializedMessage,
+    userDestination,
+  );
+
+  const finalized = attachMultipleSignaturesToVersionedTx(transaction, [
+    { signature: feePayerSignature, index: 0 },
+    { signature: userAgentSignature, index: 1 },
+  ]);
+
+  return broadcastSolanaTx(finalized);
+}
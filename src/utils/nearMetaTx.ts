@@ -5,6 +5,7 @@ import { NEAR } from "@near-js/tokens";
 import { actionCreators, SignedDelegate, Action, encodeDelegateAction, buildDelegateAction, Signature } from "@near-js/transactions";
 import { PublicKey, KeyType } from "@near-js/crypto";
 import { config, isTestnet } from "../config";
+import { ConfigurationError } from "../errors";
 import { deriveNearImplicitAccount, NEAR_DEFAULT_PATH } from "./chainSignature";
 import { requestSignature } from "@neardefi/shade-agent-js";
 import { utils } from "chainsig.js";
@@ -32,7 +33,7 @@ let cachedRelayer: { account: Account; publicKey: string } | null = null;
  */
 async function getRelayerAccount(): Promise<{ account: Account; publicKey: string }> {
   if (!config.nearSeedPhrase) {
-    throw new Error("NEAR_SEED_PHRASE not configured");
+    throw new ConfigurationError("NEAR_SEED_PHRASE not configured");
   }
 
   // Use cached account if available
@@ -108,6 +109,28 @@ export async function ensureImplicitAccountExists(
   }
 }
 
+/**
+ * Ensure the implicit account derived for a userDestination exists.
+ * Flows run this as its own checkpointed step so a retry never funds twice.
+ */
+export async function ensureDerivedAccountExists(
+  userDestination: string,
+): Promise<{ accountId: string }> {
+  const provider = new JsonRpcProvider({ url: nodeUrl });
+  const { accountId, publicKey } = await deriveNearImplicitAccount(
+    NEAR_DEFAULT_PATH,
+    undefined,
+    userDestination,
+  );
+  await ensureImplicitAccountExists(provider, accountId, publicKey);
+  return { accountId };
+}
+
+export interface MetaTransactionOptions {
+  /** Skip the account existence check when the caller already ensured it */
+  skipAccountCheck?: boolean;
+}
+
 /**
  * Build and sign a DelegateAction using chain signatures, then relay it
  */
@@ -115,6 +138,7 @@ export async function executeMetaTransaction(
   userDestination: string,
   receiverId: string,
   actions: Action[],
+  options: MetaTransactionOptions = {},
 ): Promise<string> {
   const provider = new JsonRpcProvider({ url: nodeUrl });
 
@@ -130,7 +154,9 @@ export async function executeMetaTransaction(
   console.log(`[nearMetaTx] Derived account for userDestination=${userDestination}: ${senderId}`);
 
   // Ensure the implicit account exists (fund it if needed)
-  await ensureImplicitAccountExists(provider, senderId, publicKeyStr);
+  if (!options.skipAccountCheck) {
+    await ensureImplicitAccountExists(provider, senderId, publicKeyStr);
+  }
 
   console.log(`[nearMetaTx] Building delegate action for ${senderId} -> ${receiverId}`);
 
@@ -1,4 +1,5 @@
 import { config, isTestnet } from "../config";
+import { TransientError } from "../errors";
 import { fetchWithRetry } from "./http";
 
 const DEFAULT_NEAR_RPC = isTestnet
@@ -30,6 +31,13 @@ interface ViewAccountResult {
   block_hash: string;
 }
 
+export interface ViewAccessKeyResult {
+  nonce: number;
+  permission: "FullAccess" | { FunctionCall: { allowance: string | null; receiver_id: string; method_names: string[] } };
+  block_height: number;
+  block_hash: string;
+}
+
 interface ViewCallResult {
   result: number[];
   logs: string[];
@@ -61,10 +69,63 @@ export async function nearViewAccount(accountId: string): Promise<ViewAccountRes
 
   const data = (await response.json()) as NearRpcResponse<ViewAccountResult>;
   if (data.error) {
-    throw new Error(`NEAR RPC error: ${data.error.message}`);
+    throw new TransientError(`NEAR RPC error: ${data.error.message}`, "rpc_error");
+  }
+  if (!data.result) {
+    throw new TransientError("NEAR RPC returned no result", "rpc_error");
+  }
+  return data.result;
+}
+
+/**
+ * The access key `publicKey` on `accountId`, or null if the account has no
+ * such key (or doesn't exist). Other RPC failures throw.
+ */
+export async function nearViewAccessKey(
+  accountId: string,
+  publicKey: string,
+): Promise<ViewAccessKeyResult | null> {
+  const rpcUrl = getNearRpcUrl();
+  const response = await fetchWithRetry(
+    rpcUrl,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: "dontcare",
+        method: "query",
+        params: {
+          request_type: "view_access_key",
+          finality: "final",
+          account_id: accountId,
+          public_key: publicKey,
+        },
+      }),
+    },
+    3,
+    500,
+  );
+
+  const data = (await response.json()) as NearRpcResponse<ViewAccessKeyResult | { error: string }> & {
+    error?: { cause?: { name?: string } };
+  };
+  if (data.error) {
+    const cause = data.error.cause?.name;
+    if (cause === "UNKNOWN_ACCESS_KEY" || cause === "UNKNOWN_ACCOUNT") {
+      return null;
+    }
+    throw new TransientError(`NEAR RPC error: ${data.error.message}`, "rpc_error");
   }
   if (!data.result) {
-    throw new Error("NEAR RPC returned no result");
+    throw new TransientError("NEAR RPC returned no result", "rpc_error");
+  }
+  // Older nodes report a missing key as an error string inside the result
+  if ("error" in data.result) {
+    if (/does not exist/.test(data.result.error)) {
+      return null;
+    }
+    throw new TransientError(`NEAR RPC error: ${data.result.error}`, "rpc_error");
   }
   return data.result;
 }
@@ -101,10 +162,10 @@ export async function nearViewCall<T = unknown>(
 
   const data = (await response.json()) as NearRpcResponse<ViewCallResult>;
   if (data.error) {
-    throw new Error(`NEAR RPC error: ${data.error.message}`);
+    throw new TransientError(`NEAR RPC error: ${data.error.message}`, "rpc_error");
   }
   if (!data.result) {
-    throw new Error("NEAR RPC returned no result");
+    throw new TransientError("NEAR RPC returned no result", "rpc_error");
   }
 
   // Decode the result from bytes to JSON
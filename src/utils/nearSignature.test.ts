@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 import nacl from "tweetnacl";
 import bs58 from "bs58";
 import crypto from "crypto";
@@ -7,8 +7,15 @@ import {
   verifyPublicKeyMatch,
   createIntentSigningMessage,
   validateIntentSignature,
+  verifyNearIntentAuthorization,
 } from "./nearSignature";
-import { NearUserSignature, LegacyUserSignature } from "../queue/types";
+import { AuthorizationError, ValidationError } from "../errors";
+import { NearUserSignature, LegacyUserSignature, ValidatedIntent } from "../queue/types";
+import { nearViewAccessKey } from "./nearRpc";
+
+vi.mock("./nearRpc", () => ({
+  nearViewAccessKey: vi.fn(),
+}));
 
 // Generate a test keypair
 const testKeypair = nacl.sign.keyPair();
@@ -288,6 +295,59 @@ describe("nearSignature", () => {
 
       expect(hash1).not.toBe(hash2);
     });
+
+    it("covers the market, mint and bridge-back destination of a borrow", () => {
+      const borrow = {
+        intentId: "test-123",
+        sourceAmount: "1000000",
+        finalAsset: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+        userDestination: "4cJgUe8TKEkJtqWSXoe4fAhN74LW2TbK4DGVkfdxUJZk",
+        metadata: {
+          action: "kamino-borrow",
+          marketAddress: "market-1",
+          mintAddress: "mint-1",
+          bridgeBack: {
+            destinationChain: "zcash",
+            destinationAddress: "t1user",
+            destinationAsset: "zec:zec",
+          },
+        },
+      };
+      const hash = createIntentSigningMessage(borrow);
+
+      const variants = [
+        { ...borrow.metadata, marketAddress: "market-2" },
+        { ...borrow.metadata, mintAddress: "mint-2" },
+        { ...borrow.metadata, bridgeBack: { ...borrow.metadata.bridgeBack, destinationAddress: "t1attacker" } },
+        { ...borrow.metadata, bridgeBack: undefined },
+      ];
+      for (const metadata of variants) {
+        expect(createIntentSigningMessage({ ...borrow, metadata })).not.toBe(hash);
+      }
+    });
+
+    it("does not depend on the key order of bridgeBack", () => {
+      const intent = {
+        intentId: "test-123",
+        sourceAmount: "1000000",
+        finalAsset: "wrap.near",
+        userDestination: "alice.near",
+        metadata: {
+          action: "burrow-borrow",
+          tokenId: "wrap.near",
+          bridgeBack: { destinationChain: "zcash", destinationAddress: "t1user", destinationAsset: "zec:zec" },
+        },
+      };
+      const reordered = {
+        ...intent,
+        metadata: {
+          ...intent.metadata,
+          bridgeBack: { destinationAsset: "zec:zec", destinationAddress: "t1user", destinationChain: "zcash" },
+        },
+      };
+
+      expect(createIntentSigningMessage(reordered)).toBe(createIntentSigningMessage(intent));
+    });
   });
 
   describe("validateIntentSignature", () => {
@@ -383,4 +443,87 @@ describe("nearSignature", () => {
       expect(result.error).toContain("Cryptographic verification failed");
     });
   });
+
+  describe("verifyNearIntentAuthorization", () => {
+    const intent = {
+      intentId: "test-123",
+      sourceAmount: "1000000",
+      finalAsset: "wrap.near",
+      userDestination: "alice.near",
+      nearPublicKey: testPublicKeyNear,
+      metadata: { action: "burrow-withdraw", tokenId: "wrap.near" },
+    } as unknown as ValidatedIntent;
+
+    beforeEach(() => {
+      vi.mocked(nearViewAccessKey).mockReset();
+      vi.mocked(nearViewAccessKey).mockResolvedValue({
+        nonce: 1,
+        permission: "FullAccess",
+        block_height: 1,
+        block_hash: "hash",
+      });
+    });
+
+    function signed(target: ValidatedIntent): ValidatedIntent {
+      return { ...target, userSignature: createTestUserSignature(createIntentSigningMessage(target)) };
+    }
+
+    it("accepts an intent signed by a full-access key of userDestination", async () => {
+      await expect(verifyNearIntentAuthorization(signed(intent), "Burrow withdraw")).resolves.toBeUndefined();
+      expect(nearViewAccessKey).toHaveBeenCalledWith("alice.near", testPublicKeyNear);
+    });
+
+    it("accepts the key behind an implicit userDestination without asking the chain", async () => {
+      const implicit = { ...intent, userDestination: Buffer.from(testKeypair.publicKey).toString("hex") };
+
+      await expect(verifyNearIntentAuthorization(signed(implicit), "Burrow withdraw")).resolves.toBeUndefined();
+      expect(nearViewAccessKey).not.toHaveBeenCalled();
+    });
+
+    it("rejects a key that isn't on userDestination", async () => {
+      vi.mocked(nearViewAccessKey).mockResolvedValue(null);
+
+      await expect(verifyNearIntentAuthorization(signed(intent), "Burrow withdraw")).rejects.toThrow(
+        new AuthorizationError(
+          "Authorization failed: nearPublicKey is not a full-access key of alice.near",
+          "key_not_authorized",
+        ),
+      );
+    });
+
+    it("rejects a function-call key of userDestination", async () => {
+      vi.mocked(nearViewAccessKey).mockResolvedValue({
+        nonce: 1,
+        permission: { FunctionCall: { allowance: null, receiver_id: "app.near", method_names: [] } },
+        block_height: 1,
+        block_hash: "hash",
+      });
+
+      await expect(verifyNearIntentAuthorization(signed(intent), "Burrow withdraw")).rejects.toThrow(
+        AuthorizationError,
+      );
+    });
+
+    it("requires nearPublicKey", async () => {
+      await expect(
+        verifyNearIntentAuthorization({ ...intent, nearPublicKey: undefined }, "Burrow withdraw"),
+      ).rejects.toThrow(new ValidationError("Burrow withdraw requires nearPublicKey to identify the user"));
+    });
+
+    it("requires userDestination", async () => {
+      await expect(
+        verifyNearIntentAuthorization({ ...intent, userDestination: "" }, "Burrow withdraw"),
+      ).rejects.toThrow(new ValidationError("Burrow withdraw requires userDestination to identify the user"));
+    });
+
+    it("rejects a signature over a different token", async () => {
+      const retargeted = {
+        ...signed(intent),
+        metadata: { action: "burrow-withdraw", tokenId: "usdt.tether-token.near" },
+      };
+
+      await expect(verifyNearIntentAuthorization(retargeted, "Burrow withdraw")).rejects.toThrow(AuthorizationError);
+      expect(nearViewAccessKey).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,7 +1,15 @@
 import nacl from "tweetnacl";
 import bs58 from "bs58";
 import crypto from "crypto";
-import { UserSignature, NearUserSignature, LegacyUserSignature } from "../queue/types";
+import { AuthorizationError, ValidationError } from "../errors";
+import {
+  BridgeBackConfig,
+  UserSignature,
+  NearUserSignature,
+  LegacyUserSignature,
+  ValidatedIntent,
+} from "../queue/types";
+import { nearViewAccessKey } from "./nearRpc";
 
 /**
  * NEP-413 Payload structure for message signing
@@ -219,6 +227,28 @@ export function verifyPublicKeyMatch(
   return normalizeKey(userSignature.publicKey) === normalizeKey(expectedPublicKey);
 }
 
+/**
+ * Metadata fields covered by an intent signature, so the same signature can't
+ * be pointed at another market, token or bridge-back destination. Fields an
+ * action doesn't use are left out of the signed message.
+ */
+export function signedMetadataFields(metadata?: Record<string, unknown>) {
+  const bridgeBack = metadata?.bridgeBack as BridgeBackConfig | undefined;
+  return {
+    action: metadata?.action,
+    marketAddress: metadata?.marketAddress,
+    mintAddress: metadata?.mintAddress,
+    tokenId: metadata?.tokenId,
+    // Rebuilt field by field so key order, and so the hash, is deterministic
+    bridgeBack: bridgeBack && {
+      destinationChain: bridgeBack.destinationChain,
+      destinationAddress: bridgeBack.destinationAddress,
+      destinationAsset: bridgeBack.destinationAsset,
+      slippageTolerance: bridgeBack.slippageTolerance,
+    },
+  };
+}
+
 /**
  * Creates the canonical message to sign for an intent
  * This ensures the user is signing a specific intent and not a generic message
@@ -238,7 +268,7 @@ export function createIntentSigningMessage(intent: {
     destinationAmount: intent.destinationAmount,
     finalAsset: intent.finalAsset,
     userDestination: intent.userDestination,
-    action: intent.metadata?.action,
+    ...signedMetadataFields(intent.metadata),
   });
 
   // Return SHA-256 hash as hex string
@@ -292,3 +322,56 @@ export function validateIntentSignature(
 
   return { isValid: true };
 }
+
+/**
+ * Verifies that a signature-authorized intent was signed (NEP-413) by its
+ * nearPublicKey over this exact intent, and that the key belongs to
+ * userDestination: flows act on the account derived from userDestination, so
+ * a valid signature from any other key must not reach it. The key must be
+ * the one behind userDestination's implicit account or a full-access key of
+ * it. `label` names the action in errors.
+ * Throws ValidationError or AuthorizationError if authorization fails
+ */
+export async function verifyNearIntentAuthorization(intent: ValidatedIntent, label: string): Promise<void> {
+  if (!intent.nearPublicKey) {
+    throw new ValidationError(`${label} requires nearPublicKey to identify the user`);
+  }
+
+  if (!intent.userDestination) {
+    throw new ValidationError(`${label} requires userDestination to identify the user`);
+  }
+
+  if (!intent.userSignature) {
+    throw new AuthorizationError(`${label} requires userSignature for authorization`, "missing_signature");
+  }
+
+  const result = validateIntentSignature(
+    intent.userSignature,
+    intent.nearPublicKey,
+    createIntentSigningMessage(intent),
+  );
+
+  if (!result.isValid) {
+    throw new AuthorizationError(`Authorization failed: ${result.error}`, "invalid_signature");
+  }
+
+  const publicKey = intent.nearPublicKey.startsWith("ed25519:")
+    ? intent.nearPublicKey
+    : `ed25519:${intent.nearPublicKey}`;
+  if (implicitAccountId(publicKey) === intent.userDestination) {
+    return;
+  }
+
+  const accessKey = await nearViewAccessKey(intent.userDestination, publicKey);
+  if (accessKey?.permission !== "FullAccess") {
+    throw new AuthorizationError(
+      `Authorization failed: nearPublicKey is not a full-access key of ${intent.userDestination}`,
+      "key_not_authorized",
+    );
+  }
+}
+
+/** The implicit account id for an ed25519 key: its 32 bytes in hex */
+function implicitAccountId(publicKey: string): string {
+  return Buffer.from(bs58.decode(publicKey.slice("ed25519:".length))).toString("hex");
+}
@@ -1,4 +1,5 @@
 import { config, isTestnet } from "../config";
+import { TransientError } from "../errors";
 import { fetchWithRetry } from "./http";
 import { nearViewCall } from "./nearRpc";
 
@@ -59,10 +60,10 @@ export async function getAccessKeyInfo(
   }>;
 
   if (data.error) {
-    throw new Error(`NEAR RPC error: ${data.error.message}`);
+    throw new TransientError(`NEAR RPC error: ${data.error.message}`, "rpc_error");
   }
   if (!data.result) {
-    throw new Error("NEAR RPC returned no result");
+    throw new TransientError("NEAR RPC returned no result", "rpc_error");
   }
 
   return {
@@ -99,10 +100,10 @@ export async function broadcastTransaction(
   }>;
 
   if (data.error) {
-    throw new Error(`NEAR broadcast error: ${data.error.message}`);
+    throw new TransientError(`NEAR broadcast error: ${data.error.message}`, "rpc_error");
   }
   if (!data.result) {
-    throw new Error("NEAR broadcast returned no result");
+    throw new TransientError("NEAR broadcast returned no result", "rpc_error");
   }
 
   return { txHash: data.result.transaction.hash };
@@ -0,0 +1,18 @@
+import {
+  OneClickService,
+  OpenAPI,
+  SubmitDepositTxRequest,
+} from "@defuse-protocol/one-click-sdk-typescript";
+import { config } from "../config";
+
+/** Forwards the user's deposit transaction to 1-Click, so settlement need not wait for its detection */
+export async function submitDepositTx(request: SubmitDepositTxRequest): Promise<void> {
+  if (config.intentsQuoteUrl) {
+    OpenAPI.BASE = config.intentsQuoteUrl;
+  }
+  await OneClickService.submitDepositTx(request);
+  console.info("[oneClick] Submitted deposit tx to 1-Click", {
+    txHash: request.txHash,
+    depositAddress: request.depositAddress,
+  });
+}
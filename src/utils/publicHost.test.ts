@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ValidationError } from "../errors";
+import { assertPublicUrl, isPublicAddress } from "./publicHost";
+
+const { lookupMock } = vi.hoisted(() => ({
+  lookupMock: vi.fn(),
+}));
+
+vi.mock("dns", () => ({
+  default: { promises: { lookup: lookupMock } },
+}));
+
+describe("isPublicAddress", () => {
+  it("accepts public addresses", () => {
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+  });
+
+  it("rejects loopback, private, link-local and unspecified addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("rejects anything that isn't an IP address", () => {
+    expect(isPublicAddress("localhost")).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  beforeEach(() => {
+    lookupMock.mockReset();
+  });
+
+  it("accepts a host that only resolves to public addresses", async () => {
+    lookupMock.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+    await expect(assertPublicUrl("https://example.com/hooks")).resolves.toBeUndefined();
+    expect(lookupMock).toHaveBeenCalledWith("example.com", { all: true });
+  });
+
+  it("rejects a host with any non-public address", async () => {
+    lookupMock.mockResolvedValue([
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+    await expect(assertPublicUrl("https://example.com/hooks")).rejects.toThrow(/non-public address 10.0.0.5/);
+  });
+
+  it("checks IP literals without resolving them", async () => {
+    await expect(assertPublicUrl("http://[::1]:8080/hooks")).rejects.toThrow(ValidationError);
+    await expect(assertPublicUrl("http://2130706433/hooks")).rejects.toThrow(/127.0.0.1/);
+    expect(lookupMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a host that can't be resolved", async () => {
+    lookupMock.mockRejectedValue(new Error("getaddrinfo ENOTFOUND nowhere.invalid"));
+    await expect(assertPublicUrl("https://nowhere.invalid/hooks")).rejects.toThrow(/could not be resolved/);
+  });
+
+  it("trusts allowed hosts", async () => {
+    await expect(
+      assertPublicUrl("http://hooks.internal:9000/cb", ["hooks.internal"]),
+    ).resolves.toBeUndefined();
+    expect(lookupMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import dns from "dns";
+import net from "net";
+import { ValidationError } from "../errors";
+
+/** Loopback, private, link-local and reserved ranges, in both families */
+const NON_PUBLIC = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, "ipv6");
+}
+
+/** Whether `address` is an IP literal outside the ranges above (IPv4-mapped IPv6 included) */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return !NON_PUBLIC.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Throws a ValidationError unless every address the URL's host resolves to is
+ * public, so the server can't be pointed at itself or its private network.
+ * Hosts listed in `allowedHosts` are trusted without resolving them.
+ */
+export async function assertPublicUrl(url: string, allowedHosts: readonly string[] = []): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (allowedHosts.includes(hostname)) return;
+
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+    } catch (err) {
+      throw new ValidationError(`Host ${hostname} could not be resolved: ${(err as Error).message}`);
+    }
+  }
+
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked) {
+    throw new ValidationError(`Host ${hostname} resolves to non-public address ${blocked}`);
+  }
+}
@@ -1,6 +1,7 @@
 import { chainAdapters, contracts } from "chainsig.js";
 import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { config } from "../config";
+import { solanaTransactionError } from "../errors";
 
 export const SOLANA_DEFAULT_PATH = "solana-1";
 
@@ -92,7 +93,7 @@ export async function broadcastSolanaTx(tx: VersionedTransaction, skipConfirmati
       "confirmed",
     );
     if (confirmation.value.err) {
-      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+      throw solanaTransactionError(confirmation.value.err);
     }
   }
 
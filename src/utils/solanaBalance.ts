@@ -1,6 +1,7 @@
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { getAssociatedTokenAddress, getAccount } from "@solana/spl-token";
 import { config } from "../config";
+import { TransientError } from "../errors";
 import { SOL_NATIVE_MINT } from "../constants";
 
 const connection = new Connection(config.solRpcUrl, "confirmed");
@@ -74,8 +75,9 @@ export async function waitForTokenBalance(
     await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
   }
 
-  throw new Error(
+  throw new TransientError(
     `Timeout waiting for token balance. Expected ${expectedAmount} but current balance is ${await getTokenBalance(ownerAddress, mintAddress)}`,
+    "balance_timeout",
   );
 }
 
@@ -2,6 +2,9 @@ import nacl from "tweetnacl";
 import bs58 from "bs58";
 import crypto from "crypto";
 import { PublicKey } from "@solana/web3.js";
+import { AuthorizationError, ValidationError } from "../errors";
+import { ValidatedIntent } from "../queue/types";
+import { signedMetadataFields } from "./nearSignature";
 
 /**
  * Solana signature structure for intent authorization
@@ -124,7 +127,7 @@ export function createSolanaIntentSigningMessage(intent: {
     destinationAmount: intent.destinationAmount,
     finalAsset: intent.finalAsset,
     userDestination: intent.userDestination,
-    action: intent.metadata?.action,
+    ...signedMetadataFields(intent.metadata),
   });
 
   // Return SHA-256 hash as hex string
@@ -170,3 +173,37 @@ export function validateSolanaIntentSignature(
 
   return { isValid: true };
 }
+
+/**
+ * Verifies that a signature-authorized intent was signed by its userDestination
+ * Solana address over this exact intent. `label` names the action in errors.
+ * Throws ValidationError or AuthorizationError if authorization fails
+ */
+export function verifySolanaIntentAuthorization(intent: ValidatedIntent, label: string): void {
+  if (!intent.userDestination) {
+    throw new ValidationError(`${label} requires userDestination to identify the user`);
+  }
+
+  if (!intent.userSignature) {
+    throw new AuthorizationError(`${label} requires userSignature for authorization`, "missing_signature");
+  }
+
+  // NEAR signatures carry a nonce and recipient; only a Solana one can match userDestination
+  if ("nonce" in intent.userSignature || "recipient" in intent.userSignature) {
+    throw new AuthorizationError(`${label} requires a Solana signature, not a NEAR signature`, "wrong_signature_type");
+  }
+
+  const result = validateSolanaIntentSignature(
+    {
+      message: intent.userSignature.message,
+      signature: intent.userSignature.signature,
+      publicKey: intent.userSignature.publicKey,
+    },
+    intent.userDestination,
+    createSolanaIntentSigningMessage(intent),
+  );
+
+  if (!result.isValid) {
+    throw new AuthorizationError(`Authorization failed: ${result.error}`, "invalid_signature");
+  }
+}